@@ -8,6 +8,9 @@ import { AuthProvider } from './contexts/AuthContext';
 import { AuthModal } from './components/AuthModal';
 import { UserPanel } from './components/UserPanel';
 import { MatchmakingPanel } from './components/MatchmakingPanel';
+import Pocket from './components/Pocket';
+import { DropChess, DropPiece, Pocket as PocketCounts, isDropVariant } from './utils/dropChess';
+import { createVariantBoard, isRulesVariant } from './utils/variantChess';
 import MoveExplanationModal from './components/MoveExplanationModal';
 import { MobileNav } from './components/MobileNav';
 import { getStoredToken } from './api/auth';
@@ -21,6 +24,7 @@ const LessonsMode = lazy(() => import('./components/LessonsMode'));
 const KrogLeaderboard = lazy(() => import('./components/KrogLeaderboard'));
 const FAQModal = lazy(() => import('./components/FAQModal'));
 const FriendsPanel = lazy(() => import('./components/FriendsPanel').then(m => ({ default: m.FriendsPanel })));
+const CorrespondencePanel = lazy(() => import('./components/CorrespondencePanel').then(m => ({ default: m.CorrespondencePanel })));
 const ClubsPanel = lazy(() => import('./components/ClubsPanel').then(m => ({ default: m.ClubsPanel })));
 const TournamentPanel = lazy(() => import('./components/TournamentPanel').then(m => ({ default: m.TournamentPanel })));
 const LeaguePanel = lazy(() => import('./components/LeaguePanel').then(m => ({ default: m.LeaguePanel })));
@@ -58,13 +62,18 @@ const socket = io(getSocketUrl(), {
 type PlayerColor = 'white' | 'black' | 'spectator' | null;
 type TimeControlType = 'bullet' | 'blitz' | 'rapid' | 'unlimited';
 type Language = 'en' | 'no';
-type VariantType = 'standard' | 'chess960' | 'threeCheck' | 'kingOfTheHill';
+type VariantType =
+  | 'standard' | 'chess960' | 'threeCheck' | 'kingOfTheHill' | 'crazyhouse' | 'bughouse'
+  | 'atomic' | 'antichess' | 'horde' | 'racingKings';
 
 interface VariantState {
   variant: VariantType;
   positionId?: number;
   checkCount?: { white: number; black: number };
   hillReached?: boolean;
+  pockets?: { white: PocketCounts; black: PocketCounts };
+  promoted?: string[];
+  bughouse?: { board: 'a' | 'b'; partnerRoom: string };
 }
 
 interface ClockState {
@@ -77,6 +86,38 @@ interface TimeControl {
   type: TimeControlType;
   initialTime: number;
   increment: number;
+  delay?: number;
+  delayMode?: 'us' | 'bronstein';
+  stages?: { afterMove: number; addTime: number; increment: number }[];
+}
+
+// Custom clock settings: minutes for times, seconds for increment and delay
+interface CustomClock {
+  minutes: number;
+  increment: number;
+  delayMode: 'none' | 'us' | 'bronstein';
+  delay: number;
+  stageMoves: number;  // 0 for a single-stage control
+  stageMinutes: number;
+}
+
+type PieceOdds = 'pawnAndMove' | 'knight' | 'rook' | 'queen';
+
+// Handicap for a game: piece and draw odds go to a colour, clock odds are each colour's minutes
+interface GameOdds {
+  piece?: { type: PieceOdds; giver: 'white' | 'black' };
+  clock?: { white: number; black: number };
+  drawOdds?: 'white' | 'black';
+}
+
+// Odds settings in the lobby
+interface OddsForm {
+  piece: PieceOdds | 'none';
+  giver: 'white' | 'black';
+  clockOdds: boolean;
+  whiteMinutes: number;
+  blackMinutes: number;
+  drawOdds: 'none' | 'white' | 'black';
 }
 
 interface MoveExplanation {
@@ -145,13 +186,69 @@ const TIME_CONTROL_OPTIONS: { type: TimeControlType; label: string; description:
   { type: 'unlimited', label: '∞', description: 'No clock' }
 ];
 
+// Time control string the server understands, e.g. "15+10", "5+0 d3" or "40/90+30, 30+30"
+function customTimeControlSpec(clock: CustomClock): string {
+  const increment = `+${clock.increment}`;
+  const periods = clock.stageMoves > 0
+    ? `${clock.stageMoves}/${clock.minutes}${increment}, ${clock.stageMinutes}${increment}`
+    : `${clock.minutes}${increment}`;
+  const delay = clock.delayMode !== 'none' && clock.delay > 0
+    ? ` ${clock.delayMode === 'us' ? 'd' : 'b'}${clock.delay}`
+    : '';
+  return periods + delay;
+}
+
+// Odds as the server expects them, or undefined for an even game
+function requestedOdds(form: OddsForm): GameOdds | undefined {
+  const odds: GameOdds = {};
+  if (form.piece !== 'none') {
+    // Pawn and move is always given by Black
+    odds.piece = { type: form.piece, giver: form.piece === 'pawnAndMove' ? 'black' : form.giver };
+  }
+  if (form.clockOdds) odds.clock = { white: form.whiteMinutes, black: form.blackMinutes };
+  if (form.drawOdds !== 'none') odds.drawOdds = form.drawOdds;
+  return odds.piece || odds.clock || odds.drawOdds ? odds : undefined;
+}
+
+const PIECE_ODDS_LABELS: Record<PieceOdds, string> = {
+  pawnAndMove: 'pawn and move',
+  knight: 'a knight',
+  rook: 'a rook',
+  queen: 'the queen'
+};
+
+// e.g. "White gives a knight, clocks 3 / 10 min, draw odds for Black"
+function describeOdds(odds: GameOdds): string {
+  const colorName = (color: 'white' | 'black') => color === 'white' ? 'White' : 'Black';
+  const parts: string[] = [];
+  if (odds.piece) parts.push(`${colorName(odds.piece.giver)} gives ${PIECE_ODDS_LABELS[odds.piece.type]}`);
+  if (odds.clock) parts.push(`clocks ${odds.clock.white} / ${odds.clock.black} min`);
+  if (odds.drawOdds) parts.push(`draw odds for ${colorName(odds.drawOdds)}`);
+  return parts.join(', ');
+}
+
 const VARIANT_OPTIONS: { type: VariantType; label: string; description: string }[] = [
   { type: 'standard', label: 'Standard', description: 'Classic chess' },
   { type: 'chess960', label: 'Chess960', description: 'Random start position' },
   { type: 'threeCheck', label: '3-Check', description: 'Win by giving 3 checks' },
-  { type: 'kingOfTheHill', label: 'KotH', description: 'Win by reaching center' }
+  { type: 'kingOfTheHill', label: 'KotH', description: 'Win by reaching center' },
+  { type: 'crazyhouse', label: 'Crazyhouse', description: 'Drop captured pieces' },
+  { type: 'bughouse', label: 'Bughouse', description: 'Two boards, teams of two' },
+  { type: 'atomic', label: 'Atomic', description: 'Captures explode' },
+  { type: 'antichess', label: 'Antichess', description: 'Lose all your pieces to win' },
+  { type: 'horde', label: 'Horde', description: '36 pawns against an army' },
+  { type: 'racingKings', label: 'Racing Kings', description: 'Race your king to the 8th rank' }
 ];
 
+// How the variants with rules of their own are won, shown under the board
+const VARIANT_RULE_HINTS: Partial<Record<VariantType, string>> = {
+  chess960: 'Castle by moving your King onto the Rook',
+  atomic: 'Captures explode: win by blowing up the enemy King',
+  antichess: 'Captures are compulsory: win by losing all your pieces',
+  horde: 'Black wins by capturing every pawn, White by checkmate',
+  racingKings: 'First King to the 8th rank wins - no checks allowed'
+};
+
 type Difficulty = 'beginner' | 'intermediate' | 'advanced';
 
 const DIFFICULTY_OPTIONS: { type: Difficulty; label: string; description: string }[] = [
@@ -160,6 +257,11 @@ const DIFFICULTY_OPTIONS: { type: Difficulty; label: string; description: string
   { type: 'advanced', label: 'Advanced', description: 'Strong opponent' }
 ];
 
+// Round-trip time shown beside a player's name, e.g. " · 85ms"
+function formatLag(rtt: number | null): string {
+  return rtt === null ? '' : ` \u00b7 ${rtt}ms`;
+}
+
 // Format milliseconds to MM:SS.t
 function formatTime(ms: number): string {
   if (ms <= 0) return '0:00';
@@ -182,11 +284,22 @@ function App() {
   const [playerColor, setPlayerColor] = useState<PlayerColor>(null);
   const [joinCodeInput, setJoinCodeInput] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControlType>('unlimited');
+  const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControlType | 'custom'>('unlimited');
+  const [customClock, setCustomClock] = useState<CustomClock>({ minutes: 15, increment: 10, delayMode: 'none', delay: 0, stageMoves: 0, stageMinutes: 30 });
+  const [oddsForm, setOddsForm] = useState<OddsForm>({ piece: 'none', giver: 'white', clockOdds: false, whiteMinutes: 10, blackMinutes: 5, drawOdds: 'none' });
+  const [gameOdds, setGameOdds] = useState<GameOdds | null>(null);
   const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
   const [clock, setClock] = useState<ClockState>({ white: 0, black: 0, activeColor: null });
   const [gameOverMessage, setGameOverMessage] = useState<string | null>(null);
   const [drawOffer, setDrawOffer] = useState<'white' | 'black' | null>(null);
+  const [takebackRequest, setTakebackRequest] = useState<'white' | 'black' | null>(null);
+  const [premove, setPremove] = useState<{ from: string; to: string; promotion?: string } | null>(null);
+  const [dropPiece, setDropPiece] = useState<DropPiece | null>(null);
+  const [lag, setLag] = useState<{ white: number | null; black: number | null }>({ white: null, black: null });
+  const [absentPlayer, setAbsentPlayer] = useState<{ color: 'white' | 'black'; deadline: number; abandoned: boolean; canAbort: boolean } | null>(null);
+  const [absentSecondsLeft, setAbsentSecondsLeft] = useState(0);
+  const [firstMoveDeadline, setFirstMoveDeadline] = useState<{ color: 'white' | 'black'; deadline: number; canAbort: boolean } | null>(null);
+  const [firstMoveSecondsLeft, setFirstMoveSecondsLeft] = useState(0);
   const [showResignConfirm, setShowResignConfirm] = useState(false);
   const [rematchRequest, setRematchRequest] = useState<'white' | 'black' | null>(null);
   const [moveExplanation, setMoveExplanation] = useState<MoveExplanation | null>(null);
@@ -247,6 +360,9 @@ function App() {
   const [selectedPlayerColor, setSelectedPlayerColor] = useState<'white' | 'black' | 'random'>('white');
   const [isComputerGame, setIsComputerGame] = useState(false);
 
+  // Arena game state (null when not playing an arena game)
+  const [arenaBerserk, setArenaBerserk] = useState<{ white?: boolean; black?: boolean } | null>(null);
+
   // Spectator state
   const [spectators, setSpectators] = useState<{ id: string; username: string }[]>([]);
 
@@ -272,14 +388,17 @@ function App() {
   interface Challenge {
     challengeId: string;
     from: { id: string; username: string; rating: number; socketId?: string };
-    timeControl: TimeControlType;
+    timeControl: string;
     variant: VariantType;
+    color?: 'white' | 'black';  // The challenger's colour
+    odds?: GameOdds;
   }
   interface OutgoingChallenge {
     challengeId: string;
     to: { id: string; username: string; rating: number };
-    timeControl: TimeControlType;
+    timeControl: string;
     variant: VariantType;
+    odds?: GameOdds;
   }
   const [incomingChallenges, setIncomingChallenges] = useState<Challenge[]>([]);
   const [outgoingChallenges, setOutgoingChallenges] = useState<OutgoingChallenge[]>([]);
@@ -289,6 +408,24 @@ function App() {
     soundEnabledRef.current = soundEnabled;
   }, [soundEnabled]);
 
+  // Count down while a player is disconnected
+  useEffect(() => {
+    if (!absentPlayer || absentPlayer.abandoned) return;
+    const tick = () => setAbsentSecondsLeft(Math.max(0, Math.ceil((absentPlayer.deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [absentPlayer]);
+
+  // Count down to the abort while the side to move has not made their first move
+  useEffect(() => {
+    if (!firstMoveDeadline) return;
+    const tick = () => setFirstMoveSecondsLeft(Math.max(0, Math.ceil((firstMoveDeadline.deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [firstMoveDeadline]);
+
   // Authenticate socket on connect
   useEffect(() => {
     const token = getStoredToken();
@@ -298,15 +435,17 @@ function App() {
   }, []);
 
   // Handle matchmaking callback
-  const handleMatchFound = useCallback((data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string }) => {
+  const handleMatchFound = useCallback((data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string; isComputerGame?: boolean }) => {
     setRoomCode(data.roomCode);
     setPlayerColor(data.color);
     setMatchOpponent(data.opponent);
+    setIsComputerGame(!!data.isComputerGame);
     setGame(new Chess());
     setGameOverMessage(null);
     setMoveExplanation(null);
     setIllegalMoveExplanation(null);
     setDrawOffer(null);
+    setAbsentPlayer(null);
     setRematchRequest(null);
     setRatingChange(null);
     if (soundEnabledRef.current) {
@@ -347,12 +486,30 @@ function App() {
     }
 
     function onGameState(data: GameStateData) {
-      const newGame = new Chess();
-      // Load from PGN to preserve move history
-      if (data.pgn) {
-        newGame.loadPgn(data.pgn);
+      setTakebackRequest(null);  // A move or takeback settles any pending request
+      setDropPiece(null);
+      let newGame: Chess;
+      if (isDropVariant(data.variant)) {
+        // Drops are beyond chess.js's PGN reader
+        newGame = data.pgn ? DropChess.fromPgn(data.pgn) : new DropChess(data.fen);
+      } else if (isRulesVariant(data.variant)) {
+        // So are the move rules of Atomic, Antichess, Horde, Racing Kings and Chess960 castling
+        newGame = data.pgn ? createVariantBoard(data.variant!) : createVariantBoard(data.variant!, data.fen);
+        if (data.pgn) {
+          newGame.loadPgn(data.pgn);
+        }
       } else {
-        newGame.load(data.fen);
+        newGame = new Chess();
+        // Load from PGN to preserve move history
+        if (data.pgn) {
+          newGame.loadPgn(data.pgn);
+        } else {
+          newGame.load(data.fen);
+        }
+      }
+      // A move hands the first-move countdown to the other side (or ends the abort window)
+      if (data.lastMove || newGame.history().length >= 2) {
+        setFirstMoveDeadline(null);
       }
 
       // Update variant state if provided
@@ -400,23 +557,27 @@ function App() {
       setGame(newGame);
     }
 
-    function onRoomCreated({ code, timeControl: tc, variant: v, variantState: vs, isComputerGame: isComputer }: { code: string; timeControl: TimeControl; variant?: VariantType; variantState?: VariantState; isComputerGame?: boolean }) {
+    function onRoomCreated({ code, timeControl: tc, variant: v, variantState: vs, isComputerGame: isComputer, odds }: { code: string; timeControl: TimeControl; variant?: VariantType; variantState?: VariantState; isComputerGame?: boolean; odds?: GameOdds }) {
       setRoomCode(code);
       setTimeControl(tc);
       if (v) setVariant(v);
       if (vs) setVariantState(vs);
+      setGameOdds(odds || null);
       setIsComputerGame(!!isComputer);
       setGameOverMessage(null);
+      setAbsentPlayer(null);
       setError(null);
       console.log('Room created:', code, tc, v, isComputer ? '(vs Computer)' : '');
     }
 
-    function onRoomJoined({ code, timeControl: tc, variant: v, variantState: vs }: { code: string; timeControl: TimeControl; variant?: VariantType; variantState?: VariantState }) {
+    function onRoomJoined({ code, timeControl: tc, variant: v, variantState: vs, odds }: { code: string; timeControl: TimeControl; variant?: VariantType; variantState?: VariantState; odds?: GameOdds }) {
       setRoomCode(code);
       setTimeControl(tc);
       if (v) setVariant(v);
       if (vs) setVariantState(vs);
+      setGameOdds(odds || null);
       setGameOverMessage(null);
+      setAbsentPlayer(null);
       setError(null);
       console.log('Joined room:', code, tc, v);
     }
@@ -440,15 +601,30 @@ function App() {
         timeout: 'Time out',
         agreement: 'Draw by agreement',
         resignation: 'Resignation',
+        abandonment: 'Opponent left the game',
+        aborted: 'Game aborted',
         // Variant-specific
         three_check: 'Three checks delivered',
-        king_of_the_hill: 'King reached the hill'
+        king_of_the_hill: 'King reached the hill',
+        partner_board: 'Decided on the partner board',
+        king_exploded: 'King exploded',
+        all_pieces_lost: 'All pieces lost',
+        no_legal_moves: 'No legal moves left',
+        horde_destroyed: 'Horde destroyed',
+        race_won: 'King reached the eighth rank',
+        race_drawn: 'Both kings reached the goal - Draw',
+        draw_odds: 'Drawn game, scored by draw odds'
       };
       setDrawOffer(null); // Clear any pending draw offer
+      setPremove(null);
+      setAbsentPlayer(null);
+      setFirstMoveDeadline(null);
       if (ratingChanges) {
         setRatingChange(ratingChanges);
       }
-      if (winner === 'draw') {
+      if (winner === 'none') {
+        setGameOverMessage(reasonText[reason] || 'Game Over');
+      } else if (winner === 'draw') {
         setGameOverMessage(reasonText[reason] || 'Game Over - Draw');
       } else {
         setGameOverMessage(`${reasonText[reason] || 'Game Over'} - ${winner.charAt(0).toUpperCase() + winner.slice(1)} wins!`);
@@ -456,6 +632,11 @@ function App() {
       if (soundEnabledRef.current) ChessSounds.gameEnd();
     }
 
+    // Bughouse: a capture on the partner board filled a pocket here
+    function onVariantState({ variantState: vs }: { variant: VariantType; variantState: VariantState }) {
+      setVariantState(vs);
+    }
+
     function onDrawOffered({ by }: { by: 'white' | 'black' }) {
       setDrawOffer(by);
       if (soundEnabledRef.current) ChessSounds.drawOffer();
@@ -469,6 +650,32 @@ function App() {
       setDrawOffer(null);
     }
 
+    function onTakebackRequested({ by }: { by: 'white' | 'black' }) {
+      setTakebackRequest(by);
+      if (soundEnabledRef.current) ChessSounds.notify();
+    }
+
+    function onTakebackDeclined() {
+      setTakebackRequest(null);
+    }
+
+    function onPremoveSet({ move }: { move: { from: string; to: string; promotion?: string } | null }) {
+      setPremove(move);
+    }
+
+    function onPremoveCleared() {
+      setPremove(null);
+    }
+
+    // The server measures our round trip to credit lag back to the clock
+    function onLagPing(data: { sentAt: number }) {
+      socket.emit('lag_pong', data);
+    }
+
+    function onLagUpdate(data: { white: number | null; black: number | null }) {
+      setLag(data);
+    }
+
     function onPlayerResigned({ winner }: { player: string; winner: string }) {
       setDrawOffer(null);
       setGameOverMessage(`Resignation - ${winner.charAt(0).toUpperCase() + winner.slice(1)} wins!`);
@@ -481,8 +688,10 @@ function App() {
 
     function onRematchAccepted() {
       setRematchRequest(null);
+      setPremove(null);
       setGameOverMessage(null);
       setDrawOffer(null);
+      setAbsentPlayer(null);
       setMoveExplanation(null);
       setIllegalMoveExplanation(null);
       setSuggestions([]);
@@ -545,6 +754,24 @@ function App() {
       console.log('Player left:', color);
     }
 
+    function onOpponentDisconnected({ color, deadline }: { color: 'white' | 'black'; deadline: number; graceSeconds: number }) {
+      setAbsentPlayer({ color, deadline, abandoned: false, canAbort: false });
+      if (soundEnabledRef.current) ChessSounds.notify();
+    }
+
+    function onOpponentReconnected() {
+      setAbsentPlayer(null);
+    }
+
+    function onFirstMoveDeadline(data: { color: 'white' | 'black'; deadline: number; canAbort: boolean }) {
+      setFirstMoveDeadline(data);
+    }
+
+    function onOpponentAbandoned({ color, canAbort }: { color: 'white' | 'black'; canAbort: boolean }) {
+      setAbsentPlayer(prev => ({ color, deadline: prev?.deadline ?? Date.now(), abandoned: true, canAbort }));
+      if (soundEnabledRef.current) ChessSounds.notify();
+    }
+
     function onSpectatorUpdate({ count, spectators: specs }: { count: number; spectators: { id: string; username: string }[] }) {
       setSpectators(specs);
       console.log('Spectators:', count, specs);
@@ -555,23 +782,24 @@ function App() {
     }
 
     // Challenge handlers
-    function onChallengeReceived(data: { challengeId: string; from: { id: string; username: string; rating: number }; timeControl: TimeControlType; variant: VariantType }) {
+    function onChallengeReceived(data: { challengeId: string; from: { id: string; username: string; rating: number }; timeControl: string; variant: VariantType; color?: 'white' | 'black'; odds?: GameOdds }) {
       setIncomingChallenges(prev => [...prev, data]);
       if (soundEnabledRef.current) ChessSounds.notify();
     }
 
-    function onChallengeSent(data: { success: boolean; challengeId?: string; to?: { id: string; username: string; rating: number }; timeControl?: TimeControlType; variant?: VariantType; error?: string }) {
+    function onChallengeSent(data: { success: boolean; challengeId?: string; to?: { id: string; username: string; rating: number }; timeControl?: string; variant?: VariantType; odds?: GameOdds; error?: string }) {
       if (data.success && data.challengeId && data.to && data.timeControl) {
         setOutgoingChallenges(prev => [...prev, {
           challengeId: data.challengeId!,
           to: data.to!,
           timeControl: data.timeControl!,
-          variant: data.variant || 'standard'
+          variant: data.variant || 'standard',
+          odds: data.odds
         }]);
       }
     }
 
-    function onChallengeAccepted(data: { success: boolean; roomCode?: string; color?: 'white' | 'black'; opponent?: { username: string; rating: number }; timeControl?: string; variant?: VariantType; error?: string }) {
+    function onChallengeAccepted(data: { success: boolean; roomCode?: string; color?: 'white' | 'black'; opponent?: { username: string; rating: number }; timeControl?: string; variant?: VariantType; odds?: GameOdds; error?: string }) {
       if (data.success && data.roomCode) {
         setIncomingChallenges([]);
         setOutgoingChallenges([]);
@@ -579,6 +807,7 @@ function App() {
         setPlayerColor(data.color || null);
         setMatchOpponent(data.opponent || null);
         setVariant(data.variant || 'standard');
+        setGameOdds(data.odds || null);
         setGame(new Chess());
         setGameOverMessage(null);
         setMoveExplanation(null);
@@ -602,6 +831,14 @@ function App() {
       setOutgoingChallenges(prev => prev.filter(c => c.challengeId !== data.challengeId));
     }
 
+    function onArenaGameInfo({ berserk }: { tournamentId: string; berserk: { white?: boolean; black?: boolean } }) {
+      setArenaBerserk(berserk);
+    }
+
+    function onPlayerBerserked({ color }: { color: 'white' | 'black' }) {
+      setArenaBerserk(prev => ({ ...prev, [color]: true }));
+    }
+
     socket.on('connect', onConnect);
     socket.on('disconnect', onDisconnect);
     socket.on('game_state', onGameState);
@@ -611,12 +848,24 @@ function App() {
     socket.on('error', onError);
     socket.on('player_joined', onPlayerJoined);
     socket.on('player_left', onPlayerLeft);
+    socket.on('opponent_disconnected', onOpponentDisconnected);
+    socket.on('opponent_reconnected', onOpponentReconnected);
+    socket.on('opponent_abandoned', onOpponentAbandoned);
+    socket.on('first_move_deadline', onFirstMoveDeadline);
     socket.on('clock_update', onClockUpdate);
     socket.on('time_forfeit', onTimeForfeit);
     socket.on('game_over', onGameOver);
+    socket.on('variant_state', onVariantState);
     socket.on('draw_offered', onDrawOffered);
     socket.on('draw_accepted', onDrawAccepted);
     socket.on('draw_declined', onDrawDeclined);
+    socket.on('takeback_requested', onTakebackRequested);
+    socket.on('takeback_declined', onTakebackDeclined);
+    socket.on('premove_set', onPremoveSet);
+    socket.on('premove_cleared', onPremoveCleared);
+    socket.on('lag_ping', onLagPing);
+    socket.on('lag_update', onLagUpdate);
+    socket.on('takeback_accepted', onPremoveCleared);
     socket.on('player_resigned', onPlayerResigned);
     socket.on('rematch_requested', onRematchRequested);
     socket.on('rematch_accepted', onRematchAccepted);
@@ -632,6 +881,8 @@ function App() {
     socket.on('challenge_accepted', onChallengeAccepted);
     socket.on('challenge_declined', onChallengeDeclined);
     socket.on('challenge_cancelled', onChallengeCancelled);
+    socket.on('arena_game_info', onArenaGameInfo);
+    socket.on('player_berserked', onPlayerBerserked);
 
     if (socket.connected) {
       onConnect();
@@ -647,12 +898,24 @@ function App() {
       socket.off('error', onError);
       socket.off('player_joined', onPlayerJoined);
       socket.off('player_left', onPlayerLeft);
+      socket.off('opponent_disconnected', onOpponentDisconnected);
+      socket.off('opponent_reconnected', onOpponentReconnected);
+      socket.off('opponent_abandoned', onOpponentAbandoned);
+      socket.off('first_move_deadline', onFirstMoveDeadline);
       socket.off('clock_update', onClockUpdate);
       socket.off('time_forfeit', onTimeForfeit);
       socket.off('game_over', onGameOver);
+      socket.off('variant_state', onVariantState);
       socket.off('draw_offered', onDrawOffered);
       socket.off('draw_accepted', onDrawAccepted);
       socket.off('draw_declined', onDrawDeclined);
+      socket.off('takeback_requested', onTakebackRequested);
+      socket.off('takeback_declined', onTakebackDeclined);
+      socket.off('premove_set', onPremoveSet);
+      socket.off('premove_cleared', onPremoveCleared);
+      socket.off('lag_ping', onLagPing);
+      socket.off('lag_update', onLagUpdate);
+      socket.off('takeback_accepted', onPremoveCleared);
       socket.off('player_resigned', onPlayerResigned);
       socket.off('rematch_requested', onRematchRequested);
       socket.off('rematch_accepted', onRematchAccepted);
@@ -668,12 +931,18 @@ function App() {
       socket.off('challenge_accepted', onChallengeAccepted);
       socket.off('challenge_declined', onChallengeDeclined);
       socket.off('challenge_cancelled', onChallengeCancelled);
+      socket.off('arena_game_info', onArenaGameInfo);
+      socket.off('player_berserked', onPlayerBerserked);
     };
   }, []);
 
+  // Preset name or custom time control string, as the server expects it
+  const requestedTimeControl = selectedTimeControl === 'custom' ? customTimeControlSpec(customClock) : selectedTimeControl;
+  const odds = requestedOdds(oddsForm);
+
   const createRoom = () => {
     setError(null);
-    socket.emit('create_room', { timeControl: selectedTimeControl, variant: selectedVariant });
+    socket.emit('create_room', { timeControl: requestedTimeControl, variant: selectedVariant, odds });
   };
 
   const createComputerGame = () => {
@@ -682,10 +951,11 @@ function App() {
       ? (Math.random() < 0.5 ? 'white' : 'black')
       : selectedPlayerColor;
     socket.emit('create_computer_game', {
-      timeControl: selectedTimeControl,
+      timeControl: requestedTimeControl,
       variant: selectedVariant,
       playerColor,
-      difficulty: selectedDifficulty
+      difficulty: selectedDifficulty,
+      odds
     });
   };
 
@@ -717,12 +987,15 @@ function App() {
     setIllegalMoveExplanation(null);
     setMatchOpponent(null);
     setRatingChange(null);
+    setFirstMoveDeadline(null);
     setVariant('standard');
     setVariantState({ variant: 'standard' });
     setIsComputerGame(false);
     setShowComputerOptions(false);
+    setGameOdds(null);
     setSpectators([]);
     setChatMessages([]);
+    setArenaBerserk(null);
   };
 
   // Mobile navigation tab change handler
@@ -803,6 +1076,7 @@ function App() {
     setIllegalMoveExplanation(null);
     setSuggestions([]);
     setDrawOffer(null);
+    setPremove(null);
     setRatingChange(null);
 
     // Analysis mode - reset locally
@@ -832,6 +1106,48 @@ function App() {
     socket.emit('decline_draw', { roomId: roomCode });
   };
 
+  // Crazyhouse/Bughouse: put the picked pocket piece on a square
+  const handleDrop = (square: string) => {
+    if (!roomCode || !dropPiece) return;
+    socket.emit('make_move', { roomId: roomCode, move: { drop: dropPiece, to: square } });
+    setDropPiece(null);
+  };
+
+  const setServerPremove = (move: { from: string; to: string; promotion?: string } | null) => {
+    if (!roomCode) return;
+    socket.emit('set_premove', { roomId: roomCode, move });
+  };
+
+  const requestTakeback = () => {
+    if (!roomCode) return;
+    socket.emit('request_takeback', { roomId: roomCode });
+  };
+
+  const acceptTakeback = () => {
+    if (!roomCode) return;
+    socket.emit('accept_takeback', { roomId: roomCode });
+  };
+
+  const declineTakeback = () => {
+    if (!roomCode) return;
+    socket.emit('decline_takeback', { roomId: roomCode });
+  };
+
+  const claimWin = () => {
+    if (!roomCode) return;
+    socket.emit('claim_win', { roomId: roomCode });
+  };
+
+  const abortGame = () => {
+    if (!roomCode) return;
+    socket.emit('abort_game', { roomId: roomCode });
+  };
+
+  const berserk = () => {
+    if (!roomCode) return;
+    socket.emit('arena_berserk', { roomId: roomCode });
+  };
+
   const resign = () => {
     if (!roomCode) return;
     setShowResignConfirm(false);
@@ -1001,8 +1317,11 @@ function App() {
   const challengeFriend = (friendId: string, _friendUsername: string) => {
     socket.emit('challenge_friend', {
       friendId,
-      timeControl: selectedTimeControl,
-      variant: selectedVariant
+      timeControl: requestedTimeControl,
+      variant: selectedVariant,
+      // Odds go with a colour, so an odds challenge keeps the seat picked for it
+      color: odds && selectedPlayerColor !== 'random' ? selectedPlayerColor : undefined,
+      odds
     });
   };
 
@@ -1012,7 +1331,9 @@ function App() {
       challengerId: challenge.from.id,
       challengerSocketId: challenge.from.socketId,  // Pass the socket ID directly
       timeControl: challenge.timeControl,
-      variant: challenge.variant
+      variant: challenge.variant,
+      color: challenge.color,
+      odds: challenge.odds
     });
   };
 
@@ -1110,6 +1431,8 @@ function App() {
           }}>
             <Suspense fallback={null}>
               <TournamentPanel socket={socket} language={language} onJoinTournamentGame={(roomCode) => {
+                // Arena games follow each other directly, so clear the previous one first
+                leaveRoom();
                 socket.emit('join_tournament_game', { roomCode });
                 setRoomCode(roomCode);
               }} />
@@ -1118,6 +1441,7 @@ function App() {
                 setRoomCode(roomCode);
               }} />
               <ClubsPanel socket={socket} language={language} onChallengeMember={challengeFriend} />
+              <CorrespondencePanel socket={socket} language={language} />
               <FriendsPanel socket={socket} language={language} onChallengeFriend={challengeFriend} />
             </Suspense>
           </div>
@@ -1157,6 +1481,7 @@ function App() {
                     <div style={{ fontWeight: 600, marginBottom: '4px' }}>{challenge.from.username}</div>
                     <div style={{ fontSize: '0.85rem', color: '#888', marginBottom: '8px' }}>
                       {challenge.from.rating} • {challenge.timeControl} • {challenge.variant}
+                      {challenge.odds && ` • ${describeOdds(challenge.odds)}`}
                     </div>
                     <div style={{ display: 'flex', gap: '8px' }}>
                       <button
@@ -1492,6 +1817,7 @@ function App() {
                     <div style={{ fontWeight: 600 }}>{challenge.from.username}</div>
                     <div style={{ fontSize: '0.8rem', color: '#888' }}>
                       {challenge.from.rating} rating | {challenge.timeControl} | {challenge.variant}
+                      {challenge.odds && ` | ${describeOdds(challenge.odds)}`}
                     </div>
                   </div>
                   <div style={{ display: 'flex', gap: '8px' }}>
@@ -1560,6 +1886,7 @@ function App() {
                     <div style={{ fontWeight: 600 }}>{challenge.to.username}</div>
                     <div style={{ fontSize: '0.8rem', color: '#888' }}>
                       {challenge.timeControl} | {challenge.variant}
+                      {challenge.odds && ` | ${describeOdds(challenge.odds)}`}
                     </div>
                   </div>
                   <button
@@ -1610,7 +1937,114 @@ function App() {
                   <div style={{ fontSize: isMobile ? '0.7rem' : '0.75rem', color: '#888', marginTop: '2px' }}>{option.description}</div>
                 </button>
               ))}
+              <button
+                onClick={() => setSelectedTimeControl('custom')}
+                style={{
+                  flex: 1,
+                  padding: isMobile ? '10px 6px' : '12px 8px',
+                  minHeight: isMobile ? '54px' : 'auto',
+                  borderRadius: isMobile ? '8px' : '6px',
+                  border: selectedTimeControl === 'custom' ? '2px solid #81b64c' : '1px solid #444',
+                  background: selectedTimeControl === 'custom' ? 'rgba(129, 182, 76, 0.2)' : 'transparent',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit',
+                  textAlign: 'center',
+                  WebkitTapHighlightColor: 'transparent'
+                }}
+              >
+                <div style={{ fontSize: isMobile ? '1rem' : '1.1rem', fontWeight: 600 }}>⚙</div>
+                <div style={{ fontSize: isMobile ? '0.7rem' : '0.75rem', color: '#888', marginTop: '2px' }}>Custom</div>
+              </button>
             </div>
+
+            {selectedTimeControl === 'custom' && (
+              <div style={{ marginTop: '10px', padding: '12px', border: '1px solid #444', borderRadius: '6px', display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                  <label>
+                    {language === 'en' ? 'Minutes' : 'Minutter'}{' '}
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={180}
+                      step={0.5}
+                      value={customClock.minutes}
+                      onChange={(e) => setCustomClock({ ...customClock, minutes: Number(e.target.value) })}
+                      style={{ width: '64px' }}
+                    />
+                  </label>
+                  <label>
+                    {language === 'en' ? 'Increment (s)' : 'Tillegg (s)'}{' '}
+                    <input
+                      type="number"
+                      min={0}
+                      max={180}
+                      value={customClock.increment}
+                      onChange={(e) => setCustomClock({ ...customClock, increment: Number(e.target.value) })}
+                      style={{ width: '64px' }}
+                    />
+                  </label>
+                </div>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                  <label>
+                    {language === 'en' ? 'Delay' : 'Forsinkelse'}{' '}
+                    <select
+                      value={customClock.delayMode}
+                      onChange={(e) => setCustomClock({ ...customClock, delayMode: e.target.value as CustomClock['delayMode'] })}
+                    >
+                      <option value="none">{language === 'en' ? 'None' : 'Ingen'}</option>
+                      <option value="us">US</option>
+                      <option value="bronstein">Bronstein</option>
+                    </select>
+                  </label>
+                  {customClock.delayMode !== 'none' && (
+                    <label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={customClock.delay}
+                        onChange={(e) => setCustomClock({ ...customClock, delay: Number(e.target.value) })}
+                        style={{ width: '64px' }}
+                      />{' '}s
+                    </label>
+                  )}
+                </div>
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={customClock.stageMoves > 0}
+                      onChange={(e) => setCustomClock({ ...customClock, stageMoves: e.target.checked ? 40 : 0 })}
+                    />{' '}
+                    {language === 'en' ? 'Second stage after' : 'Andre periode etter'}
+                  </label>
+                  {customClock.stageMoves > 0 && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={customClock.stageMoves}
+                        onChange={(e) => setCustomClock({ ...customClock, stageMoves: Math.max(1, Number(e.target.value)) })}
+                        style={{ width: '56px' }}
+                      />
+                      <span>{language === 'en' ? 'moves, add' : 'trekk, legg til'}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={180}
+                        value={customClock.stageMinutes}
+                        onChange={(e) => setCustomClock({ ...customClock, stageMinutes: Number(e.target.value) })}
+                        style={{ width: '56px' }}
+                      />
+                      <span>min</span>
+                    </>
+                  )}
+                </div>
+                <div style={{ color: '#888' }}>{customTimeControlSpec(customClock)}</div>
+              </div>
+            )}
           </div>
 
           {/* Variant Selection */}
@@ -1645,6 +2079,108 @@ function App() {
             </div>
           </div>
 
+          {/* Odds (handicap) */}
+          <div style={{ marginBottom: isMobile ? '16px' : '20px' }}>
+            <div style={{ color: '#888', marginBottom: isMobile ? '8px' : '10px', fontSize: isMobile ? '0.85rem' : '0.9rem' }}>
+              {language === 'en' ? 'Odds' : 'Handikap'}
+            </div>
+            <div style={{ padding: '12px', border: '1px solid #444', borderRadius: '6px', display: 'flex', flexDirection: 'column', gap: '8px', fontSize: '0.85rem', color: '#ccc' }}>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                <label>
+                  {language === 'en' ? 'Piece' : 'Brikke'}{' '}
+                  <select
+                    value={oddsForm.piece}
+                    onChange={(e) => setOddsForm({ ...oddsForm, piece: e.target.value as OddsForm['piece'] })}
+                  >
+                    <option value="none">{language === 'en' ? 'None' : 'Ingen'}</option>
+                    <option value="pawnAndMove">{language === 'en' ? 'Pawn and move' : 'Bonde og trekk'}</option>
+                    <option value="knight">{language === 'en' ? 'Knight' : 'Springer'}</option>
+                    <option value="rook">{language === 'en' ? 'Rook' : 'Tårn'}</option>
+                    <option value="queen">{language === 'en' ? 'Queen' : 'Dronning'}</option>
+                  </select>
+                </label>
+                {oddsForm.piece !== 'none' && (
+                  <label>
+                    {language === 'en' ? 'given by' : 'gitt av'}{' '}
+                    <select
+                      value={oddsForm.piece === 'pawnAndMove' ? 'black' : oddsForm.giver}
+                      disabled={oddsForm.piece === 'pawnAndMove'}
+                      onChange={(e) => setOddsForm({ ...oddsForm, giver: e.target.value as 'white' | 'black' })}
+                    >
+                      <option value="white">{language === 'en' ? 'White' : 'Hvit'}</option>
+                      <option value="black">{language === 'en' ? 'Black' : 'Svart'}</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={oddsForm.clockOdds}
+                    onChange={(e) => setOddsForm({ ...oddsForm, clockOdds: e.target.checked })}
+                  />{' '}
+                  {language === 'en' ? 'Clocks (min)' : 'Klokker (min)'}
+                </label>
+                {oddsForm.clockOdds && (
+                  <>
+                    <span>♔</span>
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={180}
+                      step={0.5}
+                      value={oddsForm.whiteMinutes}
+                      onChange={(e) => setOddsForm({ ...oddsForm, whiteMinutes: Number(e.target.value) })}
+                      style={{ width: '56px' }}
+                    />
+                    <span>♚</span>
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={180}
+                      step={0.5}
+                      value={oddsForm.blackMinutes}
+                      onChange={(e) => setOddsForm({ ...oddsForm, blackMinutes: Number(e.target.value) })}
+                      style={{ width: '56px' }}
+                    />
+                  </>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                <label>
+                  {language === 'en' ? 'Draw odds for' : 'Remis teller som seier for'}{' '}
+                  <select
+                    value={oddsForm.drawOdds}
+                    onChange={(e) => setOddsForm({ ...oddsForm, drawOdds: e.target.value as OddsForm['drawOdds'] })}
+                  >
+                    <option value="none">{language === 'en' ? 'Nobody' : 'Ingen'}</option>
+                    <option value="white">{language === 'en' ? 'White' : 'Hvit'}</option>
+                    <option value="black">{language === 'en' ? 'Black' : 'Svart'}</option>
+                  </select>
+                </label>
+              </div>
+              {odds && (
+                <>
+                  <label>
+                    {language === 'en' ? 'Challenge friends as' : 'Utfordre venner som'}{' '}
+                    <select
+                      value={selectedPlayerColor}
+                      onChange={(e) => setSelectedPlayerColor(e.target.value as 'white' | 'black' | 'random')}
+                    >
+                      <option value="white">{language === 'en' ? 'White' : 'Hvit'}</option>
+                      <option value="black">{language === 'en' ? 'Black' : 'Svart'}</option>
+                      <option value="random">{language === 'en' ? 'Random' : 'Tilfeldig'}</option>
+                    </select>
+                  </label>
+                  <div style={{ color: '#888' }}>
+                    {describeOdds(odds)} · {language === 'en' ? 'unrated' : 'urangert'}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
           <button
             onClick={createRoom}
             disabled={!isConnected}
@@ -2343,6 +2879,26 @@ function App() {
             Win by moving your King to d4, d5, e4, or e5 (without being in check)
           </div>
         )}
+        {gameOdds && (
+          <div style={{
+            textAlign: 'center',
+            marginTop: '10px',
+            fontSize: '0.85rem',
+            color: '#888'
+          }}>
+            Odds game (unrated): {describeOdds(gameOdds)}
+          </div>
+        )}
+        {VARIANT_RULE_HINTS[variant] && (
+          <div style={{
+            textAlign: 'center',
+            marginTop: '10px',
+            fontSize: '0.85rem',
+            color: '#888'
+          }}>
+            {VARIANT_RULE_HINTS[variant]}
+          </div>
+        )}
         {variant === 'chess960' && variantState.positionId !== undefined && (
           <div style={{
             textAlign: 'center',
@@ -2353,6 +2909,17 @@ function App() {
             Position #{variantState.positionId}
           </div>
         )}
+        {variant === 'bughouse' && variantState.bughouse && (
+          <div style={{
+            textAlign: 'center',
+            marginTop: '10px',
+            fontSize: '0.85rem',
+            color: '#888'
+          }}>
+            Board {variantState.bughouse.board.toUpperCase()} · partner board code: <strong style={{ color: 'white' }}>{variantState.bughouse.partnerRoom}</strong>
+            {' '}· your partner plays {playerColor === 'black' ? 'White' : 'Black'} there and passes you what they capture
+          </div>
+        )}
       </div>
 
       <div style={{
@@ -2375,6 +2942,7 @@ function App() {
           }}>
             <span style={{ fontWeight: 600, color: '#888', fontSize: isMobile ? '0.85rem' : '1rem' }}>
               {playerColor === 'black' ? 'White' : 'Black'}
+              {formatLag(playerColor === 'black' ? lag.white : lag.black)}
             </span>
             <span style={{
               fontFamily: 'monospace',
@@ -2387,6 +2955,18 @@ function App() {
           </div>
         )}
 
+        {/* Opponent's pocket (Crazyhouse/Bughouse) */}
+        {isDropVariant(variant) && variantState.pockets && (
+          <div style={{ marginBottom: isMobile ? '6px' : '10px' }}>
+            <Pocket
+              pocket={variantState.pockets[playerColor === 'black' ? 'white' : 'black']}
+              color={playerColor === 'black' ? 'white' : 'black'}
+              pieceTheme={pieceTheme}
+              compact={isMobile}
+            />
+          </div>
+        )}
+
         <ChessBoard
           game={game}
           onMove={handleMove}
@@ -2397,8 +2977,31 @@ function App() {
           language={language}
           theme={boardTheme}
           pieceTheme={pieceTheme}
+          premove={premove}
+          onPremove={(playerColor === 'white' || playerColor === 'black') && !gameOverMessage && roomCode !== 'ANALYSIS'
+            ? setServerPremove
+            : undefined}
+          dropPiece={dropPiece}
+          onDrop={handleDrop}
         />
 
+        {/* Own pocket: pick a piece, then click the square to drop it on */}
+        {isDropVariant(variant) && variantState.pockets && (
+          <div style={{ marginTop: isMobile ? '6px' : '10px' }}>
+            <Pocket
+              pocket={variantState.pockets[playerColor === 'black' ? 'black' : 'white']}
+              color={playerColor === 'black' ? 'black' : 'white'}
+              selected={dropPiece}
+              onSelect={(playerColor === 'white' || playerColor === 'black') && !gameOverMessage
+                && game.turn() === playerColor[0]
+                ? setDropPiece
+                : undefined}
+              pieceTheme={pieceTheme}
+              compact={isMobile}
+            />
+          </div>
+        )}
+
         {/* Player's clock (bottom) */}
         {timeControl && timeControl.type !== 'unlimited' && (
           <div style={{
@@ -2413,6 +3016,7 @@ function App() {
           }}>
             <span style={{ fontWeight: 600, color: '#888', fontSize: isMobile ? '0.85rem' : '1rem' }}>
               {playerColor === 'black' ? 'Black' : 'White'} {isMobile ? '' : '(You)'}
+              {formatLag(playerColor === 'black' ? lag.black : lag.white)}
             </span>
             <span style={{
               fontFamily: 'monospace',
@@ -2486,6 +3090,163 @@ function App() {
         </div>
       )}
 
+      {/* Takeback Request Notification */}
+      {takebackRequest && playerColor !== 'spectator' && !gameOverMessage && (
+        <div style={{
+          marginTop: '20px',
+          padding: '16px',
+          background: takebackRequest === playerColor
+            ? 'rgba(74, 144, 217, 0.15)'
+            : 'rgba(230, 126, 34, 0.2)',
+          border: takebackRequest === playerColor
+            ? '2px solid #4a90d9'
+            : '2px solid #e67e22',
+          borderRadius: '8px',
+          textAlign: 'center'
+        }}>
+          {takebackRequest === playerColor ? (
+            <div style={{ color: '#4a90d9' }}>
+              Takeback requested. Waiting for opponent...
+            </div>
+          ) : (
+            <div>
+              <div style={{ color: '#e67e22', marginBottom: '12px', fontWeight: 600 }}>
+                Your opponent asks to take back their move
+              </div>
+              <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
+                <button
+                  onClick={acceptTakeback}
+                  style={{
+                    background: '#81b64c',
+                    border: 'none',
+                    color: 'white',
+                    padding: '10px 20px',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontFamily: 'inherit',
+                    fontWeight: 600
+                  }}
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={declineTakeback}
+                  style={{
+                    background: '#e74c3c',
+                    border: 'none',
+                    color: 'white',
+                    padding: '10px 20px',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontFamily: 'inherit',
+                    fontWeight: 600
+                  }}
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* First Move Countdown */}
+      {firstMoveDeadline && !gameOverMessage && (
+        <div style={{
+          marginTop: '20px',
+          padding: '12px 16px',
+          background: 'rgba(52, 152, 219, 0.15)',
+          border: '2px solid #3498db',
+          borderRadius: '8px',
+          display: 'flex',
+          gap: '12px',
+          alignItems: 'center',
+          justifyContent: 'center',
+          flexWrap: 'wrap'
+        }}>
+          <div style={{ color: '#3498db', fontWeight: 600 }}>
+            {firstMoveDeadline.color === playerColor
+              ? `Make your first move within ${firstMoveSecondsLeft}s or the game is aborted`
+              : `${firstMoveDeadline.color.charAt(0).toUpperCase() + firstMoveDeadline.color.slice(1)} has ${firstMoveSecondsLeft}s to move before the game is aborted`}
+          </div>
+          {firstMoveDeadline.canAbort && playerColor !== 'spectator' && (
+            <button
+              onClick={abortGame}
+              style={{
+                background: '#666',
+                border: 'none',
+                color: 'white',
+                padding: '8px 16px',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontFamily: 'inherit',
+                fontWeight: 600
+              }}
+            >
+              Abort Game
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Disconnected Player Notification */}
+      {absentPlayer && !gameOverMessage && (
+        <div style={{
+          marginTop: '20px',
+          padding: '16px',
+          background: 'rgba(230, 126, 34, 0.2)',
+          border: '2px solid #e67e22',
+          borderRadius: '8px',
+          textAlign: 'center'
+        }}>
+          <div style={{ color: '#e67e22', fontWeight: 600 }}>
+            {playerColor === 'spectator'
+              ? `${absentPlayer.color.charAt(0).toUpperCase() + absentPlayer.color.slice(1)} disconnected`
+              : 'Your opponent disconnected'}
+          </div>
+          {!absentPlayer.abandoned ? (
+            <div style={{ color: '#aaa', marginTop: '8px' }}>
+              Waiting {absentSecondsLeft}s for them to reconnect...
+            </div>
+          ) : playerColor !== 'spectator' && (
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '12px' }}>
+              <button
+                onClick={claimWin}
+                style={{
+                  background: '#81b64c',
+                  border: 'none',
+                  color: 'white',
+                  padding: '10px 20px',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit',
+                  fontWeight: 600
+                }}
+              >
+                Claim Win
+              </button>
+              {absentPlayer.canAbort && (
+                <button
+                  onClick={abortGame}
+                  style={{
+                    background: '#666',
+                    border: 'none',
+                    color: 'white',
+                    padding: '10px 20px',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontFamily: 'inherit',
+                    fontWeight: 600
+                  }}
+                >
+                  Abort Game
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Resign Confirmation */}
       {showResignConfirm && (
         <div style={{
@@ -2636,6 +3397,58 @@ function App() {
             >
               {drawOffer === playerColor ? 'Draw Offered' : 'Offer Draw'}
             </button>
+            {premove && (
+              <button
+                onClick={() => setServerPremove(null)}
+                style={{
+                  background: '#3498db',
+                  border: 'none',
+                  color: 'white',
+                  padding: '10px 20px',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit'
+                }}
+              >
+                Cancel Premove
+              </button>
+            )}
+            {game.history().length > 0 && (
+              <button
+                onClick={requestTakeback}
+                disabled={takebackRequest === playerColor}
+                style={{
+                  background: takebackRequest === playerColor ? '#666' : '#34495e',
+                  border: 'none',
+                  color: 'white',
+                  padding: '10px 20px',
+                  borderRadius: '6px',
+                  cursor: takebackRequest === playerColor ? 'not-allowed' : 'pointer',
+                  fontFamily: 'inherit',
+                  opacity: takebackRequest === playerColor ? 0.6 : 1
+                }}
+              >
+                {takebackRequest === playerColor ? 'Takeback Requested' : 'Takeback'}
+              </button>
+            )}
+            {arenaBerserk && (playerColor === 'white' || playerColor === 'black') && !arenaBerserk[playerColor] &&
+              game.history().length < (playerColor === 'white' ? 1 : 2) && (
+              <button
+                onClick={berserk}
+                title="Halve your clock for an extra point if you win"
+                style={{
+                  background: '#8e44ad',
+                  border: 'none',
+                  color: 'white',
+                  padding: '10px 20px',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit'
+                }}
+              >
+                Berserk
+              </button>
+            )}
             <button
               onClick={() => setShowResignConfirm(true)}
               style={{
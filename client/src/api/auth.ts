@@ -36,6 +36,23 @@ export interface LeaderboardEntry {
   games_won: number;
 }
 
+// Entry of a rating pool leaderboard (one time control and variant)
+export interface PoolLeaderboardEntry {
+  id: string;
+  username: string;
+  rating: number;
+  deviation: number;
+  games: number;
+}
+
+export interface PoolRating {
+  pool: string;  // "<time control>:<variant>", e.g. "blitz:standard"
+  rating: number;
+  deviation: number;
+  games: number;
+  provisional: boolean;
+}
+
 export interface Game {
   id: string;
   room_code: string;
@@ -113,8 +130,9 @@ export async function refreshToken(): Promise<AuthResponse> {
   return response.json();
 }
 
-export async function getUserProfile(userId: string): Promise<{ success: boolean; user?: User; recentGames?: Game[]; ratingHistory?: { rating: number; rating_change: number; created_at: string }[] }> {
-  const response = await fetch(`${API_BASE}/profile/${userId}`);
+export async function getUserProfile(userId: string, pool?: string): Promise<{ success: boolean; user?: User; recentGames?: Game[]; ratingHistory?: { rating: number; rating_change: number; pool: string | null; created_at: string }[]; ratings?: PoolRating[] }> {
+  const query = pool ? `?pool=${encodeURIComponent(pool)}` : '';
+  const response = await fetch(`${API_BASE}/profile/${userId}${query}`);
   return response.json();
 }
 
@@ -123,6 +141,11 @@ export async function getLeaderboard(limit: number = 100): Promise<{ success: bo
   return response.json();
 }
 
+export async function getPoolLeaderboard(pool: string, limit: number = 100): Promise<{ success: boolean; leaderboard: PoolLeaderboardEntry[] }> {
+  const response = await fetch(`${API_BASE}/leaderboard?limit=${limit}&pool=${encodeURIComponent(pool)}`);
+  return response.json();
+}
+
 export async function getUserGames(userId: string, limit: number = 20, offset: number = 0): Promise<{ success: boolean; games: Game[] }> {
   const response = await fetch(`${API_BASE}/games/${userId}?limit=${limit}&offset=${offset}`);
   return response.json();
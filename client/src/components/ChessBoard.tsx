@@ -199,6 +199,12 @@ interface ChessBoardProps {
     theme?: BoardTheme;
     pieceTheme?: PieceTheme;
     onFlipBoard?: () => void;
+    // Premoves: queue a move for our side while the opponent is to move
+    premove?: { from: string; to: string } | null;
+    onPremove?: (move: { from: string; to: string; promotion?: string }) => void;
+    // Crazyhouse/Bughouse: a pocket piece picked to drop goes on the next square clicked
+    dropPiece?: string | null;
+    onDrop?: (square: string) => void;
 }
 
 const PROMOTION_PIECES = ['q', 'r', 'b', 'n'] as const;
@@ -219,7 +225,11 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
     language = 'en',
     theme = BOARD_THEMES[0],
     pieceTheme = PIECE_THEMES[0],
-    onFlipBoard
+    onFlipBoard,
+    premove,
+    onPremove,
+    dropPiece,
+    onDrop
 }) => {
     const { isMobile, isTouchDevice, boardSize } = useResponsiveBoard();
     const squareSize = boardSize / 8;
@@ -402,20 +412,52 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
         // If mobile learn sheet is open, ignore clicks on board
         if (mobileLearnSheet) return;
 
+        // A pocket piece is picked: this is where it goes
+        if (dropPiece && onDrop) {
+            setSelectedSquare(null);
+            setOptionSquares([]);
+            onDrop(sq);
+            return;
+        }
+
+        // Opponent to move: pick one of our pieces and a target square to premove
+        const ownColor = orientation === 'white' ? 'w' : 'b';
+        if (onPremove && game.turn() !== ownColor) {
+            const clickedPiece = game.get(sq);
+            if (clickedPiece && clickedPiece.color === ownColor && sq !== selectedSquare) {
+                setSelectedSquare(sq);
+                setOptionSquares([]);
+            } else if (selectedSquare && sq !== selectedSquare) {
+                const movingPiece = game.get(selectedSquare);
+                const lastRank = ownColor === 'w' ? '8' : '1';
+                onPremove({
+                    from: selectedSquare,
+                    to: sq,
+                    promotion: movingPiece?.type === 'p' && sq[1] === lastRank ? 'q' : undefined
+                });
+                setSelectedSquare(null);
+            } else {
+                setSelectedSquare(null);
+            }
+            return;
+        }
+
         // If we already selected a square
         if (selectedSquare) {
-            // Check if clicked on another of own pieces first
+            const moves = game.moves({ square: selectedSquare, verbose: true });
+            const validMove = moves.find(m => m.to === sq);
+
+            // Check if clicked on another of own pieces first (unless a Chess960
+            // king is castling onto its own rook)
             const clickedPiece = game.get(sq);
-            if (clickedPiece && clickedPiece.color === game.turn()) {
+            if (clickedPiece && clickedPiece.color === game.turn() && !validMove) {
                 setSelectedSquare(sq);
-                const moves = game.moves({ square: sq, verbose: true });
-                setOptionSquares(moves.map(m => m.to as Square));
+                const pieceMoves = game.moves({ square: sq, verbose: true });
+                setOptionSquares(pieceMoves.map(m => m.to as Square));
                 return;
             }
 
-            // User is attempting a move - check if it's valid
-            const moves = game.moves({ square: selectedSquare, verbose: true });
-            const validMove = moves.find(m => m.to === sq);
+            // User is attempting a move
 
             if (validMove) {
                 // Valid move - check if this should trigger the touch device Learn Mode sheet
@@ -519,6 +561,7 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
                 const isSelected = selectedSquare === square;
                 const isOption = optionSquares.includes(square as Square);
                 const isLastMove = lastMove && (lastMove.from === square || lastMove.to === square);
+                const isPremove = !!premove && (premove.from === square || premove.to === square);
                 const isHovered = hoveredSquare === square;
                 const isInvalid = invalidSquare === square;
                 const isInCheck = piece?.type === 'k' && game.isCheck() && piece.color === game.turn();
@@ -617,9 +660,11 @@ const ChessBoard: React.FC<ChessBoardProps> = ({
                                 ? 'rgba(255, 0, 0, 0.5)'
                                 : isSelected
                                     ? 'rgba(129, 182, 76, 0.7)'
-                                    : isHovered && learnMode
-                                        ? 'rgba(155, 89, 182, 0.6)'
-                                        : color, // Keep base square color, lastMove indicator is now a ring
+                                    : isPremove
+                                        ? 'rgba(52, 152, 219, 0.55)'
+                                        : isHovered && learnMode
+                                            ? 'rgba(155, 89, 182, 0.6)'
+                                            : color, // Keep base square color, lastMove indicator is now a ring
                             position: 'relative',
                             cursor: 'pointer',
                             display: 'flex',
@@ -1253,6 +1298,8 @@ function arePropsEqual(prevProps: ChessBoardProps, nextProps: ChessBoardProps):
     if (prevProps.learnMode !== nextProps.learnMode) return false;
     if (prevProps.roomCode !== nextProps.roomCode) return false;
     if (prevProps.language !== nextProps.language) return false;
+    if (prevProps.premove?.from !== nextProps.premove?.from || prevProps.premove?.to !== nextProps.premove?.to) return false;
+    if (!!prevProps.onPremove !== !!nextProps.onPremove) return false;
 
     // Compare theme by name (assumes themes are static objects)
     if (prevProps.theme?.name !== nextProps.theme?.name) return false;
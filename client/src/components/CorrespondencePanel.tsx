@@ -0,0 +1,568 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Socket } from 'socket.io-client';
+import { Chess } from 'chess.js';
+import ChessBoard from './ChessBoard';
+import { useAuth } from '../contexts/AuthContext';
+import { useIsMobile } from '../hooks/useMediaQuery';
+import { createVariantBoard, isRulesVariant } from '../utils/variantChess';
+
+interface CorrespondenceGame {
+  id: string;
+  white_id: string;
+  black_id: string;
+  created_by: string;
+  white_username: string;
+  black_username: string;
+  white_rating: number;
+  black_rating: number;
+  variant: string;
+  days_per_move: number;
+  rated: boolean;
+  status: 'pending' | 'active' | 'completed' | 'declined';
+  fen: string;
+  pgn: string;
+  move_count: number;
+  draw_offer: 'white' | 'black' | null;
+  conditional_moves: string[][];  // Our own lines only
+  result: string | null;
+  end_reason: string | null;
+  turn_deadline: string | null;
+}
+
+interface Vacation {
+  daysLeft: number;
+  until: string | null;
+}
+
+interface Friend {
+  id: string;
+  username: string;
+  rating: number;
+}
+
+interface CorrespondencePanelProps {
+  socket: Socket;
+  language: 'en' | 'no';
+}
+
+const DAYS_PER_MOVE_OPTIONS = [1, 2, 3, 5, 7, 10, 14];
+
+// "2d 5h" / "3h 20m" until the deadline
+function formatTimeLeft(deadline: string | null, now: number): string {
+  if (!deadline) return '';
+  const ms = Math.max(0, new Date(deadline).getTime() - now);
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (days > 0) return `${days}d ${hours % 24}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+export function CorrespondencePanel({ socket, language }: CorrespondencePanelProps) {
+  const { user } = useAuth();
+  const isMobile = useIsMobile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<'games' | 'new'>('games');
+  const [games, setGames] = useState<CorrespondenceGame[]>([]);
+  const [vacation, setVacation] = useState<Vacation | null>(null);
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [openGameId, setOpenGameId] = useState<string | null>(null);
+  const [opponentId, setOpponentId] = useState('');
+  const [daysPerMove, setDaysPerMove] = useState(3);
+  const [color, setColor] = useState<'random' | 'white' | 'black'>('random');
+  const [rated, setRated] = useState(true);
+  const [vacationDays, setVacationDays] = useState(1);
+  const [conditionalText, setConditionalText] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  const fetchGames = useCallback(() => {
+    socket.emit('get_my_correspondence_games');
+  }, [socket]);
+
+  useEffect(() => {
+    if (user) fetchGames();
+  }, [user, fetchGames]);
+
+  useEffect(() => {
+    if (isOpen && activeTab === 'new') socket.emit('get_friends');
+  }, [isOpen, activeTab, socket]);
+
+  // Deadlines are shown to the minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    function onMyGames(data: { games: CorrespondenceGame[]; vacation: Vacation }) {
+      setGames(data.games);
+      setVacation(data.vacation);
+    }
+
+    function onGameUpdated(data: { game: CorrespondenceGame }) {
+      setGames(prev => {
+        const others = prev.filter(g => g.id !== data.game.id);
+        return [data.game, ...others];
+      });
+    }
+
+    function onGameCreated(data: { success: boolean; gameId: string }) {
+      if (data.success) setActiveTab('games');
+    }
+
+    function onConditionalMovesSet(data: { gameId: string; lines: string[][] }) {
+      setGames(prev => prev.map(g => g.id === data.gameId ? { ...g, conditional_moves: data.lines } : g));
+      setConditionalText(data.lines.map(line => line.join(' ')).join('\n'));
+    }
+
+    function onVacationUpdated(data: { vacation: Vacation }) {
+      setVacation(data.vacation);
+    }
+
+    function onFriendsList(data: { friends: Friend[] }) {
+      setFriends(data.friends);
+    }
+
+    socket.on('my_correspondence_games', onMyGames);
+    socket.on('correspondence_game_updated', onGameUpdated);
+    socket.on('correspondence_game_created', onGameCreated);
+    socket.on('conditional_moves_set', onConditionalMovesSet);
+    socket.on('vacation_updated', onVacationUpdated);
+    socket.on('friends_list', onFriendsList);
+
+    return () => {
+      socket.off('my_correspondence_games', onMyGames);
+      socket.off('correspondence_game_updated', onGameUpdated);
+      socket.off('correspondence_game_created', onGameCreated);
+      socket.off('conditional_moves_set', onConditionalMovesSet);
+      socket.off('vacation_updated', onVacationUpdated);
+      socket.off('friends_list', onFriendsList);
+    };
+  }, [socket]);
+
+  const myColor = (game: CorrespondenceGame): 'white' | 'black' => game.white_id === user?.id ? 'white' : 'black';
+  const isMyTurn = (game: CorrespondenceGame) =>
+    game.status === 'active' && (game.move_count % 2 === 0 ? 'white' : 'black') === myColor(game);
+  const isIncoming = (game: CorrespondenceGame) => game.status === 'pending' && game.created_by !== user?.id;
+
+  const waitingOnMe = games.filter(g => isMyTurn(g) || isIncoming(g)).length;
+  const openGame = games.find(g => g.id === openGameId) || null;
+
+  const board = useMemo(() => {
+    const rules = isRulesVariant(openGame?.variant);
+    const chess = rules ? createVariantBoard(openGame!.variant) : new Chess();
+    if (!openGame) return chess;
+    try {
+      chess.loadPgn(openGame.pgn);
+    } catch {
+      // Fall back to the position below
+    }
+    if (chess.fen() !== openGame.fen) {
+      return rules ? createVariantBoard(openGame.variant, openGame.fen) : new Chess(openGame.fen);
+    }
+    return chess;
+  }, [openGame]);
+
+  if (!user) return null;
+
+  const createGame = () => {
+    if (!opponentId) return;
+    socket.emit('create_correspondence_game', { opponentId, daysPerMove, color, rated });
+  };
+
+  const saveConditionalMoves = () => {
+    if (!openGame) return;
+    const lines = conditionalText
+      .split('\n')
+      .map(line => line.trim().split(/\s+/).filter(Boolean))
+      .filter(line => line.length > 0);
+    socket.emit('set_conditional_moves', { gameId: openGame.id, lines });
+  };
+
+  const openGameView = (game: CorrespondenceGame) => {
+    setOpenGameId(game.id);
+    setConditionalText((game.conditional_moves || []).map(line => line.join(' ')).join('\n'));
+  };
+
+  const makeMove = (move: { from: string; to: string; promotion?: string }) => {
+    if (!openGame || !isMyTurn(openGame)) return;
+    socket.emit('correspondence_move', { gameId: openGame.id, move });
+  };
+
+  const opponentName = (game: CorrespondenceGame) =>
+    myColor(game) === 'white' ? game.black_username : game.white_username;
+
+  const statusText = (game: CorrespondenceGame) => {
+    if (game.status === 'pending') {
+      return isIncoming(game)
+        ? (language === 'en' ? 'Challenge received' : 'Utfordring mottatt')
+        : (language === 'en' ? 'Waiting for reply' : 'Venter pa svar');
+    }
+    if (game.status === 'declined') return language === 'en' ? 'Declined' : 'Avslatt';
+    if (game.status === 'completed') return `${game.result} (${game.end_reason})`;
+    return isMyTurn(game)
+      ? `${language === 'en' ? 'Your move' : 'Ditt trekk'} - ${formatTimeLeft(game.turn_deadline, now)}`
+      : `${language === 'en' ? 'Their move' : 'Motstanders trekk'} - ${formatTimeLeft(game.turn_deadline, now)}`;
+  };
+
+  const buttonStyle = (background: string) => ({
+    padding: isMobile ? '10px 14px' : '6px 10px',
+    background,
+    border: 'none',
+    borderRadius: '4px',
+    color: 'white',
+    cursor: 'pointer',
+    fontSize: isMobile ? '0.8rem' : '0.75rem',
+    fontFamily: 'inherit',
+    minHeight: isMobile ? '44px' : 'auto'
+  });
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        style={{
+          background: isOpen ? '#2980b9' : 'transparent',
+          border: '1px solid #444',
+          color: 'white',
+          padding: isMobile ? '10px 12px' : '8px 16px',
+          borderRadius: '6px',
+          cursor: 'pointer',
+          fontFamily: 'inherit',
+          fontSize: isMobile ? '0.85rem' : '0.9rem',
+          display: 'flex',
+          alignItems: 'center',
+          gap: isMobile ? '6px' : '8px',
+          minHeight: isMobile ? '44px' : 'auto'
+        }}
+      >
+        <span style={{ fontSize: isMobile ? '1.1rem' : '1rem' }}>&#9993;</span>
+        {isMobile ? '' : (language === 'en' ? 'Daily' : 'Fjernsjakk')}
+        {waitingOnMe > 0 && (
+          <span style={{
+            background: '#e74c3c',
+            color: 'white',
+            borderRadius: '50%',
+            width: '18px',
+            height: '18px',
+            fontSize: '0.7rem',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}>
+            {waitingOnMe}
+          </span>
+        )}
+      </button>
+
+      {isOpen && isMobile && (
+        <div
+          onClick={() => setIsOpen(false)}
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            background: 'rgba(0,0,0,0.5)',
+            zIndex: 99
+          }}
+        />
+      )}
+
+      {isOpen && (
+        <div style={{
+          position: isMobile ? 'fixed' : 'absolute',
+          top: isMobile ? 'auto' : '100%',
+          bottom: isMobile ? 0 : 'auto',
+          left: isMobile ? 0 : 'auto',
+          right: 0,
+          width: isMobile ? '100%' : '340px',
+          maxHeight: isMobile ? '70vh' : '480px',
+          background: 'var(--bg-secondary)',
+          border: isMobile ? 'none' : '1px solid #444',
+          borderRadius: isMobile ? '16px 16px 0 0' : '8px',
+          boxShadow: '0 4px 20px rgba(0,0,0,0.4)',
+          zIndex: 100,
+          marginTop: isMobile ? 0 : '8px',
+          overflow: 'hidden'
+        }}>
+          {/* Tabs */}
+          <div style={{ display: 'flex', borderBottom: '1px solid #444' }}>
+            {[
+              { key: 'games', label: language === 'en' ? 'My games' : 'Mine spill' },
+              { key: 'new', label: language === 'en' ? 'New game' : 'Nytt spill' }
+            ].map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key as typeof activeTab)}
+                style={{
+                  flex: 1,
+                  padding: isMobile ? '14px 8px' : '12px 8px',
+                  background: activeTab === tab.key ? 'var(--bg-primary)' : 'transparent',
+                  border: 'none',
+                  borderBottom: activeTab === tab.key ? '2px solid #3498db' : '2px solid transparent',
+                  color: activeTab === tab.key ? 'white' : '#888',
+                  cursor: 'pointer',
+                  fontFamily: 'inherit',
+                  fontSize: isMobile ? '0.9rem' : '0.85rem',
+                  minHeight: isMobile ? '48px' : 'auto'
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+
+          <div style={{
+            maxHeight: isMobile ? 'calc(70vh - 60px)' : '420px',
+            overflowY: 'auto',
+            padding: isMobile ? '16px' : '12px',
+            WebkitOverflowScrolling: 'touch'
+          }}>
+            {activeTab === 'games' && (
+              <>
+                {games.length === 0 ? (
+                  <div style={{ color: '#888', textAlign: 'center', padding: '20px' }}>
+                    {language === 'en' ? 'No correspondence games yet' : 'Ingen fjernsjakkspill enda'}
+                  </div>
+                ) : (
+                  games.map(game => (
+                    <div
+                      key={game.id}
+                      style={{
+                        padding: isMobile ? '12px' : '10px',
+                        background: 'var(--bg-primary)',
+                        borderRadius: '6px',
+                        marginBottom: isMobile ? '10px' : '8px',
+                        border: isMyTurn(game) || isIncoming(game) ? '1px solid #81b64c' : '1px solid transparent'
+                      }}
+                    >
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                        <div style={{ minWidth: 0 }}>
+                          <div style={{ fontWeight: 600, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                            {myColor(game) === 'white' ? '♔' : '♚'} {opponentName(game)}
+                          </div>
+                          <div style={{ fontSize: '0.75rem', color: '#888' }}>
+                            {game.days_per_move}{language === 'en' ? ' days/move' : ' dager/trekk'}
+                            {game.rated ? '' : (language === 'en' ? ' - casual' : ' - uformelt')}
+                            {' - '}{statusText(game)}
+                          </div>
+                        </div>
+                        <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                          {isIncoming(game) ? (
+                            <>
+                              <button
+                                onClick={() => socket.emit('respond_correspondence_game', { gameId: game.id, accept: true })}
+                                style={buttonStyle('#2ecc71')}
+                              >
+                                {language === 'en' ? 'Accept' : 'Godta'}
+                              </button>
+                              <button
+                                onClick={() => socket.emit('respond_correspondence_game', { gameId: game.id, accept: false })}
+                                style={buttonStyle('#e74c3c')}
+                              >
+                                &#10005;
+                              </button>
+                            </>
+                          ) : (game.status === 'active' || game.status === 'completed') && (
+                            <button onClick={() => openGameView(game)} style={buttonStyle('#3498db')}>
+                              {language === 'en' ? 'Open' : 'Apne'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+
+                {/* Vacation */}
+                {vacation && (
+                  <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: '1px solid #333', fontSize: '0.8rem', color: '#aaa' }}>
+                    {vacation.until ? (
+                      <div style={{ marginBottom: '6px' }}>
+                        {language === 'en' ? 'On vacation until ' : 'Pa ferie til '}
+                        {new Date(vacation.until).toLocaleString()}
+                      </div>
+                    ) : null}
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                      <span>
+                        {language === 'en' ? 'Vacation days left: ' : 'Feriedager igjen: '}{vacation.daysLeft}
+                      </span>
+                      {vacation.daysLeft > 0 && (
+                        <>
+                          <input
+                            type="number"
+                            min={1}
+                            max={vacation.daysLeft}
+                            value={vacationDays}
+                            onChange={(e) => setVacationDays(Number(e.target.value))}
+                            style={{ width: '48px' }}
+                          />
+                          <button
+                            onClick={() => socket.emit('start_vacation', { days: vacationDays })}
+                            style={buttonStyle('#8e44ad')}
+                          >
+                            {language === 'en' ? 'Take' : 'Ta ut'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {activeTab === 'new' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', fontSize: '0.85rem' }}>
+                <label>
+                  {language === 'en' ? 'Opponent' : 'Motstander'}
+                  <select value={opponentId} onChange={(e) => setOpponentId(e.target.value)} style={{ width: '100%', marginTop: '4px' }}>
+                    <option value="">{language === 'en' ? 'Choose a friend' : 'Velg en venn'}</option>
+                    {friends.map(friend => (
+                      <option key={friend.id} value={friend.id}>{friend.username} ({friend.rating})</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  {language === 'en' ? 'Days per move' : 'Dager per trekk'}
+                  <select value={daysPerMove} onChange={(e) => setDaysPerMove(Number(e.target.value))} style={{ width: '100%', marginTop: '4px' }}>
+                    {DAYS_PER_MOVE_OPTIONS.map(days => (
+                      <option key={days} value={days}>{days}</option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  {language === 'en' ? 'Play as' : 'Spill som'}
+                  <select value={color} onChange={(e) => setColor(e.target.value as typeof color)} style={{ width: '100%', marginTop: '4px' }}>
+                    <option value="random">{language === 'en' ? 'Random' : 'Tilfeldig'}</option>
+                    <option value="white">{language === 'en' ? 'White' : 'Hvit'}</option>
+                    <option value="black">{language === 'en' ? 'Black' : 'Svart'}</option>
+                  </select>
+                </label>
+                <label>
+                  <input type="checkbox" checked={rated} onChange={(e) => setRated(e.target.checked)} />{' '}
+                  {language === 'en' ? 'Rated' : 'Ratet'}
+                </label>
+                <button onClick={createGame} disabled={!opponentId} style={buttonStyle(opponentId ? '#81b64c' : '#555')}>
+                  {language === 'en' ? 'Send challenge' : 'Send utfordring'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Game view */}
+      {openGame && (
+        <div
+          onClick={() => setOpenGameId(null)}
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            background: 'rgba(0,0,0,0.7)',
+            zIndex: 200,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{
+              background: 'var(--bg-secondary)',
+              borderRadius: '8px',
+              padding: isMobile ? '12px' : '20px',
+              maxWidth: '100vw',
+              maxHeight: '100vh',
+              overflowY: 'auto'
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px', gap: '12px' }}>
+              <div>
+                <div style={{ fontWeight: 600 }}>
+                  {openGame.white_username} ({openGame.white_rating}) - {openGame.black_username} ({openGame.black_rating})
+                </div>
+                <div style={{ fontSize: '0.8rem', color: '#888' }}>{statusText(openGame)}</div>
+              </div>
+              <button
+                onClick={() => setOpenGameId(null)}
+                style={{ background: 'transparent', border: 'none', color: '#888', fontSize: '1.5rem', cursor: 'pointer' }}
+              >
+                &times;
+              </button>
+            </div>
+
+            <ChessBoard
+              game={board}
+              onMove={makeMove}
+              orientation={myColor(openGame)}
+              language={language}
+            />
+
+            {openGame.status === 'active' && !isMyTurn(openGame) && (
+              <div style={{ marginTop: '10px', fontSize: '0.8rem', color: '#aaa' }}>
+                <div style={{ marginBottom: '4px' }}>
+                  {language === 'en'
+                    ? 'Conditional moves: one line each, their move then your reply (e.g. "Nf6 e5 Nd5 c4")'
+                    : 'Betingede trekk: en linje hver, deres trekk og ditt svar (f.eks. "Nf6 e5 Nd5 c4")'}
+                </div>
+                <textarea
+                  value={conditionalText}
+                  onChange={(e) => setConditionalText(e.target.value)}
+                  rows={3}
+                  style={{ width: '100%', boxSizing: 'border-box', fontFamily: 'monospace' }}
+                />
+                <button onClick={saveConditionalMoves} style={buttonStyle('#3498db')}>
+                  {language === 'en' ? 'Save conditional moves' : 'Lagre betingede trekk'}
+                </button>
+              </div>
+            )}
+
+            {openGame.status === 'active' && (
+              <div style={{ display: 'flex', gap: '8px', marginTop: '10px', justifyContent: 'center', flexWrap: 'wrap' }}>
+                {openGame.draw_offer && openGame.draw_offer !== myColor(openGame) ? (
+                  <>
+                    <span style={{ color: '#e67e22', alignSelf: 'center' }}>
+                      {language === 'en' ? 'Draw offered' : 'Remis tilbudt'}
+                    </span>
+                    <button onClick={() => socket.emit('correspondence_offer_draw', { gameId: openGame.id })} style={buttonStyle('#81b64c')}>
+                      {language === 'en' ? 'Accept draw' : 'Godta remis'}
+                    </button>
+                    <button onClick={() => socket.emit('correspondence_decline_draw', { gameId: openGame.id })} style={buttonStyle('#e74c3c')}>
+                      {language === 'en' ? 'Decline' : 'Avsla'}
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => socket.emit('correspondence_offer_draw', { gameId: openGame.id })}
+                    disabled={openGame.draw_offer === myColor(openGame)}
+                    style={buttonStyle(openGame.draw_offer === myColor(openGame) ? '#666' : '#e67e22')}
+                  >
+                    {openGame.draw_offer === myColor(openGame)
+                      ? (language === 'en' ? 'Draw offered' : 'Remis tilbudt')
+                      : (language === 'en' ? 'Offer draw' : 'Tilby remis')}
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    if (window.confirm(language === 'en' ? 'Resign this game?' : 'Gi opp dette spillet?')) {
+                      socket.emit('correspondence_resign', { gameId: openGame.id });
+                    }
+                  }}
+                  style={buttonStyle('#e74c3c')}
+                >
+                  {language === 'en' ? 'Resign' : 'Gi opp'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
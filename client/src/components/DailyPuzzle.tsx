@@ -242,9 +242,15 @@ const DailyPuzzle: React.FC<DailyPuzzleProps> = ({ socket, language, user: _user
             }
         };
 
+        // A new puzzle goes live at midnight UTC
+        const handlePuzzleRotated = () => {
+            socket.emit('get_daily_puzzle');
+        };
+
         socket.on('daily_puzzle_data', handleDailyPuzzleData);
         socket.on('daily_puzzle_move_result', handleMoveResult);
         socket.on('daily_puzzle_completed', handleCompletion);
+        socket.on('daily_puzzle_rotated', handlePuzzleRotated);
 
         // Request today's puzzle
         socket.emit('get_daily_puzzle');
@@ -253,6 +259,7 @@ const DailyPuzzle: React.FC<DailyPuzzleProps> = ({ socket, language, user: _user
             socket.off('daily_puzzle_data', handleDailyPuzzleData);
             socket.off('daily_puzzle_move_result', handleMoveResult);
             socket.off('daily_puzzle_completed', handleCompletion);
+            socket.off('daily_puzzle_rotated', handlePuzzleRotated);
         };
     }, [socket, language, startTime, attempts, dailyData?.puzzle.krog]);
 
@@ -23,6 +23,9 @@ interface League {
   points_for_loss: number;
   current_round: number;
   total_rounds: number;
+  board_count?: number;
+  previous_league_id?: string | null;
+  next_league_id?: string | null;
   start_date: string | null;
   end_date: string | null;
   created_at: string;
@@ -31,6 +34,24 @@ interface League {
   participant_count?: number;
 }
 
+interface SeasonHistoryEntry {
+  id: string;
+  league_id: string | null;
+  league_name: string;
+  season: string | null;
+  team_name: string | null;
+  division: number;
+  final_position: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  games_played: number;
+  movement: 'promoted' | 'relegated' | 'stayed';
+  next_division: number;
+  recorded_at: string;
+}
+
 interface LeagueParticipant {
   id: string;
   league_id: string;
@@ -48,6 +69,7 @@ interface LeagueParticipant {
   joined_at: string;
   username?: string;
   rating?: number;
+  tiebreaks?: Record<string, number>;
 }
 
 interface LeagueMatch {
@@ -63,12 +85,65 @@ interface LeagueMatch {
   status: 'scheduled' | 'active' | 'completed' | 'forfeit';
   scheduled_at: string | null;
   played_at: string | null;
+  fixture_id?: string | null;
+  board?: number | null;
   home_username?: string;
   away_username?: string;
   home_rating?: number;
   away_rating?: number;
 }
 
+interface BoardBreakdown {
+  board: number;
+  played: number;
+  points: number;
+  players: { userId: string; played: number; points: number }[];
+}
+
+interface LeagueTeam {
+  id: string;
+  league_id: string;
+  club_id: string;
+  name: string;
+  captain_id: string;
+  division: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  games_played: number;
+  board_points_for: number;
+  board_points_against: number;
+  form: string;
+  status: 'active' | 'withdrawn' | 'relegated' | 'promoted';
+  club_name?: string;
+  logo_emoji?: string;
+  players?: { user_id: string; board_order: number; username?: string; rating?: number }[];
+  tiebreaks?: Record<string, number>;
+  boards?: BoardBreakdown[];
+}
+
+interface LeagueFixture {
+  id: string;
+  round: number;
+  home_team_id: string;
+  away_team_id: string;
+  home_points: number;
+  away_points: number;
+  result: string | null;
+  status: 'scheduled' | 'active' | 'completed' | 'forfeit';
+  home_team_name?: string;
+  away_team_name?: string;
+  boards?: LeagueMatch[];
+}
+
+interface TeamOptionClub {
+  id: string;
+  name: string;
+  logoEmoji: string;
+  members: { userId: string; username?: string; rating?: number }[];
+}
+
 interface LeaguePanelProps {
   socket: Socket;
   language: 'en' | 'no';
@@ -128,7 +203,32 @@ const translations = {
     promotion: 'Promotion',
     relegation: 'Relegation',
     home: 'Home',
-    away: 'Away'
+    away: 'Away',
+    teams: 'Teams',
+    boards: 'Boards',
+    board: 'Board',
+    boardPoints: 'BP',
+    club: 'Club',
+    teamName: 'Team Name',
+    roster: 'Roster (board order)',
+    reserve: 'Reserve',
+    enterTeam: 'Enter Team',
+    updateTeam: 'Update Team',
+    withdrawTeam: 'Withdraw',
+    editTeam: 'Edit',
+    noAdminClubs: 'Club owners and admins can enter a team',
+    rosterHint: 'Pick players in board order',
+    promotionSpots: 'Promoted',
+    relegationSpots: 'Relegated',
+    nextSeason: 'Start Next Season',
+    goToNextSeason: 'Next season',
+    goToPreviousSeason: 'Previous season',
+    history: 'History',
+    noHistory: 'No finished seasons yet',
+    promoted: 'Promoted',
+    relegated: 'Relegated',
+    stayed: 'Stayed',
+    position: 'Pos'
   },
   no: {
     leagues: 'Ligaer',
@@ -182,7 +282,32 @@ const translations = {
     promotion: 'Opprykk',
     relegation: 'Nedrykk',
     home: 'Hjemme',
-    away: 'Borte'
+    away: 'Borte',
+    teams: 'Lag',
+    boards: 'Bord',
+    board: 'Bord',
+    boardPoints: 'BP',
+    club: 'Klubb',
+    teamName: 'Lagnavn',
+    roster: 'Lagoppstilling (bordrekkefolge)',
+    reserve: 'Reserve',
+    enterTeam: 'Meld pa lag',
+    updateTeam: 'Oppdater lag',
+    withdrawTeam: 'Trekk',
+    editTeam: 'Rediger',
+    noAdminClubs: 'Klubbeiere og administratorer kan melde pa lag',
+    rosterHint: 'Velg spillere i bordrekkefolge',
+    promotionSpots: 'Opprykk',
+    relegationSpots: 'Nedrykk',
+    nextSeason: 'Start neste sesong',
+    goToNextSeason: 'Neste sesong',
+    goToPreviousSeason: 'Forrige sesong',
+    history: 'Historikk',
+    noHistory: 'Ingen fullforte sesonger enna',
+    promoted: 'Rykket opp',
+    relegated: 'Rykket ned',
+    stayed: 'Ble vaerende',
+    position: 'Plass'
   }
 };
 
@@ -192,7 +317,7 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
   const t = translations[language];
 
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'open' | 'active' | 'completed' | 'my' | 'create' | 'standings' | 'fixtures' | 'myMatches'>('open');
+  const [activeTab, setActiveTab] = useState<'open' | 'active' | 'completed' | 'my' | 'history' | 'create' | 'standings' | 'fixtures' | 'myMatches'>('open');
   const [openLeagues, setOpenLeagues] = useState<League[]>([]);
   const [activeLeagues, setActiveLeagues] = useState<League[]>([]);
   const [completedLeagues, setCompletedLeagues] = useState<League[]>([]);
@@ -205,6 +330,20 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
   const [isRegistered, setIsRegistered] = useState(false);
   const [selectedDivision, setSelectedDivision] = useState(1);
 
+  // Team leagues
+  const [teams, setTeams] = useState<LeagueTeam[]>([]);
+  const [fixtures, setFixtures] = useState<LeagueFixture[]>([]);
+  const [expandedTeamId, setExpandedTeamId] = useState<string | null>(null);
+  const [teamOptions, setTeamOptions] = useState<TeamOptionClub[]>([]);
+  const [teamClubId, setTeamClubId] = useState('');
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null);
+  const [teamName, setTeamName] = useState('');
+  const [teamRoster, setTeamRoster] = useState<string[]>([]);
+
+  // Seasons
+  const [nextSeasonName, setNextSeasonName] = useState('');
+  const [seasonHistory, setSeasonHistory] = useState<SeasonHistoryEntry[]>([]);
+
   // Create form state
   const [createName, setCreateName] = useState('');
   const [createDescription, setCreateDescription] = useState('');
@@ -216,6 +355,9 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
   const [createPointsWin, setCreatePointsWin] = useState(3);
   const [createPointsDraw, setCreatePointsDraw] = useState(1);
   const [createPointsLoss, _setCreatePointsLoss] = useState(0);
+  const [createBoardCount, setCreateBoardCount] = useState(4);
+  const [createPromotionSpots, setCreatePromotionSpots] = useState(2);
+  const [createRelegationSpots, setCreateRelegationSpots] = useState(2);
 
   useEffect(() => {
     // Request leagues only when panel is open
@@ -224,6 +366,9 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
       socket.emit('get_active_leagues');
       socket.emit('get_completed_leagues');
       socket.emit('get_my_leagues');
+      if (user) {
+        socket.emit('get_season_history');
+      }
     }
 
     // Listen for league updates
@@ -231,13 +376,61 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
     socket.on('active_leagues', ({ leagues }) => setActiveLeagues(leagues));
     socket.on('completed_leagues', ({ leagues }) => setCompletedLeagues(leagues));
     socket.on('my_leagues', ({ leagues }) => setMyLeagues(leagues));
+    socket.on('season_history', ({ seasons }) => setSeasonHistory(seasons));
+
+    socket.on('league_season_rolled_over', ({ success, league }) => {
+      if (success) {
+        setNextSeasonName('');
+        socket.emit('get_league', { leagueId: league.id });
+        socket.emit('get_season_history');
+      }
+    });
 
-    socket.on('league_details', ({ league, participants: p, matches: m, myMatches: mm, isRegistered: reg }) => {
+    socket.on('league_details', ({ league, participants: p, matches: m, myMatches: mm, isRegistered: reg, teams: tm, fixtures: fx }) => {
       setSelectedLeague(league);
       setParticipants(p);
       setMatches(m);
       setMyMatches(mm);
       setIsRegistered(reg);
+      setTeams(tm || []);
+      setFixtures(fx || []);
+      if (league.type === 'team' && league.status === 'registration') {
+        socket.emit('get_league_team_options', { leagueId: league.id });
+      }
+    });
+
+    socket.on('league_team_options', ({ leagueId, clubs }: { leagueId: string; clubs: TeamOptionClub[] }) => {
+      if (selectedLeague?.id === leagueId) {
+        setTeamOptions(clubs);
+        setTeamClubId(prev => prev || clubs[0]?.id || '');
+      }
+    });
+
+    socket.on('league_team_registered', ({ success, leagueId }) => {
+      if (success) {
+        setEditingTeamId(null);
+        setTeamRoster([]);
+        setTeamName('');
+        socket.emit('get_league', { leagueId });
+      }
+    });
+
+    socket.on('league_team_withdrawn', ({ success, leagueId }) => {
+      if (success) {
+        socket.emit('get_league', { leagueId });
+      }
+    });
+
+    socket.on('league_fixture_updated', ({ leagueId }) => {
+      if (selectedLeague?.id === leagueId) {
+        socket.emit('get_league', { leagueId });
+      }
+    });
+
+    socket.on('league_fixture_completed', ({ leagueId }) => {
+      if (selectedLeague?.id === leagueId) {
+        socket.emit('get_league', { leagueId });
+      }
     });
 
     socket.on('league_standings', ({ standings }) => {
@@ -299,12 +492,25 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
       }
     });
 
+    socket.on('league_round_started', ({ leagueId }) => {
+      if (selectedLeague?.id === leagueId) {
+        socket.emit('get_league', { leagueId });
+      }
+    });
+
     return () => {
       socket.off('open_leagues');
       socket.off('active_leagues');
       socket.off('completed_leagues');
       socket.off('my_leagues');
+      socket.off('season_history');
+      socket.off('league_season_rolled_over');
       socket.off('league_details');
+      socket.off('league_team_options');
+      socket.off('league_team_registered');
+      socket.off('league_team_withdrawn');
+      socket.off('league_fixture_updated');
+      socket.off('league_fixture_completed');
       socket.off('league_standings');
       socket.off('league_created');
       socket.off('league_joined');
@@ -314,8 +520,9 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
       socket.off('league_participant_update');
       socket.off('league_fixtures_generated');
       socket.off('league_match_completed');
+      socket.off('league_round_started');
     };
-  }, [socket, selectedLeague?.id, isOpen]);
+  }, [socket, selectedLeague?.id, isOpen, user?.id]);
 
   const handleCreateLeague = () => {
     if (!createName.trim()) return;
@@ -329,7 +536,10 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
       maxDivisions: createMaxDivisions,
       pointsForWin: createPointsWin,
       pointsForDraw: createPointsDraw,
-      pointsForLoss: createPointsLoss
+      pointsForLoss: createPointsLoss,
+      boardCount: createType === 'team' ? createBoardCount : undefined,
+      promotionSpots: createMaxDivisions > 1 ? createPromotionSpots : undefined,
+      relegationSpots: createMaxDivisions > 1 ? createRelegationSpots : undefined
     });
   };
 
@@ -360,6 +570,51 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
     }
   };
 
+  const handleRolloverSeason = () => {
+    if (!selectedLeague) return;
+    socket.emit('rollover_league_season', {
+      leagueId: selectedLeague.id,
+      season: nextSeasonName.trim() || undefined
+    });
+  };
+
+  const handleRegisterTeam = () => {
+    if (!selectedLeague || !teamClubId) return;
+    socket.emit('register_league_team', {
+      leagueId: selectedLeague.id,
+      clubId: teamClubId,
+      teamId: editingTeamId || undefined,
+      name: teamName.trim() || undefined,
+      roster: teamRoster
+    });
+  };
+
+  const handleEditTeam = (team: LeagueTeam) => {
+    setEditingTeamId(team.id);
+    setTeamClubId(team.club_id);
+    setTeamName(team.name);
+    setTeamRoster((team.players || []).map(p => p.user_id));
+  };
+
+  const handleWithdrawTeam = (teamId: string) => {
+    socket.emit('withdraw_league_team', { teamId });
+  };
+
+  // Clicking a member adds them to the next board, clicking again removes them
+  const toggleRosterPlayer = (userId: string) => {
+    setTeamRoster(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const moveRosterPlayer = (index: number, delta: number) => {
+    setTeamRoster(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
   const handlePlayMatch = (match: LeagueMatch) => {
     if (match.room_code && onJoinLeagueMatch) {
       onJoinLeagueMatch(match.room_code);
@@ -410,15 +665,54 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
     </div>
   );
 
+  const renderSeasonHistory = () => (
+    <div>
+      {seasonHistory.length === 0 ? (
+        <div style={{ color: '#888', textAlign: 'center', padding: isMobile ? '24px 16px' : '20px', fontSize: isMobile ? '0.9rem' : '1rem' }}>
+          {t.noHistory}
+        </div>
+      ) : (
+        seasonHistory.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => entry.league_id && socket.emit('get_league', { leagueId: entry.league_id })}
+            style={{
+              padding: isMobile ? '14px' : '12px',
+              background: '#1a1a1a',
+              borderRadius: '4px',
+              marginBottom: isMobile ? '10px' : '8px',
+              cursor: entry.league_id ? 'pointer' : 'default',
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '8px'
+            }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontWeight: 'bold', fontSize: isMobile ? '0.95rem' : '1rem' }}>
+                {entry.league_name}{entry.season && ` (${entry.season})`}
+              </div>
+              <div style={{ fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
+                {entry.team_name && `${entry.team_name} | `}
+                {t.division} {entry.division} | {t.position} {entry.final_position} | {entry.points} {t.points} | {entry.wins}-{entry.draws}-{entry.losses}
+              </div>
+            </div>
+            <span style={{
+              fontSize: isMobile ? '0.8rem' : '12px',
+              flexShrink: 0,
+              color: entry.movement === 'promoted' ? '#4CAF50' : entry.movement === 'relegated' ? '#F44336' : '#888'
+            }}>
+              {entry.movement === 'promoted' ? `▲ ${t.promoted}` : entry.movement === 'relegated' ? `▼ ${t.relegated}` : t.stayed}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+
   const renderStandings = () => {
-    const divisionParticipants = participants.filter(p => p.division === selectedDivision);
-    const sortedParticipants = [...divisionParticipants].sort((a, b) => {
-      if (b.points !== a.points) return b.points - a.points;
-      const aGD = a.goals_for - a.goals_against;
-      const bGD = b.goals_for - b.goals_against;
-      if (bGD !== aGD) return bGD - aGD;
-      return b.wins - a.wins;
-    });
+    // Already ranked by the server (points, then the league's tiebreaks)
+    const sortedParticipants = participants.filter(p => p.division === selectedDivision);
 
     return (
       <div>
@@ -463,9 +757,12 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             </thead>
             <tbody>
               {sortedParticipants.map((p, idx) => {
-                const isPromotion = selectedLeague && selectedDivision > 1 && idx < selectedLeague.promotion_count;
-                const isRelegation = selectedLeague && selectedDivision < selectedLeague.max_divisions &&
-                                     idx >= sortedParticipants.length - selectedLeague.relegation_count;
+                // Once a season has rolled over, show who actually moved
+                const isPromotion = p.status === 'promoted' ||
+                                    (selectedLeague && selectedDivision > 1 && idx < selectedLeague.promotion_count);
+                const isRelegation = p.status === 'relegated' ||
+                                     (selectedLeague && selectedDivision < selectedLeague.max_divisions &&
+                                      idx >= sortedParticipants.length - selectedLeague.relegation_count);
                 return (
                   <tr key={p.id} style={{
                     borderBottom: '1px solid #222',
@@ -481,7 +778,7 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#4CAF50' }}>{p.wins}</td>
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#888' }}>{p.draws}</td>
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#F44336' }}>{p.losses}</td>
-                    {!isMobile && <td style={{ textAlign: 'center', padding: '8px' }}>{p.goals_for - p.goals_against}</td>}
+                    {!isMobile && <td style={{ textAlign: 'center', padding: '8px' }}>{p.tiebreaks?.board_points ?? p.goals_for - p.goals_against}</td>}
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', fontWeight: 'bold' }}>{p.points}</td>
                     {!isMobile && (
                       <td style={{ textAlign: 'center', padding: '8px' }}>
@@ -577,13 +874,336 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
     );
   };
 
+  const renderTeamStandings = () => {
+    // Already ranked by the server (match points, then the league's tiebreaks)
+    const divisionTeams = teams.filter(team => team.division === selectedDivision);
+
+    return (
+      <div>
+        {selectedLeague && selectedLeague.max_divisions > 1 && (
+          <div style={{ marginBottom: '12px' }}>
+            <select
+              value={selectedDivision}
+              onChange={(e) => setSelectedDivision(parseInt(e.target.value))}
+              style={{
+                padding: isMobile ? '12px' : '8px',
+                background: '#1a1a1a',
+                color: 'white',
+                border: '1px solid #333',
+                borderRadius: '4px',
+                minHeight: isMobile ? '44px' : 'auto'
+              }}
+            >
+              {Array.from({ length: selectedLeague.max_divisions }, (_, i) => (
+                <option key={i + 1} value={i + 1}>{t.division} {i + 1}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div style={{ overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: isMobile ? '0.75rem' : '14px', minWidth: isMobile ? '400px' : 'auto' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #333' }}>
+                <th style={{ textAlign: 'left', padding: isMobile ? '8px 4px' : '8px' }}>#</th>
+                <th style={{ textAlign: 'left', padding: isMobile ? '8px 4px' : '8px' }}>{t.team}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.played}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.won}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.drawn}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.lost}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.boardPoints}</th>
+                <th style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{t.points}</th>
+                {!isMobile && <th style={{ textAlign: 'center', padding: '8px' }}>{t.form}</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {divisionTeams.map((team, idx) => {
+                const isExpanded = expandedTeamId === team.id;
+              const isPromotion = team.status === 'promoted' ||
+                                  (selectedLeague && selectedDivision > 1 && idx < selectedLeague.promotion_count);
+              const isRelegation = team.status === 'relegated' ||
+                                   (selectedLeague && selectedDivision < selectedLeague.max_divisions &&
+                                    idx >= divisionTeams.length - selectedLeague.relegation_count);
+                const playerName = (userId: string) =>
+                  team.players?.find(p => p.user_id === userId)?.username || '?';
+
+                return [
+                  <tr
+                    key={team.id}
+                    onClick={() => setExpandedTeamId(isExpanded ? null : team.id)}
+                    style={{
+                    borderBottom: '1px solid #222',
+                    cursor: 'pointer',
+                    background: isExpanded ? '#1a2a3a' :
+                               isPromotion ? 'rgba(76, 175, 80, 0.1)' :
+                               isRelegation ? 'rgba(244, 67, 54, 0.1)' : 'transparent'
+                  }}
+                  >
+                    <td style={{ padding: isMobile ? '8px 4px' : '8px' }}>{idx + 1}</td>
+                    <td style={{ padding: isMobile ? '8px 4px' : '8px' }}>
+                      {team.logo_emoji && <span style={{ marginRight: '4px' }}>{team.logo_emoji}</span>}
+                      {team.name}
+                    </td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>{team.games_played}</td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#4CAF50' }}>{team.wins}</td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#888' }}>{team.draws}</td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', color: '#F44336' }}>{team.losses}</td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px' }}>
+                      {team.board_points_for}-{team.board_points_against}
+                    </td>
+                    <td style={{ textAlign: 'center', padding: isMobile ? '8px 4px' : '8px', fontWeight: 'bold' }}>{team.points}</td>
+                    {!isMobile && (
+                      <td style={{ textAlign: 'center', padding: '8px' }}>
+                        {team.form.split('').map((f, i) => (
+                          <span key={i} style={{
+                            color: f === 'W' ? '#4CAF50' : f === 'L' ? '#F44336' : '#888',
+                            marginRight: '2px'
+                          }}>
+                            {f}
+                          </span>
+                        ))}
+                      </td>
+                    )}
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${team.id}-boards`} style={{ borderBottom: '1px solid #222', background: '#111' }}>
+                      <td colSpan={isMobile ? 8 : 9} style={{ padding: isMobile ? '8px 4px' : '8px 16px' }}>
+                        {(team.boards || []).length === 0 ? (
+                          <div style={{ color: '#888' }}>
+                            {(team.players || []).map(p => (
+                              <div key={p.user_id}>
+                                {p.board_order <= (selectedLeague?.board_count || 4) ? `${t.board} ${p.board_order}` : t.reserve}: {p.username}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          team.boards!.map(b => (
+                            <div key={b.board} style={{ marginBottom: '4px' }}>
+                              <strong>{t.board} {b.board}</strong>: {b.points}/{b.played}
+                              <span style={{ color: '#888', marginLeft: '8px' }}>
+                                {b.players.map(p => `${playerName(p.userId)} ${p.points}/${p.played}`).join(', ')}
+                              </span>
+                            </div>
+                          ))
+                        )}
+                      </td>
+                    </tr>
+                  )
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const renderTeamFixtures = () => {
+    const rounds = [...new Set(fixtures.map(f => f.round))].sort((a, b) => a - b);
+
+    return (
+      <div>
+        {rounds.map(round => (
+          <div key={round} style={{ marginBottom: isMobile ? '12px' : '16px' }}>
+            <h4 style={{ color: '#888', marginBottom: '8px', fontSize: isMobile ? '0.85rem' : '1rem' }}>{t.round} {round}</h4>
+            {fixtures.filter(f => f.round === round).map(fixture => (
+              <div
+                key={fixture.id}
+                style={{
+                  padding: isMobile ? '12px' : '8px 12px',
+                  background: '#1a1a1a',
+                  borderRadius: '4px',
+                  marginBottom: isMobile ? '8px' : '6px'
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', fontWeight: 'bold', marginBottom: '6px', fontSize: isMobile ? '0.9rem' : '1rem' }}>
+                  <span>{fixture.home_team_name}</span>
+                  <span style={{ color: fixture.result ? '#4CAF50' : '#888' }}>
+                    {fixture.home_points} - {fixture.away_points}
+                  </span>
+                  <span>{fixture.away_team_name}</span>
+                </div>
+                {(fixture.boards || []).map(match => {
+                  const isMyMatch = user && (match.home_id === user.id || match.away_id === user.id);
+                  const canPlay = isMyMatch && match.status === 'scheduled' && selectedLeague?.status === 'active';
+
+                  return (
+                    <div
+                      key={match.id}
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        gap: '8px',
+                        padding: '4px 6px',
+                        borderRadius: '4px',
+                        background: isMyMatch ? '#1a2a3a' : 'transparent',
+                        fontSize: isMobile ? '0.8rem' : '14px'
+                      }}
+                    >
+                      <span style={{ color: '#888', minWidth: '28px' }}>B{match.board}</span>
+                      <span style={{ flex: 1 }}>
+                        {match.home_username} {t.vs} {match.away_username}
+                      </span>
+                      {match.result ? (
+                        <span style={{ color: '#4CAF50' }}>{match.home_score} - {match.away_score}</span>
+                      ) : (
+                        <span style={{ color: match.status === 'active' ? '#2196F3' : '#888', fontSize: isMobile ? '0.7rem' : '12px' }}>
+                          {match.status}
+                        </span>
+                      )}
+                      {canPlay && (
+                        <button
+                          onClick={() => handlePlayMatch(match)}
+                          style={{
+                            padding: isMobile ? '10px 16px' : '4px 12px',
+                            background: '#4CAF50',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: isMobile ? '0.85rem' : '1rem',
+                            minHeight: isMobile ? '44px' : 'auto'
+                          }}
+                        >
+                          {t.play}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderTeamRegistration = () => {
+    if (!selectedLeague || !user) return null;
+
+    const boardCount = selectedLeague.board_count || 4;
+    const myTeams = teams.filter(team => team.captain_id === user.id);
+    const club = teamOptions.find(c => c.id === teamClubId);
+    const memberName = (userId: string) => club?.members.find(m => m.userId === userId)?.username || '?';
+
+    return (
+      <div style={{ padding: isMobile ? '12px' : '12px 16px', background: '#1a1a1a', borderRadius: '4px', marginBottom: isMobile ? '12px' : '16px' }}>
+        {myTeams.map(team => (
+          <div key={team.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+            <span>{team.logo_emoji} {team.name} ({team.players?.length || 0})</span>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={() => handleEditTeam(team)}
+                style={{ padding: isMobile ? '10px 16px' : '4px 12px', background: '#333', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', minHeight: isMobile ? '44px' : 'auto' }}
+              >
+                {t.editTeam}
+              </button>
+              <button
+                onClick={() => handleWithdrawTeam(team.id)}
+                style={{ padding: isMobile ? '10px 16px' : '4px 12px', background: '#F44336', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', minHeight: isMobile ? '44px' : 'auto' }}
+              >
+                {t.withdrawTeam}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {teamOptions.length === 0 ? (
+          <div style={{ color: '#888', fontSize: isMobile ? '0.85rem' : '14px' }}>{t.noAdminClubs}</div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <div style={{ display: 'flex', gap: '8px', flexDirection: isMobile ? 'column' : 'row' }}>
+              <select
+                value={teamClubId}
+                onChange={(e) => {
+                  setTeamClubId(e.target.value);
+                  setTeamRoster([]);
+                }}
+                disabled={!!editingTeamId}
+                style={{ flex: 1, padding: isMobile ? '12px' : '8px', background: '#111', color: 'white', border: '1px solid #333', borderRadius: '4px', minHeight: isMobile ? '44px' : 'auto' }}
+              >
+                {teamOptions.map(c => (
+                  <option key={c.id} value={c.id}>{c.logoEmoji} {c.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder={t.teamName}
+                value={teamName}
+                onChange={(e) => setTeamName(e.target.value)}
+                style={{ flex: 1, padding: isMobile ? '12px' : '8px', background: '#111', color: 'white', border: '1px solid #333', borderRadius: '4px', minHeight: isMobile ? '44px' : 'auto' }}
+              />
+            </div>
+
+            <div style={{ fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
+              {t.roster}: {t.rosterHint} ({boardCount}-{boardCount * 2})
+            </div>
+            {teamRoster.map((userId, idx) => (
+              <div key={userId} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: isMobile ? '0.85rem' : '14px' }}>
+                <span style={{ color: '#888', minWidth: '70px' }}>{idx < boardCount ? `${t.board} ${idx + 1}` : t.reserve}</span>
+                <span style={{ flex: 1 }}>{memberName(userId)}</span>
+                <button
+                  onClick={() => moveRosterPlayer(idx, -1)}
+                  disabled={idx === 0}
+                  style={{ padding: '2px 8px', background: '#333', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => toggleRosterPlayer(userId)}
+                  style={{ padding: '2px 8px', background: '#333', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {club?.members.filter(m => !teamRoster.includes(m.userId)).map(m => (
+                <button
+                  key={m.userId}
+                  onClick={() => toggleRosterPlayer(m.userId)}
+                  disabled={teamRoster.length >= boardCount * 2}
+                  style={{ padding: isMobile ? '8px 12px' : '4px 10px', background: '#333', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: isMobile ? '0.85rem' : '13px' }}
+                >
+                  + {m.username} {m.rating && <span style={{ color: '#888' }}>({m.rating})</span>}
+                </button>
+              ))}
+            </div>
+
+            <button
+              onClick={handleRegisterTeam}
+              disabled={teamRoster.length < boardCount || teamRoster.length > boardCount * 2}
+              style={{
+                padding: isMobile ? '12px 20px' : '8px 16px',
+                background: teamRoster.length >= boardCount ? '#4CAF50' : '#555',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: teamRoster.length >= boardCount ? 'pointer' : 'not-allowed',
+                fontSize: isMobile ? '0.9rem' : '1rem',
+                minHeight: isMobile ? '44px' : 'auto',
+                alignSelf: 'flex-start'
+              }}
+            >
+              {editingTeamId ? t.updateTeam : t.enterTeam}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderLeagueDetail = () => {
     if (!selectedLeague) return null;
 
     const isCreator = user?.id === selectedLeague.creator_id;
-    const canStart = isCreator && selectedLeague.status === 'registration' && participants.length >= 2;
-    const canJoin = user && !isRegistered && selectedLeague.status === 'registration';
-    const canLeave = user && isRegistered && !isCreator && selectedLeague.status === 'registration';
+    const isTeamLeague = selectedLeague.type === 'team';
+    const entrants = isTeamLeague ? teams.length : participants.length;
+    const canStart = isCreator && selectedLeague.status === 'registration' && entrants >= 2;
+    const canJoin = user && !isTeamLeague && !isRegistered && selectedLeague.status === 'registration';
+    const canLeave = user && !isTeamLeague && isRegistered && !isCreator && selectedLeague.status === 'registration';
+    const canRollover = isCreator && selectedLeague.status === 'completed' && !selectedLeague.next_league_id;
 
     return (
       <div>
@@ -616,7 +1236,8 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             {selectedLeague.season && ` | ${selectedLeague.season}`}
           </div>
           <div style={{ fontSize: isMobile ? '0.8rem' : '14px', color: '#888' }}>
-            {t.round}: {selectedLeague.current_round}/{selectedLeague.total_rounds} | {t.participants}: {participants.length}
+            {t.round}: {selectedLeague.current_round}/{selectedLeague.total_rounds} | {isTeamLeague ? t.teams : t.participants}: {entrants}
+            {isTeamLeague && ` | ${t.boards}: ${selectedLeague.board_count || 4}`}
           </div>
         </div>
 
@@ -672,6 +1293,76 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
               {t.start}
             </button>
           )}
+          {canRollover && (
+            <>
+              <input
+                type="text"
+                placeholder={t.season}
+                value={nextSeasonName}
+                onChange={(e) => setNextSeasonName(e.target.value)}
+                style={{
+                  padding: isMobile ? '12px' : '8px',
+                  background: '#1a1a1a',
+                  border: '1px solid #333',
+                  borderRadius: '4px',
+                  color: 'white',
+                  fontSize: isMobile ? '0.9rem' : '1rem',
+                  minHeight: isMobile ? '44px' : 'auto',
+                  width: isMobile ? '100%' : '140px',
+                  boxSizing: 'border-box'
+                }}
+              />
+              <button
+                onClick={handleRolloverSeason}
+                style={{
+                  padding: isMobile ? '12px 20px' : '8px 16px',
+                  background: '#2196F3',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: isMobile ? '0.9rem' : '1rem',
+                  minHeight: isMobile ? '44px' : 'auto'
+                }}
+              >
+                {t.nextSeason}
+              </button>
+            </>
+          )}
+          {selectedLeague.previous_league_id && (
+            <button
+              onClick={() => socket.emit('get_league', { leagueId: selectedLeague.previous_league_id })}
+              style={{
+                padding: isMobile ? '12px 20px' : '8px 16px',
+                background: '#333',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: isMobile ? '0.9rem' : '1rem',
+                minHeight: isMobile ? '44px' : 'auto'
+              }}
+            >
+              ← {t.goToPreviousSeason}
+            </button>
+          )}
+          {selectedLeague.next_league_id && (
+            <button
+              onClick={() => socket.emit('get_league', { leagueId: selectedLeague.next_league_id })}
+              style={{
+                padding: isMobile ? '12px 20px' : '8px 16px',
+                background: '#333',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: isMobile ? '0.9rem' : '1rem',
+                minHeight: isMobile ? '44px' : 'auto'
+              }}
+            >
+              {t.goToNextSeason} →
+            </button>
+          )}
           {isCreator && selectedLeague.status !== 'active' && (
             <button
               onClick={handleDeleteLeague}
@@ -691,6 +1382,8 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
           )}
         </div>
 
+        {isTeamLeague && selectedLeague.status === 'registration' && renderTeamRegistration()}
+
         <div style={{ display: 'flex', gap: '8px', marginBottom: isMobile ? '12px' : '16px', flexWrap: 'wrap' }}>
           <button
             onClick={() => setActiveTab('standings')}
@@ -741,8 +1434,8 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
           )}
         </div>
 
-        {activeTab === 'standings' && renderStandings()}
-        {activeTab === 'fixtures' && renderFixtures()}
+        {activeTab === 'standings' && (isTeamLeague ? renderTeamStandings() : renderStandings())}
+        {activeTab === 'fixtures' && (isTeamLeague ? renderTeamFixtures() : renderFixtures())}
         {activeTab === 'myMatches' && (
           <div>
             {myMatches.map(match => {
@@ -858,6 +1551,29 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             <option value="team">{t.team}</option>
           </select>
         </div>
+        {createType === 'team' && (
+          <div style={{ flex: 1 }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>{t.boards}</label>
+            <select
+              value={createBoardCount}
+              onChange={(e) => setCreateBoardCount(parseInt(e.target.value))}
+              style={{
+                width: '100%',
+                padding: isMobile ? '12px' : '10px',
+                background: '#1a1a1a',
+                border: '1px solid #333',
+                borderRadius: '4px',
+                color: 'white',
+                fontSize: isMobile ? '1rem' : '1rem',
+                minHeight: isMobile ? '44px' : 'auto'
+              }}
+            >
+              {[2, 3, 4, 5, 6, 8, 10].map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <div style={{ flex: 1 }}>
           <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>{t.format}</label>
           <select
@@ -949,6 +1665,52 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             }}
           />
         </div>
+        {createMaxDivisions > 1 && (
+          <>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>{isMobile ? '▲' : t.promotionSpots}</label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={createPromotionSpots}
+                onChange={(e) => setCreatePromotionSpots(parseInt(e.target.value) || 0)}
+                style={{
+                  width: '100%',
+                  padding: isMobile ? '12px' : '10px',
+                  background: '#1a1a1a',
+                  border: '1px solid #333',
+                  borderRadius: '4px',
+                  color: 'white',
+                  boxSizing: 'border-box',
+                  fontSize: isMobile ? '1rem' : '1rem',
+                  minHeight: isMobile ? '44px' : 'auto'
+                }}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>{isMobile ? '▼' : t.relegationSpots}</label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={createRelegationSpots}
+                onChange={(e) => setCreateRelegationSpots(parseInt(e.target.value) || 0)}
+                style={{
+                  width: '100%',
+                  padding: isMobile ? '12px' : '10px',
+                  background: '#1a1a1a',
+                  border: '1px solid #333',
+                  borderRadius: '4px',
+                  color: 'white',
+                  boxSizing: 'border-box',
+                  fontSize: isMobile ? '1rem' : '1rem',
+                  minHeight: isMobile ? '44px' : 'auto'
+                }}
+              />
+            </div>
+          </>
+        )}
         <div style={{ flex: 1 }}>
           <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>{isMobile ? 'W' : t.pointsForWin}</label>
           <input
@@ -1132,7 +1894,7 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             overflowX: isMobile ? 'auto' : 'visible',
             WebkitOverflowScrolling: 'touch'
           }}>
-            {(['open', 'active', 'completed', 'my', 'create'] as const).map(tab => (
+            {(['open', 'active', 'completed', 'my', 'history', 'create'] as const).map(tab => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -1152,6 +1914,7 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
                  tab === 'active' ? t.active :
                  tab === 'completed' ? (isMobile ? 'Done' : t.completed) :
                  tab === 'my' ? (isMobile ? 'My' : t.myLeagues) :
+                 tab === 'history' ? t.history :
                  '+'}
               </button>
             ))}
@@ -1168,6 +1931,7 @@ export function LeaguePanel({ socket, language, onJoinLeagueMatch }: LeaguePanel
             {activeTab === 'active' && renderLeagueList(activeLeagues)}
             {activeTab === 'completed' && renderLeagueList(completedLeagues)}
             {activeTab === 'my' && renderLeagueList(myLeagues)}
+            {activeTab === 'history' && renderSeasonHistory()}
             {activeTab === 'create' && renderCreateForm()}
           </div>
         </div>
@@ -5,10 +5,10 @@ import { useIsMobile } from '../hooks/useMediaQuery';
 
 interface MatchmakingPanelProps {
   socket: Socket | null;
-  onMatchFound: (data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string }) => void;
+  onMatchFound: (data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string; isComputerGame?: boolean }) => void;
 }
 
-type TimeControl = 'bullet' | 'blitz' | 'rapid';
+type TimeControl = 'bullet' | 'blitz' | 'rapid' | 'custom';
 
 interface TimeControlOption {
   id: TimeControl;
@@ -19,16 +19,46 @@ interface TimeControlOption {
 const TIME_CONTROLS: TimeControlOption[] = [
   { id: 'bullet', label: 'Bullet', description: '1 min' },
   { id: 'blitz', label: 'Blitz', description: '3+2' },
-  { id: 'rapid', label: 'Rapid', description: '10 min' }
+  { id: 'rapid', label: 'Rapid', description: '10 min' },
+  { id: 'custom', label: 'Custom', description: 'min + sec' }
 ];
 
+type Variant =
+  | 'standard' | 'chess960' | 'threeCheck' | 'kingOfTheHill' | 'crazyhouse'
+  | 'atomic' | 'antichess' | 'horde' | 'racingKings';
+
+// Bughouse needs four players, so it is only played in rooms
+const VARIANTS: { id: Variant; label: string }[] = [
+  { id: 'standard', label: 'Standard' },
+  { id: 'chess960', label: 'Chess960' },
+  { id: 'threeCheck', label: '3-Check' },
+  { id: 'kingOfTheHill', label: 'KotH' },
+  { id: 'crazyhouse', label: 'Crazyhouse' },
+  { id: 'atomic', label: 'Atomic' },
+  { id: 'antichess', label: 'Antichess' },
+  { id: 'horde', label: 'Horde' },
+  { id: 'racingKings', label: 'Racing Kings' }
+];
+
+interface BotOffer {
+  difficulty: string;
+  rating: number;
+}
+
 export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps) {
   const { user, token } = useAuth();
   const isMobile = useIsMobile();
   const [isSearching, setIsSearching] = useState(false);
   const [selectedTimeControl, setSelectedTimeControl] = useState<TimeControl>('blitz');
+  const [customMinutes, setCustomMinutes] = useState(15);
+  const [customIncrement, setCustomIncrement] = useState(10);
+  const [selectedVariant, setSelectedVariant] = useState<Variant>('standard');
   const [queuePosition, setQueuePosition] = useState<number | null>(null);
   const [searchTime, setSearchTime] = useState(0);
+  const [queueRating, setQueueRating] = useState<number | null>(null);
+  const [ratingWindow, setRatingWindow] = useState<number | null>(null);
+  const [estimatedWait, setEstimatedWait] = useState<number | null>(null);
+  const [botOffer, setBotOffer] = useState<BotOffer | null>(null);
 
   // Authenticate socket when token changes
   useEffect(() => {
@@ -41,34 +71,50 @@ export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps
   useEffect(() => {
     if (!socket) return;
 
-    const handleMatchFound = (data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string }) => {
+    const handleMatchFound = (data: { roomCode: string; color: 'white' | 'black'; opponent: { username: string; rating: number }; timeControl: string; isComputerGame?: boolean }) => {
       setIsSearching(false);
       setQueuePosition(null);
+      setEstimatedWait(null);
+      setBotOffer(null);
       onMatchFound(data);
     };
 
-    const handleMatchmakingJoined = (_data: { timeControl: string; rating: number }) => {
+    const handleMatchmakingJoined = (data: { timeControl: string; variant: string; rating: number; ratingWindow: number }) => {
       setIsSearching(true);
+      setQueueRating(data.rating);
+      setRatingWindow(data.ratingWindow);
+      setEstimatedWait(null);
+      setBotOffer(null);
     };
 
-    const handleMatchmakingWaiting = (data: { position: number; timeControl: string }) => {
+    const handleMatchmakingWaiting = (data: { position: number; timeControl: string; variant: string; ratingWindow: number; estimatedWait: number | null }) => {
       setQueuePosition(data.position);
+      setRatingWindow(data.ratingWindow);
+      setEstimatedWait(data.estimatedWait);
+    };
+
+    const handleBotOffer = (data: BotOffer) => {
+      setBotOffer(data);
     };
 
     const handleMatchmakingLeft = () => {
       setIsSearching(false);
       setQueuePosition(null);
+      setEstimatedWait(null);
+      setBotOffer(null);
     };
 
     socket.on('match_found', handleMatchFound);
     socket.on('matchmaking_joined', handleMatchmakingJoined);
     socket.on('matchmaking_waiting', handleMatchmakingWaiting);
+    socket.on('matchmaking_bot_offer', handleBotOffer);
     socket.on('matchmaking_left', handleMatchmakingLeft);
 
     return () => {
       socket.off('match_found', handleMatchFound);
       socket.off('matchmaking_joined', handleMatchmakingJoined);
       socket.off('matchmaking_waiting', handleMatchmakingWaiting);
+      socket.off('matchmaking_bot_offer', handleBotOffer);
       socket.off('matchmaking_left', handleMatchmakingLeft);
     };
   }, [socket, onMatchFound]);
@@ -87,7 +133,9 @@ export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps
 
   const handleStartSearch = () => {
     if (!socket || !user) return;
-    socket.emit('join_matchmaking', { timeControl: selectedTimeControl });
+    // Custom controls are sent as "minutes+increment"; players queue with others on the same control
+    const timeControl = selectedTimeControl === 'custom' ? `${customMinutes}+${customIncrement}` : selectedTimeControl;
+    socket.emit('join_matchmaking', { timeControl, variant: selectedVariant });
   };
 
   const handleCancelSearch = () => {
@@ -95,6 +143,13 @@ export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps
     socket.emit('leave_matchmaking');
     setIsSearching(false);
     setQueuePosition(null);
+    setEstimatedWait(null);
+    setBotOffer(null);
+  };
+
+  const handleAcceptBot = () => {
+    if (!socket) return;
+    socket.emit('accept_bot_match');
   };
 
   const formatTime = (seconds: number) => {
@@ -147,6 +202,55 @@ export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps
                 </button>
               ))}
             </div>
+            {selectedTimeControl === 'custom' && (
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px', color: '#888', fontSize: isMobile ? '11px' : '12px' }}>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={180}
+                  step={0.5}
+                  value={customMinutes}
+                  onChange={(e) => setCustomMinutes(Number(e.target.value))}
+                  style={{ width: '60px', padding: '6px', backgroundColor: '#1a1a1a', border: '1px solid #444', borderRadius: '4px', color: '#fff' }}
+                />
+                min +
+                <input
+                  type="number"
+                  min={0}
+                  max={180}
+                  value={customIncrement}
+                  onChange={(e) => setCustomIncrement(Number(e.target.value))}
+                  style={{ width: '60px', padding: '6px', backgroundColor: '#1a1a1a', border: '1px solid #444', borderRadius: '4px', color: '#fff' }}
+                />
+                sec
+              </div>
+            )}
+          </div>
+
+          <div style={{ marginBottom: '12px' }}>
+            <div style={{ color: '#888', fontSize: isMobile ? '11px' : '12px', marginBottom: '8px' }}>Variant</div>
+            <div style={{ display: 'flex', gap: isMobile ? '6px' : '8px' }}>
+              {VARIANTS.map(v => (
+                <button
+                  key={v.id}
+                  onClick={() => setSelectedVariant(v.id)}
+                  style={{
+                    flex: 1,
+                    padding: isMobile ? '10px 6px' : '8px',
+                    backgroundColor: selectedVariant === v.id ? '#4CAF50' : '#1a1a1a',
+                    border: selectedVariant === v.id ? '2px solid #4CAF50' : '2px solid #444',
+                    borderRadius: isMobile ? '8px' : '6px',
+                    color: '#fff',
+                    fontSize: isMobile ? '12px' : '13px',
+                    cursor: 'pointer',
+                    transition: 'all 0.2s',
+                    WebkitTapHighlightColor: 'transparent'
+                  }}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </div>
           </div>
 
           <button
@@ -194,14 +298,37 @@ export function MatchmakingPanel({ socket, onMatchFound }: MatchmakingPanelProps
 
           {queuePosition !== null && (
             <div style={{ color: '#888', fontSize: isMobile ? '11px' : '12px', marginBottom: isMobile ? '10px' : '12px' }}>
-              Queue position: {queuePosition}
+              Queue position: {queuePosition} | Estimated wait: {estimatedWait === null ? 'unknown' : `~${formatTime(estimatedWait)}`}
             </div>
           )}
 
           <div style={{ color: '#888', fontSize: isMobile ? '11px' : '12px', marginBottom: isMobile ? '10px' : '12px' }}>
-            {TIME_CONTROLS.find(tc => tc.id === selectedTimeControl)?.label} | Rating: {user.rating} (±200)
+            {selectedTimeControl === 'custom'
+              ? `${customMinutes}+${customIncrement}`
+              : TIME_CONTROLS.find(tc => tc.id === selectedTimeControl)?.label} {VARIANTS.find(v => v.id === selectedVariant)?.label} | Rating: {queueRating ?? user.rating} (±{ratingWindow ?? 100})
           </div>
 
+          {botOffer && (
+            <button
+              onClick={handleAcceptBot}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: isMobile ? '12px' : '10px',
+                marginBottom: isMobile ? '10px' : '12px',
+                backgroundColor: '#3498db',
+                border: 'none',
+                borderRadius: isMobile ? '8px' : '6px',
+                color: '#fff',
+                fontSize: '14px',
+                cursor: 'pointer',
+                WebkitTapHighlightColor: 'transparent'
+              }}
+            >
+              Play rated game vs Computer ({botOffer.difficulty}, {botOffer.rating})
+            </button>
+          )}
+
           <button
             onClick={handleCancelSearch}
             style={{
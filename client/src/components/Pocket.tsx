@@ -0,0 +1,86 @@
+import React from 'react';
+import { PIECE_THEMES, PieceTheme } from './ChessBoard';
+import { DROP_PIECES, DropPiece, Pocket as PocketCounts } from '../utils/dropChess';
+
+interface PocketProps {
+  /** Pieces in hand */
+  pocket: PocketCounts;
+  /** Whose pocket it is */
+  color: 'white' | 'black';
+  /** Piece picked to drop, if any */
+  selected?: DropPiece | null;
+  /** Set when the pocket's owner may drop now */
+  onSelect?: (piece: DropPiece | null) => void;
+  pieceTheme?: PieceTheme;
+  compact?: boolean;
+}
+
+/**
+ * Crazyhouse/Bughouse pocket: the pieces in hand with their counts.
+ * Clicking a piece picks it to drop; clicking it again puts it back.
+ */
+const Pocket: React.FC<PocketProps> = ({
+  pocket,
+  color,
+  selected,
+  onSelect,
+  pieceTheme = PIECE_THEMES[0],
+  compact = false
+}) => {
+  const size = compact ? 28 : 36;
+
+  return (
+    <div style={{
+      display: 'flex',
+      gap: '6px',
+      alignItems: 'center',
+      minHeight: `${size + 8}px`,
+      padding: '4px 8px',
+      background: 'rgba(0,0,0,0.2)',
+      borderRadius: '6px'
+    }}>
+      {DROP_PIECES.filter(piece => pocket[piece] > 0).map(piece => (
+        <button
+          key={piece}
+          onClick={() => onSelect?.(selected === piece ? null : piece)}
+          disabled={!onSelect}
+          title={`${pocket[piece]} in hand`}
+          style={{
+            position: 'relative',
+            width: `${size}px`,
+            height: `${size}px`,
+            padding: 0,
+            border: selected === piece ? '2px solid #81b64c' : '2px solid transparent',
+            borderRadius: '4px',
+            background: selected === piece ? 'rgba(129, 182, 76, 0.3)' : 'transparent',
+            cursor: onSelect ? 'pointer' : 'default'
+          }}
+        >
+          <img
+            src={pieceTheme.pieces[color === 'white' ? 'w' : 'b'][piece]}
+            alt={piece}
+            style={{ width: '100%', height: '100%' }}
+            draggable={false}
+          />
+          {pocket[piece] > 1 && (
+            <span style={{
+              position: 'absolute',
+              right: '-4px',
+              bottom: '-4px',
+              background: '#e74c3c',
+              color: 'white',
+              borderRadius: '8px',
+              padding: '0 4px',
+              fontSize: '0.7rem',
+              fontWeight: 700
+            }}>
+              {pocket[piece]}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default Pocket;
@@ -15,7 +15,12 @@ interface Tournament {
   max_participants: number;
   current_round: number;
   total_rounds: number;
+  games_per_match?: number;
+  duration_minutes?: number | null;
+  ends_at?: string | null;
+  tiebreaks?: string | null;
   start_time: string | null;
+  starts_at?: string | null;
   end_time: string | null;
   created_at: string;
   creator_username?: string;
@@ -33,10 +38,12 @@ interface TournamentParticipant {
   draws: number;
   losses: number;
   performance_rating: number;
-  status: 'active' | 'withdrawn' | 'disqualified';
+  status: 'active' | 'withdrawn' | 'disqualified' | 'eliminated';
+  seed?: number | null;
   joined_at: string;
   username?: string;
   rating?: number;
+  tiebreaks?: Record<string, number>;
 }
 
 interface TournamentGame {
@@ -50,6 +57,8 @@ interface TournamentGame {
   result: string | null;
   white_score: number | null;
   black_score: number | null;
+  match_game?: number;
+  is_armageddon?: boolean;
   status: 'pending' | 'active' | 'completed' | 'forfeit';
   white_username?: string;
   black_username?: string;
@@ -57,6 +66,63 @@ interface TournamentGame {
   black_rating?: number;
 }
 
+interface BracketSeed {
+  userId: string;
+  seed: number;
+  username?: string;
+  rating?: number;
+}
+
+interface BracketMatch {
+  round: number;
+  match: number;
+  player1: BracketSeed | null;
+  player2: BracketSeed | null;
+  score1: number;
+  score2: number;
+  games: { id: string; isArmageddon: boolean; result: string | null }[];
+  status: 'waiting' | 'bye' | 'in_progress' | 'decided';
+  winnerId: string | null;
+}
+
+interface KnockoutBracket {
+  totalRounds: number;
+  gamesPerMatch: number;
+  rounds: BracketMatch[][];
+  championId: string | null;
+}
+
+interface ArenaStanding {
+  userId: string;
+  username?: string;
+  rating: number;
+  score: number;
+  games: number;
+  berserks: number;
+  onFire: boolean;
+  sheet: number[];
+}
+
+interface ArenaInfo {
+  standings: ArenaStanding[];
+  endsAt: number | null;
+  closed: boolean;
+  inPool: boolean;
+}
+
+// Mirrors the server default when a tournament has no tiebreaks configured
+const DEFAULT_TIEBREAKS = ['buchholz_cut1', 'buchholz', 'sonneborn_berger', 'direct_encounter', 'wins'];
+
+const TIEBREAK_LABELS: Record<string, string> = {
+  buchholz: 'BH',
+  buchholz_cut1: 'BH-C1',
+  sonneborn_berger: 'SB',
+  direct_encounter: 'DE',
+  wins: 'Wins',
+  progressive: 'Prog',
+  board_points: 'BP'
+};
+
 interface TournamentPanelProps {
   socket: Socket;
   language: 'en' | 'no';
@@ -103,7 +169,22 @@ const translations = {
     back: 'Back',
     myGames: 'My Games',
     pending: 'Pending',
-    registrationOpen: 'Registration Open'
+    registrationOpen: 'Registration Open',
+    gamesPerMatch: 'Games per Match',
+    bracket: 'Bracket',
+    armageddon: 'Armageddon',
+    bye: 'Bye',
+    tbd: 'TBD',
+    eliminated: 'Out',
+    champion: 'Champion',
+    duration: 'Duration (minutes)',
+    startTime: 'Start Time (optional)',
+    startsAt: 'Starts',
+    leaderboard: 'Leaderboard',
+    timeLeft: 'Time left',
+    joinArena: 'Join Arena',
+    pauseArena: 'Pause',
+    arenaClosed: 'Finishing last games'
   },
   no: {
     tournaments: 'Turneringer',
@@ -144,7 +225,22 @@ const translations = {
     back: 'Tilbake',
     myGames: 'Mine Partier',
     pending: 'Venter',
-    registrationOpen: 'Registrering åpen'
+    registrationOpen: 'Registrering åpen',
+    gamesPerMatch: 'Partier per Match',
+    bracket: 'Turneringstre',
+    armageddon: 'Armageddon',
+    bye: 'Fri',
+    tbd: 'Ukjent',
+    eliminated: 'Ute',
+    champion: 'Vinner',
+    duration: 'Varighet (minutter)',
+    startTime: 'Starttid (valgfritt)',
+    startsAt: 'Starter',
+    leaderboard: 'Resultatliste',
+    timeLeft: 'Tid igjen',
+    joinArena: 'Bli med i Arena',
+    pauseArena: 'Pause',
+    arenaClosed: 'Siste partier spilles'
   }
 };
 
@@ -163,6 +259,10 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
   const [selectedTournament, setSelectedTournament] = useState<Tournament | null>(null);
   const [participants, setParticipants] = useState<TournamentParticipant[]>([]);
   const [currentRoundGames, setCurrentRoundGames] = useState<TournamentGame[]>([]);
+  const [schedule, setSchedule] = useState<TournamentGame[]>([]);
+  const [bracket, setBracket] = useState<KnockoutBracket | null>(null);
+  const [arena, setArena] = useState<ArenaInfo | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [myGames, setMyGames] = useState<TournamentGame[]>([]);
   const [isRegistered, setIsRegistered] = useState(false);
 
@@ -172,7 +272,10 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     description: '',
     type: 'swiss' as 'swiss' | 'round_robin' | 'knockout' | 'arena',
     timeControl: '5+0',
-    maxParticipants: 16
+    maxParticipants: 16,
+    gamesPerMatch: 2,
+    durationMinutes: 60,
+    startTime: ''
   });
 
   // Fetch tournaments when panel opens and when tab changes
@@ -189,6 +292,13 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     }
   }, [isOpen, activeTab, socket]);
 
+  // Tick the arena countdown while an arena is running
+  useEffect(() => {
+    if (!arena || arena.closed || !arena.endsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [arena]);
+
   // Socket event listeners
   useEffect(() => {
     const onUpcomingTournaments = ({ tournaments }: { tournaments: Tournament[] }) => {
@@ -210,19 +320,25 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     const onTournamentCreated = ({ tournament }: { tournament: Tournament }) => {
       setUpcomingTournaments(prev => [tournament, ...prev]);
       setActiveTab('upcoming');
-      setNewTournament({ name: '', description: '', type: 'swiss', timeControl: '5+0', maxParticipants: 16 });
+      setNewTournament({ name: '', description: '', type: 'swiss', timeControl: '5+0', maxParticipants: 16, gamesPerMatch: 2, durationMinutes: 60, startTime: '' });
     };
 
-    const onTournamentDetails = ({ tournament, participants: p, currentRoundGames: games, myGames: mg, isRegistered: reg }: {
+    const onTournamentDetails = ({ tournament, participants: p, currentRoundGames: games, schedule: sched, bracket: br, arena: ar, myGames: mg, isRegistered: reg }: {
       tournament: Tournament;
       participants: TournamentParticipant[];
       currentRoundGames: TournamentGame[];
+      schedule?: TournamentGame[];
+      bracket?: KnockoutBracket | null;
+      arena?: ArenaInfo | null;
       myGames: TournamentGame[];
       isRegistered: boolean;
     }) => {
       setSelectedTournament(tournament);
       setParticipants(p);
       setCurrentRoundGames(games);
+      setSchedule(sched || []);
+      setBracket(br || null);
+      setArena(ar || null);
       setMyGames(mg);
       setIsRegistered(reg);
     };
@@ -278,6 +394,44 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
       }
     };
 
+    const onTournamentBracketUpdated = ({ tournamentId }: { tournamentId: string }) => {
+      if (selectedTournament?.id === tournamentId) {
+        socket.emit('get_tournament', { tournamentId });
+      }
+    };
+
+    const onArenaLeaderboard = ({ tournamentId, standings, endsAt, closed }: {
+      tournamentId: string;
+      standings: ArenaStanding[];
+      endsAt: number;
+      closed: boolean;
+    }) => {
+      if (selectedTournament?.id === tournamentId) {
+        setArena(prev => prev ? { ...prev, standings, endsAt, closed } : prev);
+      }
+    };
+
+    const onArenaGameReady = ({ roomCode }: { tournamentId: string; roomCode: string }) => {
+      // Arena pairings start immediately, no need to click Play
+      if (onJoinTournamentGame) {
+        onJoinTournamentGame(roomCode);
+      }
+    };
+
+    const onArenaPoolChanged = ({ tournamentId }: { tournamentId: string }) => {
+      if (selectedTournament?.id === tournamentId) {
+        socket.emit('get_tournament', { tournamentId });
+      }
+    };
+
+    const onTournamentCompleted = ({ tournamentId }: { tournamentId: string }) => {
+      if (selectedTournament?.id === tournamentId) {
+        socket.emit('get_tournament', { tournamentId });
+      }
+      socket.emit('get_active_tournaments');
+      socket.emit('get_completed_tournaments');
+    };
+
     socket.on('upcoming_tournaments', onUpcomingTournaments);
     socket.on('active_tournaments', onActiveTournaments);
     socket.on('completed_tournaments', onCompletedTournaments);
@@ -292,6 +446,13 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     socket.on('tournament_participant_update', onTournamentParticipantUpdate);
     socket.on('tournament_round_started', onTournamentRoundStarted);
     socket.on('tournament_game_completed', onTournamentGameCompleted);
+    socket.on('tournament_bracket_updated', onTournamentBracketUpdated);
+    socket.on('tournament_completed', onTournamentCompleted);
+    socket.on('arena_leaderboard', onArenaLeaderboard);
+    socket.on('arena_game_ready', onArenaGameReady);
+    socket.on('arena_joined', onArenaPoolChanged);
+    socket.on('arena_paused', onArenaPoolChanged);
+    socket.on('arena_closed', onArenaPoolChanged);
 
     return () => {
       socket.off('upcoming_tournaments', onUpcomingTournaments);
@@ -308,8 +469,15 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
       socket.off('tournament_participant_update', onTournamentParticipantUpdate);
       socket.off('tournament_round_started', onTournamentRoundStarted);
       socket.off('tournament_game_completed', onTournamentGameCompleted);
+      socket.off('tournament_bracket_updated', onTournamentBracketUpdated);
+      socket.off('tournament_completed', onTournamentCompleted);
+      socket.off('arena_leaderboard', onArenaLeaderboard);
+      socket.off('arena_game_ready', onArenaGameReady);
+      socket.off('arena_joined', onArenaPoolChanged);
+      socket.off('arena_paused', onArenaPoolChanged);
+      socket.off('arena_closed', onArenaPoolChanged);
     };
-  }, [socket, selectedTournament]);
+  }, [socket, selectedTournament, onJoinTournamentGame]);
 
   const handleCreateTournament = () => {
     if (!newTournament.name.trim()) return;
@@ -318,7 +486,11 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
       description: newTournament.description || undefined,
       type: newTournament.type,
       timeControl: newTournament.timeControl,
-      maxParticipants: newTournament.maxParticipants
+      maxParticipants: newTournament.maxParticipants,
+      gamesPerMatch: newTournament.type === 'knockout' ? newTournament.gamesPerMatch : undefined,
+      durationMinutes: newTournament.type === 'arena' ? newTournament.durationMinutes : undefined,
+      // The server starts the tournament automatically at this time
+      startTime: newTournament.startTime ? new Date(newTournament.startTime).toISOString() : undefined
     });
   };
 
@@ -334,6 +506,20 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     socket.emit('start_tournament', { tournamentId });
   };
 
+  const handleJoinArena = (tournamentId: string) => {
+    socket.emit('join_arena', { tournamentId });
+  };
+
+  const handlePauseArena = (tournamentId: string) => {
+    socket.emit('pause_arena', { tournamentId });
+  };
+
+  const formatTimeLeft = (endsAt: number) => {
+    const seconds = Math.max(0, Math.floor((endsAt - now) / 1000));
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
   const handleDeleteTournament = (tournamentId: string) => {
     if (confirm(language === 'en' ? 'Delete this tournament?' : 'Slett denne turneringen?')) {
       socket.emit('delete_tournament', { tournamentId });
@@ -394,6 +580,11 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
             <div style={{ fontSize: isMobile ? '0.75rem' : '12px', color: '#888' }}>
               {getTypeLabel(tournament.type)} | {tournament.time_control} | {tournament.participant_count || 0}/{tournament.max_participants}
             </div>
+            {tournament.status === 'upcoming' && tournament.starts_at && (
+              <div style={{ fontSize: isMobile ? '0.7rem' : '11px', color: '#27ae60', marginTop: '4px' }}>
+                {t.startsAt}: {new Date(tournament.starts_at).toLocaleString()}
+              </div>
+            )}
             <div style={{ fontSize: isMobile ? '0.7rem' : '11px', color: '#666', marginTop: '4px' }}>
               {t.createdBy}: {tournament.creator_username}
             </div>
@@ -414,6 +605,45 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     ));
   };
 
+  const renderBracketMatch = (match: BracketMatch) => {
+    const renderSide = (player: BracketSeed | null, score: number) => {
+      const isWinner = player != null && match.winnerId === player.userId;
+      return (
+        <div style={{ display: 'flex', justifyContent: 'space-between', gap: '6px' }}>
+          <span style={{
+            color: player?.userId === user?.id ? '#f1c40f' : player ? 'white' : '#666',
+            fontWeight: isWinner ? 'bold' : 'normal',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap'
+          }}>
+            {player ? `${player.seed}. ${player.username}` : (match.status === 'bye' ? t.bye : t.tbd)}
+          </span>
+          {match.status !== 'bye' && match.games.length > 0 && <span style={{ color: '#888' }}>{score}</span>}
+        </div>
+      );
+    };
+
+    return (
+      <div
+        key={`${match.round}-${match.match}`}
+        style={{
+          padding: '6px 8px',
+          background: '#2a2a2a',
+          borderRadius: '4px',
+          borderLeft: `3px solid ${match.status === 'decided' ? '#27ae60' : match.status === 'in_progress' ? '#e67e22' : '#444'}`,
+          fontSize: isMobile ? '0.75rem' : '12px'
+        }}
+      >
+        {renderSide(match.player1, match.score1)}
+        {renderSide(match.player2, match.score2)}
+        {match.games.some(g => g.isArmageddon) && (
+          <div style={{ color: '#e67e22', fontSize: '10px', marginTop: '2px' }}>{t.armageddon}</div>
+        )}
+      </div>
+    );
+  };
+
   const renderTournamentDetail = () => {
     if (!selectedTournament) return null;
 
@@ -421,6 +651,10 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
     const canStart = isCreator && selectedTournament.status === 'upcoming' && participants.length >= 2;
     const canJoin = selectedTournament.status === 'upcoming' && !isRegistered;
     const canLeave = selectedTournament.status === 'upcoming' && isRegistered && !isCreator;
+    const gamesToShow = schedule.length > 0 ? schedule : currentRoundGames;
+    // Show the two deciding tiebreaks next to the score
+    const tiebreakColumns = (selectedTournament.tiebreaks ? selectedTournament.tiebreaks.split(',') : DEFAULT_TIEBREAKS).slice(0, 2);
+    const scheduleRounds = [...new Set(gamesToShow.map(game => game.round))].sort((a, b) => a - b);
 
     return (
       <div style={{ padding: isMobile ? '16px' : '16px' }}>
@@ -507,6 +741,23 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
               {t.start}
             </button>
           )}
+          {arena && selectedTournament.status === 'active' && !arena.closed && (
+            <button
+              onClick={() => arena.inPool ? handlePauseArena(selectedTournament.id) : handleJoinArena(selectedTournament.id)}
+              style={{
+                background: arena.inPool ? '#7f8c8d' : '#27ae60',
+                color: 'white',
+                border: 'none',
+                padding: isMobile ? '12px 20px' : '8px 16px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: isMobile ? '0.9rem' : '1rem',
+                minHeight: isMobile ? '44px' : 'auto'
+              }}
+            >
+              {arena.inPool ? t.pauseArena : t.joinArena}
+            </button>
+          )}
           {isCreator && selectedTournament.status !== 'active' && (
             <button
               onClick={() => handleDeleteTournament(selectedTournament.id)}
@@ -580,8 +831,39 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
           </div>
         )}
 
+        {/* Arena leaderboard (replaces the standings table) */}
+        {arena && (
+          <div style={{ marginBottom: isMobile ? '12px' : '16px' }}>
+            <h3 style={{ fontSize: isMobile ? '0.9rem' : '14px', marginBottom: '8px', display: 'flex', justifyContent: 'space-between' }}>
+              <span>{t.leaderboard}</span>
+              {selectedTournament.status === 'active' && (
+                <span style={{ color: arena.closed ? '#888' : '#e67e22' }}>
+                  {arena.closed || !arena.endsAt ? t.arenaClosed : `${t.timeLeft}: ${formatTimeLeft(arena.endsAt)}`}
+                </span>
+              )}
+            </h3>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: isMobile ? '0.75rem' : '13px' }}>
+              <tbody>
+                {arena.standings.map((s, idx) => (
+                  <tr key={s.userId} style={{ borderBottom: '1px solid #333' }}>
+                    <td style={{ padding: isMobile ? '8px 2px' : '6px 4px', width: '24px' }}>{idx + 1}</td>
+                    <td style={{ padding: isMobile ? '8px 2px' : '6px 4px' }}>
+                      <span style={{ color: s.userId === user?.id ? '#f1c40f' : 'white' }}>{s.username}</span>
+                      {s.onFire && <span style={{ marginLeft: '4px' }}>{'\u{1F525}'}</span>}
+                      {!isMobile && (
+                        <span style={{ color: '#666', marginLeft: '8px', fontSize: '11px' }}>{s.sheet.join(' ')}</span>
+                      )}
+                    </td>
+                    <td style={{ textAlign: 'right', padding: isMobile ? '8px 2px' : '6px 4px', fontWeight: 'bold' }}>{s.score}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Standings */}
-        <div style={{ marginBottom: isMobile ? '12px' : '16px' }}>
+        {!arena && <div style={{ marginBottom: isMobile ? '12px' : '16px' }}>
           <h3 style={{ fontSize: isMobile ? '0.9rem' : '14px', marginBottom: '8px' }}>{t.standings} ({participants.length})</h3>
           <div style={{ overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
             <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: isMobile ? '0.75rem' : '13px', minWidth: isMobile ? '300px' : 'auto' }}>
@@ -590,7 +872,9 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
                   <th style={{ textAlign: 'left', padding: isMobile ? '8px 2px' : '8px 4px' }}>#</th>
                   <th style={{ textAlign: 'left', padding: isMobile ? '8px 2px' : '8px 4px' }}>{isMobile ? 'Name' : 'Player'}</th>
                   <th style={{ textAlign: 'center', padding: isMobile ? '8px 2px' : '8px 4px' }}>{t.score}</th>
-                  {!isMobile && <th style={{ textAlign: 'center', padding: '8px 4px' }}>{t.buchholz}</th>}
+                  {!isMobile && tiebreakColumns.map(tiebreak => (
+                    <th key={tiebreak} style={{ textAlign: 'center', padding: '8px 4px' }}>{TIEBREAK_LABELS[tiebreak] || tiebreak}</th>
+                  ))}
                   <th style={{ textAlign: 'center', padding: isMobile ? '8px 2px' : '8px 4px' }}>{t.wins}/{t.draws}/{t.losses}</th>
                 </tr>
               </thead>
@@ -604,22 +888,51 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
                       </span>
                       {!isMobile && <span style={{ color: '#888', marginLeft: '4px', fontSize: '11px' }}>({p.rating})</span>}
                       {p.status === 'withdrawn' && <span style={{ color: '#e74c3c', marginLeft: '4px' }}>(W)</span>}
+                      {p.status === 'eliminated' && <span style={{ color: '#888', marginLeft: '4px' }}>({t.eliminated})</span>}
                     </td>
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 2px' : '6px 4px', fontWeight: 'bold' }}>{p.score}</td>
-                    {!isMobile && <td style={{ textAlign: 'center', padding: '6px 4px', color: '#888' }}>{p.buchholz}</td>}
+                    {!isMobile && tiebreakColumns.map(tiebreak => (
+                      <td key={tiebreak} style={{ textAlign: 'center', padding: '6px 4px', color: '#888' }}>
+                        {p.tiebreaks?.[tiebreak] ?? (tiebreak === 'buchholz' ? p.buchholz : '-')}
+                      </td>
+                    ))}
                     <td style={{ textAlign: 'center', padding: isMobile ? '8px 2px' : '6px 4px', color: '#888' }}>{p.wins}/{p.draws}/{p.losses}</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
-        </div>
+        </div>}
 
-        {/* Current Round Games */}
-        {currentRoundGames.length > 0 && (
-          <div>
-            <h3 style={{ fontSize: isMobile ? '0.9rem' : '14px', marginBottom: '8px' }}>{t.round} {selectedTournament.current_round} {t.games}</h3>
-            {currentRoundGames.map(game => (
+        {/* Knockout bracket, one column per round */}
+        {bracket && (
+          <div style={{ marginBottom: isMobile ? '12px' : '16px' }}>
+            <h3 style={{ fontSize: isMobile ? '0.9rem' : '14px', marginBottom: '8px' }}>
+              {t.bracket}
+              {bracket.championId && (
+                <span style={{ color: '#f1c40f', marginLeft: '8px' }}>
+                  {t.champion}: {participants.find(p => p.user_id === bracket.championId)?.username}
+                </span>
+              )}
+            </h3>
+            <div style={{ display: 'flex', gap: '8px', overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
+              {bracket.rounds.map((matches, roundIndex) => (
+                <div key={roundIndex} style={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-around', gap: '6px', minWidth: '140px' }}>
+                  <div style={{ fontSize: '11px', color: '#888' }}>{t.round} {roundIndex + 1}</div>
+                  {matches.map(match => renderBracketMatch(match))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Schedule (every round paired so far, or all rounds for round-robin) */}
+        {!arena && scheduleRounds.map(round => (
+          <div key={round} style={{ marginBottom: isMobile ? '12px' : '16px' }}>
+            <h3 style={{ fontSize: isMobile ? '0.9rem' : '14px', marginBottom: '8px', color: round === selectedTournament.current_round ? 'white' : '#888' }}>
+              {t.round} {round} {t.games}
+            </h3>
+            {gamesToShow.filter(game => game.round === round).map(game => (
               <div
                 key={game.id}
                 style={{
@@ -637,6 +950,9 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
                   <span>{game.white_username}</span>
                   <span style={{ color: '#888', margin: '0 8px' }}>{t.vs}</span>
                   <span>{game.black_username}</span>
+                  {game.is_armageddon && (
+                    <span style={{ color: '#e67e22', marginLeft: '8px', fontSize: '11px' }}>{t.armageddon}</span>
+                  )}
                 </div>
                 <div style={{ fontSize: isMobile ? '0.75rem' : '12px', flexShrink: 0 }}>
                   {game.status === 'completed' ? (
@@ -650,7 +966,7 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
               </div>
             ))}
           </div>
-        )}
+        ))}
       </div>
     );
   };
@@ -758,6 +1074,83 @@ export function TournamentPanel({ socket, language, onJoinTournamentGame }: Tour
         </select>
       </div>
 
+      {newTournament.type === 'knockout' && (
+        <div style={{ marginBottom: isMobile ? '16px' : '12px' }}>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
+            {t.gamesPerMatch}
+          </label>
+          <select
+            value={newTournament.gamesPerMatch}
+            onChange={(e) => setNewTournament({ ...newTournament, gamesPerMatch: parseInt(e.target.value) })}
+            style={{
+              width: '100%',
+              padding: isMobile ? '12px' : '8px',
+              borderRadius: '4px',
+              border: '1px solid #444',
+              background: '#2a2a2a',
+              color: 'white',
+              fontSize: isMobile ? '1rem' : '1rem',
+              minHeight: isMobile ? '44px' : 'auto'
+            }}
+          >
+            <option value="1">1</option>
+            <option value="2">2</option>
+            <option value="4">4</option>
+            <option value="6">6</option>
+          </select>
+        </div>
+      )}
+
+      {newTournament.type === 'arena' && (
+        <div style={{ marginBottom: isMobile ? '16px' : '12px' }}>
+          <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
+            {t.duration}
+          </label>
+          <select
+            value={newTournament.durationMinutes}
+            onChange={(e) => setNewTournament({ ...newTournament, durationMinutes: parseInt(e.target.value) })}
+            style={{
+              width: '100%',
+              padding: isMobile ? '12px' : '8px',
+              borderRadius: '4px',
+              border: '1px solid #444',
+              background: '#2a2a2a',
+              color: 'white',
+              fontSize: isMobile ? '1rem' : '1rem',
+              minHeight: isMobile ? '44px' : 'auto'
+            }}
+          >
+            <option value="30">30</option>
+            <option value="45">45</option>
+            <option value="60">60</option>
+            <option value="90">90</option>
+            <option value="120">120</option>
+          </select>
+        </div>
+      )}
+
+      <div style={{ marginBottom: isMobile ? '16px' : '12px' }}>
+        <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
+          {t.startTime}
+        </label>
+        <input
+          type="datetime-local"
+          value={newTournament.startTime}
+          onChange={(e) => setNewTournament({ ...newTournament, startTime: e.target.value })}
+          style={{
+            width: '100%',
+            padding: isMobile ? '12px' : '8px',
+            borderRadius: '4px',
+            border: '1px solid #444',
+            background: '#2a2a2a',
+            color: 'white',
+            fontSize: isMobile ? '1rem' : '1rem',
+            minHeight: isMobile ? '44px' : 'auto',
+            boxSizing: 'border-box'
+          }}
+        />
+      </div>
+
       <div style={{ marginBottom: isMobile ? '20px' : '16px' }}>
         <label style={{ display: 'block', marginBottom: '4px', fontSize: isMobile ? '0.8rem' : '12px', color: '#888' }}>
           {t.maxParticipants}
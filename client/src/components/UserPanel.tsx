@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getLeaderboard, LeaderboardEntry, getUserGames, Game } from '../api/auth';
+import { getLeaderboard, getPoolLeaderboard, getUserProfile, LeaderboardEntry, PoolLeaderboardEntry, PoolRating, getUserGames, Game } from '../api/auth';
 import { useIsMobile } from '../hooks/useMediaQuery';
 
 interface UserPanelProps {
@@ -9,26 +9,61 @@ interface UserPanelProps {
 
 type PanelTab = 'profile' | 'leaderboard' | 'history';
 
+// Rating pools: one per time control and variant
+const POOL_TIME_CONTROLS = ['bullet', 'blitz', 'rapid', 'correspondence'];
+const POOL_VARIANTS: { type: string; label: string }[] = [
+  { type: 'standard', label: 'Standard' },
+  { type: 'chess960', label: 'Chess960' },
+  { type: 'threeCheck', label: '3-Check' },
+  { type: 'kingOfTheHill', label: 'KotH' },
+  { type: 'crazyhouse', label: 'Crazyhouse' },
+  { type: 'atomic', label: 'Atomic' },
+  { type: 'antichess', label: 'Antichess' },
+  { type: 'horde', label: 'Horde' },
+  { type: 'racingKings', label: 'Racing Kings' }
+];
+
+function poolLabel(pool: string): string {
+  const [timeControl, variant] = pool.split(':');
+  const variantLabel = POOL_VARIANTS.find(v => v.type === variant)?.label || variant;
+  return `${timeControl.charAt(0).toUpperCase() + timeControl.slice(1)} · ${variantLabel}`;
+}
+
 export function UserPanel({ onOpenAuth }: UserPanelProps) {
   const isMobile = useIsMobile();
   const { user, logout } = useAuth();
   const [activeTab, setActiveTab] = useState<PanelTab>('profile');
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboardPool, setLeaderboardPool] = useState('');  // '' = overall
+  const [poolLeaderboard, setPoolLeaderboard] = useState<PoolLeaderboardEntry[]>([]);
+  const [ratings, setRatings] = useState<PoolRating[]>([]);
   const [games, setGames] = useState<Game[]>([]);
   const [isExpanded, setIsExpanded] = useState(false);
 
   useEffect(() => {
-    if (isExpanded && activeTab === 'leaderboard') {
-      getLeaderboard(50).then(res => {
-        if (res.success) setLeaderboard(res.leaderboard);
+    if (isExpanded && activeTab === 'profile' && user) {
+      getUserProfile(user.id).then(res => {
+        if (res.success) setRatings(res.ratings || []);
       });
     }
+    if (isExpanded && activeTab === 'leaderboard') {
+      if (leaderboardPool) {
+        setPoolLeaderboard([]);
+        getPoolLeaderboard(leaderboardPool, 50).then(res => {
+          if (res.success) setPoolLeaderboard(res.leaderboard);
+        });
+      } else {
+        getLeaderboard(50).then(res => {
+          if (res.success) setLeaderboard(res.leaderboard);
+        });
+      }
+    }
     if (isExpanded && activeTab === 'history' && user) {
       getUserGames(user.id, 20).then(res => {
         if (res.success) setGames(res.games);
       });
     }
-  }, [isExpanded, activeTab, user]);
+  }, [isExpanded, activeTab, user, leaderboardPool]);
 
   const formatResult = (game: Game, userId: string) => {
     if (!game.result) return '-';
@@ -273,6 +308,29 @@ export function UserPanel({ onOpenAuth }: UserPanelProps) {
                   </div>
                 </div>
 
+                {ratings.length > 0 && (
+                  <div style={{ marginBottom: '16px' }}>
+                    {ratings.map(r => (
+                      <div
+                        key={r.pool}
+                        style={{
+                          display: 'flex',
+                          justifyContent: 'space-between',
+                          padding: isMobile ? '8px 4px' : '6px 4px',
+                          borderBottom: '1px solid #333',
+                          fontSize: isMobile ? '0.85rem' : '13px'
+                        }}
+                      >
+                        <span style={{ color: '#aaa' }}>{poolLabel(r.pool)}</span>
+                        <span style={{ color: '#fff' }}>
+                          {r.rating}{r.provisional ? '?' : ''}
+                          <span style={{ color: '#666', marginLeft: '6px' }}>±{r.deviation} · {r.games}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <button
                   onClick={logout}
                   style={{
@@ -294,7 +352,63 @@ export function UserPanel({ onOpenAuth }: UserPanelProps) {
 
             {activeTab === 'leaderboard' && (
               <div>
-                {leaderboard.length === 0 ? (
+                <select
+                  value={leaderboardPool}
+                  onChange={(e) => setLeaderboardPool(e.target.value)}
+                  style={{
+                    width: '100%',
+                    marginBottom: '10px',
+                    padding: isMobile ? '10px' : '6px',
+                    backgroundColor: '#1a1a1a',
+                    color: '#fff',
+                    border: '1px solid #444',
+                    borderRadius: '6px',
+                    fontSize: isMobile ? '0.9rem' : '13px'
+                  }}
+                >
+                  <option value="">Overall</option>
+                  {POOL_TIME_CONTROLS.flatMap(tc => POOL_VARIANTS.map(v => (
+                    <option key={`${tc}:${v.type}`} value={`${tc}:${v.type}`}>{poolLabel(`${tc}:${v.type}`)}</option>
+                  )))}
+                </select>
+                {leaderboardPool ? (
+                  poolLeaderboard.length === 0 ? (
+                    <div style={{ color: '#888', textAlign: 'center', fontSize: isMobile ? '0.9rem' : '1rem' }}>No established ratings yet</div>
+                  ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                      <thead>
+                        <tr style={{ color: '#888', fontSize: isMobile ? '0.75rem' : '12px' }}>
+                          <th style={{ textAlign: 'left', padding: isMobile ? '8px 4px' : '6px' }}>#</th>
+                          <th style={{ textAlign: 'left', padding: isMobile ? '8px 4px' : '6px' }}>Player</th>
+                          <th style={{ textAlign: 'right', padding: isMobile ? '8px 4px' : '6px' }}>Rating</th>
+                          <th style={{ textAlign: 'right', padding: isMobile ? '8px 4px' : '6px' }}>Games</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {poolLeaderboard.map((entry, i) => (
+                          <tr
+                            key={entry.id}
+                            style={{
+                              backgroundColor: entry.id === user.id ? 'rgba(76, 175, 80, 0.2)' : 'transparent'
+                            }}
+                          >
+                            <td style={{ padding: isMobile ? '10px 4px' : '8px 6px', color: '#888', fontSize: isMobile ? '0.85rem' : '13px' }}>{i + 1}</td>
+                            <td style={{ padding: isMobile ? '10px 4px' : '8px 6px', color: '#fff', fontSize: isMobile ? '0.85rem' : '13px' }}>
+                              {entry.username}
+                              {entry.id === user.id && <span style={{ color: '#4CAF50', marginLeft: '4px' }}>{isMobile ? '★' : '(you)'}</span>}
+                            </td>
+                            <td style={{ padding: isMobile ? '10px 4px' : '8px 6px', color: '#fff', fontSize: isMobile ? '0.85rem' : '13px', textAlign: 'right' }}>
+                              {entry.rating}
+                            </td>
+                            <td style={{ padding: isMobile ? '10px 4px' : '8px 6px', color: '#888', fontSize: isMobile ? '0.85rem' : '13px', textAlign: 'right' }}>
+                              {entry.games}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )
+                ) : leaderboard.length === 0 ? (
                   <div style={{ color: '#888', textAlign: 'center', fontSize: isMobile ? '0.9rem' : '1rem' }}>Loading...</div>
                 ) : (
                   <div style={{ overflowX: 'auto', WebkitOverflowScrolling: 'touch' }}>
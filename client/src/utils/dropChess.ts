@@ -0,0 +1,140 @@
+// Crazyhouse and Bughouse boards: chess.js plus drops from the pocket
+// Mirrors server/src/variants/drops.ts so drop games load from their PGN
+
+import { Chess, Move, DEFAULT_POSITION } from 'chess.js';
+import type { Square } from 'chess.js';
+import { readPgn, writePgn } from './variantChess';
+
+export type DropPiece = 'p' | 'n' | 'b' | 'r' | 'q';
+
+export type Pocket = Record<DropPiece, number>;
+
+export const DROP_PIECES: DropPiece[] = ['p', 'n', 'b', 'r', 'q'];
+
+// Variants played with pockets and drops
+export function isDropVariant(variant: string | undefined): boolean {
+    return variant === 'crazyhouse' || variant === 'bughouse';
+}
+
+// Parse drop notation such as "N@f3", "P@e6" or "@e6" (a pawn)
+export function parseDrop(san: string): { piece: DropPiece; to: Square } | null {
+    const match = san.match(/^([PNBRQ]?)@([a-h][1-8])[+#]?$/);
+    if (!match) return null;
+    return { piece: (match[1] || 'P').toLowerCase() as DropPiece, to: match[2] as Square };
+}
+
+export class DropChess extends Chess {
+    private readonly startFen: string;
+    private plies: Move[] = [];
+
+    constructor(fen: string = DEFAULT_POSITION) {
+        super(fen);
+        this.startFen = fen;
+    }
+
+    // Rebuild a game from its PGN, drops included
+    static fromPgn(pgn: string): DropChess {
+        const { headers, moves } = readPgn(pgn);
+        const game = new DropChess(headers.FEN);
+        for (const san of moves) {
+            game.move(san);
+        }
+        return game;
+    }
+
+    move(
+        move: string | { from: string; to: string; promotion?: string } | null,
+        options?: { strict?: boolean }
+    ): Move {
+        const drop = typeof move === 'string' ? parseDrop(move) : null;
+        if (drop) return this.drop(drop.piece, drop.to);
+
+        const result = super.move(move, options);
+        this.plies.push(result);
+        return result;
+    }
+
+    // Whether the side to move may drop `piece` on `square` (pocket aside)
+    canDrop(piece: DropPiece, square: Square): boolean {
+        if (this.get(square)) return false;
+        if (piece === 'p' && (square[1] === '1' || square[1] === '8')) return false;
+        const test = new Chess(this.fen());
+        test.put({ type: piece, color: this.turn() }, square);
+        return !test.inCheck();
+    }
+
+    drop(piece: DropPiece, square: Square): Move {
+        if (!this.canDrop(piece, square)) {
+            throw new Error(`Invalid drop: ${piece.toUpperCase()}@${square}`);
+        }
+
+        const color = this.turn();
+        const before = this.fen();
+        const [, , castling, , halfmoves, fullmoves] = before.split(' ');
+
+        this.put({ type: piece, color }, square);
+        const after = [
+            this.fen().split(' ')[0],
+            color === 'w' ? 'b' : 'w',
+            castling,
+            '-',
+            String(piece === 'p' ? 0 : Number(halfmoves) + 1),
+            String(color === 'b' ? Number(fullmoves) + 1 : Number(fullmoves))
+        ].join(' ');
+        this.load(after, { preserveHeaders: true });
+
+        const result: Move = Object.assign(Object.create(Move.prototype), {
+            color,
+            from: square,
+            to: square,
+            piece,
+            flags: 'd',
+            san: `${piece.toUpperCase()}@${square}${this.inCheck() ? '+' : ''}`,
+            lan: `${piece.toUpperCase()}@${square}`,
+            before,
+            after
+        });
+        this.plies.push(result);
+        return result;
+    }
+
+    undo(): Move | null {
+        const last = this.plies.pop();
+        if (!last) return null;
+
+        // Board moves since the last drop are still in chess.js's own history
+        if (last.flags !== 'd') {
+            super.undo();
+            return last;
+        }
+
+        const replay = this.plies;
+        this.plies = [];
+        this.load(this.startFen, { preserveHeaders: true });
+        for (const ply of replay) {
+            if (ply.flags === 'd') {
+                this.drop(ply.piece as DropPiece, ply.to);
+            } else {
+                this.move({ from: ply.from, to: ply.to, promotion: ply.promotion });
+            }
+        }
+        return last;
+    }
+
+    // Captured material comes back from the pockets, so it never runs out
+    isInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    history(): string[];
+    history({ verbose }: { verbose: true }): Move[];
+    history({ verbose }: { verbose: false }): string[];
+    history({ verbose }: { verbose: boolean }): string[] | Move[];
+    history({ verbose = false }: { verbose?: boolean } = {}): string[] | Move[] {
+        return verbose ? [...this.plies] : this.plies.map(ply => ply.san);
+    }
+
+    pgn({ newline = '\n' }: { newline?: string; maxWidth?: number } = {}): string {
+        return writePgn(this.getHeaders(), this.startFen, this.plies, newline);
+    }
+}
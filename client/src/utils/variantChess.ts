@@ -0,0 +1,698 @@
+// Atomic, Antichess, Horde, Racing Kings and Chess960 boards: chess.js with each variant's own move rules
+// Mirrors server/src/variants/board.ts and the variant boards beside it, so these games load from their PGN
+
+import { Chess, Move, DEFAULT_POSITION } from 'chess.js';
+import type { Square, Color, Piece, PieceSymbol } from 'chess.js';
+
+export type VariantOutcome = Color | 'draw';
+
+interface FenFields {
+    turn?: Color;
+    castling?: string;
+    ep?: string;
+    halfmoves?: number;
+    fullmoves?: number;
+}
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const CASTLING_HOMES: Record<string, { color: Color; king: Square; rook: Square }> = {
+    K: { color: 'w', king: 'e1', rook: 'h1' },
+    Q: { color: 'w', king: 'e1', rook: 'a1' },
+    k: { color: 'b', king: 'e8', rook: 'h8' },
+    q: { color: 'b', king: 'e8', rook: 'a8' }
+};
+
+export const ANTICHESS_START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+export const HORDE_START = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+export const RACING_KINGS_START = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+
+// A plain chess.js board for any position, kingless or not
+function scratchBoard(fen: string): Chess {
+    return new Chess(fen, { skipValidation: true });
+}
+
+function opponent(color: Color): Color {
+    return color === 'w' ? 'b' : 'w';
+}
+
+function kingSquare(board: Chess, color: Color): Square | undefined {
+    return board.findPiece({ type: 'k', color })[0];
+}
+
+function adjacentSquares(square: Square): Square[] {
+    const file = square.charCodeAt(0) - 97;
+    const rank = Number(square[1]);
+    const squares: Square[] = [];
+    for (let df = -1; df <= 1; df++) {
+        for (let dr = -1; dr <= 1; dr++) {
+            const f = file + df;
+            const r = rank + dr;
+            if ((df || dr) && f >= 0 && f < 8 && r >= 1 && r <= 8) {
+                squares.push(`${String.fromCharCode(97 + f)}${r}` as Square);
+            }
+        }
+    }
+    return squares;
+}
+
+function pieceCount(board: Chess, color: Color): number {
+    return board.board().flat().filter(piece => piece?.color === color).length;
+}
+
+// `fen` with pieces set or cleared (null); castling rights whose king or rook left home are dropped
+function editFen(fen: string, pieces: Partial<Record<Square, Piece | null>>, fields: FenFields = {}): string {
+    const board = scratchBoard(fen);
+    const changes = Object.entries(pieces) as [Square, Piece | null][];
+    for (const [square] of changes) board.remove(square);
+    for (const [square, piece] of changes) {
+        if (piece) board.put(piece, square);
+    }
+
+    const [, turn, castling, ep, halfmoves, fullmoves] = fen.split(' ');
+    const rights = [...(fields.castling ?? castling)].filter(right => {
+        const home = CASTLING_HOMES[right];
+        if (!home) return false;
+        const king = board.get(home.king);
+        const rook = board.get(home.rook);
+        return king?.type === 'k' && king.color === home.color && rook?.type === 'r' && rook.color === home.color;
+    });
+
+    return [
+        board.fen().split(' ')[0],
+        fields.turn ?? turn,
+        rights.join('') || '-',
+        fields.ep ?? ep,
+        fields.halfmoves ?? halfmoves,
+        fields.fullmoves ?? fullmoves
+    ].join(' ');
+}
+
+// FEN fields after a move set up by hand
+function nextFields(fen: string, resetClock: boolean): FenFields {
+    const [, turn, , , halfmoves, fullmoves] = fen.split(' ');
+    return {
+        turn: turn === 'w' ? 'b' : 'w',
+        ep: '-',
+        halfmoves: resetClock ? 0 : Number(halfmoves) + 1,
+        fullmoves: turn === 'b' ? Number(fullmoves) + 1 : Number(fullmoves)
+    };
+}
+
+function makeMove(fields: Partial<Move> & Pick<Move, 'color' | 'from' | 'to' | 'piece' | 'flags' | 'san' | 'before' | 'after'>): Move {
+    const lan = `${fields.from}${fields.to}${fields.promotion ?? ''}`;
+    return Object.assign(Object.create(Move.prototype), { lan, ...fields });
+}
+
+function bareSan(san: string): string {
+    return san.replace(/[+#?!]+$/, '');
+}
+
+// Moves of every piece but the mover's king, check ignored: an own pawn (a knight on its last rank) stands in for the king
+function pieceMoves(board: Chess): Move[] {
+    const before = board.fen();
+    const color = board.turn();
+    const king = kingSquare(board, color);
+    const type: PieceSymbol = king?.[1] === (color === 'w' ? '8' : '1') ? 'n' : 'p';
+    const stand = king ? editFen(before, { [king]: { type, color } }, { castling: '-' }) : before;
+
+    return scratchBoard(stand).moves({ verbose: true })
+        .filter(move => move.from !== king)
+        .map(move => makeMove({
+            ...move,
+            san: bareSan(move.san),
+            before,
+            after: king
+                ? editFen(move.after, { [king]: { type: 'k', color } }, { castling: before.split(' ')[2] })
+                : move.after
+        }));
+}
+
+// One-square king moves of the side to move, check ignored
+function kingSteps(board: Chess, captures: boolean): Move[] {
+    const before = board.fen();
+    const color = board.turn();
+    const from = kingSquare(board, color);
+    if (!from) return [];
+
+    return adjacentSquares(from).flatMap(to => {
+        const target = board.get(to);
+        if (target && (target.color === color || !captures)) return [];
+        return [makeMove({
+            color,
+            from,
+            to,
+            piece: 'k',
+            ...(target ? { captured: target.type } : {}),
+            flags: target ? 'c' : 'n',
+            san: `K${target ? 'x' : ''}${to}`,
+            before,
+            after: editFen(before, { [from]: null, [to]: { type: 'k', color } }, nextFields(before, !!target))
+        })];
+    });
+}
+
+// Tags and moves of a PGN, comments and move numbers dropped
+export function readPgn(pgn: string): { headers: Record<string, string>; moves: string[] } {
+    const headers: Record<string, string> = {};
+    for (const [, key, value] of pgn.matchAll(/\[(\w+) "([^"]*)"\]/g)) {
+        headers[key] = value;
+    }
+    const moves = pgn
+        .replace(/\[[^\]]*\]/g, '')
+        .replace(/\{[^}]*\}/g, '')
+        .replace(/\d+\.(\.\.)?|\.\.\./g, ' ')
+        .split(/\s+/)
+        .filter(token => token && !RESULT_TOKENS.includes(token));
+    return { headers, moves };
+}
+
+// A PGN in chess.js's format for a game kept as a list of plies
+export function writePgn(headers: Record<string, string>, startFen: string, plies: Move[], newline = '\n'): string {
+    const tags = Object.entries(headers)
+        .filter(([key]) => key !== 'SetUp' && key !== 'FEN')
+        .map(([key, value]) => `[${key} "${value}"]`);
+    if (startFen !== DEFAULT_POSITION) {
+        tags.push('[SetUp "1"]', `[FEN "${startFen}"]`);
+    }
+
+    const [, turn, , , , fullmoves] = startFen.split(' ');
+    let moveNumber = Number(fullmoves) || 1;
+    const tokens: string[] = [];
+    plies.forEach((ply, i) => {
+        if (ply.color === 'w') {
+            tokens.push(`${moveNumber}.`);
+        } else {
+            if (i === 0 && turn === 'b') tokens.push(`${moveNumber}. ...`);
+            moveNumber++;
+        }
+        tokens.push(ply.san);
+    });
+    if (headers.Result) tokens.push(headers.Result);
+
+    const movetext = tokens.join(' ');
+    return tags.length > 0 ? `${tags.join(newline)}${newline}${newline}${movetext}` : movetext;
+}
+
+export abstract class VariantChess extends Chess {
+    protected startFen: string;
+    private plies: Move[] = [];
+    private cached?: { fen: string; moves: Move[] };
+
+    constructor(fen: string) {
+        super(fen, { skipValidation: true });
+        this.startFen = fen;
+    }
+
+    // Legal moves under the variant's rules, SAN without check marks
+    protected abstract generateMoves(): Move[];
+
+    protected legalMoves(): Move[] {
+        const fen = this.fen();
+        if (this.cached?.fen === fen) return this.cached.moves;
+
+        const Board = this.constructor as new (fen: string) => VariantChess;
+        const moves = this.generateMoves().map(move => {
+            const next = new Board(move.after);
+            if (!next.isCheck()) return move;
+            return makeMove({ ...move, san: `${move.san}${next.generateMoves().length === 0 ? '#' : '+'}` });
+        });
+        this.cached = { fen, moves };
+        return moves;
+    }
+
+    // The outcome once the variant's own goal is reached, told without generating moves
+    decided(): VariantOutcome | null {
+        return null;
+    }
+
+    moves(): string[];
+    moves({ square }: { square: Square }): string[];
+    moves({ piece }: { piece: PieceSymbol }): string[];
+    moves({ square, piece }: { square: Square; piece: PieceSymbol }): string[];
+    moves({ verbose, square, piece }: { verbose: true; square?: Square; piece?: PieceSymbol }): Move[];
+    moves({ verbose, square, piece }: { verbose: false; square?: Square; piece?: PieceSymbol }): string[];
+    moves({ verbose, square, piece }: { verbose?: boolean; square?: Square; piece?: PieceSymbol }): string[] | Move[];
+    moves({ verbose = false, square, piece }: { verbose?: boolean; square?: Square; piece?: PieceSymbol } = {}): string[] | Move[] {
+        const moves = this.legalMoves().filter(move =>
+            (!square || move.from === square) && (!piece || move.piece === piece)
+        );
+        return verbose ? moves : moves.map(move => move.san);
+    }
+
+    move(move: string | { from: string; to: string; promotion?: string } | null): Move {
+        const legal = this.legalMoves();
+        const found = typeof move === 'string'
+            ? legal.find(candidate => bareSan(candidate.san) === bareSan(move))
+            : move && legal.find(candidate =>
+                candidate.from === move.from && candidate.to === move.to &&
+                (!candidate.promotion || candidate.promotion === move.promotion)
+            );
+        if (!found) {
+            throw new Error(`Invalid move: ${typeof move === 'string' ? move : JSON.stringify(move)}`);
+        }
+
+        this.load(found.after, { skipValidation: true, preserveHeaders: true });
+        this.plies.push(found);
+        return found;
+    }
+
+    undo(): Move | null {
+        const last = this.plies.pop();
+        if (!last) return null;
+        this.load(last.before, { skipValidation: true, preserveHeaders: true });
+        return last;
+    }
+
+    isGameOver(): boolean {
+        return this.decided() !== null || super.isGameOver();
+    }
+
+    isCheckmate(): boolean {
+        return this.isCheck() && this.legalMoves().length === 0;
+    }
+
+    isStalemate(): boolean {
+        return !this.isCheck() && this.legalMoves().length === 0;
+    }
+
+    isInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    isThreefoldRepetition(): boolean {
+        const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+        const positions = [this.startFen, ...this.plies.map(ply => ply.after)].map(key);
+        const current = positions[positions.length - 1];
+        return positions.filter(position => position === current).length >= 3;
+    }
+
+    history(): string[];
+    history({ verbose }: { verbose: true }): Move[];
+    history({ verbose }: { verbose: false }): string[];
+    history({ verbose }: { verbose: boolean }): string[] | Move[];
+    history({ verbose = false }: { verbose?: boolean } = {}): string[] | Move[] {
+        return verbose ? [...this.plies] : this.plies.map(ply => ply.san);
+    }
+
+    pgn({ newline = '\n' }: { newline?: string; maxWidth?: number } = {}): string {
+        return writePgn(this.getHeaders(), this.startFen, this.plies, newline);
+    }
+
+    // Play back a PGN written by pgn() from its FEN tag, or else the board's starting position
+    loadPgn(pgn: string): void {
+        const { headers, moves } = readPgn(pgn);
+        if (headers.FEN) this.startFen = headers.FEN;
+        this.load(this.startFen, { skipValidation: true });
+        this.plies = [];
+        for (const [key, value] of Object.entries(headers)) {
+            if (key !== 'SetUp' && key !== 'FEN') this.setHeader(key, value);
+        }
+        for (const san of moves) {
+            this.move(san);
+        }
+    }
+}
+
+// Atomic: captures explode, taking the capturer and every non-pawn next to the square with them
+function isAtomicCheck(board: Chess, color: Color): boolean {
+    const king = kingSquare(board, color);
+    const enemyKing = kingSquare(board, opponent(color));
+    if (!king || !enemyKing || adjacentSquares(king).includes(enemyKing)) return false;
+    return board.isAttacked(king, opponent(color));
+}
+
+function explode(fen: string, square: Square): string {
+    const board = scratchBoard(fen);
+    const blast: Partial<Record<Square, Piece | null>> = { [square]: null };
+    for (const neighbour of adjacentSquares(square)) {
+        const piece = board.get(neighbour);
+        if (piece && piece.type !== 'p') blast[neighbour] = null;
+    }
+    return editFen(fen, blast);
+}
+
+export class AtomicChess extends VariantChess {
+    constructor(fen: string = DEFAULT_POSITION) {
+        super(fen);
+    }
+
+    isCheck(): boolean {
+        return isAtomicCheck(this, this.turn());
+    }
+
+    decided(): VariantOutcome | null {
+        if (!kingSquare(this, 'w')) return 'b';
+        if (!kingSquare(this, 'b')) return 'w';
+        return null;
+    }
+
+    isInsufficientMaterial(): boolean {
+        return this.board().flat().filter(Boolean).length === 2;
+    }
+
+    protected generateMoves(): Move[] {
+        if (this.decided()) return [];
+
+        const us = this.turn();
+        const castles = scratchBoard(this.fen()).moves({ verbose: true, piece: 'k' })
+            .filter(move => move.isKingsideCastle() || move.isQueensideCastle())
+            .map(move => makeMove({ ...move, san: bareSan(move.san) }));
+        const candidates = [...pieceMoves(this), ...kingSteps(this, false), ...castles]
+            .map(move => move.captured ? makeMove({ ...move, after: explode(move.after, move.to) }) : move);
+
+        return candidates.filter(move => {
+            const after = scratchBoard(move.after);
+            if (!kingSquare(after, us)) return false;
+            if (!kingSquare(after, opponent(us))) return true;
+            return !isAtomicCheck(after, us);
+        });
+    }
+}
+
+// Antichess: captures are compulsory and losing every piece (or every move) wins; no promotion to king
+export class AntichessChess extends VariantChess {
+    constructor(fen: string = ANTICHESS_START) {
+        super(fen);
+    }
+
+    isCheck(): boolean {
+        return false;
+    }
+
+    isCheckmate(): boolean {
+        return false;
+    }
+
+    isStalemate(): boolean {
+        return false;
+    }
+
+    decided(): VariantOutcome | null {
+        return pieceCount(this, this.turn()) === 0 ? this.turn() : null;
+    }
+
+    isGameOver(): boolean {
+        return this.legalMoves().length === 0 || super.isGameOver();
+    }
+
+    protected generateMoves(): Move[] {
+        const moves = [...pieceMoves(this), ...kingSteps(this, true)];
+        const captures = moves.filter(move => move.captured);
+        return captures.length > 0 ? captures : moves;
+    }
+}
+
+// Horde: 36 kingless white pawns, which may step two squares from the first rank too
+export class HordeChess extends VariantChess {
+    constructor(fen: string = HORDE_START) {
+        super(fen);
+    }
+
+    decided(): VariantOutcome | null {
+        return pieceCount(this, 'w') === 0 ? 'b' : null;
+    }
+
+    isStalemate(): boolean {
+        return !this.decided() && super.isStalemate();
+    }
+
+    protected generateMoves(): Move[] {
+        const before = this.fen();
+        const moves = scratchBoard(before).moves({ verbose: true })
+            .map(move => makeMove({ ...move, san: bareSan(move.san) }));
+        if (this.turn() === 'b') return moves;
+
+        for (const file of 'abcdefgh') {
+            const from = `${file}1` as Square;
+            const over = `${file}2` as Square;
+            const to = `${file}3` as Square;
+            const piece = this.get(from);
+            if (piece?.type !== 'p' || piece.color !== 'w' || this.get(over) || this.get(to)) continue;
+            moves.push(makeMove({
+                color: 'w',
+                from,
+                to,
+                piece: 'p',
+                flags: 'n',
+                san: to,
+                before,
+                after: editFen(before, { [from]: null, [to]: piece }, nextFields(before, true))
+            }));
+        }
+        return moves;
+    }
+}
+
+// Racing Kings: no checks, first king to the eighth rank wins (Black gets one move to draw)
+export class RacingKingsChess extends VariantChess {
+    constructor(fen: string = RACING_KINGS_START) {
+        super(fen);
+    }
+
+    reachedGoal(color: Color): boolean {
+        return kingSquare(this, color)?.[1] === '8';
+    }
+
+    decided(): VariantOutcome | null {
+        const white = this.reachedGoal('w');
+        const black = this.reachedGoal('b');
+        if (white && black) return 'draw';
+        if (black) return 'b';
+        if (!white) return null;
+
+        if (this.turn() === 'w') return 'w';
+        const catchUp = this.legalMoves().some(move => move.piece === 'k' && move.to[1] === '8');
+        return catchUp ? null : 'w';
+    }
+
+    protected generateMoves(): Move[] {
+        return scratchBoard(this.fen()).moves({ verbose: true })
+            .filter(move => !/[+#]$/.test(move.san));
+    }
+}
+
+// Chess960: castling puts king and rook on g1/f1 or c1/d1 wherever they started. Rights are the
+// castling rooks' squares, read from X-FEN (KQkq, or a file for an inner rook) or Shredder-FEN (HAha)
+// and written as X-FEN. A castling move is the king onto its own rook, so `to` is the rook's square.
+const CASTLED_FILES = {
+    k: { king: 'g', rook: 'f' },
+    q: { king: 'c', rook: 'd' }
+};
+
+function homeRank(color: Color): string {
+    return color === 'w' ? '1' : '8';
+}
+
+function fileIndex(square: Square): number {
+    return square.charCodeAt(0) - 97;
+}
+
+// One character per file of `color`'s back rank, '.' if empty
+function backRank(fen: string, color: Color): string {
+    const rows = fen.split(' ')[0].split('/');
+    return rows[color === 'w' ? 7 : 0].replace(/\d/g, count => '.'.repeat(Number(count)));
+}
+
+// Squares of the rooks that may castle, from an X-FEN or Shredder-FEN castling field
+export function castlingRooks(fen: string): Square[] {
+    const field = fen.split(' ')[2] ?? '-';
+    const rooks: Square[] = [];
+
+    for (const right of field) {
+        if (!/[a-hkqA-HKQ]/.test(right)) continue;
+        const color: Color = right === right.toUpperCase() ? 'w' : 'b';
+        const rank = backRank(fen, color);
+        const king = rank.indexOf(color === 'w' ? 'K' : 'k');
+        const rook = color === 'w' ? 'R' : 'r';
+        if (king < 0) continue;
+
+        let file: number;
+        switch (right.toLowerCase()) {
+            case 'k':
+                file = rank.lastIndexOf(rook);
+                if (file < king) continue;
+                break;
+            case 'q':
+                file = rank.indexOf(rook);
+                if (file < 0 || file > king) continue;
+                break;
+            default:
+                file = right.toLowerCase().charCodeAt(0) - 97;
+                if (rank[file] !== rook) continue;
+        }
+
+        const square = `${String.fromCharCode(97 + file)}${homeRank(color)}` as Square;
+        if (!rooks.includes(square)) rooks.push(square);
+    }
+    return rooks;
+}
+
+// The castling field for those rooks, in X-FEN or Shredder-FEN
+export function castlingField(fen: string, rooks: Square[], shredder = false): string {
+    let field = '';
+    for (const color of ['w', 'b'] as Color[]) {
+        const rank = backRank(fen, color);
+        const king = rank.indexOf(color === 'w' ? 'K' : 'k');
+        const rook = color === 'w' ? 'R' : 'r';
+        const own = rooks.filter(square => square[1] === homeRank(color)).map(fileIndex);
+        const kingside = own.filter(file => file > king).sort((a, b) => b - a);
+        const queenside = own.filter(file => file < king).sort((a, b) => a - b);
+
+        for (const file of [...kingside, ...queenside]) {
+            const outermost = file > king ? rank.lastIndexOf(rook) === file : rank.indexOf(rook) === file;
+            const letter = !shredder && outermost
+                ? (file > king ? 'k' : 'q')
+                : String.fromCharCode(97 + file);
+            field += color === 'w' ? letter.toUpperCase() : letter;
+        }
+    }
+    return field || '-';
+}
+
+function withCastling(fen: string, field: string): string {
+    const fields = fen.split(' ');
+    fields[2] = field;
+    return fields.join(' ');
+}
+
+// Squares from `from` to `to` along a rank, both ends included
+function rankSpan(from: Square, to: Square): Square[] {
+    const low = Math.min(fileIndex(from), fileIndex(to));
+    const high = Math.max(fileIndex(from), fileIndex(to));
+    const squares: Square[] = [];
+    for (let file = low; file <= high; file++) {
+        squares.push(`${String.fromCharCode(97 + file)}${from[1]}` as Square);
+    }
+    return squares;
+}
+
+// Where the king ends up after a castling move
+export function castledKingSquare(move: Pick<Move, 'color' | 'flags'>): Square {
+    const side = move.flags.includes('k') ? 'k' : 'q';
+    return `${CASTLED_FILES[side].king}${homeRank(move.color)}` as Square;
+}
+
+export class Chess960Chess extends VariantChess {
+    // Rooks that may still castle; chess.js itself is given '-' (declared, as chess.js loads before initialisers run)
+    private declare rooks: Square[];
+
+    constructor(fen: string = DEFAULT_POSITION) {
+        super(fen);
+    }
+
+    load(fen: string, options?: { skipValidation?: boolean; preserveHeaders?: boolean }): void {
+        this.rooks = castlingRooks(fen);
+        super.load(withCastling(fen, '-'), options);
+    }
+
+    fen({ forceEnpassantSquare = false, shredder = false }: { forceEnpassantSquare?: boolean; shredder?: boolean } = {}): string {
+        const fen = super.fen({ forceEnpassantSquare });
+        return withCastling(fen, castlingField(fen, this.rooks, shredder));
+    }
+
+    getCastlingRights(color: Color): { k: boolean; q: boolean } {
+        const king = kingSquare(this, color);
+        const own = this.rooks.filter(rook => rook[1] === homeRank(color));
+        return {
+            k: !!king && own.some(rook => fileIndex(rook) > fileIndex(king)),
+            q: !!king && own.some(rook => fileIndex(rook) < fileIndex(king))
+        };
+    }
+
+    isInsufficientMaterial(): boolean {
+        return Chess.prototype.isInsufficientMaterial.call(this);
+    }
+
+    // The king may also go straight to its castled square when that is no ordinary king move
+    move(move: string | { from: string; to: string; promotion?: string } | null): Move {
+        if (move && typeof move !== 'string') {
+            const legal = this.legalMoves();
+            const castle = legal.find(candidate =>
+                /[kq]/.test(candidate.flags) && candidate.from === move.from && castledKingSquare(candidate) === move.to
+            );
+            const ordinary = legal.some(candidate => candidate.from === move.from && candidate.to === move.to);
+            if (castle && !ordinary) return super.move({ from: castle.from, to: castle.to });
+        }
+        return super.move(move);
+    }
+
+    protected generateMoves(): Move[] {
+        const before = this.fen();
+        const color = this.turn();
+        const them = opponent(color);
+
+        const moves = scratchBoard(withCastling(before, '-')).moves({ verbose: true }).map(move => {
+            const rooks = this.rooks.filter(rook =>
+                rook !== move.from && rook !== move.to && !(move.piece === 'k' && rook[1] === homeRank(color))
+            );
+            return makeMove({
+                ...move,
+                san: move.san.replace(/[+#]$/, ''),
+                before,
+                after: withCastling(move.after, castlingField(move.after, rooks))
+            });
+        });
+
+        const king = kingSquare(this, color);
+        if (!king || king[1] !== homeRank(color) || this.isCheck()) return moves;
+
+        for (const rook of this.rooks) {
+            if (rook[1] !== homeRank(color)) continue;
+            const kingside = fileIndex(rook) > fileIndex(king);
+            const side = kingside ? 'k' : 'q';
+            const kingTarget = `${CASTLED_FILES[side].king}${homeRank(color)}` as Square;
+            const rookTarget = `${CASTLED_FILES[side].rook}${homeRank(color)}` as Square;
+
+            const clear = [...rankSpan(king, kingTarget), ...rankSpan(rook, rookTarget)]
+                .every(square => square === king || square === rook || !this.get(square));
+            if (!clear) continue;
+            const crossed = rankSpan(king, kingTarget).filter(square => square !== king);
+            if (crossed.some(square => this.isAttacked(square, them))) continue;
+
+            const after = editFen(before, {
+                [king]: null,
+                [rook]: null,
+                [kingTarget]: { type: 'k', color },
+                [rookTarget]: { type: 'r', color }
+            }, { ...nextFields(before, false), castling: '-' });
+            // The rook may have been shielding the king's square along the rank
+            if (scratchBoard(after).isAttacked(kingTarget, them)) continue;
+            const rooks = this.rooks.filter(square => square[1] !== homeRank(color));
+
+            moves.push(makeMove({
+                color,
+                from: king,
+                to: rook,
+                piece: 'k',
+                flags: side,
+                san: kingside ? 'O-O' : 'O-O-O',
+                before,
+                after: withCastling(after, castlingField(after, rooks))
+            }));
+        }
+        return moves;
+    }
+}
+
+// Variants played on one of the boards above
+export function isRulesVariant(variant: string | undefined): boolean {
+    return variant === 'atomic' || variant === 'antichess' || variant === 'horde' || variant === 'racingKings' ||
+        variant === 'chess960';
+}
+
+// The board for one of those variants, from its start or from `fen`
+export function createVariantBoard(variant: string, fen?: string): VariantChess {
+    switch (variant) {
+        case 'atomic':
+            return new AtomicChess(fen);
+        case 'antichess':
+            return new AntichessChess(fen);
+        case 'horde':
+            return new HordeChess(fen);
+        case 'chess960':
+            return new Chess960Chess(fen);
+        default:
+            return new RacingKingsChess(fen);
+    }
+}
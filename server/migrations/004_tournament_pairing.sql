@@ -0,0 +1,12 @@
+-- Migration: Track tournament game status and Swiss byes
+-- Required by the Swiss pairing engine to know which games are finished
+-- and which participants have already received a bye
+
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'pending';
+ALTER TABLE tournament_participants ADD COLUMN IF NOT EXISTS bye_round INTEGER;
+
+-- Backfill status for games that already have a result
+UPDATE tournament_games SET status = 'completed' WHERE result IS NOT NULL AND status = 'pending';
+
+COMMENT ON COLUMN tournament_games.status IS 'pending, active, completed or forfeit';
+COMMENT ON COLUMN tournament_participants.bye_round IS 'Round in which the participant received a pairing bye (NULL if none)';
@@ -0,0 +1,10 @@
+-- Migration: Track league match status
+-- Fixtures are generated up front when a league starts, so each match needs
+-- its own lifecycle (scheduled -> active -> completed / forfeit)
+
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'scheduled';
+
+-- Backfill status for matches that already have a result
+UPDATE league_matches SET status = 'completed' WHERE result IS NOT NULL AND status = 'scheduled';
+
+COMMENT ON COLUMN league_matches.status IS 'scheduled, active, completed or forfeit';
@@ -0,0 +1,12 @@
+-- Migration: Knockout brackets with mini-matches and armageddon tiebreaks
+-- Each bracket pairing is a mini-match of N games stored as tournament_games
+-- sharing the same round and board; a tied mini-match adds one armageddon game
+
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS games_per_match INTEGER DEFAULT 2;
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS match_game INTEGER DEFAULT 1;
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS is_armageddon BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN tournaments.games_per_match IS 'Regular games per knockout mini-match before an armageddon tiebreak';
+COMMENT ON COLUMN tournament_games.match_game IS 'Game number within a knockout mini-match (round + board identify the match)';
+COMMENT ON COLUMN tournament_games.is_armageddon IS 'Armageddon tiebreak: White has more time, a draw counts as a win for Black';
+COMMENT ON COLUMN tournament_participants.seed IS 'Bracket seed (1 = top seed), assigned by rating when a knockout starts';
@@ -0,0 +1,13 @@
+-- Migration: Arena tournaments
+-- Arenas run for a fixed duration instead of a number of rounds, and record
+-- per-game berserk so the leaderboard can award the extra point
+
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS duration_minutes INTEGER;
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS white_berserk BOOLEAN DEFAULT FALSE;
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS black_berserk BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN tournaments.duration_minutes IS 'Arena length in minutes (arena tournaments only)';
+COMMENT ON COLUMN tournaments.ends_at IS 'When the arena clock expires; no new games are paired after this';
+COMMENT ON COLUMN tournament_games.white_berserk IS 'White halved their clock for an extra point on a win';
+COMMENT ON COLUMN tournament_games.black_berserk IS 'Black halved their clock for an extra point on a win';
@@ -0,0 +1,8 @@
+-- Migration: Configurable tiebreaks for tournament and league standings
+-- Tiebreaks are computed from the games on read; only the order is stored
+
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS tiebreaks TEXT;
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS tiebreaks TEXT;
+
+COMMENT ON COLUMN tournaments.tiebreaks IS 'Comma-separated tiebreak order (buchholz, buchholz_cut1, sonneborn_berger, direct_encounter, wins, progressive, board_points); NULL uses the default';
+COMMENT ON COLUMN leagues.tiebreaks IS 'Comma-separated tiebreak order applied after points; NULL uses the default';
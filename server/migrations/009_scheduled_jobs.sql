@@ -0,0 +1,28 @@
+-- Migration: Persistent job scheduler
+-- Timed work (tournament starts, game deadlines, daily puzzle rotation, queue
+-- cleanup) is stored here so it survives server restarts
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  job_key TEXT UNIQUE,  -- Optional: one job per key (e.g. tournament_start:<id>)
+  payload JSONB NOT NULL DEFAULT '{}',
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  interval_seconds INTEGER,  -- Recurring jobs are rescheduled after each run
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(status, run_at);
+
+-- Games that are never played are forfeited once their deadline passes
+ALTER TABLE tournament_games ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON TABLE scheduled_jobs IS 'Server-side jobs, claimed with FOR UPDATE SKIP LOCKED and retried with backoff';
+COMMENT ON COLUMN tournament_games.deadline_at IS 'Set when the game becomes playable; an unplayed game is forfeited after it';
+COMMENT ON COLUMN league_matches.deadline_at IS 'Set when the round becomes current; an unplayed match is forfeited after it';
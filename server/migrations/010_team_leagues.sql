@@ -0,0 +1,62 @@
+-- Migration: Team leagues
+-- Clubs enter teams with a fixed board order; each team fixture is played as
+-- one league match per board, and board points roll up into match points
+
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS board_count INTEGER DEFAULT 4;
+
+CREATE TABLE IF NOT EXISTS league_teams (
+  id TEXT PRIMARY KEY,
+  league_id TEXT NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  club_id TEXT NOT NULL REFERENCES clubs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  captain_id TEXT NOT NULL REFERENCES users(id),
+  division INTEGER DEFAULT 1,
+  points INTEGER DEFAULT 0,
+  wins INTEGER DEFAULT 0,
+  draws INTEGER DEFAULT 0,
+  losses INTEGER DEFAULT 0,
+  games_played INTEGER DEFAULT 0,
+  board_points_for REAL DEFAULT 0,
+  board_points_against REAL DEFAULT 0,
+  form TEXT DEFAULT '',
+  status TEXT DEFAULT 'active',
+  joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_teams_league ON league_teams(league_id, division);
+
+CREATE TABLE IF NOT EXISTS league_team_players (
+  id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  board_order INTEGER NOT NULL,
+  UNIQUE(team_id, user_id),
+  UNIQUE(team_id, board_order)
+);
+
+CREATE TABLE IF NOT EXISTS league_fixtures (
+  id TEXT PRIMARY KEY,
+  league_id TEXT NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  home_team_id TEXT NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+  away_team_id TEXT NOT NULL REFERENCES league_teams(id) ON DELETE CASCADE,
+  home_points REAL DEFAULT 0,
+  away_points REAL DEFAULT 0,
+  result TEXT,
+  status TEXT DEFAULT 'scheduled',
+  scheduled_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_fixtures_round ON league_fixtures(league_id, round);
+
+-- Board games of a team fixture are ordinary league matches
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS fixture_id TEXT REFERENCES league_fixtures(id) ON DELETE CASCADE;
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS board INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_league_matches_fixture ON league_matches(fixture_id);
+
+COMMENT ON COLUMN leagues.board_count IS 'Boards per team fixture (team leagues only)';
+COMMENT ON COLUMN league_team_players.board_order IS '1 = top board; players beyond board_count are reserves';
+COMMENT ON COLUMN league_fixtures.result IS 'Board points, e.g. 2.5-1.5, once every board has a result';
+COMMENT ON COLUMN league_matches.board IS 'Board number within a team fixture; the home team has White on odd boards';
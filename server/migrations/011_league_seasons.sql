@@ -0,0 +1,33 @@
+-- Migration: League seasons
+-- A completed league rolls over into next season's league; players (or teams)
+-- are promoted and relegated between divisions and every finish is recorded
+
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS previous_league_id TEXT REFERENCES leagues(id) ON DELETE SET NULL;
+
+-- A season rolls over once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leagues_previous ON leagues(previous_league_id);
+
+CREATE TABLE IF NOT EXISTS league_season_history (
+  id TEXT PRIMARY KEY,
+  league_id TEXT REFERENCES leagues(id) ON DELETE SET NULL,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  league_name TEXT NOT NULL,
+  season TEXT,
+  team_name TEXT,
+  division INTEGER NOT NULL,
+  final_position INTEGER NOT NULL,
+  points REAL DEFAULT 0,
+  wins INTEGER DEFAULT 0,
+  draws INTEGER DEFAULT 0,
+  losses INTEGER DEFAULT 0,
+  games_played INTEGER DEFAULT 0,
+  movement TEXT NOT NULL CHECK (movement IN ('promoted', 'relegated', 'stayed')),
+  next_division INTEGER NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_league_season_history_user ON league_season_history(user_id, recorded_at DESC);
+
+COMMENT ON COLUMN leagues.previous_league_id IS 'The season this league rolled over from';
+COMMENT ON TABLE league_season_history IS 'One row per player per finished season; league name and season are copied so history outlives the league';
+COMMENT ON COLUMN league_season_history.team_name IS 'Team the player was rostered for (team leagues only); standings are the team''s';
@@ -0,0 +1,17 @@
+-- Migration: Live room snapshots
+-- Games in progress are snapshotted after every move so a restart or deploy
+-- can rebuild the rooms instead of dropping them
+
+CREATE TABLE IF NOT EXISTS live_rooms (
+  code TEXT PRIMARY KEY,
+  white_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  black_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_rooms_white ON live_rooms(white_user_id);
+CREATE INDEX IF NOT EXISTS idx_live_rooms_black ON live_rooms(black_user_id);
+
+COMMENT ON TABLE live_rooms IS 'One row per room with a game in progress; removed when the game ends';
+COMMENT ON COLUMN live_rooms.snapshot IS 'FEN, PGN, clocks, variant state and seat bindings as last saved by the server';
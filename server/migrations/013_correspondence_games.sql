@@ -0,0 +1,38 @@
+-- Migration: Correspondence games
+-- Daily games with a days-per-move clock, kept entirely in the database so
+-- players can move across sessions without sharing a live room
+
+CREATE TABLE IF NOT EXISTS correspondence_games (
+  id TEXT PRIMARY KEY,
+  game_id TEXT,  -- games row, created when the challenge is accepted
+  white_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  black_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_by TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  variant TEXT NOT NULL DEFAULT 'standard',
+  variant_state JSONB NOT NULL DEFAULT '{"variant": "standard"}',
+  days_per_move INTEGER NOT NULL CHECK (days_per_move BETWEEN 1 AND 14),
+  rated BOOLEAN NOT NULL DEFAULT TRUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'completed', 'declined')),
+  fen TEXT NOT NULL,
+  pgn TEXT NOT NULL DEFAULT '',
+  move_count INTEGER NOT NULL DEFAULT 0,  -- Plies played; even means White to move
+  draw_offer TEXT CHECK (draw_offer IN ('white', 'black')),
+  result TEXT,
+  end_reason TEXT,
+  turn_deadline TIMESTAMP WITH TIME ZONE,
+  last_move_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_correspondence_games_white ON correspondence_games(white_id, status);
+CREATE INDEX IF NOT EXISTS idx_correspondence_games_black ON correspondence_games(black_id, status);
+
+-- Vacation allowance: days off per calendar year during which move deadlines are paused
+ALTER TABLE users ADD COLUMN IF NOT EXISTS vacation_days_left INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS vacation_year INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS vacation_until TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON TABLE correspondence_games IS 'Daily games; moves are validated by the server and deadlines enforced by the job scheduler';
+COMMENT ON COLUMN correspondence_games.turn_deadline IS 'When the player to move loses on time; pushed back while they are on vacation';
+COMMENT ON COLUMN users.vacation_days_left IS 'Vacation days left in vacation_year; a new year starts with the full allowance';
@@ -0,0 +1,7 @@
+-- Migration: Conditional moves for correspondence games
+-- Each player may queue replies to the opponent's possible moves ("if Nf6 then e5");
+-- the server plays them as soon as the matching move lands
+
+ALTER TABLE correspondence_games ADD COLUMN IF NOT EXISTS conditional_moves JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN correspondence_games.conditional_moves IS 'Per color, lines of SAN moves starting with the opponent''s move: {"white": [["Nf6", "e5", ...]], "black": ...}';
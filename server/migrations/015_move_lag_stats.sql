@@ -0,0 +1,13 @@
+-- Migration: Per-move lag statistics
+-- The server credits network lag back to the mover's clock; recording what it
+-- measured and gave back per move lets unusual lag patterns be spotted later
+
+ALTER TABLE moves ADD COLUMN IF NOT EXISTS think_ms INTEGER;
+ALTER TABLE moves ADD COLUMN IF NOT EXISTS lag_ms INTEGER;
+ALTER TABLE moves ADD COLUMN IF NOT EXISTS lag_credit_ms INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_moves_lag_credit ON moves(lag_credit_ms) WHERE lag_credit_ms > 0;
+
+COMMENT ON COLUMN moves.think_ms IS 'Time charged to the mover after lag compensation (ms)';
+COMMENT ON COLUMN moves.lag_ms IS 'Estimated one-way network lag when the move arrived (ms), from periodic pings';
+COMMENT ON COLUMN moves.lag_credit_ms IS 'Lag compensation credited to the mover for this move (ms)';
@@ -0,0 +1,25 @@
+-- Migration: Glicko-2 rating pools
+-- One rating per player per (time control, variant) pool, replacing the single
+-- Elo users.rating, which now mirrors the player's most-played standard pool
+
+CREATE TABLE IF NOT EXISTS user_ratings (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pool TEXT NOT NULL,  -- "<time control>:<variant>", e.g. "blitz:standard"
+  rating DOUBLE PRECISION NOT NULL,
+  deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+  volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06,
+  games INTEGER NOT NULL DEFAULT 0,
+  last_played_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_id, pool)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_ratings_pool ON user_ratings(pool, rating DESC);
+
+ALTER TABLE rating_history ADD COLUMN IF NOT EXISTS pool TEXT;
+ALTER TABLE rating_history ADD COLUMN IF NOT EXISTS deviation DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS idx_rating_history_user_pool ON rating_history(user_id, pool, created_at DESC);
+
+COMMENT ON TABLE user_ratings IS 'Glicko-2 rating per player and pool; a pool row is created from users.rating the first time the player plays in it';
+COMMENT ON COLUMN user_ratings.deviation IS 'Rating deviation; the rating is provisional while this is 110 or more';
+COMMENT ON COLUMN rating_history.pool IS 'Rating pool of the entry; NULL for Elo entries from before rating pools';
@@ -0,0 +1,10 @@
+-- Migration: Variant-aware matchmaking queues
+-- Players now queue for a time control and a variant and are only paired
+-- within that queue; the variant column also carries over to the games row
+
+ALTER TABLE matchmaking_queue ADD COLUMN IF NOT EXISTS variant TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE games ADD COLUMN IF NOT EXISTS variant TEXT DEFAULT 'standard';
+
+CREATE INDEX IF NOT EXISTS idx_matchmaking_queue_pool ON matchmaking_queue(time_control, variant, joined_at);
+
+COMMENT ON COLUMN matchmaking_queue.variant IS 'Variant the player is queued for; pairing never crosses variants';
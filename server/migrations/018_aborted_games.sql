@@ -0,0 +1,11 @@
+-- Migration: Aborted games
+-- A game where a side never made its first move (or that a player called off
+-- before both had moved) is aborted: games.result is '*', no rating changes,
+-- and its moves are removed from the moves dataset. Tournament games and league
+-- matches close as a 0-0 that scores nothing, marked with the 'aborted' status
+
+CREATE INDEX IF NOT EXISTS idx_tournament_games_aborted ON tournament_games(tournament_id) WHERE status = 'aborted';
+
+COMMENT ON COLUMN tournament_games.status IS 'pending, active, completed, forfeit or aborted';
+COMMENT ON COLUMN league_matches.status IS 'scheduled, active, completed, forfeit or aborted';
+COMMENT ON COLUMN games.result IS '1-0, 0-1, 1/2-1/2, or * for an aborted game';
@@ -0,0 +1,7 @@
+-- Migration: Odds games
+-- Handicap games record the odds they were played at: piece odds, each
+-- colour's base time and draw odds. Odds games are never rated.
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS odds JSONB;
+
+COMMENT ON COLUMN games.odds IS 'Odds given, e.g. {"piece":{"type":"knight","giver":"white"},"clock":{"white":5,"black":10},"drawOdds":"black"}; NULL for an even game';
@@ -0,0 +1,8 @@
+-- Migration: Re-arming running jobs
+-- A keyed job scheduled again while it is running keeps running, but is marked
+-- so that once it finishes it goes back in the queue at its new time instead
+-- of being completed, retried or failed
+
+ALTER TABLE scheduled_jobs ADD COLUMN IF NOT EXISTS rearmed BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN scheduled_jobs.rearmed IS 'Scheduled again while running: queued again at run_at once the run finishes';
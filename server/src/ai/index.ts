@@ -1,4 +1,5 @@
 import { Chess, Move, PieceSymbol, Square } from 'chess.js';
+import { VariantType, VariantChess, DropChess, getVariantResult, isDropVariant } from '../variants';
 
 // ═══════════════════════════════════════════════════════════════════════════
 //                         CHESS AI ENGINE
@@ -134,15 +135,24 @@ function isEndgame(game: Chess): boolean {
   return queens === 0 || (queens === 1 && minorPieces <= 1);
 }
 
-// Evaluate the position
-function evaluate(game: Chess): number {
-  if (game.isCheckmate()) {
-    return game.turn() === 'w' ? -Infinity : Infinity;
-  }
-  if (game.isDraw()) {
-    return 0;
+// Value of a piece on its square, as the variant counts it
+function getPieceValue(piece: PieceSymbol, square: Square, color: 'w' | 'b', isEndgame: boolean, variant: VariantType): number {
+  switch (variant) {
+    case 'antichess':
+      // Every piece is one more to get rid of
+      return -PIECE_VALUES.p;
+    case 'racingKings':
+      // Only the king's progress up the board wins the race
+      if (piece === 'k') return parseInt(square[1]) * 200;
+      return PIECE_VALUES[piece];
+    default:
+      return PIECE_VALUES[piece] + getPieceSquareValue(piece, square, color, isEndgame);
   }
+}
 
+// Static evaluation in centipawns from White's point of view. Won and lost
+// positions are the search's business.
+function evaluate(game: Chess, variant: VariantType = 'standard'): number {
   const board = game.board();
   const endgame = isEndgame(game);
   let score = 0;
@@ -152,10 +162,7 @@ function evaluate(game: Chess): number {
       const piece = board[rank][file];
       if (piece) {
         const squareName = String.fromCharCode(97 + file) + (8 - rank) as Square;
-        const pieceValue = PIECE_VALUES[piece.type];
-        const positionValue = getPieceSquareValue(piece.type, squareName, piece.color, endgame);
-
-        const totalValue = pieceValue + positionValue;
+        const totalValue = getPieceValue(piece.type, squareName, piece.color, endgame, variant);
         score += piece.color === 'w' ? totalValue : -totalValue;
       }
     }
@@ -169,130 +176,430 @@ function evaluate(game: Chess): number {
   return score;
 }
 
-// Minimax with alpha-beta pruning
-function minimax(
+// ═══════════════════════════════════════════════════════════════════════════
+//                               SEARCH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Negamax alpha-beta search, deepened one ply at a time until the time budget
+ * runs out, so there is always a best move from the last finished depth.
+ *
+ * - Transposition table keyed by the Zobrist hash chess.js keeps up to date as
+ *   moves are made and undone (variant boards, which keep state chess.js does
+ *   not see, are keyed by their FEN)
+ * - Quiescence search over captures, promotions and (on its first ply) checks,
+ *   so the search does not stop in the middle of an exchange
+ * - Moves ordered by the table's move, then captures (most valuable victim,
+ *   least valuable attacker), killer moves and the history heuristic
+ * - Null-move pruning on plain chess boards, away from check and pawn endings
+ *
+ * Scores are from the side to move's point of view; a mate in n plies scores
+ * MATE_SCORE - n.
+ */
+
+const MATE_SCORE = 1000000;
+// Scores beyond this are mates
+const MATE_BOUND = MATE_SCORE - 1000;
+const INFINITE = MATE_SCORE + 1;
+
+const MAX_DEPTH = 64;
+const MAX_QUIESCENCE_DEPTH = 6;
+const NULL_MOVE_REDUCTION = 2;
+const MAX_TABLE_ENTRIES = 200000;
+
+// How deep and how long each level searches, and whether it looks past the
+// horizon at all (beginners are meant to leave pieces hanging)
+const SEARCH_LEVELS: Record<Difficulty, { maxDepth: number; timeMs: number; quiescence: boolean }> = {
+  beginner: { maxDepth: 1, timeMs: 200, quiescence: false },
+  intermediate: { maxDepth: 3, timeMs: 1000, quiescence: true },
+  advanced: { maxDepth: MAX_DEPTH, timeMs: 3000, quiescence: true }
+};
+
+// Fewest ms a search is given, however short the clock
+const MIN_SEARCH_MS = 50;
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move?: string;  // lan of the best move found
+}
+
+interface SearchContext {
+  variant: VariantType;
+  deadline: number;
+  quiescence: boolean;
+  // Whether null moves can be tried (plain chess boards only)
+  nullMoves: boolean;
+  table: Map<string, TableEntry>;
+  killers: string[][];
+  history: Map<string, number>;
+  nodes: number;
+  stopped: boolean;
+}
+
+/**
+ * Remaining clock time and increment of the side to move, in ms
+ */
+export interface SearchClock {
+  remaining: number;
+  increment: number;
+}
+
+function positionKey(game: Chess): string {
+  return game instanceof VariantChess ? game.fen().split(' ').slice(0, 4).join(' ') : game.hash();
+}
+
+function givesCheck(move: Move): boolean {
+  return /[+#]$/.test(move.san);
+}
+
+function isQuiet(move: Move): boolean {
+  return !move.captured && !move.promotion;
+}
+
+function relativeEvaluation(game: Chess, variant: VariantType): number {
+  const score = evaluate(game, variant);
+  return game.turn() === 'w' ? score : -score;
+}
+
+// Mate scores are stored relative to the node, so they stay right wherever
+// in the tree the position comes up again
+function toTableScore(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score + ply;
+  if (score < -MATE_BOUND) return score - ply;
+  return score;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score - ply;
+  if (score < -MATE_BOUND) return score + ply;
+  return score;
+}
+
+function timeUp(ctx: SearchContext): boolean {
+  if (!ctx.stopped && Date.now() >= ctx.deadline) ctx.stopped = true;
+  return ctx.stopped;
+}
+
+/**
+ * Score of a position with no moves left, or decided by the variant's own
+ * rules (null while the game goes on)
+ */
+function terminalScore(game: Chess, ctx: SearchContext, ply: number, moves?: Move[]): number | null {
+  const toMove = game.turn();
+  if (game instanceof VariantChess) {
+    const outcome = game.decided();
+    if (outcome) return outcome === 'draw' ? 0 : outcome === toMove ? MATE_SCORE - ply : -(MATE_SCORE - ply);
+  }
+  if (!moves || moves.length > 0) return null;
+
+  // Mated or stalemated (or, in Antichess, won)
+  const result = getVariantResult(game, { variant: ctx.variant });
+  if (!result.winner || result.winner === 'draw') return 0;
+  return result.winner === (toMove === 'w' ? 'white' : 'black') ? MATE_SCORE - ply : -(MATE_SCORE - ply);
+}
+
+// Drawn by repetition, the fifty-move rule or material, whatever the moves
+function isDrawn(game: Chess): boolean {
+  return game.isThreefoldRepetition() || game.isDrawByFiftyMoves() || game.isInsufficientMaterial();
+}
+
+// Whether the side to move has more than king and pawns (null moves are
+// unsafe in pawn endings, where zugzwang is common)
+function hasPieces(game: Chess): boolean {
+  const color = game.turn();
+  return game.board().some(row => row.some(piece => piece && piece.color === color && piece.type !== 'p' && piece.type !== 'k'));
+}
+
+function moveScore(move: Move, ctx: SearchContext, ply: number, tableMove?: string): number {
+  if (move.lan === tableMove) return 10000000;
+  let score = 0;
+  if (move.captured) score += 1000000 + PIECE_VALUES[move.captured] * 10 - PIECE_VALUES[move.piece] / 100;
+  if (move.promotion) score += 900000 + PIECE_VALUES[move.promotion];
+  if (score > 0) return score;
+
+  const killers = ctx.killers[ply];
+  if (killers?.[0] === move.lan) return 800000;
+  if (killers?.[1] === move.lan) return 700000;
+  return ctx.history.get(move.color + move.lan) ?? 0;
+}
+
+// Order moves for better pruning
+function orderMoves(moves: Move[], ctx: SearchContext, ply: number, tableMove?: string): Move[] {
+  const scores = new Map(moves.map(move => [move, moveScore(move, ctx, ply, tableMove)]));
+  return moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
+
+// A quiet move that refuted a line is tried early in its siblings too
+function rememberCutoff(move: Move, ctx: SearchContext, ply: number, depth: number) {
+  if (!isQuiet(move)) return;
+  const killers = ctx.killers[ply] || (ctx.killers[ply] = []);
+  if (killers[0] !== move.lan) {
+    killers[1] = killers[0];
+    killers[0] = move.lan;
+  }
+  const key = move.color + move.lan;
+  ctx.history.set(key, (ctx.history.get(key) ?? 0) + depth * depth);
+}
+
+function store(ctx: SearchContext, key: string, entry: TableEntry) {
+  if (ctx.table.size >= MAX_TABLE_ENTRIES && !ctx.table.has(key)) ctx.table.clear();
+  ctx.table.set(key, entry);
+}
+
+/**
+ * Search captures (and the first ply of checks) until the position is quiet
+ */
+function quiesce(game: Chess, ctx: SearchContext, alpha: number, beta: number, ply: number, qply: number): number {
+  if (timeUp(ctx)) return 0;
+  ctx.nodes++;
+
+  const decided = terminalScore(game, ctx, ply);
+  if (decided !== null) return decided;
+
+  const inCheck = game.inCheck();
+  const standPat = relativeEvaluation(game, ctx.variant);
+  if (!inCheck) {
+    if (standPat >= beta) return standPat;
+    if (standPat > alpha) alpha = standPat;
+  }
+  if (qply >= MAX_QUIESCENCE_DEPTH) return standPat;
+
+  const moves = game.moves({ verbose: true });
+  const terminal = terminalScore(game, ctx, ply, moves);
+  if (terminal !== null) return terminal;
+
+  // In check every evasion counts; otherwise only moves that change the material
+  const candidates = inCheck
+    ? moves
+    : moves.filter(move => !isQuiet(move) || (qply === 0 && givesCheck(move)));
+
+  let best = inCheck ? -INFINITE : standPat;
+  for (const move of orderMoves(candidates, ctx, ply)) {
+    game.move(move);
+    const score = -quiesce(game, ctx, -beta, -alpha, ply + 1, qply + 1);
+    game.undo();
+    if (ctx.stopped) return 0;
+
+    if (score > best) best = score;
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+/**
+ * Principal variation search to `depth` plies, then quiescence
+ */
+function search(
   game: Chess,
+  ctx: SearchContext,
   depth: number,
   alpha: number,
   beta: number,
-  maximizingPlayer: boolean
+  ply: number,
+  allowNull: boolean
 ): number {
-  if (depth === 0 || game.isGameOver()) {
-    return evaluate(game);
+  if (timeUp(ctx)) return 0;
+
+  if (ply > 0) {
+    if (isDrawn(game)) return 0;
+    const decided = terminalScore(game, ctx, ply);
+    if (decided !== null) return decided;
+  }
+  if (depth <= 0) {
+    return ctx.quiescence ? quiesce(game, ctx, alpha, beta, ply, 0) : relativeEvaluation(game, ctx.variant);
+  }
+  ctx.nodes++;
+
+  const key = positionKey(game);
+  const entry = ctx.table.get(key);
+  if (entry && ply > 0 && entry.depth >= depth) {
+    const score = fromTableScore(entry.score, ply);
+    if (entry.bound === 'exact') return score;
+    if (entry.bound === 'lower' && score >= beta) return score;
+    if (entry.bound === 'upper' && score <= alpha) return score;
+  }
+
+  const inCheck = game.inCheck();
+
+  // Null move: if passing still leaves us above beta, a real move will too.
+  // chess.js does not restore its hash after undoing a null move, so the
+  // reply is searched on a board of its own.
+  if (allowNull && ctx.nullMoves && ply > 0 && depth > NULL_MOVE_REDUCTION && !inCheck
+    && Math.abs(beta) < MATE_BOUND && hasPieces(game)) {
+    const fields = game.fen().split(' ');
+    fields[1] = fields[1] === 'w' ? 'b' : 'w';
+    fields[3] = '-';
+    const passed = new Chess(fields.join(' '));
+    const score = -search(passed, ctx, depth - 1 - NULL_MOVE_REDUCTION, -beta, -beta + 1, ply + 1, false);
+    if (ctx.stopped) return 0;
+    if (score >= beta) return beta;
   }
 
   const moves = game.moves({ verbose: true });
+  const terminal = terminalScore(game, ctx, ply, moves);
+  if (terminal !== null) return terminal;
 
-  if (maximizingPlayer) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      game.move(move);
-      const evalScore = minimax(game, depth - 1, alpha, beta, false);
-      game.undo();
-      maxEval = Math.max(maxEval, evalScore);
-      alpha = Math.max(alpha, evalScore);
-      if (beta <= alpha) break;
+  const originalAlpha = alpha;
+  let best = -INFINITE;
+  let bestMove: string | undefined;
+  let first = true;
+
+  for (const move of orderMoves(moves, ctx, ply, entry?.move)) {
+    game.move(move);
+    let score: number;
+    if (first) {
+      score = -search(game, ctx, depth - 1, -beta, -alpha, ply + 1, true);
+    } else {
+      // The rest only have to be shown worse than the first; search again if not
+      score = -search(game, ctx, depth - 1, -alpha - 1, -alpha, ply + 1, true);
+      if (score > alpha && score < beta && !ctx.stopped) {
+        score = -search(game, ctx, depth - 1, -beta, -alpha, ply + 1, true);
+      }
     }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      game.move(move);
-      const evalScore = minimax(game, depth - 1, alpha, beta, true);
-      game.undo();
-      minEval = Math.min(minEval, evalScore);
-      beta = Math.min(beta, evalScore);
-      if (beta <= alpha) break;
+    game.undo();
+    if (ctx.stopped) return 0;
+    first = false;
+
+    if (score > best) {
+      best = score;
+      bestMove = move.lan;
+    }
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) {
+      rememberCutoff(move, ctx, ply, depth);
+      break;
     }
-    return minEval;
   }
+
+  const bound: Bound = best >= beta ? 'lower' : best <= originalAlpha ? 'upper' : 'exact';
+  store(ctx, key, { depth, score: toTableScore(best, ply), bound, move: bestMove });
+  return best;
 }
 
-// Order moves for better pruning
-function orderMoves(game: Chess, moves: Move[]): Move[] {
-  return moves.sort((a, b) => {
-    let scoreA = 0;
-    let scoreB = 0;
-
-    // Captures are good
-    if (a.captured) scoreA += PIECE_VALUES[a.captured];
-    if (b.captured) scoreB += PIECE_VALUES[b.captured];
-
-    // Checks are good
-    game.move(a);
-    if (game.inCheck()) scoreA += 50;
+/**
+ * Search every root move to `depth`. Returns the best move and its score, or
+ * null if time ran out before the first (expected best) move was done.
+ */
+function searchRoot(
+  game: Chess,
+  ctx: SearchContext,
+  moves: Move[],
+  depth: number
+): { move: Move; score: number } | null {
+  const entry = ctx.table.get(positionKey(game));
+  let alpha = -INFINITE;
+  let best: { move: Move; score: number } | null = null;
+
+  for (const move of orderMoves(moves, ctx, 0, entry?.move)) {
+    game.move(move);
+    let score: number;
+    if (!best) {
+      score = -search(game, ctx, depth - 1, -INFINITE, INFINITE, 1, true);
+    } else {
+      score = -search(game, ctx, depth - 1, -alpha - 1, -alpha, 1, true);
+      if (score > alpha && !ctx.stopped) {
+        score = -search(game, ctx, depth - 1, -INFINITE, -alpha, 1, true);
+      }
+    }
     game.undo();
+    // A move whose search was cut short proves nothing
+    if (ctx.stopped) break;
 
-    game.move(b);
-    if (game.inCheck()) scoreB += 50;
-    game.undo();
+    if (!best || score > best.score) {
+      best = { move, score };
+      alpha = score;
+    }
+  }
 
-    // Promotions are very good
-    if (a.promotion) scoreA += PIECE_VALUES[a.promotion];
-    if (b.promotion) scoreB += PIECE_VALUES[b.promotion];
+  if (best) {
+    store(ctx, positionKey(game), { depth, score: best.score, bound: 'exact', move: best.move.lan });
+  }
+  return best;
+}
+
+/**
+ * Whether the engine plays a variant. It neither drops pieces nor searches
+ * with the pockets, so Crazyhouse and Bughouse are left to human players.
+ */
+export function engineCanPlay(variant: VariantType): boolean {
+  return !isDropVariant(variant);
+}
 
-    return scoreB - scoreA;
-  });
+/**
+ * Time to search for the next move: the level's own budget, less when the
+ * clock is short (about a thirtieth of what is left, plus most of the increment)
+ */
+function searchTime(difficulty: Difficulty, clock?: SearchClock): number {
+  const budget = SEARCH_LEVELS[difficulty].timeMs;
+  if (!clock) return budget;
+  const share = clock.remaining / 30 + clock.increment * 0.8;
+  return Math.max(MIN_SEARCH_MS, Math.min(budget, share));
 }
 
 // Get best move for the AI
-export function getBestMove(game: Chess, difficulty: Difficulty = 'intermediate'): Move | null {
+export function getBestMove(
+  game: Chess,
+  difficulty: Difficulty = 'intermediate',
+  variant: VariantType = 'standard',
+  clock?: SearchClock
+): Move | null {
   const moves = game.moves({ verbose: true });
   if (moves.length === 0) return null;
-
-  // Depth based on difficulty
-  const depthMap: Record<Difficulty, number> = {
-    beginner: 1,
-    intermediate: 3,
-    advanced: 4
-  };
-  const depth = depthMap[difficulty];
+  if (moves.length === 1) return moves[0];
 
   // For beginner, sometimes make random moves
   if (difficulty === 'beginner' && Math.random() < 0.3) {
     return moves[Math.floor(Math.random() * moves.length)];
   }
 
-  // Order moves for better pruning
-  const orderedMoves = orderMoves(game, moves);
-
-  const isMaximizing = game.turn() === 'w';
-  let bestMove = orderedMoves[0];
-  let bestScore = isMaximizing ? -Infinity : Infinity;
-
-  for (const move of orderedMoves) {
-    game.move(move);
-    const score = minimax(game, depth - 1, -Infinity, Infinity, !isMaximizing);
-    game.undo();
+  const level = SEARCH_LEVELS[difficulty];
+  const ctx: SearchContext = {
+    variant,
+    deadline: Date.now() + searchTime(difficulty, clock),
+    quiescence: level.quiescence,
+    nullMoves: !(game instanceof VariantChess) && !(game instanceof DropChess),
+    table: new Map(),
+    killers: [],
+    history: new Map(),
+    nodes: 0,
+    stopped: false
+  };
 
-    if (isMaximizing) {
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = move;
-      }
-    } else {
-      if (score < bestScore) {
-        bestScore = score;
-        bestMove = move;
-      }
-    }
+  // Iterative deepening: each finished depth orders the next through the table
+  let best: { move: Move; score: number } | null = null;
+  for (let depth = 1; depth <= level.maxDepth; depth++) {
+    const result = searchRoot(game, ctx, moves, depth);
+    if (result) best = result;
+    // Out of time, or a forced mate found: deeper will not change the move
+    if (ctx.stopped || (best && Math.abs(best.score) > MATE_BOUND)) break;
   }
+  // Not even one ply in time: the move ordering's favourite
+  if (!best) return moves[0];
 
   // Add some randomness for intermediate level
   if (difficulty === 'intermediate' && Math.random() < 0.1) {
     // 10% chance to pick a slightly worse move
-    const goodMoves = orderedMoves.filter(m => {
-      game.move(m);
-      const score = evaluate(game);
-      game.undo();
-      return isMaximizing ? score >= bestScore - 100 : score <= bestScore + 100;
-    });
+    const bestEval = -relativeEvaluationAfter(game, best.move, variant);
+    const goodMoves = moves.filter(m => -relativeEvaluationAfter(game, m, variant) >= bestEval - 100);
     if (goodMoves.length > 1) {
-      bestMove = goodMoves[Math.floor(Math.random() * goodMoves.length)];
+      return goodMoves[Math.floor(Math.random() * goodMoves.length)];
     }
   }
 
-  return bestMove;
+  return best.move;
+}
+
+// Static evaluation once `move` is played, for the side to move then
+function relativeEvaluationAfter(game: Chess, move: Move, variant: VariantType): number {
+  game.move(move);
+  const score = relativeEvaluation(game, variant);
+  game.undo();
+  return score;
 }
 
 // Get AI's thinking time (in ms) for more realistic feel
@@ -1,5 +1,6 @@
 import jwt from 'jsonwebtoken';
 import { dbOperations, User } from '../db';
+import { isProvisional, PROVISIONAL_DEVIATION } from '../ratings';
 
 // JWT secret - in production, use environment variable
 const JWT_SECRET = process.env.JWT_SECRET || 'krog-chess-secret-key-change-in-production';
@@ -159,24 +160,36 @@ export async function refreshToken(oldToken: string): Promise<AuthResult> {
   };
 }
 
-// Get user profile with game history
-export async function getUserProfile(userId: string) {
+// Get user profile with game history, pool ratings and rating history (optionally for one pool)
+export async function getUserProfile(userId: string, pool?: string) {
   const user = await dbOperations.getUserById(userId);
   if (!user) {
     return null;
   }
 
   const recentGames = await dbOperations.getUserGames(userId, 10);
-  const ratingHistory = await dbOperations.getUserRatingHistory(userId, 20);
+  const ratingHistory = await dbOperations.getUserRatingHistory(userId, 20, pool);
+  const ratings = (await dbOperations.getUserPoolRatings(userId)).map(r => ({
+    pool: r.pool,
+    rating: Math.round(r.rating),
+    deviation: Math.round(r.deviation),
+    games: r.games,
+    provisional: isProvisional(r)
+  }));
 
   return {
     user,
     recentGames,
-    ratingHistory
+    ratingHistory,
+    ratings
   };
 }
 
-// Get leaderboard
-export async function getLeaderboard(limit: number = 100) {
+// Get leaderboard, overall or for one rating pool (established ratings only)
+export async function getLeaderboard(limit: number = 100, pool?: string) {
+  if (pool) {
+    const entries = await dbOperations.getPoolLeaderboard(pool, PROVISIONAL_DEVIATION, limit);
+    return entries.map(e => ({ ...e, rating: Math.round(e.rating), deviation: Math.round(e.deviation) }));
+  }
   return await dbOperations.getLeaderboard(limit);
 }
@@ -0,0 +1,254 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                              TIME CONTROLS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Time controls and the arithmetic of a chess clock.
+ *
+ * A control is a base time plus a per-move increment (Fischer), optionally with
+ * a per-move delay and further stages for classical games. The server keeps the
+ * remaining time per player and asks this module what the clock shows while a
+ * player is thinking and what is left once they have moved.
+ *
+ * Controls travel as short strings, minutes (to the hundredth) for times and
+ * seconds for increments and delays:
+ *   "10+5"               10 minutes, 5 second increment
+ *   "0.5+0"              30 seconds, no increment
+ *   "5+0 d3"             5 minutes with a 3 second US (simple) delay
+ *   "5+0 b3"             5 minutes with a 3 second Bronstein delay
+ *   "40/90+30, 30+30"    90 minutes for 40 moves, then 30 more; 30 second increment
+ *   "40/120, 20/60, 30"  the same idea with three stages and no increment
+ *
+ * Correspondence games have no running clock at all: each move has a deadline
+ * a number of days away, enforced by the job scheduler rather than a room.
+ *
+ * Moves reach the server some time after the player made them, so the time a
+ * move spent on the network is credited back, within a per-game allowance.
+ */
+
+export type TimeControlType = 'bullet' | 'blitz' | 'rapid' | 'unlimited' | 'correspondence';
+
+// Types a live room can be played at
+export type LiveTimeControlType = Exclude<TimeControlType, 'correspondence'>;
+
+/**
+ * US delay: the clock waits out the delay before it starts counting down.
+ * Bronstein delay: the clock counts down at once, and the time used is given
+ * back after the move, up to the delay.
+ */
+export type DelayMode = 'us' | 'bronstein';
+
+export interface TimeControlStage {
+  afterMove: number;  // Starts once a player has completed this many moves
+  addTime: number;    // ms added to that player's clock
+  increment: number;  // ms per move from then on
+}
+
+export interface TimeControl {
+  type: TimeControlType;
+  initialTime: number;  // ms
+  increment: number;    // ms per move
+  blackInitialTime?: number;  // ms, when Black starts with less time (armageddon)
+  delay?: number;       // ms per move
+  delayMode?: DelayMode;
+  stages?: TimeControlStage[];
+}
+
+export const TIME_CONTROLS: Record<LiveTimeControlType, TimeControl> = {
+  bullet: { type: 'bullet', initialTime: 60000, increment: 0 },       // 1+0
+  blitz: { type: 'blitz', initialTime: 180000, increment: 2000 },     // 3+2
+  rapid: { type: 'rapid', initialTime: 600000, increment: 0 },        // 10+0
+  unlimited: { type: 'unlimited', initialTime: 0, increment: 0 }      // No clock
+};
+
+// Limits for controls built from user input
+const MIN_BASE_MINUTES = 0.25;
+const MAX_BASE_MINUTES = 180;
+const MAX_INCREMENT_SECONDS = 180;
+const MAX_DELAY_SECONDS = 60;
+const MAX_STAGES = 3;
+const MAX_STAGE_MOVES = 100;
+
+/**
+ * Bucket a control by its expected length for a 40-move game
+ * (the same estimate the big servers use)
+ */
+export function classifyTimeControl(initialTime: number, increment: number, delay: number = 0): LiveTimeControlType {
+  const estimate = initialTime + 40 * (increment + delay);
+  if (estimate < 180000) return 'bullet';
+  if (estimate < 480000) return 'blitz';
+  return 'rapid';
+}
+
+/**
+ * Parse a time control string (see the module comment), or a preset name.
+ * Returns null for anything malformed or out of bounds.
+ */
+export function parseTimeControl(spec: string): TimeControl | null {
+  const text = spec.trim().toLowerCase();
+  if (Object.keys(TIME_CONTROLS).includes(text)) return TIME_CONTROLS[text as LiveTimeControlType];
+  if (text === '-' || text === '∞') return TIME_CONTROLS.unlimited;
+
+  const delayMatch = text.match(/^(.*?)\s+([db])(\d+)$/);
+  const body = delayMatch ? delayMatch[1] : text;
+  const delaySeconds = delayMatch ? parseInt(delayMatch[3], 10) : 0;
+  if (delaySeconds > MAX_DELAY_SECONDS) return null;
+
+  const parts = body.split(',').map(part => part.trim());
+  if (parts.length > MAX_STAGES) return null;
+
+  const periods: { moves?: number; minutes: number; incrementSeconds: number }[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const match = parts[i].match(/^(?:(\d+)\/)?(\d+(?:\.\d{1,2})?)(?:\+(\d+))?$/);
+    if (!match) return null;
+    const moves = match[1] !== undefined ? parseInt(match[1], 10) : undefined;
+    const minutes = parseFloat(match[2]);
+    const incrementSeconds = match[3] !== undefined ? parseInt(match[3], 10) : 0;
+
+    // Every stage but the last needs a move count; the last runs to the end
+    const isLast = i === parts.length - 1;
+    if ((moves === undefined) !== isLast) return null;
+    if (moves !== undefined && (moves < 1 || moves > MAX_STAGE_MOVES)) return null;
+    if (minutes > MAX_BASE_MINUTES || incrementSeconds > MAX_INCREMENT_SECONDS) return null;
+    if (i === 0 && minutes < MIN_BASE_MINUTES) return null;
+    periods.push({ moves, minutes, incrementSeconds });
+  }
+
+  const [first, ...rest] = periods;
+  const initialTime = Math.round(first.minutes * 60000);
+  const increment = first.incrementSeconds * 1000;
+  const delay = delaySeconds * 1000;
+
+  const stages: TimeControlStage[] = [];
+  let afterMove = 0;
+  for (let i = 0; i < rest.length; i++) {
+    afterMove += periods[i].moves!;
+    stages.push({
+      afterMove,
+      addTime: Math.round(rest[i].minutes * 60000),
+      increment: rest[i].incrementSeconds * 1000
+    });
+  }
+
+  const timeControl: TimeControl = {
+    type: classifyTimeControl(initialTime, increment, delay),
+    initialTime,
+    increment
+  };
+  if (delay > 0) {
+    timeControl.delay = delay;
+    timeControl.delayMode = delayMatch![2] === 'b' ? 'bronstein' : 'us';
+  }
+  if (stages.length > 0) {
+    timeControl.stages = stages;
+  }
+  return timeControl;
+}
+
+/**
+ * The canonical string for a control; parseTimeControl reads it back.
+ * Used as the matchmaking key, so equal controls must format identically.
+ */
+export function formatTimeControl(timeControl: TimeControl): string {
+  if (timeControl.type === 'unlimited') return 'unlimited';
+
+  // To the hundredth, as precise as parseTimeControl reads
+  const minutes = (ms: number) => String(Math.round(ms / 600) / 100);
+  const period = (ms: number, increment: number, moves?: number) =>
+    `${moves !== undefined ? `${moves}/` : ''}${minutes(ms)}${increment > 0 ? `+${increment / 1000}` : ''}`;
+
+  const stages = timeControl.stages || [];
+  const parts: string[] = [];
+  let previousAfterMove = 0;
+  let increment = timeControl.increment;
+  let time = timeControl.initialTime;
+  for (const stage of stages) {
+    parts.push(period(time, increment, stage.afterMove - previousAfterMove));
+    previousAfterMove = stage.afterMove;
+    increment = stage.increment;
+    time = stage.addTime;
+  }
+  // A single-stage control always shows its increment ("10+0")
+  parts.push(stages.length === 0 ? `${minutes(time)}+${increment / 1000}` : period(time, increment));
+
+  const delay = timeControl.delay && timeControl.delayMode
+    ? ` ${timeControl.delayMode === 'bronstein' ? 'b' : 'd'}${timeControl.delay / 1000}`
+    : '';
+  return parts.join(', ') + delay;
+}
+
+/**
+ * Time a player's clock shows after thinking for `elapsed` ms on the current
+ * move; zero means they have flagged
+ */
+export function timeRemaining(timeControl: TimeControl, remaining: number, elapsed: number): number {
+  const charged = timeControl.delayMode === 'us'
+    ? Math.max(0, elapsed - (timeControl.delay || 0))
+    : elapsed;
+  return Math.max(0, remaining - charged);
+}
+
+/**
+ * A player's time once they complete their `moveNumber`th move (1-based) after
+ * thinking for `elapsed` ms: delay, increment and any stage time applied
+ */
+export function timeAfterMove(timeControl: TimeControl, remaining: number, elapsed: number, moveNumber: number): number {
+  let time = timeRemaining(timeControl, remaining, elapsed);
+
+  if (timeControl.delayMode === 'bronstein') {
+    time += Math.min(elapsed, timeControl.delay || 0);
+  }
+
+  let increment = timeControl.increment;
+  for (const stage of timeControl.stages || []) {
+    if (stage.afterMove < moveNumber) {
+      increment = stage.increment;
+    } else if (stage.afterMove === moveNumber) {
+      time += stage.addTime;
+    }
+  }
+
+  return time + increment;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                          CORRESPONDENCE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const MIN_DAYS_PER_MOVE = 1;
+export const MAX_DAYS_PER_MOVE = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deadline for a correspondence move: the full days per move from now, or from
+ * the end of the player's vacation if they are away
+ */
+export function correspondenceDeadline(daysPerMove: number, now: Date, vacationUntil: Date | null): Date {
+  const start = vacationUntil && vacationUntil > now ? vacationUntil : now;
+  return new Date(start.getTime() + daysPerMove * DAY_MS);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                          LAG COMPENSATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Most a single move is credited for network lag
+export const MAX_LAG_CREDIT_MS = 500;
+// Each player's lag allowance per game: what they start with, earn back per
+// move and may bank at most, so a steady ping is covered but faked lag runs dry
+export const LAG_QUOTA_INITIAL_MS = 2000;
+const LAG_QUOTA_GAIN_MS = 100;
+const LAG_QUOTA_MAX_MS = 3000;
+
+/**
+ * Time to give back to a player whose move took `lag` ms (one way) to reach
+ * the server, and what is left of their allowance afterwards
+ */
+export function lagCompensation(lag: number, quota: number): { credit: number; quota: number } {
+  const credit = Math.max(0, Math.min(lag, MAX_LAG_CREDIT_MS, quota));
+  return {
+    credit,
+    quota: Math.min(LAG_QUOTA_MAX_MS, quota - credit + LAG_QUOTA_GAIN_MS)
+  };
+}
@@ -1,6 +1,17 @@
 import { Pool, PoolClient } from 'pg';
 import bcrypt from 'bcryptjs';
 import { randomUUID } from 'crypto';
+import {
+  DEFAULT_LEAGUE_TIEBREAKS,
+  DEFAULT_TOURNAMENT_TIEBREAKS,
+  TiebreakValues,
+  calculateTiebreaks,
+  parseTiebreaks,
+  sortByTiebreaks
+} from '../tournaments/tiebreaks';
+import { BoardBreakdown, teamBoardBreakdown } from '../tournaments/teams';
+import { SeasonMovement } from '../tournaments/seasons';
+import { GameOdds } from '../odds';
 
 // Use Node.js built-in UUID generator
 const uuidv4 = randomUUID;
@@ -38,6 +49,24 @@ export interface User {
   last_login: string | null;
 }
 
+export interface PoolRating {
+  user_id: string;
+  pool: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games: number;
+  last_played_at: string | null;
+}
+
+export interface PoolLeaderboardEntry {
+  id: string;
+  username: string;
+  rating: number;
+  deviation: number;
+  games: number;
+}
+
 export interface Game {
   id: string;
   room_code: string;
@@ -50,6 +79,7 @@ export interface Game {
   black_rating_before: number | null;
   white_rating_change: number | null;
   black_rating_change: number | null;
+  odds: GameOdds | null;  // Handicap the game was played at (never rated)
   started_at: string;
   ended_at: string | null;
 }
@@ -60,6 +90,7 @@ export interface QueueEntry {
   socket_id: string;
   rating: number;
   time_control: string;
+  variant: string;
   joined_at: string;
 }
 
@@ -140,6 +171,10 @@ export interface Tournament {
   max_participants: number;
   current_round: number;
   total_rounds: number;
+  games_per_match: number;
+  duration_minutes: number | null;
+  ends_at: string | null;
+  tiebreaks: string | null;
   start_time: string | null;
   end_time: string | null;
   created_at: string;
@@ -158,10 +193,13 @@ export interface TournamentParticipant {
   draws: number;
   losses: number;
   performance_rating: number;
-  status: 'active' | 'withdrawn' | 'disqualified';
+  status: 'active' | 'withdrawn' | 'disqualified' | 'eliminated';
+  seed: number | null;
+  bye_round: number | null;
   joined_at: string;
   username?: string;
   rating?: number;
+  tiebreaks?: TiebreakValues;
 }
 
 export interface TournamentGame {
@@ -176,8 +214,13 @@ export interface TournamentGame {
   white_score: number | null;
   black_score: number | null;
   pgn: string | null;
-  status: 'pending' | 'active' | 'completed' | 'forfeit';
+  match_game: number;
+  is_armageddon: boolean;
+  white_berserk: boolean;
+  black_berserk: boolean;
+  status: 'pending' | 'active' | 'completed' | 'forfeit' | 'aborted';
   scheduled_at: string | null;
+  deadline_at: string | null;
   started_at: string | null;
   ended_at: string | null;
   white_username?: string;
@@ -206,12 +249,16 @@ export interface League {
   points_for_loss: number;
   current_round: number;
   total_rounds: number;
+  tiebreaks: string | null;
+  board_count: number;
+  previous_league_id: string | null;  // Season this one rolled over from
   start_date: string | null;
   end_date: string | null;
   created_at: string;
   creator_username?: string;
   club_name?: string;
   participant_count?: number;
+  next_league_id?: string | null;
 }
 
 export interface LeagueParticipant {
@@ -231,28 +278,99 @@ export interface LeagueParticipant {
   joined_at: string;
   username?: string;
   rating?: number;
+  tiebreaks?: TiebreakValues;
 }
 
 export interface LeagueMatch {
   id: string;
   league_id: string;
   round: number;
-  home_id: string;
+  home_id: string;             // White (for team boards: the White player, whichever team)
   away_id: string;
   room_code: string | null;
   result: string | null;
   home_score: number | null;
   away_score: number | null;
   pgn: string | null;
-  status: 'scheduled' | 'active' | 'completed' | 'forfeit';
+  status: 'scheduled' | 'active' | 'completed' | 'forfeit' | 'aborted';
   scheduled_at: string | null;
+  deadline_at: string | null;
   played_at: string | null;
+  fixture_id: string | null;   // Team fixture this board belongs to
+  board: number | null;
   home_username?: string;
   away_username?: string;
   home_rating?: number;
   away_rating?: number;
 }
 
+export interface LeagueTeamPlayer {
+  user_id: string;
+  board_order: number;
+  username?: string;
+  rating?: number;
+}
+
+export interface LeagueTeam {
+  id: string;
+  league_id: string;
+  club_id: string;
+  name: string;
+  captain_id: string;
+  division: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  games_played: number;
+  board_points_for: number;
+  board_points_against: number;
+  form: string;
+  status: 'active' | 'withdrawn' | 'relegated' | 'promoted';
+  joined_at: string;
+  club_name?: string;
+  logo_emoji?: string;
+  players?: LeagueTeamPlayer[];
+  tiebreaks?: TiebreakValues;
+  boards?: BoardBreakdown[];
+}
+
+export interface LeagueFixture {
+  id: string;
+  league_id: string;
+  round: number;
+  home_team_id: string;
+  away_team_id: string;
+  home_points: number;
+  away_points: number;
+  result: string | null;
+  status: 'scheduled' | 'active' | 'completed' | 'forfeit';
+  scheduled_at: string | null;
+  ended_at: string | null;
+  home_team_name?: string;
+  away_team_name?: string;
+  boards?: LeagueMatch[];
+}
+
+export interface LeagueSeasonHistory {
+  id: string;
+  league_id: string | null;
+  user_id: string;
+  league_name: string;
+  season: string | null;
+  team_name: string | null;
+  division: number;
+  final_position: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  games_played: number;
+  movement: SeasonMovement;
+  next_division: number;
+  recorded_at: string;
+}
+
 export interface DailyPuzzle {
   id: string;
   puzzle_id: string;
@@ -299,6 +417,67 @@ export interface KrogStats {
   rtype_count?: number;
 }
 
+export interface ScheduledJob {
+  id: string;
+  type: string;
+  job_key: string | null;
+  payload: Record<string, unknown>;
+  run_at: string;
+  interval_seconds: number | null;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  locked_at: string | null;
+  rearmed: boolean;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface LiveRoom {
+  code: string;
+  white_user_id: string | null;
+  black_user_id: string | null;
+  snapshot: unknown;
+  updated_at: string;
+}
+
+// Lines of SAN moves per player, each starting with the opponent's move
+export type ConditionalMoves = { white?: string[][]; black?: string[][] };
+
+export interface CorrespondenceGame {
+  id: string;
+  game_id: string | null;
+  white_id: string;
+  black_id: string;
+  created_by: string;
+  variant: string;
+  variant_state: unknown;
+  days_per_move: number;
+  rated: boolean;
+  status: 'pending' | 'active' | 'completed' | 'declined';
+  fen: string;
+  pgn: string;
+  move_count: number;
+  draw_offer: 'white' | 'black' | null;
+  conditional_moves: ConditionalMoves;
+  result: string | null;
+  end_reason: string | null;
+  turn_deadline: string | null;
+  last_move_at: string | null;
+  created_at: string;
+  ended_at: string | null;
+  white_username?: string;
+  black_username?: string;
+  white_rating?: number;
+  black_rating?: number;
+}
+
+export interface VacationStatus {
+  vacation_days_left: number | null;
+  vacation_year: number | null;
+  vacation_until: string | null;
+}
+
 export interface MoveRecord {
   id?: number;
   game_id: string;
@@ -320,6 +499,9 @@ export interface MoveRecord {
   is_check: boolean;
   is_checkmate: boolean;
   krog_ld?: string; // JSON-LD logical formulas for neurosymbolic AI
+  think_ms?: number | null;  // Time charged to the mover
+  lag_ms?: number | null;  // Estimated network lag of the move
+  lag_credit_ms?: number | null;  // Lag compensation given back
   created_at?: string;
 }
 
@@ -394,11 +576,11 @@ export const dbOperations = {
   },
 
   // Game operations
-  async createGame(roomCode: string, whiteId: string | null, blackId: string | null, timeControl: string | null, whiteRating: number | null, blackRating: number | null): Promise<Game> {
+  async createGame(roomCode: string, whiteId: string | null, blackId: string | null, timeControl: string | null, whiteRating: number | null, blackRating: number | null, variant: string = 'standard', odds: GameOdds | null = null): Promise<Game> {
     const id = uuidv4();
     await pool.query(
-      `INSERT INTO games (id, room_code, white_id, black_id, time_control, white_rating_before, black_rating_before) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [id, roomCode, whiteId, blackId, timeControl, whiteRating, blackRating]
+      `INSERT INTO games (id, room_code, white_id, black_id, time_control, white_rating_before, black_rating_before, variant, odds) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [id, roomCode, whiteId, blackId, timeControl, whiteRating, blackRating, variant, odds ? JSON.stringify(odds) : null]
     );
     const result = await pool.query(`SELECT * FROM games WHERE id = $1`, [id]);
     return result.rows[0];
@@ -441,8 +623,9 @@ export const dbOperations = {
       `INSERT INTO moves (
         game_id, move_number, color, san, from_square, to_square,
         piece, captured, promotion, flags, r_type, r_type_description,
-        conditions, fide_ref, move_type, fen_after, is_check, is_checkmate, krog_ld
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+        conditions, fide_ref, move_type, fen_after, is_check, is_checkmate, krog_ld,
+        think_ms, lag_ms, lag_credit_ms
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)`,
       [
         move.game_id,
         move.move_number,
@@ -462,11 +645,24 @@ export const dbOperations = {
         move.fen_after,
         move.is_check,
         move.is_checkmate,
-        move.krog_ld ? JSON.parse(move.krog_ld) : null
+        move.krog_ld ? JSON.parse(move.krog_ld) : null,
+        move.think_ms ?? null,
+        move.lag_ms ?? null,
+        move.lag_credit_ms ?? null
       ]
     );
   },
 
+  // Delete a ply and everything after it (takebacks)
+  async deleteMovesFrom(gameId: string, moveNumber: number, color: 'white' | 'black'): Promise<void> {
+    await pool.query(
+      `DELETE FROM moves
+       WHERE game_id = $1
+         AND (move_number > $2 OR (move_number = $2 AND ($3 = 'white' OR color = 'black')))`,
+      [gameId, moveNumber, color]
+    );
+  },
+
   async getMovesByGame(gameId: string): Promise<MoveRecord[]> {
     const result = await pool.query(
       `SELECT * FROM moves WHERE game_id = $1 ORDER BY move_number ASC, color ASC`,
@@ -499,30 +695,106 @@ export const dbOperations = {
   },
 
   // Rating history
-  async addRatingHistory(userId: string, rating: number, ratingChange: number, gameId: string | null): Promise<void> {
+  async addRatingHistory(
+    userId: string,
+    rating: number,
+    ratingChange: number,
+    gameId: string | null,
+    ratingPool: string | null = null,
+    deviation: number | null = null
+  ): Promise<void> {
     const id = uuidv4();
     await pool.query(
-      `INSERT INTO rating_history (id, user_id, rating, rating_change, game_id) VALUES ($1, $2, $3, $4, $5)`,
-      [id, userId, rating, ratingChange, gameId]
+      `INSERT INTO rating_history (id, user_id, rating, rating_change, game_id, pool, deviation) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, userId, rating, ratingChange, gameId, ratingPool, deviation]
     );
   },
 
-  async getUserRatingHistory(userId: string, limit: number = 50): Promise<{ rating: number; rating_change: number; created_at: string }[]> {
+  async getUserRatingHistory(
+    userId: string,
+    limit: number = 50,
+    ratingPool?: string
+  ): Promise<{ rating: number; rating_change: number; pool: string | null; deviation: number | null; created_at: string }[]> {
     const result = await pool.query(
-      `SELECT rating, rating_change, created_at FROM rating_history WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2`,
-      [userId, limit]
+      `SELECT rating, rating_change, pool, deviation, created_at FROM rating_history
+       WHERE user_id = $1 AND ($3::text IS NULL OR pool = $3)
+       ORDER BY created_at DESC LIMIT $2`,
+      [userId, limit, ratingPool || null]
     );
     return result.rows;
   },
 
+  // Rating pools (Glicko-2, one per time control and variant)
+  async getPoolRating(userId: string, ratingPool: string): Promise<PoolRating | null> {
+    // A player's first game in a pool starts from their current rating
+    await pool.query(
+      `INSERT INTO user_ratings (user_id, pool, rating)
+       SELECT id, $2, rating FROM users WHERE id = $1
+       ON CONFLICT (user_id, pool) DO NOTHING`,
+      [userId, ratingPool]
+    );
+    const result = await pool.query(
+      `SELECT * FROM user_ratings WHERE user_id = $1 AND pool = $2`,
+      [userId, ratingPool]
+    );
+    return result.rows[0] || null;
+  },
+
+  async updatePoolRating(userId: string, ratingPool: string, rating: number, deviation: number, volatility: number): Promise<void> {
+    await pool.query(
+      `UPDATE user_ratings
+       SET rating = $3, deviation = $4, volatility = $5, games = games + 1, last_played_at = NOW()
+       WHERE user_id = $1 AND pool = $2`,
+      [userId, ratingPool, rating, deviation, volatility]
+    );
+  },
+
+  async getUserPoolRatings(userId: string): Promise<PoolRating[]> {
+    const result = await pool.query(
+      `SELECT * FROM user_ratings WHERE user_id = $1 ORDER BY games DESC`,
+      [userId]
+    );
+    return result.rows;
+  },
+
+  async getPoolLeaderboard(ratingPool: string, maxDeviation: number, limit: number = 100): Promise<PoolLeaderboardEntry[]> {
+    const result = await pool.query(
+      `SELECT u.id, u.username, ur.rating, ur.deviation, ur.games
+       FROM user_ratings ur
+       JOIN users u ON u.id = ur.user_id
+       WHERE ur.pool = $1 AND ur.deviation < $2
+       ORDER BY ur.rating DESC
+       LIMIT $3`,
+      [ratingPool, maxDeviation, limit]
+    );
+    return result.rows;
+  },
+
+  // users.rating mirrors the standard pool the player has played most
+  async refreshHeadlineRating(userId: string): Promise<number | null> {
+    const result = await pool.query(
+      `UPDATE users SET rating = ROUND(best.rating)
+       FROM (
+         SELECT rating FROM user_ratings
+         WHERE user_id = $1 AND pool LIKE '%:standard'
+         ORDER BY games DESC, last_played_at DESC NULLS LAST
+         LIMIT 1
+       ) best
+       WHERE users.id = $1
+       RETURNING users.rating`,
+      [userId]
+    );
+    return result.rows[0]?.rating ?? null;
+  },
+
   // Matchmaking
-  async addToQueue(userId: string, socketId: string, rating: number, timeControl: string): Promise<void> {
+  async addToQueue(userId: string, socketId: string, rating: number, timeControl: string, variant: string): Promise<void> {
     const id = uuidv4();
     await pool.query(
-      `INSERT INTO matchmaking_queue (id, user_id, socket_id, rating, time_control)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (user_id) DO UPDATE SET socket_id = $3, rating = $4, time_control = $5, joined_at = NOW()`,
-      [id, userId, socketId, rating, timeControl]
+      `INSERT INTO matchmaking_queue (id, user_id, socket_id, rating, time_control, variant)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (user_id) DO UPDATE SET socket_id = $3, rating = $4, time_control = $5, variant = $6, joined_at = NOW()`,
+      [id, userId, socketId, rating, timeControl, variant]
     );
   },
 
@@ -534,26 +806,38 @@ export const dbOperations = {
     await pool.query(`DELETE FROM matchmaking_queue WHERE socket_id = $1`, [socketId]);
   },
 
-  async findMatch(timeControl: string, userId: string, rating: number, ratingRange: number): Promise<QueueEntry | null> {
+  async getQueueEntries(): Promise<QueueEntry[]> {
+    const result = await pool.query(`SELECT * FROM matchmaking_queue ORDER BY joined_at ASC`);
+    return result.rows;
+  },
+
+  async getQueueEntry(userId: string): Promise<QueueEntry | null> {
+    const result = await pool.query(`SELECT * FROM matchmaking_queue WHERE user_id = $1`, [userId]);
+    return result.rows[0] || null;
+  },
+
+  // Take two players out of the queue together; false if either has already left
+  async removeQueuePair(userId: string, opponentId: string): Promise<boolean> {
     const result = await pool.query(
-      `SELECT * FROM matchmaking_queue
-       WHERE time_control = $1 AND user_id != $2 AND ABS(rating - $3) <= $4
-       ORDER BY ABS(rating - $3) ASC
-       LIMIT 1`,
-      [timeControl, userId, rating, ratingRange]
+      `DELETE FROM matchmaking_queue
+       WHERE user_id = ANY($1)
+         AND (SELECT COUNT(*) FROM matchmaking_queue WHERE user_id = ANY($1)) = 2`,
+      [[userId, opponentId]]
     );
-    return result.rows[0] || null;
+    return result.rowCount === 2;
   },
 
-  async getQueuePosition(timeControl: string, userId: string): Promise<number> {
+  // Colours the user played in their latest games, most recent first
+  async getRecentColors(userId: string, limit: number): Promise<('white' | 'black')[]> {
     const result = await pool.query(
-      `SELECT COUNT(*) as position FROM matchmaking_queue
-       WHERE time_control = $1 AND joined_at <= (
-         SELECT joined_at FROM matchmaking_queue WHERE user_id = $2
-       )`,
-      [timeControl, userId]
+      `SELECT CASE WHEN white_id = $1 THEN 'white' ELSE 'black' END AS color
+       FROM games
+       WHERE (white_id = $1 OR black_id = $1) AND result IS DISTINCT FROM '*'
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [userId, limit]
     );
-    return parseInt(result.rows[0]?.position || '0');
+    return result.rows.map(row => row.color);
   },
 
   // Friendship operations
@@ -829,13 +1113,13 @@ export const dbOperations = {
   },
 
   // Tournament operations
-  async createTournament(name: string, description: string | null, creatorId: string, clubId: string | null, type: string, timeControl: string, maxParticipants: number, startTime: string | null): Promise<Tournament | null> {
+  async createTournament(name: string, description: string | null, creatorId: string, clubId: string | null, type: string, timeControl: string, maxParticipants: number, startTime: string | null, gamesPerMatch: number = 2, durationMinutes: number | null = null, tiebreaks: string | null = null): Promise<Tournament | null> {
     try {
       const id = uuidv4();
       await pool.query(
-        `INSERT INTO tournaments (id, name, description, creator_id, club_id, type, time_control, max_participants, starts_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [id, name, description, creatorId, clubId, type, timeControl, maxParticipants, startTime]
+        `INSERT INTO tournaments (id, name, description, creator_id, club_id, type, time_control, max_participants, starts_at, games_per_match, duration_minutes, tiebreaks)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [id, name, description, creatorId, clubId, type, timeControl, maxParticipants, startTime, gamesPerMatch, durationMinutes, tiebreaks]
       );
       const result = await pool.query(
         `SELECT t.*, u.username as creator_username, c.name as club_name
@@ -979,10 +1263,39 @@ export const dbOperations = {
        FROM tournament_participants tp
        JOIN users u ON tp.user_id = u.id
        WHERE tp.tournament_id = $1
-       ORDER BY tp.score DESC, tp.buchholz DESC, u.rating DESC`,
+       ORDER BY tp.score DESC, u.rating DESC`,
       [tournamentId]
     );
-    return result.rows;
+    const participants: TournamentParticipant[] = result.rows;
+
+    // Arenas rank on their own scoring, everything else gets the configured tiebreaks
+    const tournament = await this.getTournamentById(tournamentId);
+    if (!tournament || tournament.type === 'arena') return participants;
+
+    // Forfeited games count for the score but not for tiebreaks; aborted games count for neither
+    const games = (await this.getTournamentGames(tournamentId)).filter(g => g.result !== null && g.status !== 'forfeit' && g.status !== 'aborted');
+    const values = calculateTiebreaks(
+      participants.map(p => ({ id: p.user_id, score: Number(p.score), byeRound: p.bye_round })),
+      games.map(g => ({
+        round: g.round,
+        whiteId: g.white_id,
+        blackId: g.black_id,
+        whiteBoardPoints: Number(g.white_score),
+        blackBoardPoints: Number(g.black_score)
+      }))
+    );
+    for (const p of participants) {
+      p.tiebreaks = values.get(p.user_id);
+      p.buchholz = p.tiebreaks?.buchholz ?? p.buchholz;
+    }
+
+    return sortByTiebreaks(
+      participants,
+      p => p.user_id,
+      p => Number(p.score),
+      values,
+      parseTiebreaks(tournament.tiebreaks, DEFAULT_TOURNAMENT_TIEBREAKS)
+    );
   },
 
   async updateParticipantScore(tournamentId: string, userId: string, score: number, buchholz: number, wins: number, draws: number, losses: number, performanceRating: number): Promise<void> {
@@ -993,11 +1306,11 @@ export const dbOperations = {
   },
 
   // Tournament game operations
-  async createTournamentGame(tournamentId: string, round: number, board: number, whiteId: string, blackId: string, roomCode: string): Promise<TournamentGame> {
+  async createTournamentGame(tournamentId: string, round: number, board: number, whiteId: string, blackId: string, roomCode: string, matchGame: number = 1, isArmageddon: boolean = false): Promise<TournamentGame> {
     const id = uuidv4();
     await pool.query(
-      `INSERT INTO tournament_games (id, tournament_id, round, board, white_id, black_id, room_code) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [id, tournamentId, round, board, whiteId, blackId, roomCode]
+      `INSERT INTO tournament_games (id, tournament_id, round, board, white_id, black_id, room_code, match_game, is_armageddon) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [id, tournamentId, round, board, whiteId, blackId, roomCode, matchGame, isArmageddon]
     );
     const result = await pool.query(
       `SELECT tg.*, w.username as white_username, b.username as black_username
@@ -1041,31 +1354,76 @@ export const dbOperations = {
        JOIN users w ON tg.white_id = w.id
        JOIN users b ON tg.black_id = b.id
        WHERE tg.tournament_id = $1 AND tg.round = $2
-       ORDER BY tg.board ASC`,
+       ORDER BY tg.board ASC, tg.match_game ASC`,
       [tournamentId, round]
     );
     return result.rows;
   },
 
+  async getTournamentGames(tournamentId: string): Promise<TournamentGame[]> {
+    const result = await pool.query(
+      `SELECT tg.*, w.username as white_username, b.username as black_username, w.rating as white_rating, b.rating as black_rating
+       FROM tournament_games tg
+       JOIN users w ON tg.white_id = w.id
+       JOIN users b ON tg.black_id = b.id
+       WHERE tg.tournament_id = $1
+       ORDER BY tg.round ASC, tg.board ASC, tg.match_game ASC`,
+      [tournamentId]
+    );
+    return result.rows;
+  },
+
   async updateTournamentGameResult(id: string, result: string, whiteScore: number, blackScore: number, pgn: string): Promise<void> {
     await pool.query(
-      `UPDATE tournament_games SET result = $1, white_score = $2, black_score = $3, pgn = $4, ended_at = NOW() WHERE id = $5`,
+      `UPDATE tournament_games SET result = $1, white_score = $2, black_score = $3, pgn = $4, status = 'completed', ended_at = NOW() WHERE id = $5`,
       [result, whiteScore, blackScore, pgn, id]
     );
   },
 
+  async setParticipantBye(tournamentId: string, userId: string, round: number): Promise<void> {
+    await pool.query(
+      `UPDATE tournament_participants SET bye_round = $1 WHERE tournament_id = $2 AND user_id = $3`,
+      [round, tournamentId, userId]
+    );
+  },
+
+  async setTournamentEndsAt(id: string, endsAt: string): Promise<void> {
+    await pool.query(`UPDATE tournaments SET ends_at = $1 WHERE id = $2`, [endsAt, id]);
+  },
+
+  async setTournamentGameBerserk(id: string, color: 'white' | 'black'): Promise<void> {
+    const column = color === 'white' ? 'white_berserk' : 'black_berserk';
+    await pool.query(`UPDATE tournament_games SET ${column} = TRUE WHERE id = $1`, [id]);
+  },
+
+  async setParticipantSeed(tournamentId: string, userId: string, seed: number): Promise<void> {
+    await pool.query(
+      `UPDATE tournament_participants SET seed = $1 WHERE tournament_id = $2 AND user_id = $3`,
+      [seed, tournamentId, userId]
+    );
+  },
+
+  async updateParticipantStatus(tournamentId: string, userId: string, status: string): Promise<void> {
+    await pool.query(
+      `UPDATE tournament_participants SET status = $1 WHERE tournament_id = $2 AND user_id = $3`,
+      [status, tournamentId, userId]
+    );
+  },
+
   // League operations
-  async createLeague(name: string, description: string | null, creatorId: string, clubId: string | null, type: string, format: string, timeControl: string, season: string | null, maxDivisions: number, pointsForWin: number, pointsForDraw: number, pointsForLoss: number, startDate: string | null, endDate: string | null): Promise<League | null> {
+  async createLeague(name: string, description: string | null, creatorId: string, clubId: string | null, type: string, format: string, timeControl: string, season: string | null, maxDivisions: number, pointsForWin: number, pointsForDraw: number, pointsForLoss: number, startDate: string | null, endDate: string | null, tiebreaks: string | null = null, boardCount: number = 4, promotionSpots: number = 2, relegationSpots: number = 2, previousLeagueId: string | null = null): Promise<League | null> {
     try {
       const id = uuidv4();
       await pool.query(
-        `INSERT INTO leagues (id, name, description, creator_id, club_id, type, format, time_control, season, divisions, points_for_win, points_for_draw, points_for_loss, starts_at, ended_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
-        [id, name, description, creatorId, clubId, type, format, timeControl, season, maxDivisions, pointsForWin, pointsForDraw, pointsForLoss, startDate, endDate]
+        `INSERT INTO leagues (id, name, description, creator_id, club_id, type, format, time_control, season, divisions, points_for_win, points_for_draw, points_for_loss, starts_at, ended_at, tiebreaks, board_count, promotion_spots, relegation_spots, previous_league_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)`,
+        [id, name, description, creatorId, clubId, type, format, timeControl, season, maxDivisions, pointsForWin, pointsForDraw, pointsForLoss, startDate, endDate, tiebreaks, boardCount, promotionSpots, relegationSpots, previousLeagueId]
       );
       const result = await pool.query(
-        `SELECT l.*, u.username as creator_username, c.name as club_name,
-                (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+        `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name,
+                CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count
          FROM leagues l
          JOIN users u ON l.creator_id = u.id
          LEFT JOIN clubs c ON l.club_id = c.id
@@ -1081,8 +1439,11 @@ export const dbOperations = {
 
   async getLeagueById(id: string): Promise<League | null> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username, c.name as club_name,
-              (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name,
+              CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count,
+              (SELECT n.id FROM leagues n WHERE n.previous_league_id = l.id) as next_league_id
        FROM leagues l
        JOIN users u ON l.creator_id = u.id
        LEFT JOIN clubs c ON l.club_id = c.id
@@ -1099,14 +1460,20 @@ export const dbOperations = {
     );
   },
 
+  async completeLeague(id: string): Promise<void> {
+    await pool.query(`UPDATE leagues SET status = 'completed', ended_at = NOW() WHERE id = $1`, [id]);
+  },
+
   async deleteLeague(id: string): Promise<void> {
     await pool.query(`DELETE FROM leagues WHERE id = $1`, [id]);
   },
 
   async getOpenLeagues(limit: number, offset: number): Promise<League[]> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username, c.name as club_name,
-              (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name,
+              CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count
        FROM leagues l
        JOIN users u ON l.creator_id = u.id
        LEFT JOIN clubs c ON l.club_id = c.id
@@ -1120,8 +1487,10 @@ export const dbOperations = {
 
   async getActiveLeagues(limit: number, offset: number): Promise<League[]> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username, c.name as club_name,
-              (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name,
+              CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count
        FROM leagues l
        JOIN users u ON l.creator_id = u.id
        LEFT JOIN clubs c ON l.club_id = c.id
@@ -1135,12 +1504,17 @@ export const dbOperations = {
 
   async getUserLeagues(userId: string, limit: number, offset: number): Promise<League[]> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username, c.name as club_name, lp.points, lp.status as participant_status, lp.division
-       FROM league_participants lp
-       JOIN leagues l ON lp.league_id = l.id
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name, lp.points, lp.status as participant_status, lp.division
+       FROM leagues l
        JOIN users u ON l.creator_id = u.id
        LEFT JOIN clubs c ON l.club_id = c.id
-       WHERE lp.user_id = $1
+       LEFT JOIN league_participants lp ON lp.league_id = l.id AND lp.user_id = $1
+       WHERE lp.user_id IS NOT NULL
+          OR EXISTS (
+            SELECT 1 FROM league_teams lt
+            JOIN league_team_players ltp ON ltp.team_id = lt.id
+            WHERE lt.league_id = l.id AND ltp.user_id = $1
+          )
        ORDER BY l.created_at DESC
        LIMIT $2 OFFSET $3`,
       [userId, limit, offset]
@@ -1181,7 +1555,16 @@ export const dbOperations = {
        ORDER BY lp.division ASC, lp.points DESC, (lp.goals_for - lp.goals_against) DESC, lp.wins DESC`,
       [leagueId]
     );
-    return result.rows;
+    const participants: LeagueParticipant[] = result.rows;
+
+    const league = await this.getLeagueById(leagueId);
+    if (!league) return participants;
+
+    const matches = await this.getLeagueMatches(leagueId);
+    const divisions = [...new Set(participants.map(p => p.division))];
+    return divisions.flatMap(division =>
+      rankLeagueParticipants(league, participants.filter(p => p.division === division), matches)
+    );
   },
 
   async getLeagueStandings(leagueId: string, division: number): Promise<LeagueParticipant[]> {
@@ -1193,7 +1576,19 @@ export const dbOperations = {
        ORDER BY lp.points DESC, (lp.goals_for - lp.goals_against) DESC, lp.wins DESC`,
       [leagueId, division]
     );
-    return result.rows;
+    const standings: LeagueParticipant[] = result.rows;
+
+    const league = await this.getLeagueById(leagueId);
+    if (!league) return standings;
+
+    return rankLeagueParticipants(league, standings, await this.getLeagueMatches(leagueId));
+  },
+
+  async updateLeagueParticipantStatus(leagueId: string, userId: string, status: string): Promise<void> {
+    await pool.query(
+      `UPDATE league_participants SET status = $1 WHERE league_id = $2 AND user_id = $3`,
+      [status, leagueId, userId]
+    );
   },
 
   async updateLeagueParticipantStats(leagueId: string, userId: string, points: number, wins: number, draws: number, losses: number, gamesPlayed: number, goalsFor: number, goalsAgainst: number, form: string): Promise<void> {
@@ -1204,11 +1599,11 @@ export const dbOperations = {
   },
 
   // League match operations
-  async createLeagueMatch(leagueId: string, round: number, homeId: string, awayId: string, roomCode: string, scheduledAt: string | null): Promise<LeagueMatch> {
+  async createLeagueMatch(leagueId: string, round: number, homeId: string, awayId: string, roomCode: string, scheduledAt: string | null, fixtureId: string | null = null, board: number | null = null): Promise<LeagueMatch> {
     const id = uuidv4();
     await pool.query(
-      `INSERT INTO league_matches (id, league_id, round, home_id, away_id, room_code, scheduled_at) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [id, leagueId, round, homeId, awayId, roomCode, scheduledAt]
+      `INSERT INTO league_matches (id, league_id, round, home_id, away_id, room_code, scheduled_at, fixture_id, board) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [id, leagueId, round, homeId, awayId, roomCode, scheduledAt, fixtureId, board]
     );
     const result = await pool.query(
       `SELECT lm.*, h.username as home_username, a.username as away_username
@@ -1265,7 +1660,7 @@ export const dbOperations = {
        JOIN users h ON lm.home_id = h.id
        JOIN users a ON lm.away_id = a.id
        WHERE lm.league_id = $1
-       ORDER BY lm.round ASC, lm.scheduled_at ASC`,
+       ORDER BY lm.round ASC, lm.scheduled_at ASC, lm.fixture_id ASC, lm.board ASC`,
       [leagueId]
     );
     return result.rows;
@@ -1273,11 +1668,215 @@ export const dbOperations = {
 
   async updateLeagueMatchResult(id: string, result: string, homeScore: number, awayScore: number, pgn: string): Promise<void> {
     await pool.query(
-      `UPDATE league_matches SET result = $1, home_score = $2, away_score = $3, pgn = $4, ended_at = NOW() WHERE id = $5`,
+      `UPDATE league_matches SET result = $1, home_score = $2, away_score = $3, pgn = $4, status = 'completed', ended_at = NOW() WHERE id = $5`,
       [result, homeScore, awayScore, pgn, id]
     );
   },
 
+  // League team operations
+  async createLeagueTeam(leagueId: string, clubId: string, name: string, captainId: string, division: number): Promise<LeagueTeam> {
+    const id = uuidv4();
+    const result = await pool.query(
+      `INSERT INTO league_teams (id, league_id, club_id, name, captain_id, division) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [id, leagueId, clubId, name, captainId, division]
+    );
+    return result.rows[0];
+  },
+
+  async updateLeagueTeamName(teamId: string, name: string): Promise<void> {
+    await pool.query(`UPDATE league_teams SET name = $1 WHERE id = $2`, [name, teamId]);
+  },
+
+  async removeLeagueTeam(teamId: string): Promise<void> {
+    await pool.query(`DELETE FROM league_teams WHERE id = $1`, [teamId]);
+  },
+
+  async setLeagueTeamRoster(teamId: string, userIds: string[]): Promise<void> {
+    await pool.query(`DELETE FROM league_team_players WHERE team_id = $1`, [teamId]);
+    for (let i = 0; i < userIds.length; i++) {
+      await pool.query(
+        `INSERT INTO league_team_players (id, team_id, user_id, board_order) VALUES ($1, $2, $3, $4)`,
+        [uuidv4(), teamId, userIds[i], i + 1]
+      );
+    }
+  },
+
+  async getLeagueTeam(teamId: string): Promise<LeagueTeam | null> {
+    const result = await pool.query(
+      `SELECT lt.*, c.name as club_name, c.logo_emoji
+       FROM league_teams lt
+       JOIN clubs c ON lt.club_id = c.id
+       WHERE lt.id = $1`,
+      [teamId]
+    );
+    const team: LeagueTeam | undefined = result.rows[0];
+    if (!team) return null;
+    team.players = await this.getLeagueTeamPlayers(teamId);
+    return team;
+  },
+
+  async getLeagueTeamPlayers(teamId: string): Promise<LeagueTeamPlayer[]> {
+    const result = await pool.query(
+      `SELECT ltp.user_id, ltp.board_order, u.username, u.rating
+       FROM league_team_players ltp
+       JOIN users u ON ltp.user_id = u.id
+       WHERE ltp.team_id = $1
+       ORDER BY ltp.board_order ASC`,
+      [teamId]
+    );
+    return result.rows;
+  },
+
+  async getLeagueTeams(leagueId: string): Promise<LeagueTeam[]> {
+    const result = await pool.query(
+      `SELECT lt.*, c.name as club_name, c.logo_emoji
+       FROM league_teams lt
+       JOIN clubs c ON lt.club_id = c.id
+       WHERE lt.league_id = $1
+       ORDER BY lt.division ASC, lt.points DESC, (lt.board_points_for - lt.board_points_against) DESC`,
+      [leagueId]
+    );
+    const teams: LeagueTeam[] = result.rows;
+    for (const team of teams) {
+      team.players = await this.getLeagueTeamPlayers(team.id);
+    }
+    return teams;
+  },
+
+  // Team the user plays for in a league, if any
+  async getLeaguePlayerTeam(leagueId: string, userId: string): Promise<LeagueTeam | null> {
+    const result = await pool.query(
+      `SELECT lt.* FROM league_teams lt
+       JOIN league_team_players ltp ON ltp.team_id = lt.id
+       WHERE lt.league_id = $1 AND ltp.user_id = $2`,
+      [leagueId, userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async updateLeagueTeamStatus(teamId: string, status: string): Promise<void> {
+    await pool.query(`UPDATE league_teams SET status = $1 WHERE id = $2`, [status, teamId]);
+  },
+
+  async updateLeagueTeamStats(teamId: string, points: number, wins: number, draws: number, losses: number, gamesPlayed: number, boardPointsFor: number, boardPointsAgainst: number, form: string): Promise<void> {
+    await pool.query(
+      `UPDATE league_teams SET points = $1, wins = $2, draws = $3, losses = $4, games_played = $5, board_points_for = $6, board_points_against = $7, form = $8 WHERE id = $9`,
+      [points, wins, draws, losses, gamesPlayed, boardPointsFor, boardPointsAgainst, form, teamId]
+    );
+  },
+
+  // Team standings per division, ranked on match points and tiebreaks, with per-board results
+  async getLeagueTeamStandings(leagueId: string): Promise<LeagueTeam[]> {
+    const league = await this.getLeagueById(leagueId);
+    const teams = await this.getLeagueTeams(leagueId);
+    if (!league) return teams;
+
+    const fixtures = await this.getLeagueFixtures(leagueId);
+    const boards = (await this.getLeagueMatches(leagueId)).filter(m => m.fixture_id !== null);
+    const fixtureRefs = fixtures.map(f => ({ id: f.id, homeTeamId: f.home_team_id, awayTeamId: f.away_team_id }));
+    const boardGames = boards.map(m => ({
+      fixtureId: m.fixture_id!,
+      board: m.board || 1,
+      whiteId: m.home_id,
+      blackId: m.away_id,
+      result: m.result
+    }));
+    for (const team of teams) {
+      team.boards = teamBoardBreakdown(team.id, fixtureRefs, boardGames);
+    }
+
+    const divisions = [...new Set(teams.map(t => t.division))];
+    return divisions.flatMap(division =>
+      rankLeagueTeams(league, teams.filter(t => t.division === division), fixtures)
+    );
+  },
+
+  // League fixture operations (team leagues)
+  async createLeagueFixture(leagueId: string, round: number, homeTeamId: string, awayTeamId: string, scheduledAt: string | null): Promise<LeagueFixture> {
+    const id = uuidv4();
+    const result = await pool.query(
+      `INSERT INTO league_fixtures (id, league_id, round, home_team_id, away_team_id, scheduled_at) VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [id, leagueId, round, homeTeamId, awayTeamId, scheduledAt]
+    );
+    return result.rows[0];
+  },
+
+  async getLeagueFixture(id: string): Promise<LeagueFixture | null> {
+    const result = await pool.query(
+      `SELECT lf.*, h.name as home_team_name, a.name as away_team_name
+       FROM league_fixtures lf
+       JOIN league_teams h ON lf.home_team_id = h.id
+       JOIN league_teams a ON lf.away_team_id = a.id
+       WHERE lf.id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  async getLeagueFixtures(leagueId: string): Promise<LeagueFixture[]> {
+    const result = await pool.query(
+      `SELECT lf.*, h.name as home_team_name, a.name as away_team_name
+       FROM league_fixtures lf
+       JOIN league_teams h ON lf.home_team_id = h.id
+       JOIN league_teams a ON lf.away_team_id = a.id
+       WHERE lf.league_id = $1
+       ORDER BY lf.round ASC, lf.scheduled_at ASC, lf.id ASC`,
+      [leagueId]
+    );
+    return result.rows;
+  },
+
+  async getFixtureBoards(fixtureId: string): Promise<LeagueMatch[]> {
+    const result = await pool.query(
+      `SELECT lm.*, h.username as home_username, a.username as away_username, h.rating as home_rating, a.rating as away_rating
+       FROM league_matches lm
+       JOIN users h ON lm.home_id = h.id
+       JOIN users a ON lm.away_id = a.id
+       WHERE lm.fixture_id = $1
+       ORDER BY lm.board ASC`,
+      [fixtureId]
+    );
+    return result.rows;
+  },
+
+  async updateLeagueFixtureScore(id: string, homePoints: number, awayPoints: number, status: string): Promise<void> {
+    await pool.query(
+      `UPDATE league_fixtures SET home_points = $1, away_points = $2, status = $3 WHERE id = $4 AND result IS NULL`,
+      [homePoints, awayPoints, status, id]
+    );
+  },
+
+  // Returns false if another board already completed the fixture
+  async completeLeagueFixture(id: string, homePoints: number, awayPoints: number, result: string, status: string): Promise<boolean> {
+    const updated = await pool.query(
+      `UPDATE league_fixtures SET home_points = $1, away_points = $2, result = $3, status = $4, ended_at = NOW()
+       WHERE id = $5 AND result IS NULL`,
+      [homePoints, awayPoints, result, status, id]
+    );
+    return (updated.rowCount || 0) > 0;
+  },
+
+  // League season history operations
+  async addLeagueSeasonHistory(league: League, userId: string, teamName: string | null, division: number, finalPosition: number, points: number, wins: number, draws: number, losses: number, gamesPlayed: number, movement: SeasonMovement, nextDivision: number): Promise<void> {
+    const id = uuidv4();
+    await pool.query(
+      `INSERT INTO league_season_history (id, league_id, user_id, league_name, season, team_name, division, final_position, points, wins, draws, losses, games_played, movement, next_division)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [id, league.id, userId, league.name, league.season, teamName, division, finalPosition, points, wins, draws, losses, gamesPlayed, movement, nextDivision]
+    );
+  },
+
+  async getUserSeasonHistory(userId: string, limit: number = 50): Promise<LeagueSeasonHistory[]> {
+    const result = await pool.query(
+      `SELECT * FROM league_season_history
+       WHERE user_id = $1
+       ORDER BY recorded_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows;
+  },
+
   // Daily puzzle operations
   async getDailyPuzzle(puzzleDate: string): Promise<DailyPuzzle | null> {
     const result = await pool.query(`SELECT * FROM daily_puzzles WHERE puzzle_date = $1`, [puzzleDate]);
@@ -1741,6 +2340,13 @@ export const dbOperations = {
       if (tournament.creator_id !== userId) {
         return { success: false, message: 'Not authorized' };
       }
+      if (tournament.status !== 'upcoming') {
+        return { success: false, message: 'Tournament already started' };
+      }
+      const participants = await this.getTournamentParticipants(tournamentId);
+      if (participants.length < 2) {
+        return { success: false, message: 'Need at least 2 participants' };
+      }
       await this.updateTournamentStatus(tournamentId, 'active', 1, 0, null);
       return { success: true, message: 'Tournament started' };
     } catch (error) {
@@ -1765,7 +2371,7 @@ export const dbOperations = {
   },
 
   async updateTournamentGameStatus(id: string, status: string): Promise<void> {
-    await pool.query(`UPDATE tournament_games SET started_at = NOW() WHERE id = $1`, [id]);
+    await pool.query(`UPDATE tournament_games SET status = $1, started_at = NOW() WHERE id = $2`, [status, id]);
   },
 
   async getUserTournamentGames(tournamentId: string, userId: string): Promise<TournamentGame[]> {
@@ -1813,6 +2419,15 @@ export const dbOperations = {
       if (league.creator_id !== userId) {
         return { success: false, message: 'Not authorized' };
       }
+      if (league.status !== 'registration') {
+        return { success: false, message: 'League already started' };
+      }
+      const entrants = league.type === 'team'
+        ? await this.getLeagueTeams(leagueId)
+        : await this.getLeagueParticipants(leagueId);
+      if (entrants.length < 2) {
+        return { success: false, message: league.type === 'team' ? 'Need at least 2 teams' : 'Need at least 2 participants' };
+      }
       await this.updateLeagueStatus(leagueId, 'active', 1, 0);
       return { success: true, message: 'League started' };
     } catch (error) {
@@ -1837,7 +2452,7 @@ export const dbOperations = {
   },
 
   async updateLeagueMatchStatus(id: string, status: string): Promise<void> {
-    await pool.query(`UPDATE league_matches SET started_at = NOW() WHERE id = $1`, [id]);
+    await pool.query(`UPDATE league_matches SET status = $1, started_at = NOW() WHERE id = $2`, [status, id]);
   },
 
   async getUserLeagueMatches(leagueId: string, userId: string): Promise<LeagueMatch[]> {
@@ -1855,8 +2470,10 @@ export const dbOperations = {
 
   async getCompletedLeagues(limit: number = 20, offset: number = 0): Promise<League[]> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username, c.name as club_name,
-              (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username, c.name as club_name,
+              CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count
        FROM leagues l
        JOIN users u ON l.creator_id = u.id
        LEFT JOIN clubs c ON l.club_id = c.id
@@ -1870,8 +2487,10 @@ export const dbOperations = {
 
   async getClubLeagues(clubId: string, limit: number = 20, offset: number = 0): Promise<League[]> {
     const result = await pool.query(
-      `SELECT l.*, u.username as creator_username,
-              (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) as participant_count
+      `SELECT l.*, l.divisions as max_divisions, l.promotion_spots as promotion_count, l.relegation_spots as relegation_count, u.username as creator_username,
+              CASE WHEN l.type = 'team'
+                THEN (SELECT COUNT(*) FROM league_teams WHERE league_id = l.id)
+                ELSE (SELECT COUNT(*) FROM league_participants WHERE league_id = l.id) END as participant_count
        FROM leagues l
        JOIN users u ON l.creator_id = u.id
        WHERE l.club_id = $1
@@ -1880,23 +2499,448 @@ export const dbOperations = {
       [clubId, limit, offset]
     );
     return result.rows;
+  },
+
+  // Scheduled job operations
+  async upsertScheduledJob(
+    type: string,
+    runAt: Date,
+    payload: Record<string, unknown>,
+    jobKey: string | null,
+    intervalSeconds: number | null
+  ): Promise<ScheduledJob> {
+    const id = uuidv4();
+    // A keyed job is re-armed with the new time. One running right now is left
+    // to finish and marked, so it goes back in the queue afterwards.
+    const result = await pool.query(
+      `INSERT INTO scheduled_jobs (id, type, job_key, payload, run_at, interval_seconds)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (job_key) DO UPDATE SET
+         type = EXCLUDED.type, payload = EXCLUDED.payload, run_at = EXCLUDED.run_at,
+         interval_seconds = EXCLUDED.interval_seconds,
+         status = CASE WHEN scheduled_jobs.status = 'running' THEN 'running' ELSE 'pending' END,
+         rearmed = scheduled_jobs.status = 'running',
+         attempts = CASE WHEN scheduled_jobs.status = 'running' THEN scheduled_jobs.attempts ELSE 0 END,
+         last_error = NULL, completed_at = NULL
+       RETURNING *`,
+      [id, type, jobKey, JSON.stringify(payload), runAt.toISOString(), intervalSeconds]
+    );
+    return result.rows[0];
+  },
+
+  async insertScheduledJobIfMissing(
+    type: string,
+    runAt: Date,
+    payload: Record<string, unknown>,
+    jobKey: string,
+    intervalSeconds: number | null
+  ): Promise<void> {
+    const id = uuidv4();
+    await pool.query(
+      `INSERT INTO scheduled_jobs (id, type, job_key, payload, run_at, interval_seconds)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (job_key) DO NOTHING`,
+      [id, type, jobKey, JSON.stringify(payload), runAt.toISOString(), intervalSeconds]
+    );
+  },
+
+  async deleteScheduledJob(jobKey: string): Promise<void> {
+    await pool.query(`DELETE FROM scheduled_jobs WHERE job_key = $1 AND status <> 'running'`, [jobKey]);
+  },
+
+  async claimDueJobs(limit: number): Promise<ScheduledJob[]> {
+    const result = await pool.query(
+      `UPDATE scheduled_jobs SET status = 'running', locked_at = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM scheduled_jobs
+         WHERE status = 'pending' AND run_at <= NOW()
+         ORDER BY run_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit]
+    );
+    return result.rows;
+  },
+
+  async completeScheduledJob(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE scheduled_jobs SET status = 'completed', locked_at = NULL, last_error = NULL, completed_at = NOW() WHERE id = $1 AND NOT rearmed`,
+      [id]
+    );
+  },
+
+  async rescheduleJob(id: string, runAt: Date, lastError: string | null, resetAttempts: boolean): Promise<void> {
+    await pool.query(
+      `UPDATE scheduled_jobs
+       SET status = 'pending', run_at = $1, last_error = $2, locked_at = NULL,
+           attempts = CASE WHEN $3 THEN 0 ELSE attempts END
+       WHERE id = $4 AND NOT rearmed`,
+      [runAt.toISOString(), lastError, resetAttempts, id]
+    );
+  },
+
+  async failScheduledJob(id: string, error: string): Promise<void> {
+    await pool.query(
+      `UPDATE scheduled_jobs SET status = 'failed', last_error = $1, locked_at = NULL, completed_at = NOW() WHERE id = $2 AND NOT rearmed`,
+      [error, id]
+    );
+  },
+
+  // A job scheduled again while it ran goes back in the queue at its new time
+  async releaseRearmedJob(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE scheduled_jobs SET status = 'pending', rearmed = FALSE, attempts = 0, locked_at = NULL
+       WHERE id = $1 AND rearmed`,
+      [id]
+    );
+  },
+
+  // Jobs left 'running' by a server that died mid-job go back in the queue
+  async releaseStaleJobs(staleMinutes: number): Promise<number> {
+    const result = await pool.query(
+      `UPDATE scheduled_jobs SET status = 'pending', locked_at = NULL,
+         attempts = CASE WHEN rearmed THEN 0 ELSE attempts END, rearmed = FALSE
+       WHERE status = 'running' AND locked_at < NOW() - make_interval(mins => $1)`,
+      [staleMinutes]
+    );
+    return result.rowCount || 0;
+  },
+
+  // Live room snapshot operations
+  async saveLiveRoom(code: string, whiteUserId: string | null, blackUserId: string | null, snapshot: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO live_rooms (code, white_user_id, black_user_id, snapshot, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (code) DO UPDATE SET
+         white_user_id = EXCLUDED.white_user_id,
+         black_user_id = EXCLUDED.black_user_id,
+         snapshot = EXCLUDED.snapshot,
+         updated_at = NOW()`,
+      [code, whiteUserId, blackUserId, snapshot]
+    );
+  },
+
+  async deleteLiveRoom(code: string): Promise<void> {
+    await pool.query(`DELETE FROM live_rooms WHERE code = $1`, [code]);
+  },
+
+  async getLiveRooms(): Promise<LiveRoom[]> {
+    const result = await pool.query(`SELECT * FROM live_rooms ORDER BY updated_at ASC`);
+    return result.rows;
+  },
+
+  async deleteStaleLiveRooms(maxAgeHours: number): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM live_rooms WHERE updated_at < NOW() - make_interval(hours => $1)`,
+      [maxAgeHours]
+    );
+    return result.rowCount || 0;
+  },
+
+  // Correspondence game operations
+  async createCorrespondenceGame(
+    whiteId: string,
+    blackId: string,
+    createdBy: string,
+    variant: string,
+    variantState: unknown,
+    daysPerMove: number,
+    rated: boolean,
+    fen: string,
+    pgn: string
+  ): Promise<CorrespondenceGame> {
+    const id = uuidv4();
+    const result = await pool.query(
+      `INSERT INTO correspondence_games (id, white_id, black_id, created_by, variant, variant_state, days_per_move, rated, fen, pgn)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [id, whiteId, blackId, createdBy, variant, JSON.stringify(variantState), daysPerMove, rated, fen, pgn]
+    );
+    return result.rows[0];
+  },
+
+  async getCorrespondenceGame(id: string): Promise<CorrespondenceGame | null> {
+    const result = await pool.query(
+      `SELECT cg.*, w.username as white_username, b.username as black_username,
+              w.rating as white_rating, b.rating as black_rating
+       FROM correspondence_games cg
+       JOIN users w ON cg.white_id = w.id
+       JOIN users b ON cg.black_id = b.id
+       WHERE cg.id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  },
+
+  async getUserCorrespondenceGames(userId: string, finishedLimit: number = 20): Promise<CorrespondenceGame[]> {
+    // Everything open, then the most recently finished games
+    const result = await pool.query(
+      `(SELECT cg.*, w.username as white_username, b.username as black_username,
+               w.rating as white_rating, b.rating as black_rating
+        FROM correspondence_games cg
+        JOIN users w ON cg.white_id = w.id
+        JOIN users b ON cg.black_id = b.id
+        WHERE (cg.white_id = $1 OR cg.black_id = $1) AND cg.status IN ('pending', 'active'))
+       UNION ALL
+       (SELECT cg.*, w.username as white_username, b.username as black_username,
+               w.rating as white_rating, b.rating as black_rating
+        FROM correspondence_games cg
+        JOIN users w ON cg.white_id = w.id
+        JOIN users b ON cg.black_id = b.id
+        WHERE (cg.white_id = $1 OR cg.black_id = $1) AND cg.status = 'completed'
+        ORDER BY cg.ended_at DESC
+        LIMIT $2)`,
+      [userId, finishedLimit]
+    );
+    return result.rows;
+  },
+
+  async startCorrespondenceGame(id: string, gameId: string | null, deadline: Date): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE correspondence_games SET status = 'active', game_id = $2, turn_deadline = $3
+       WHERE id = $1 AND status = 'pending'`,
+      [id, gameId, deadline]
+    );
+    return (result.rowCount || 0) > 0;
+  },
+
+  async declineCorrespondenceGame(id: string): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE correspondence_games SET status = 'declined', ended_at = NOW()
+       WHERE id = $1 AND status = 'pending'`,
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  },
+
+  async updateCorrespondenceGameMove(
+    id: string,
+    expectedMoveCount: number,
+    fen: string,
+    pgn: string,
+    variantState: unknown,
+    deadline: Date
+  ): Promise<boolean> {
+    // Guarded by the move count so two submissions of the same turn cannot both land
+    const result = await pool.query(
+      `UPDATE correspondence_games
+       SET fen = $3, pgn = $4, variant_state = $5, turn_deadline = $6,
+           move_count = move_count + 1, draw_offer = NULL, last_move_at = NOW()
+       WHERE id = $1 AND status = 'active' AND move_count = $2`,
+      [id, expectedMoveCount, fen, pgn, JSON.stringify(variantState), deadline]
+    );
+    return (result.rowCount || 0) > 0;
+  },
+
+  async setCorrespondenceDrawOffer(id: string, color: 'white' | 'black' | null): Promise<void> {
+    await pool.query(
+      `UPDATE correspondence_games SET draw_offer = $2 WHERE id = $1 AND status = 'active'`,
+      [id, color]
+    );
+  },
+
+  async setCorrespondenceConditionalMoves(id: string, color: 'white' | 'black', lines: string[][] | null): Promise<void> {
+    await pool.query(
+      `UPDATE correspondence_games
+       SET conditional_moves = CASE WHEN $3::jsonb IS NULL THEN conditional_moves - $2::text
+                                    ELSE jsonb_set(conditional_moves, ARRAY[$2::text], $3::jsonb) END
+       WHERE id = $1`,
+      [id, color, lines ? JSON.stringify(lines) : null]
+    );
+  },
+
+  async finishCorrespondenceGame(id: string, result: string, reason: string): Promise<boolean> {
+    // Only the first finisher wins the race (move, resignation or deadline)
+    const update = await pool.query(
+      `UPDATE correspondence_games
+       SET status = 'completed', result = $2, end_reason = $3, draw_offer = NULL, turn_deadline = NULL, ended_at = NOW()
+       WHERE id = $1 AND status = 'active'`,
+      [id, result, reason]
+    );
+    return (update.rowCount || 0) > 0;
+  },
+
+  async getOverdueCorrespondenceGames(): Promise<CorrespondenceGame[]> {
+    const result = await pool.query(
+      `SELECT * FROM correspondence_games
+       WHERE status = 'active' AND turn_deadline < NOW()
+       ORDER BY turn_deadline ASC`
+    );
+    return result.rows;
+  },
+
+  async extendCorrespondenceDeadlines(userId: string, until: Date): Promise<CorrespondenceGame[]> {
+    // Games waiting on this player keep their full days per move after the vacation
+    const result = await pool.query(
+      `UPDATE correspondence_games
+       SET turn_deadline = GREATEST(turn_deadline, $2 + make_interval(days => days_per_move))
+       WHERE status = 'active'
+         AND ((white_id = $1 AND move_count % 2 = 0) OR (black_id = $1 AND move_count % 2 = 1))
+       RETURNING *`,
+      [userId, until]
+    );
+    return result.rows;
+  },
+
+  async getVacationStatus(userId: string): Promise<VacationStatus | null> {
+    const result = await pool.query(
+      `SELECT vacation_days_left, vacation_year, vacation_until FROM users WHERE id = $1`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  async updateVacation(userId: string, daysLeft: number, year: number, until: Date): Promise<void> {
+    await pool.query(
+      `UPDATE users SET vacation_days_left = $2, vacation_year = $3, vacation_until = $4 WHERE id = $1`,
+      [userId, daysLeft, year, until]
+    );
+  },
+
+  // Deadline operations
+  async assignTournamentGameDeadlines(minutes: number, arenaMinutes: number): Promise<void> {
+    // Games become playable once their round is current
+    await pool.query(
+      `UPDATE tournament_games tg
+       SET deadline_at = NOW() + make_interval(mins => CASE WHEN t.type = 'arena' THEN $2 ELSE $1 END)
+       FROM tournaments t
+       WHERE tg.tournament_id = t.id AND t.status = 'active'
+         AND tg.status = 'pending' AND tg.result IS NULL AND tg.deadline_at IS NULL
+         AND tg.round <= t.current_round`,
+      [minutes, arenaMinutes]
+    );
+  },
+
+  async getOverdueTournamentGames(): Promise<TournamentGame[]> {
+    const result = await pool.query(
+      `SELECT tg.* FROM tournament_games tg
+       JOIN tournaments t ON tg.tournament_id = t.id
+       WHERE t.status = 'active' AND tg.status = 'pending' AND tg.result IS NULL AND tg.deadline_at < NOW()
+       ORDER BY tg.deadline_at ASC`
+    );
+    return result.rows;
+  },
+
+  async forfeitTournamentGame(id: string, result: string, whiteScore: number, blackScore: number): Promise<void> {
+    await pool.query(
+      `UPDATE tournament_games SET result = $1, white_score = $2, black_score = $3, status = 'forfeit', ended_at = NOW() WHERE id = $4`,
+      [result, whiteScore, blackScore, id]
+    );
+  },
+
+  async assignLeagueMatchDeadlines(days: number): Promise<void> {
+    // A fixture with a kick-off time gets the grace period from then, otherwise from now
+    await pool.query(
+      `UPDATE league_matches lm
+       SET deadline_at = GREATEST(COALESCE(lm.scheduled_at, NOW()), NOW()) + make_interval(days => $1)
+       FROM leagues l
+       WHERE lm.league_id = l.id AND l.status = 'active'
+         AND lm.status = 'scheduled' AND lm.result IS NULL AND lm.deadline_at IS NULL
+         AND lm.round <= l.current_round`,
+      [days]
+    );
+  },
+
+  async getOverdueLeagueMatches(): Promise<LeagueMatch[]> {
+    const result = await pool.query(
+      `SELECT lm.* FROM league_matches lm
+       JOIN leagues l ON lm.league_id = l.id
+       WHERE l.status = 'active' AND lm.status = 'scheduled' AND lm.result IS NULL AND lm.deadline_at < NOW()
+       ORDER BY lm.deadline_at ASC`
+    );
+    return result.rows;
+  },
+
+  // Aborted games close the pairing as a 0-0 that scores nothing
+  async abortTournamentGame(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE tournament_games SET result = '0-0', white_score = 0, black_score = 0, status = 'aborted', ended_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  },
+
+  async abortLeagueMatch(id: string): Promise<void> {
+    await pool.query(
+      `UPDATE league_matches SET result = '0-0', home_score = 0, away_score = 0, status = 'aborted', ended_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  },
+
+  async forfeitLeagueMatch(id: string, result: string, homeScore: number, awayScore: number): Promise<void> {
+    await pool.query(
+      `UPDATE league_matches SET result = $1, home_score = $2, away_score = $3, status = 'forfeit', ended_at = NOW() WHERE id = $4`,
+      [result, homeScore, awayScore, id]
+    );
+  },
+
+  // Drop queue entries that outlived their socket or waited too long
+  async purgeStaleQueueEntries(maxAgeMinutes: number, liveSocketIds: string[]): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM matchmaking_queue
+       WHERE joined_at < NOW() - make_interval(mins => $1) OR NOT (socket_id = ANY($2))`,
+      [maxAgeMinutes, liveSocketIds]
+    );
+    return result.rowCount || 0;
   }
 };
 
-// ELO rating calculation
-export function calculateEloChange(
-  rating1: number,
-  rating2: number,
-  score1: number,
-  K: number = 32
-): { change1: number; change2: number } {
-  const expected1 = 1 / (1 + Math.pow(10, (rating2 - rating1) / 400));
-  const expected2 = 1 / (1 + Math.pow(10, (rating1 - rating2) / 400));
+// Rank one division of a league on points and the league's tiebreaks
+function rankLeagueParticipants(league: League, standings: LeagueParticipant[], matches: LeagueMatch[]): LeagueParticipant[] {
+  // Only fixtures within the division count
+  const members = new Set(standings.map(s => s.user_id));
+  const played = matches.filter(m => m.result !== null && m.status !== 'forfeit' && m.status !== 'aborted' && members.has(m.home_id) && members.has(m.away_id));
+
+  const values = calculateTiebreaks(
+    standings.map(s => ({ id: s.user_id, score: s.points })),
+    played.map(m => ({
+      round: m.round,
+      whiteId: m.home_id,
+      blackId: m.away_id,
+      whiteBoardPoints: Number(m.home_score),
+      blackBoardPoints: Number(m.away_score)
+    }))
+  );
+  for (const s of standings) {
+    s.tiebreaks = values.get(s.user_id);
+  }
+
+  return sortByTiebreaks(
+    standings,
+    s => s.user_id,
+    s => s.points,
+    values,
+    parseTiebreaks(league.tiebreaks, DEFAULT_LEAGUE_TIEBREAKS)
+  );
+}
 
-  const change1 = Math.round(K * (score1 - expected1));
-  const change2 = Math.round(K * ((1 - score1) - expected2));
+// Rank the teams of one division on match points and the league's tiebreaks
+function rankLeagueTeams(league: League, teams: LeagueTeam[], fixtures: LeagueFixture[]): LeagueTeam[] {
+  const members = new Set(teams.map(t => t.id));
+  const played = fixtures.filter(f => f.result !== null && f.status !== 'forfeit' && members.has(f.home_team_id) && members.has(f.away_team_id));
+
+  const values = calculateTiebreaks(
+    teams.map(t => ({ id: t.id, score: t.points })),
+    played.map(f => ({
+      round: f.round,
+      whiteId: f.home_team_id,
+      blackId: f.away_team_id,
+      whiteBoardPoints: Number(f.home_points),
+      blackBoardPoints: Number(f.away_points)
+    }))
+  );
+  for (const t of teams) {
+    t.tiebreaks = values.get(t.id);
+  }
 
-  return { change1, change2 };
+  return sortByTiebreaks(
+    teams,
+    t => t.id,
+    t => t.points,
+    values,
+    parseTiebreaks(league.tiebreaks, DEFAULT_LEAGUE_TIEBREAKS)
+  );
 }
 
 export default dbOperations;
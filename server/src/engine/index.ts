@@ -0,0 +1,244 @@
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { EngineJobs, EngineJobType } from './jobs';
+
+export * from './jobs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              ENGINE POOL
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Engine search and the KROG analysis run on a pool of worker threads, so a
+ * bot thinking for seconds never holds up the clocks, chat and moves of the
+ * other rooms.
+ *
+ * Jobs wait in a queue for a free worker; the pool grows up to its size as
+ * they come in. The computer's moves always queue, ahead of analysis, while
+ * analysis is turned away as 'busy' once the queue is full. A running job
+ * cannot be interrupted, so one that is cancelled or runs past its timeout
+ * takes its worker down with it, and a fresh worker takes its place.
+ */
+
+export type EngineJobPriority = 'game' | 'analysis';
+
+export interface EngineJobOptions {
+  key?: string;                  // Submitting again under a key cancels the job before it
+  priority?: EngineJobPriority;  // 'analysis' unless given
+  timeoutMs?: number;            // Running time allowed, from the moment a worker takes the job
+}
+
+export interface EngineJob<T> {
+  result: Promise<T>;
+  cancel(): void;
+}
+
+export class EngineJobError extends Error {
+  constructor(readonly reason: 'busy' | 'timeout' | 'cancelled' | 'failed', message: string) {
+    super(message);
+    this.name = 'EngineJobError';
+  }
+}
+
+interface QueuedJob {
+  id: number;
+  type: EngineJobType;
+  input: unknown;
+  key?: string;
+  priority: EngineJobPriority;
+  timeoutMs: number;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  worker?: PoolWorker;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface PoolWorker {
+  thread: Worker;
+  ready: boolean;
+  job: QueuedJob | null;
+}
+
+const POOL_SIZE = parseInt(process.env.ENGINE_WORKERS || '', 10) || Math.max(1, Math.min(4, os.cpus().length - 1));
+const MAX_QUEUED_ANALYSIS = parseInt(process.env.ENGINE_QUEUE_LIMIT || '', 10) || POOL_SIZE * 4;
+
+// The search stops itself within its budget (3s at most); these only catch a
+// job gone wrong
+const JOB_TIMEOUTS_MS: Record<EngineJobType, number> = {
+  bestMove: 15000,
+  suggestMoves: 10000,
+  evaluatePosition: 10000,
+  analyzePosition: 10000
+};
+
+// worker.ts under ts-node, worker.js once built; ts-node has to be loaded in
+// the thread as well (transpiling only, the server itself is type-checked)
+const WORKER_FILE = path.join(__dirname, `worker${path.extname(__filename)}`);
+const WORKER_OPTIONS = WORKER_FILE.endsWith('.ts') ? { execArgv: ['--require', 'ts-node/register/transpile-only'] } : {};
+
+const workers: PoolWorker[] = [];
+const queue: QueuedJob[] = [];
+const keyedJobs = new Map<string, QueuedJob>();
+let nextJobId = 1;
+
+/**
+ * Queue a job for the pool. Its result rejects with an EngineJobError if the
+ * pool is too busy to take it, it runs out of time, it is cancelled or it fails.
+ */
+export function runEngineJob<T extends EngineJobType>(
+  type: T,
+  input: EngineJobs[T]['input'],
+  options: EngineJobOptions = {}
+): EngineJob<EngineJobs[T]['output']> {
+  if (options.key) cancelEngineJob(options.key);
+
+  const job: QueuedJob = {
+    id: nextJobId++,
+    type,
+    input,
+    key: options.key,
+    priority: options.priority || 'analysis',
+    timeoutMs: options.timeoutMs || JOB_TIMEOUTS_MS[type],
+    resolve: () => {},
+    reject: () => {}
+  };
+  const result = new Promise<EngineJobs[T]['output']>((resolve, reject) => {
+    // The worker ran this job's own type, so its result is that type's output
+    job.resolve = output => resolve(output as EngineJobs[T]['output']);
+    job.reject = reject;
+  });
+  const engineJob = { result, cancel: () => abort(job, new EngineJobError('cancelled', 'Engine job cancelled')) };
+
+  if (job.priority === 'analysis' && queue.filter(queued => queued.priority === 'analysis').length >= MAX_QUEUED_ANALYSIS) {
+    job.reject(new EngineJobError('busy', 'Engine is busy, try again shortly'));
+    return engineJob;
+  }
+
+  // Game jobs go after the other game jobs but ahead of all analysis
+  const position = job.priority === 'game' ? queue.findIndex(queued => queued.priority === 'analysis') : -1;
+  queue.splice(position < 0 ? queue.length : position, 0, job);
+  if (job.key) keyedJobs.set(job.key, job);
+  dispatch();
+  return engineJob;
+}
+
+/**
+ * Cancel the job queued or running under a key, if there is one
+ */
+export function cancelEngineJob(key: string): void {
+  const job = keyedJobs.get(key);
+  if (job) abort(job, new EngineJobError('cancelled', 'Engine job cancelled'));
+}
+
+function spawnWorker(): PoolWorker {
+  const worker: PoolWorker = { thread: new Worker(WORKER_FILE, WORKER_OPTIONS), ready: false, job: null };
+
+  worker.thread.on('message', (message: { ready?: boolean; id?: number; result?: unknown; error?: string }) => {
+    if (message.ready) {
+      worker.ready = true;
+      dispatch();
+      return;
+    }
+    const job = worker.job;
+    if (!job || job.id !== message.id) return;
+    settle(job);
+    if (message.error !== undefined) {
+      job.reject(new EngineJobError('failed', message.error));
+    } else {
+      job.resolve(message.result);
+    }
+    dispatch();
+  });
+
+  worker.thread.on('error', error => {
+    console.error('Engine worker crashed:', error);
+    retire(worker, error.message);
+  });
+  worker.thread.on('exit', code => {
+    if (workers.includes(worker)) retire(worker, `Engine worker exited with code ${code}`);
+  });
+
+  workers.push(worker);
+  return worker;
+}
+
+// Hand queued jobs to idle workers, and start more workers for what is left
+function dispatch(): void {
+  for (const worker of workers) {
+    if (!worker.ready || worker.job) continue;
+    const job = queue.shift();
+    if (!job) break;
+    run(worker, job);
+  }
+
+  let starting = workers.filter(worker => !worker.ready).length;
+  while (starting < queue.length && workers.length < POOL_SIZE) {
+    spawnWorker();
+    starting++;
+  }
+
+  // Only workers with something to do keep the process alive
+  for (const worker of workers) {
+    if (worker.ready && !worker.job) {
+      worker.thread.unref();
+    } else {
+      worker.thread.ref();
+    }
+  }
+}
+
+function run(worker: PoolWorker, job: QueuedJob): void {
+  worker.job = job;
+  job.worker = worker;
+  job.timer = setTimeout(() => {
+    abort(job, new EngineJobError('timeout', `Engine job ${job.type} ran out of time`));
+  }, job.timeoutMs);
+  worker.thread.postMessage({ id: job.id, type: job.type, input: job.input });
+}
+
+// Clear a job's timer and key, and free its worker
+function settle(job: QueuedJob): void {
+  if (job.timer) clearTimeout(job.timer);
+  if (job.key && keyedJobs.get(job.key) === job) keyedJobs.delete(job.key);
+  if (job.worker) job.worker.job = null;
+}
+
+// Stop a job wherever it is. A running job's worker goes with it.
+function abort(job: QueuedJob, error: EngineJobError): void {
+  const index = queue.indexOf(job);
+  if (index >= 0) {
+    queue.splice(index, 1);
+  } else if (!job.worker || job.worker.job !== job) {
+    return;  // Already finished
+  }
+
+  const worker = job.worker;
+  settle(job);
+  job.reject(error);
+  if (worker) retire(worker);
+}
+
+// Take a worker out of the pool, failing the job it was running
+function retire(worker: PoolWorker, reason?: string): void {
+  const index = workers.indexOf(worker);
+  if (index < 0) return;
+  workers.splice(index, 1);
+  worker.thread.terminate().catch(() => {});
+
+  if (worker.job) {
+    const job = worker.job;
+    settle(job);
+    job.reject(new EngineJobError('failed', reason || 'Engine worker stopped'));
+  }
+
+  // A worker that never came up will not do better the next time
+  if (!worker.ready && workers.every(other => !other.ready)) {
+    for (const job of queue.splice(0)) {
+      settle(job);
+      job.reject(new EngineJobError('failed', reason || 'Engine workers could not start'));
+    }
+    return;
+  }
+  dispatch();
+}
@@ -0,0 +1,144 @@
+import { Chess } from 'chess.js';
+import { explainMove, suggestMoves, evaluatePosition, ScoringContext, SuggestionsResponse, MoveExplanation, Square } from '../krog';
+import { getBestMove, Difficulty, SearchClock } from '../ai';
+import { VariantType, restoreVariantGame } from '../variants';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              ENGINE JOBS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * The work the engine pool runs, as plain data in and out: a job crosses to a
+ * worker thread and back by structured clone, so it carries the game as PGN
+ * and FEN and is replayed there on its variant's board.
+ */
+
+export interface EnginePosition {
+  pgn: string;
+  fen: string;
+  variant: VariantType;
+}
+
+// A move as the engine picked it, to be played on the room's own board
+export interface EngineMove {
+  from: string;
+  to: string;
+  promotion?: string;
+  san: string;
+}
+
+// A line from the client's engine, to be explained by the KROG rules
+export interface EngineLine {
+  move: string;  // UCI format
+  san: string;   // SAN format
+  from: string;
+  to: string;
+  score: number;
+  mate?: number;
+}
+
+export interface AnalysedMove {
+  uci: string;
+  san: string;
+  played: { piece: string; flags: string; san: string } | null;  // null if the move was illegal
+  explanation: { en: string; no: string };
+  principles: string[];
+}
+
+export interface EvaluationReport {
+  phase: string;
+  sideToMove: 'white' | 'black';
+  material: { white: number; black: number; balance: number };
+  principles: { satisfied: string[]; violated: string[]; score: number };
+  tactics: Array<{ pattern: string; score: number; targets: string[]; explanation: { en: string; no: string } }>;
+  krogScore: number;
+  explanation: { en: string; no: string };
+}
+
+export interface EngineJobs {
+  bestMove: {
+    input: EnginePosition & { difficulty?: Difficulty; clock?: SearchClock };
+    output: EngineMove | null;
+  };
+  suggestMoves: {
+    input: EnginePosition & { context: ScoringContext; limit: number };
+    output: SuggestionsResponse;
+  };
+  evaluatePosition: {
+    input: EnginePosition;
+    output: EvaluationReport;
+  };
+  analyzePosition: {
+    input: { fen: string; engineMoves: EngineLine[] };
+    output: AnalysedMove[];
+  };
+}
+
+export type EngineJobType = keyof EngineJobs;
+
+const JOBS: { [T in EngineJobType]: (input: EngineJobs[T]['input']) => EngineJobs[T]['output'] } = {
+  bestMove: ({ difficulty, clock, ...position }) => {
+    const move = getBestMove(restoreVariantGame(position), difficulty, position.variant, clock);
+    return move ? { from: move.from, to: move.to, promotion: move.promotion, san: move.san } : null;
+  },
+
+  suggestMoves: ({ context, limit, ...position }) => suggestMoves(restoreVariantGame(position), context, limit),
+
+  evaluatePosition: position => {
+    const evaluation = evaluatePosition(restoreVariantGame(position));
+    return {
+      phase: evaluation.phase,
+      sideToMove: evaluation.sideToMove,
+      material: evaluation.material,
+      principles: evaluation.principles,
+      tactics: evaluation.tactics.map(t => ({
+        pattern: t.pattern,
+        score: t.score,
+        targets: t.targets,
+        explanation: t.explanation
+      })),
+      krogScore: evaluation.krogScore,
+      explanation: evaluation.explanation
+    };
+  },
+
+  analyzePosition: ({ fen, engineMoves }) => {
+    const game = new Chess(fen);
+    return engineMoves.map(engineMove => {
+      const analysed: AnalysedMove = {
+        uci: engineMove.move,
+        san: engineMove.san,
+        played: null,
+        explanation: { en: '', no: '' },
+        principles: []
+      };
+      try {
+        // Play the move to see what it is, then explain it from the position before
+        const move = game.move({ from: engineMove.from, to: engineMove.to });
+        game.undo();
+        analysed.played = { piece: move.piece, flags: move.flags, san: move.san };
+
+        const krogExplanation = explainMove(game, move.from as Square, move.to as Square, move.promotion);
+        if (krogExplanation && 'explanation' in krogExplanation) {
+          analysed.explanation = krogExplanation.explanation;
+        }
+        if (krogExplanation && 'conditions' in krogExplanation) {
+          analysed.principles = (krogExplanation as MoveExplanation).conditions
+            .filter(c => c.met)
+            .slice(0, 3)
+            .map(c => c.name);
+        }
+      } catch (err) {
+        console.error('Error analyzing move:', engineMove.move, err);
+      }
+      return analysed;
+    });
+  }
+};
+
+/**
+ * Run a job here and now, on the calling thread
+ */
+export function runJob<T extends EngineJobType>(type: T, input: EngineJobs[T]['input']): EngineJobs[T]['output'] {
+  return JOBS[type](input);
+}
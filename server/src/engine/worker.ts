@@ -0,0 +1,26 @@
+import { parentPort } from 'worker_threads';
+import { runJob, EngineJobType } from './jobs';
+
+/**
+ * Entry point of an engine pool thread: runs one job at a time, as the pool
+ * hands them over, and posts back its result or why it failed.
+ */
+
+interface JobMessage {
+  id: number;
+  type: EngineJobType;
+  input: never;
+}
+
+const port = parentPort!;
+
+port.on('message', ({ id, type, input }: JobMessage) => {
+  try {
+    port.postMessage({ id, result: runJob(type, input) });
+  } catch (error) {
+    port.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Loading the engine and the KROG rules takes a while; jobs wait until then
+port.postMessage({ ready: true });
@@ -4,18 +4,19 @@ dns.setDefaultResultOrder('ipv4first');
 
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
 import cors from 'cors';
-import { Chess } from 'chess.js';
+import { Chess, Move } from 'chess.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import {
     explainMove,
+    explainDrop,
     Square,
+    PieceType,
     MoveExplanation,
     IllegalMoveExplanation,
-    suggestMoves,
-    evaluatePosition,
     loadOpeningBook,
     ScoringContext,
     MoveSuggestion,
@@ -23,22 +24,70 @@ import {
     createKROGEngine,
     KROGValidation,
     // KROG JSON-LD formulas
-    generateKROGLD
+    generateKROGLD,
+    variantRType
 } from './krog';
-import { dbOperations, calculateEloChange, User, Game, DailyPuzzleStreak, MoveRecord, pool } from './db';
+import { dbOperations, User, Game, DailyPuzzleStreak, MoveRecord, Tournament, TournamentGame, League, LeagueMatch, LeagueTeam, LeagueFixture, CorrespondenceGame, QueueEntry, pool } from './db';
 import * as auth from './auth';
 import {
     VariantType,
     VariantState,
     VariantGameResult,
     createVariantGame,
+    createVariantBoard,
+    restoreVariantGame,
     getVariantResult,
     updateVariantState,
     generateChess960Position,
     HILL_SQUARES,
-    ThreeCheckState
+    ThreeCheckState,
+    VARIANT_TYPES,
+    DropChess,
+    isDropPiece,
+    isDropVariant,
+    capturedPocketPiece,
+    addToPocket
 } from './variants';
-import { getBestMove, getThinkingTime, Difficulty } from './ai';
+import { getThinkingTime, engineCanPlay, Difficulty } from './ai';
+import { runEngineJob, cancelEngineJob, EngineJobError, EngineMove, EnginePosition, EngineLine } from './engine';
+import {
+    buildSwissPlayers,
+    pairSwissRound,
+    swissRoundCount,
+    generateRoundRobinSchedule,
+    buildTournamentBracket,
+    getEliminatedPlayers,
+    knockoutRoundCount,
+    calculateArenaStandings,
+    buildArenaPool,
+    pairArenaPool,
+    parseTiebreaks,
+    DEFAULT_TOURNAMENT_TIEBREAKS,
+    DEFAULT_LEAGUE_TIEBREAKS,
+    pairTeamBoards,
+    scoreTeamFixture,
+    DivisionStandings,
+    planSeasonRollover,
+    nextSeasonLabel
+} from './tournaments';
+import { registerJobHandler, scheduleJob, ensureRecurringJob, cancelJob, startScheduler } from './scheduler';
+import { createRoomStore } from './rooms';
+import { ratingPool, parseRatingPool, glicko2Update, decayDeviation, Glicko2Rating, DEFAULT_VOLATILITY } from './ratings';
+import { QueuedPlayer, queueKey, ratingWindow, pairQueue, firstPlaysWhite, botForRating, BOT_RATINGS, BOT_DEVIATION, COLOR_HISTORY_GAMES } from './matchmaking';
+import {
+    TimeControl,
+    TIME_CONTROLS,
+    parseTimeControl,
+    formatTimeControl,
+    timeRemaining,
+    timeAfterMove,
+    MIN_DAYS_PER_MOVE,
+    MAX_DAYS_PER_MOVE,
+    correspondenceDeadline,
+    LAG_QUOTA_INITIAL_MS,
+    lagCompensation
+} from './clock';
+import { GameOdds, parseOdds, oddsConflict, oddsStartFen, oddsTimeControl, oddsResult } from './odds';
 
 const app = express();
 app.use(cors({
@@ -66,6 +115,11 @@ app.get('/health', (_req, res) => {
 
 // Helper to classify R-types from chess.js moves
 function classifyMoveRType(move: { piece: string; flags: string; san: string }): string {
+    // Drops (Crazyhouse/Bughouse) depend on what is in the pocket
+    if (move.flags === 'd') {
+        return 'R12_state_dependent';
+    }
+
     // Castling
     if (move.flags.includes('k') || move.flags.includes('q')) {
         return 'R9_compound_move';
@@ -111,6 +165,12 @@ function classifyMoveRType(move: { piece: string; flags: string; san: string }):
     return 'R10_conditional';
 }
 
+// R-type of a move in a variant game: the variant's own rules first, then the
+// FIDE ones. `state` is the variant state from before the move.
+function classifyVariantMoveRType(move: Move, state: VariantState): string {
+    return variantRType(move, state) ?? classifyMoveRType(move);
+}
+
 // Get R-type description from KROG framework
 function getRTypeDescription(rtype: string): { en: string; no: string } {
     const descriptions: Record<string, { en: string; no: string }> = {
@@ -189,7 +249,8 @@ app.post('/api/auth/refresh', async (req, res) => {
 
 // Get user profile
 app.get('/api/profile/:userId', async (req, res) => {
-    const profile = await auth.getUserProfile(req.params.userId);
+    const pool = typeof req.query.pool === 'string' ? req.query.pool : undefined;
+    const profile = await auth.getUserProfile(req.params.userId, pool);
     if (profile) {
         res.json({ success: true, ...profile });
     } else {
@@ -197,10 +258,15 @@ app.get('/api/profile/:userId', async (req, res) => {
     }
 });
 
-// Get leaderboard
+// Get leaderboard (?pool=blitz:standard for one rating pool)
 app.get('/api/leaderboard', async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 100;
-    const leaderboard = await auth.getLeaderboard(limit);
+    const pool = typeof req.query.pool === 'string' ? req.query.pool : undefined;
+    if (pool && !parseRatingPool(pool)) {
+        res.status(400).json({ success: false, message: 'Invalid rating pool' });
+        return;
+    }
+    const leaderboard = await auth.getLeaderboard(limit, pool);
     res.json({ success: true, leaderboard });
 });
 
@@ -953,22 +1019,6 @@ interface AuthenticatedPlayer {
 // Map socket.id to authenticated user
 const authenticatedSockets = new Map<string, { userId: string; username: string; rating: number }>();
 
-// Time control presets (time in ms, increment in ms)
-type TimeControlType = 'bullet' | 'blitz' | 'rapid' | 'unlimited';
-
-interface TimeControl {
-    type: TimeControlType;
-    initialTime: number;  // ms
-    increment: number;    // ms per move
-}
-
-const TIME_CONTROLS: Record<TimeControlType, TimeControl> = {
-    bullet: { type: 'bullet', initialTime: 60000, increment: 0 },       // 1+0
-    blitz: { type: 'blitz', initialTime: 180000, increment: 2000 },     // 3+2
-    rapid: { type: 'rapid', initialTime: 600000, increment: 0 },        // 10+0
-    unlimited: { type: 'unlimited', initialTime: 0, increment: 0 }      // No clock
-};
-
 interface ClockState {
     white: number;        // ms remaining
     black: number;        // ms remaining
@@ -985,8 +1035,13 @@ interface Room {
     clock: ClockState;
     clockInterval?: ReturnType<typeof setInterval>;
     drawOffer?: 'white' | 'black';  // Who offered the draw (pending offer)
+    takebackRequest?: 'white' | 'black';  // Who asked to take a move back
     rematchRequest?: 'white' | 'black';  // Who requested the rematch
+    undoStack?: UndoPoint[];  // State before each ply, for takebacks
+    premoves?: { white?: Premove; black?: Premove };  // Queued while the opponent thinks
+    lagQuota?: { white?: number; black?: number };  // ms of lag compensation left per player
     dbGameId?: string;  // Database game ID for storing results
+    movesGameId?: string;  // ID this game's moves are stored under (see movesGameId())
     whiteUserId?: string;
     blackUserId?: string;
     // Variant support
@@ -996,30 +1051,87 @@ interface Room {
     isComputerGame?: boolean;
     computerColor?: 'white' | 'black';
     computerDifficulty?: Difficulty;
+    ratedBot?: boolean;  // Matchmaking fallback game, rated for the human player
+    // Handicap the game is played at (odds games are never rated)
+    odds?: GameOdds;
     // Tournament support
     tournamentGameId?: string;
+    arenaTournamentId?: string;  // Set for arena games (berserk allowed)
+    berserk?: { white?: boolean; black?: boolean };
     // League support
     leagueMatchId?: string;
+    // Set once the result is in (resignations and agreed draws leave the board as it was)
+    ended?: boolean;
+    // When the side due to make their first move has the game aborted instead
+    firstMoveDeadline?: number;
+    // Seats held for disconnected players while they have time to come back
+    absent?: { white?: SeatHold; black?: SeatHold };
+    seatsTaken?: { white?: boolean; black?: boolean };  // Seats a player has sat down in, kept across restarts
+}
+
+interface SeatHold {
+    deadline: number;  // timestamp when the opponent may claim the game
+    timer: ReturnType<typeof setTimeout>;
+}
+
+// A move queued for when the opponent's move lands
+interface Premove {
+    from: string;
+    to: string;
+    promotion?: string;
+}
+
+// A drop from the pocket, sent to make_move instead of from/to (Crazyhouse and Bughouse)
+interface DropRequest {
+    drop: string;  // piece letter, e.g. 'n'
+    to: string;
+}
+
+// What a takeback has to put back besides the board
+interface UndoPoint {
+    white: number;  // ms remaining before the ply was played
+    black: number;
+    variantState: VariantState;
 }
 
-// Helper to parse time control strings like "5+0", "3+2" etc.
+// Helper to parse stored time control strings like "5+0", "3+2" or "40/90+30, 30+30"
 function parseTimeControlString(tcString: string): TimeControl {
-    const match = tcString.match(/^(\d+)\+(\d+)$/);
-    if (match) {
-        const minutes = parseInt(match[1], 10);
-        const increment = parseInt(match[2], 10);
-        let type: TimeControlType = 'rapid';
-        if (minutes <= 2) type = 'bullet';
-        else if (minutes <= 5) type = 'blitz';
-        else type = 'rapid';
-        return {
-            type,
-            initialTime: minutes * 60000,
-            increment: increment * 1000
-        };
-    }
     // Default to rapid if parsing fails
-    return TIME_CONTROLS.rapid;
+    return parseTimeControl(tcString) || TIME_CONTROLS.rapid;
+}
+
+// Time control requested by a client: a preset name or a time control string
+function resolveTimeControl(requested: string | undefined): TimeControl | null {
+    return parseTimeControl(requested || 'rapid');
+}
+
+// Armageddon clocks: White keeps the full time, Black gets 4/5 of it (5 vs 4 minutes)
+function armageddonTimeControl(base: TimeControl): TimeControl {
+    return {
+        ...base,
+        blackInitialTime: Math.round(base.initialTime * 0.8)
+    };
+}
+
+// Odds asked for a new game, checked against its variant and time control.
+// `odds` is undefined when none were asked for; `error` says why they cannot be given.
+function resolveOdds(
+    requested: GameOdds | undefined,
+    variant: VariantType,
+    timeControl: TimeControl
+): { odds?: GameOdds; timeControl: TimeControl; error?: string } {
+    if (!requested) return { timeControl };
+    const odds = parseOdds(requested);
+    if (!odds) return { timeControl, error: 'Invalid odds' };
+    const conflict = oddsConflict(odds, variant, timeControl);
+    if (conflict) return { timeControl, error: conflict };
+    return { odds, timeControl: odds.clock ? oddsTimeControl(timeControl, odds.clock) : timeControl };
+}
+
+// A room's starting game: the variant's own, less any piece given as odds
+function createRoomGame(variant: VariantType, odds?: GameOdds, positionId?: number): { game: Chess; state: VariantState } {
+    const created = createVariantGame(variant, positionId);
+    return odds?.piece ? { ...created, game: new Chess(oddsStartFen(odds.piece)) } : created;
 }
 
 // Store rooms in memory for MVP
@@ -1047,35 +1159,56 @@ function getPlayerColor(room: Room, socketId: string): 'white' | 'black' | 'spec
     return 'spectator';
 }
 
+// Map variant-specific game over reasons to the codes clients display
+const GAME_OVER_REASONS: Record<string, string> = {
+    'Checkmate': 'checkmate',
+    'Stalemate': 'stalemate',
+    'Threefold repetition': 'repetition',
+    'Insufficient material': 'insufficient',
+    'Fifty-move rule': 'fifty_moves',
+    'Three checks delivered': 'three_check',
+    'King reached the hill': 'king_of_the_hill',
+    'King exploded': 'king_exploded',
+    'All pieces lost': 'all_pieces_lost',
+    'No legal moves': 'no_legal_moves',
+    'Horde destroyed': 'horde_destroyed',
+    'King reached the eighth rank': 'race_won',
+    'Both kings reached the goal': 'race_drawn'
+};
+
+function gameOverReason(variantReason: string | undefined): string {
+    return GAME_OVER_REASONS[variantReason || ''] || variantReason || 'unknown';
+}
+
 // Initialize clock state for a room
 function initializeClock(timeControl: TimeControl): ClockState {
     return {
         white: timeControl.initialTime,
-        black: timeControl.initialTime,
+        black: timeControl.blackInitialTime ?? timeControl.initialTime,
         activeColor: null,
         lastUpdate: Date.now(),
         gameStarted: false
     };
 }
 
-// Get current clock times (accounting for elapsed time)
-function getCurrentClockTimes(room: Room): { white: number; black: number } {
+// Get current clock times (accounting for elapsed time, less any lag credited to the player to move)
+function getCurrentClockTimes(room: Room, lagCredit: number = 0): { white: number; black: number } {
     if (room.timeControl.type === 'unlimited' || !room.clock.gameStarted) {
         return { white: room.clock.white, black: room.clock.black };
     }
 
     const now = Date.now();
-    const elapsed = now - room.clock.lastUpdate;
+    const elapsed = Math.max(0, now - room.clock.lastUpdate - lagCredit);
 
     if (room.clock.activeColor === 'white') {
         return {
-            white: Math.max(0, room.clock.white - elapsed),
+            white: timeRemaining(room.timeControl, room.clock.white, elapsed),
             black: room.clock.black
         };
     } else if (room.clock.activeColor === 'black') {
         return {
             white: room.clock.white,
-            black: Math.max(0, room.clock.black - elapsed)
+            black: timeRemaining(room.timeControl, room.clock.black, elapsed)
         };
     }
 
@@ -1088,7 +1221,9 @@ function checkTimeoutAndHandle(room: Room, roomCode: string): boolean {
         return false;
     }
 
-    const times = getCurrentClockTimes(room);
+    // A move may be on its way: don't flag anyone their lag allowance would still cover
+    const activeColor = room.clock.activeColor;
+    const times = getCurrentClockTimes(room, activeColor ? moveTiming(room, activeColor).lagCredit : 0);
 
     if (times.white <= 0) {
         io.to(roomCode).emit('time_forfeit', { loser: 'white', winner: 'black' });
@@ -1143,29 +1278,40 @@ function stopClock(room: Room) {
     room.clock.lastUpdate = Date.now();
 }
 
-// Switch clock after a move
-function switchClock(room: Room, fromColor: 'white' | 'black') {
+// Switch clock after a move (`thinkTime` replaces the time actually taken, e.g. 0 for premoves)
+function switchClock(room: Room, fromColor: 'white' | 'black', thinkTime?: number) {
     if (room.timeControl.type === 'unlimited') return;
 
     const now = Date.now();
-    const elapsed = now - room.clock.lastUpdate;
+    const elapsed = thinkTime ?? now - room.clock.lastUpdate;
+
+    // How many moves the mover has now made, for staged controls
+    const plies = room.game.history().length;
+    const moveNumber = fromColor === 'white' ? Math.ceil(plies / 2) : Math.floor(plies / 2);
 
-    // Deduct time from the player who just moved
+    // Deduct time from the player who just moved (delay, increment and stage time applied)
     if (fromColor === 'white') {
-        room.clock.white = Math.max(0, room.clock.white - elapsed);
-        // Add increment
-        room.clock.white += room.timeControl.increment;
+        room.clock.white = timeAfterMove(room.timeControl, room.clock.white, elapsed, moveNumber);
         room.clock.activeColor = 'black';
     } else {
-        room.clock.black = Math.max(0, room.clock.black - elapsed);
-        // Add increment
-        room.clock.black += room.timeControl.increment;
+        room.clock.black = timeAfterMove(room.timeControl, room.clock.black, elapsed, moveNumber);
         room.clock.activeColor = 'white';
     }
 
     room.clock.lastUpdate = now;
 }
 
+// Remember the clocks and variant state from before a ply so it can be taken back
+// (call after the move is on the board but before the clock is switched)
+function recordUndoPoint(room: Room) {
+    if (!room.undoStack) room.undoStack = [];
+    room.undoStack.push({
+        white: room.clock.white,
+        black: room.clock.black,
+        variantState: room.variantState
+    });
+}
+
 // Helper function to get spectator list with usernames
 function getSpectatorList(room: Room): { id: string; username: string }[] {
     return room.players.spectators.map(socketId => {
@@ -1186,9 +1332,239 @@ function broadcastSpectatorUpdate(roomCode: string, room: Room) {
     });
 }
 
+// Play a move for the side to move and broadcast it: clocks, variant state, KROG
+// explanation, persistence and the game-over check. `timing` sets the time
+// charged to the mover (lag-compensated, or nothing for premoves). Returns the
+// explanation if the move is illegal, leaving the board untouched.
+function playMove(
+    room: Room,
+    roomCode: string,
+    move: Premove | DropRequest,
+    moverUserId: string | undefined,
+    timing: MoveTiming
+): IllegalMoveExplanation | null {
+    // Nothing more is played once the game is over (callers tell the player)
+    if (room.ended) return null;
+    const currentTurn = room.game.turn() === 'w' ? 'white' : 'black';
+
+    // Generate KROG explanation before attempting the move
+    const krogExplanation = 'drop' in move
+        ? explainDrop(room.game, String(move.drop).toLowerCase() as PieceType, move.to as Square, pocketCount(room, currentTurn, move.drop))
+        : explainMove(room.game, move.from as Square, move.to as Square, move.promotion, room.variantState);
+
+    // Try to make the move
+    let result = null;
+    try {
+        result = 'drop' in move ? dropFromPocket(room, move) : room.game.move(move);
+    } catch (e) {
+        // chess.js threw an error - move is definitely illegal
+        result = null;
+    }
+
+    if (result) {
+        // Legal move
+        recordUndoPoint(room);
+        room.takebackRequest = undefined;
+        room.firstMoveDeadline = undefined;  // The other side's turn to start, if still in the abort window
+        spendLagCredit(room, currentTurn, timing.lag);
+
+        // Handle clock on first move
+        if (!room.clock.gameStarted && room.timeControl.type !== 'unlimited') {
+            room.clock.gameStarted = true;
+            room.clock.activeColor = 'black';  // White just moved, black's clock starts
+            room.clock.lastUpdate = Date.now();
+            startClockInterval(room, roomCode);
+        } else {
+            // Switch clock (adds increment to player who moved)
+            switchClock(room, currentTurn, timing.thinkTime);
+        }
+
+        // Update variant state (e.g., check count for Three-Check)
+        const variantBefore = room.variantState;
+        room.variantState = updateVariantState(room.game, room.variantState, currentTurn);
+        if (room.variantState.bughouse) {
+            passToPartner(room, result, variantBefore.promoted);
+        }
+
+        // Snapshot the room so the game survives a restart
+        saveRoom(room);
+
+        // Broadcast game state with KROG explanation (send PGN for history + last move for sounds)
+        const history = room.game.history({ verbose: true });
+        const lastMove = history[history.length - 1];
+        io.to(roomCode).emit('game_state', {
+            pgn: room.game.pgn(),
+            fen: room.game.fen(),
+            lastMove: lastMove ? {
+                san: lastMove.san,
+                from: lastMove.from,
+                to: lastMove.to,
+                captured: lastMove.captured,
+                flags: lastMove.flags,
+                promotion: lastMove.promotion
+            } : null,
+            variant: room.variant,
+            variantState: room.variantState
+        });
+
+        // Send move explanation to all clients
+        const legalExplanation = krogExplanation as MoveExplanation;
+        // Classify R-type using KROG framework
+        const rType = classifyVariantMoveRType(result, variantBefore);
+        const rTypeDescription = getRTypeDescription(rType);
+
+        // Send sanitized explanation to clients (no proprietary data)
+        io.to(roomCode).emit('move_explanation', {
+            move: result.san,
+            from: result.from,
+            to: result.to,
+            krog: {
+                operator: legalExplanation.krog.operator
+            },
+            fide: legalExplanation.fide,
+            explanation: legalExplanation.explanation,
+            conditions: legalExplanation.conditions
+        });
+
+        // Store full KROG data server-side for neurosymbolic reasoning
+        // Track move with full formula data (not exposed to client)
+        if (moverUserId) {
+            // Fire-and-forget: don't await to avoid blocking the game
+            dbOperations.recordKrogActivity(
+                moverUserId,
+                'move',
+                result.san,
+                rType,
+                legalExplanation.krog.operator
+            ).catch(err => console.error('Error recording KROG move data:', err));
+            // Full formula data available: legalExplanation.krog.formula, legalExplanation.krog.tType
+        }
+
+        // Persist move with R-type annotation to database (ALL games, including anonymous)
+        const gameIdForTracking = movesGameId(room, roomCode);
+        const moveHistory = room.game.history({ verbose: true });
+        const moveNumber = Math.ceil(moveHistory.length / 2);
+
+        // Generate KROG JSON-LD for neurosymbolic AI research
+        const krogLD = generateKROGLD({
+            san: result.san,
+            from: result.from,
+            to: result.to,
+            piece: result.piece,
+            captured: result.captured,
+            fide_ref: legalExplanation.fide ? legalExplanation.fide.article : undefined,
+            color: currentTurn,
+            game_id: gameIdForTracking,
+            variant: room.variant,
+            formula: legalExplanation.krog.formula
+        }, rType);
+
+        const moveRecord: MoveRecord = {
+            game_id: gameIdForTracking,
+            move_number: moveNumber,
+            color: currentTurn as 'white' | 'black',
+            san: result.san,
+            from_square: result.from,
+            to_square: result.to,
+            piece: result.piece,
+            captured: result.captured || null,
+            promotion: result.promotion || null,
+            flags: result.flags,
+            r_type: rType,
+            r_type_description: rTypeDescription.en,
+            conditions: JSON.stringify(legalExplanation.conditions || []),
+            fide_ref: legalExplanation.fide ? legalExplanation.fide.article : '',
+            move_type: legalExplanation.moveType || 'normal',
+            fen_after: room.game.fen(),
+            is_check: room.game.inCheck(),
+            is_checkmate: room.game.isCheckmate(),
+            krog_ld: JSON.stringify(krogLD),
+            think_ms: Math.round(timing.thinkTime),
+            lag_ms: Math.round(timing.lag),
+            lag_credit_ms: Math.round(timing.lagCredit)
+        };
+
+        // Fire-and-forget persistence (don't block game flow)
+        dbOperations.insertMove(moveRecord).catch(() => {});
+
+        // Send updated clock times
+        const times = getCurrentClockTimes(room);
+        io.to(roomCode).emit('clock_update', {
+            white: times.white,
+            black: times.black,
+            activeColor: room.clock.activeColor
+        });
+
+        // Check for variant-specific game over conditions
+        const variantResult = getVariantResult(room.game, room.variantState);
+        if (variantResult.gameOver) {
+            let gameResult: '1-0' | '0-1' | '1/2-1/2';
+            if (variantResult.winner === 'white') {
+                gameResult = '1-0';
+            } else if (variantResult.winner === 'black') {
+                gameResult = '0-1';
+            } else {
+                gameResult = '1/2-1/2';
+            }
+
+            const reason = gameOverReason(variantResult.reason);
+
+            endGameAndUpdateRatings(room, roomCode, gameResult, reason);
+        } else {
+            // Game not over - the opponent's premove goes first, then the computer if applicable
+            playPremove(room, roomCode);
+            if (room.isComputerGame) {
+                makeComputerMove(room, roomCode);
+            }
+        }
+        return null;
+    } else {
+        // Illegal move - the caller explains why
+        return krogExplanation as IllegalMoveExplanation;
+    }
+}
+
+// The ID the current game's moves are stored under: its database game, or for
+// a game without one an ID of its own, so that rematches in the room (and later
+// rooms given the same code) never share moves with it
+function movesGameId(room: Room, roomCode: string): string {
+    if (!room.movesGameId) {
+        room.movesGameId = room.dbGameId || `anon_${roomCode}_${randomUUID()}`;
+    }
+    return room.movesGameId;
+}
+
+// A game started over in the same room: its moves are kept apart from the last
+// game's, whose database record the room still holds
+function startMovesGame(room: Room, roomCode: string) {
+    room.movesGameId = `anon_${roomCode}_${randomUUID()}`;
+}
+
+// The room's game as the engine pool takes it
+function enginePosition(room: Room): EnginePosition {
+    return { pgn: room.game.pgn(), fen: room.game.fen(), variant: room.variant };
+}
+
+// Tell a client why its engine job came to nothing; a job superseded by its
+// next request needs no answer
+function emitEngineError(socket: Socket, error: unknown, message: string) {
+    if (error instanceof EngineJobError && error.reason === 'cancelled') return;
+    if (error instanceof EngineJobError && error.reason === 'busy') {
+        socket.emit('error', { message: error.message });
+        return;
+    }
+    console.error(`${message}:`, error);
+    socket.emit('error', { message });
+}
+
+// Key of a computer game's search in the engine pool, to cancel it by
+function computerMoveKey(roomCode: string): string {
+    return `move:${roomCode}`;
+}
+
 // Helper function to make computer move
 function makeComputerMove(room: Room, roomCode: string) {
-    if (!room.isComputerGame || !room.computerColor) return;
+    if (!room.isComputerGame || !room.computerColor || room.ended) return;
 
     const currentTurn = room.game.turn() === 'w' ? 'white' : 'black';
     if (currentTurn !== room.computerColor) return;
@@ -1196,18 +1572,52 @@ function makeComputerMove(room: Room, roomCode: string) {
     // Simulate thinking time
     const thinkingTime = getThinkingTime(room.computerDifficulty || 'intermediate');
 
-    setTimeout(() => {
+    setTimeout(async () => {
         // Double-check it's still computer's turn (in case of reset)
         const turnNow = room.game.turn() === 'w' ? 'white' : 'black';
         if (turnNow !== room.computerColor) return;
-        if (room.game.isGameOver()) return;
+        if (room.ended || room.game.isGameOver()) return;
 
-        const bestMove = getBestMove(room.game, room.computerDifficulty);
+        // The engine paces itself by its clock, when there is one
+        const clock = room.timeControl.type === 'unlimited' ? undefined : {
+            remaining: getCurrentClockTimes(room)[room.computerColor!],
+            increment: room.timeControl.increment
+        };
+        const searchedGame = room.game;
+        const searchedFen = room.game.fen();
+        let bestMove: EngineMove | null;
+        try {
+            bestMove = await runEngineJob('bestMove', {
+                ...enginePosition(room),
+                difficulty: room.computerDifficulty,
+                clock
+            }, { key: computerMoveKey(roomCode), priority: 'game' }).result;
+        } catch (error) {
+            // Cancelled because the game moved on without it
+            if (error instanceof EngineJobError && error.reason === 'cancelled') return;
+            console.error(`Room ${roomCode}: engine search failed, playing a random move`, error);
+            const moves = room.game.moves({ verbose: true });
+            bestMove = moves.length > 0 ? moves[Math.floor(Math.random() * moves.length)] : null;
+        }
         if (!bestMove) return;
 
+        // The room may have been closed, reset or taken back while the engine thought
+        if (rooms.get(roomCode) !== room || room.game !== searchedGame || room.game.fen() !== searchedFen) return;
+        if (room.ended || room.game.isGameOver()) return;
+
+        // Explain the move by the variant's rules before it is played, as for a player's move
+        const krogExplanation = explainMove(
+            room.game,
+            bestMove.from as Square,
+            bestMove.to as Square,
+            bestMove.promotion,
+            room.variantState
+        ) as MoveExplanation;
+
         // Make the move
-        const result = room.game.move(bestMove);
+        const result = room.game.move({ from: bestMove.from, to: bestMove.to, promotion: bestMove.promotion });
         if (!result) return;
+        recordUndoPoint(room);
 
         // Handle clock
         if (room.clock.gameStarted && room.timeControl.type !== 'unlimited') {
@@ -1215,7 +1625,9 @@ function makeComputerMove(room: Room, roomCode: string) {
         }
 
         // Update variant state
+        const variantBefore = room.variantState;
         room.variantState = updateVariantState(room.game, room.variantState, room.computerColor!);
+        saveRoom(room);
 
         // Broadcast game state
         const history = room.game.history({ verbose: true });
@@ -1236,9 +1648,9 @@ function makeComputerMove(room: Room, roomCode: string) {
         });
 
         // Persist computer move with R-type annotation
-        const rType = classifyMoveRType(result);
+        const rType = classifyVariantMoveRType(result, variantBefore);
         const rTypeDescription = getRTypeDescription(rType);
-        const gameIdForTracking = room.dbGameId || `anon_${roomCode}`;
+        const gameIdForTracking = movesGameId(room, roomCode);
         const moveNumber = Math.ceil(history.length / 2);
 
         // Generate KROG JSON-LD for neurosymbolic AI research
@@ -1248,8 +1660,11 @@ function makeComputerMove(room: Room, roomCode: string) {
             to: result.to,
             piece: result.piece,
             captured: result.captured,
+            fide_ref: krogExplanation.fide ? krogExplanation.fide.article : undefined,
             color: room.computerColor,
-            game_id: gameIdForTracking
+            game_id: gameIdForTracking,
+            variant: room.variant,
+            formula: krogExplanation.krog.formula
         }, rType);
 
         const moveRecord: MoveRecord = {
@@ -1265,11 +1680,9 @@ function makeComputerMove(room: Room, roomCode: string) {
             flags: result.flags,
             r_type: rType,
             r_type_description: rTypeDescription.en,
-            conditions: '[]',
-            fide_ref: '',
-            move_type: result.flags.includes('k') || result.flags.includes('q') ? 'castling' :
-                       result.flags.includes('e') ? 'en_passant' :
-                       result.flags.includes('p') ? 'promotion' : 'normal',
+            conditions: JSON.stringify(krogExplanation.conditions || []),
+            fide_ref: krogExplanation.fide ? krogExplanation.fide.article : '',
+            move_type: krogExplanation.moveType || 'normal',
             fen_after: room.game.fen(),
             is_check: room.game.inCheck(),
             is_checkmate: room.game.isCheckmate(),
@@ -1299,77 +1712,121 @@ function makeComputerMove(room: Room, roomCode: string) {
                 gameResult = '1/2-1/2';
             }
 
-            const reasonMap: Record<string, string> = {
-                'Checkmate': 'checkmate',
-                'Stalemate': 'stalemate',
-                'Threefold repetition': 'repetition',
-                'Insufficient material': 'insufficient',
-                'Fifty-move rule': 'fifty_moves',
-                'Three checks delivered': 'three_check',
-                'King reached the hill': 'king_of_the_hill'
-            };
-            const reason = reasonMap[variantResult.reason || ''] || variantResult.reason || 'unknown';
+            const reason = gameOverReason(variantResult.reason);
 
             endGameAndUpdateRatings(room, roomCode, gameResult, reason);
+        } else {
+            playPremove(room, roomCode);
         }
     }, thinkingTime);
 }
 
-// Helper function to end game and update ratings
-async function endGameAndUpdateRatings(
-    room: Room,
-    roomCode: string,
+// Update both players' pool ratings, stats and rating history for a finished game
+async function applyRatingChanges(
+    whiteUserId: string,
+    blackUserId: string,
     result: '1-0' | '0-1' | '1/2-1/2',
-    reason: string
-) {
-    stopClock(room);
+    gameId: string | null,
+    pool: string
+): Promise<{ whiteChange: number; blackChange: number }> {
+    const whiteBefore = await dbOperations.getPoolRating(whiteUserId, pool);
+    const blackBefore = await dbOperations.getPoolRating(blackUserId, pool);
+    if (!whiteBefore || !blackBefore) {
+        return { whiteChange: 0, blackChange: 0 };
+    }
 
-    // Calculate ELO changes if both players are authenticated
-    let whiteChange = 0;
-    let blackChange = 0;
+    const whiteScore = result === '1-0' ? 1 : result === '0-1' ? 0 : 0.5;
+    const blackScore = 1 - whiteScore;
 
-    if (room.whiteUserId && room.blackUserId) {
-        const whiteUser = await dbOperations.getUserById(room.whiteUserId);
-        const blackUser = await dbOperations.getUserById(room.blackUserId);
+    // Both sides are scored against the other's rating from before the game
+    const white = decayDeviation(whiteBefore, whiteBefore.last_played_at ? new Date(whiteBefore.last_played_at) : null);
+    const black = decayDeviation(blackBefore, blackBefore.last_played_at ? new Date(blackBefore.last_played_at) : null);
+    const whiteAfter = glicko2Update(white, black, whiteScore);
+    const blackAfter = glicko2Update(black, white, blackScore);
 
-        if (whiteUser && blackUser) {
-            let whiteResult: 0 | 0.5 | 1;
-            let blackResult: 0 | 0.5 | 1;
+    const whiteChange = Math.round(whiteAfter.rating) - Math.round(whiteBefore.rating);
+    const blackChange = Math.round(blackAfter.rating) - Math.round(blackBefore.rating);
 
-            if (result === '1-0') {
-                whiteResult = 1;
-                blackResult = 0;
-            } else if (result === '0-1') {
-                whiteResult = 0;
-                blackResult = 1;
-            } else {
-                whiteResult = 0.5;
-                blackResult = 0.5;
-            }
+    await recordRatingChange(whiteUserId, pool, whiteAfter, whiteChange, whiteScore, gameId);
+    await recordRatingChange(blackUserId, pool, blackAfter, blackChange, blackScore, gameId);
 
-            const eloResult = calculateEloChange(whiteUser.rating, blackUser.rating, whiteResult);
-            whiteChange = eloResult.change1;
-            blackChange = eloResult.change2;
+    return { whiteChange, blackChange };
+}
+
+// Rated game against the engine: only the human's rating moves, scored against the level's fixed rating
+async function applyBotRatingChange(
+    room: Room,
+    result: '1-0' | '0-1' | '1/2-1/2',
+    pool: string
+): Promise<{ whiteChange: number; blackChange: number }> {
+    const humanColor = room.computerColor === 'white' ? 'black' : 'white';
+    const userId = humanColor === 'white' ? room.whiteUserId : room.blackUserId;
+    const before = userId ? await dbOperations.getPoolRating(userId, pool) : null;
+    if (!userId || !before) {
+        return { whiteChange: 0, blackChange: 0 };
+    }
 
-            // Update ratings
-            await dbOperations.updateUserRating(room.whiteUserId, whiteUser.rating + whiteChange);
-            await dbOperations.updateUserRating(room.blackUserId, blackUser.rating + blackChange);
+    const [whiteScore, blackScore] = resultScores(result);
+    const score = humanColor === 'white' ? whiteScore : blackScore;
+    const bot: Glicko2Rating = {
+        rating: BOT_RATINGS[room.computerDifficulty || 'intermediate'],
+        deviation: BOT_DEVIATION,
+        volatility: DEFAULT_VOLATILITY
+    };
+    const player = decayDeviation(before, before.last_played_at ? new Date(before.last_played_at) : null);
+    const after = glicko2Update(player, bot, score);
+    const change = Math.round(after.rating) - Math.round(before.rating);
 
-            // Update stats
-            await dbOperations.updateUserStats(room.whiteUserId, whiteResult === 1 ? 'win' : whiteResult === 0 ? 'loss' : 'draw');
-            await dbOperations.updateUserStats(room.blackUserId, blackResult === 1 ? 'win' : blackResult === 0 ? 'loss' : 'draw');
+    await recordRatingChange(userId, pool, after, change, score, room.dbGameId || null);
+    return humanColor === 'white' ? { whiteChange: change, blackChange: 0 } : { whiteChange: 0, blackChange: change };
+}
 
-            // Add rating history
-            await dbOperations.addRatingHistory(room.whiteUserId, whiteUser.rating + whiteChange, whiteChange, room.dbGameId || null);
-            await dbOperations.addRatingHistory(room.blackUserId, blackUser.rating + blackChange, blackChange, room.dbGameId || null);
+// Store one player's new pool rating, result and history entry
+async function recordRatingChange(userId: string, pool: string, after: Glicko2Rating, change: number, score: number, gameId: string | null) {
+    await dbOperations.updatePoolRating(userId, pool, after.rating, after.deviation, after.volatility);
+    await dbOperations.updateUserStats(userId, score === 1 ? 'win' : score === 0 ? 'loss' : 'draw');
+    await dbOperations.addRatingHistory(userId, Math.round(after.rating), change, gameId, pool, after.deviation);
 
-            // Update authenticated socket ratings
-            const whiteSocketAuth = authenticatedSockets.get(room.players.white || '');
-            const blackSocketAuth = authenticatedSockets.get(room.players.black || '');
-            if (whiteSocketAuth) whiteSocketAuth.rating = whiteUser.rating + whiteChange;
-            if (blackSocketAuth) blackSocketAuth.rating = blackUser.rating + blackChange;
+    // Update authenticated socket ratings
+    const headline = await dbOperations.refreshHeadlineRating(userId);
+    if (headline !== null) {
+        for (const info of authenticatedSockets.values()) {
+            if (info.userId === userId) info.rating = headline;
         }
     }
+}
+
+// Helper function to end game and update ratings
+async function endGameAndUpdateRatings(
+    room: Room,
+    roomCode: string,
+    result: '1-0' | '0-1' | '1/2-1/2',
+    reason: string
+) {
+    // A game is finished once: a flag or mate after an abort or resignation changes nothing
+    if (room.ended) return;
+    stopClock(room);
+    discardRoom(roomCode);
+    room.ended = true;
+    room.premoves = undefined;
+    clearSeatHolds(room, roomCode);
+
+    // Draw odds: a drawn game goes to the side given them
+    const scored = oddsResult(result, room.odds);
+    if (scored !== result) {
+        result = scored;
+        reason = 'draw_odds';
+    }
+
+    // Calculate rating changes if both players are authenticated, or for the human in a rated bot game.
+    // Bughouse is a team game and odds games are handicapped, so neither is rated.
+    const rated = room.variant !== 'bughouse' && !room.odds && (!!(room.whiteUserId && room.blackUserId) || !!room.ratedBot);
+    const pool = ratingPool(room.timeControl.type, room.variant);
+    const { whiteChange, blackChange } = !rated
+        ? { whiteChange: 0, blackChange: 0 }
+        : room.whiteUserId && room.blackUserId
+            ? await applyRatingChanges(room.whiteUserId, room.blackUserId, result, room.dbGameId || null, pool)
+            : await applyBotRatingChange(room, result, pool);
 
     // Store game in database
     if (room.dbGameId) {
@@ -1378,146 +1835,12 @@ async function endGameAndUpdateRatings(
 
     // Handle tournament game result
     if (room.tournamentGameId && room.whiteUserId && room.blackUserId) {
-        let whiteScore: number;
-        let blackScore: number;
-
-        if (result === '1-0') {
-            whiteScore = 1;
-            blackScore = 0;
-        } else if (result === '0-1') {
-            whiteScore = 0;
-            blackScore = 1;
-        } else {
-            whiteScore = 0.5;
-            blackScore = 0.5;
-        }
-
-        // Update tournament game
-        await dbOperations.updateTournamentGameResult(room.tournamentGameId, result, whiteScore, blackScore, room.game.pgn());
-
-        // Update participant scores
-        const tournamentGame = await dbOperations.getTournamentGame(room.tournamentGameId);
-        if (tournamentGame) {
-            const whiteParticipant = await dbOperations.getTournamentParticipant(tournamentGame.tournament_id, room.whiteUserId);
-            const blackParticipant = await dbOperations.getTournamentParticipant(tournamentGame.tournament_id, room.blackUserId);
-
-            if (whiteParticipant) {
-                await dbOperations.updateParticipantScore(
-                    tournamentGame.tournament_id,
-                    room.whiteUserId,
-                    whiteParticipant.score + whiteScore,
-                    whiteParticipant.buchholz,
-                    whiteParticipant.wins + (whiteScore === 1 ? 1 : 0),
-                    whiteParticipant.draws + (whiteScore === 0.5 ? 1 : 0),
-                    whiteParticipant.losses + (whiteScore === 0 ? 1 : 0),
-                    whiteParticipant.performance_rating
-                );
-            }
-            if (blackParticipant) {
-                await dbOperations.updateParticipantScore(
-                    tournamentGame.tournament_id,
-                    room.blackUserId,
-                    blackParticipant.score + blackScore,
-                    blackParticipant.buchholz,
-                    blackParticipant.wins + (blackScore === 1 ? 1 : 0),
-                    blackParticipant.draws + (blackScore === 0.5 ? 1 : 0),
-                    blackParticipant.losses + (blackScore === 0 ? 1 : 0),
-                    blackParticipant.performance_rating
-                );
-            }
-
-            // Notify tournament participants of game result
-            io.emit('tournament_game_completed', {
-                tournamentId: tournamentGame.tournament_id,
-                gameId: room.tournamentGameId,
-                result,
-                whiteScore,
-                blackScore
-            });
-        }
+        await recordTournamentGameResult(room.tournamentGameId, room.whiteUserId, room.blackUserId, result, room.game.pgn());
     }
 
     // Handle league match result
     if (room.leagueMatchId && room.whiteUserId && room.blackUserId) {
-        let homeScore: number;  // White = Home
-        let awayScore: number;  // Black = Away
-
-        if (result === '1-0') {
-            homeScore = 1;
-            awayScore = 0;
-        } else if (result === '0-1') {
-            homeScore = 0;
-            awayScore = 1;
-        } else {
-            homeScore = 0.5;
-            awayScore = 0.5;
-        }
-
-        // Update league match
-        await dbOperations.updateLeagueMatchResult(room.leagueMatchId, result, homeScore, awayScore, room.game.pgn());
-
-        // Update participant stats
-        const leagueMatch = await dbOperations.getLeagueMatch(room.leagueMatchId);
-        if (leagueMatch) {
-            const league = await dbOperations.getLeagueById(leagueMatch.league_id);
-            if (league) {
-                const homeParticipant = await dbOperations.getLeagueParticipant(leagueMatch.league_id, room.whiteUserId);
-                const awayParticipant = await dbOperations.getLeagueParticipant(leagueMatch.league_id, room.blackUserId);
-
-                // Calculate points based on league settings
-                const homePoints = result === '1-0' ? league.points_for_win : result === '0-1' ? league.points_for_loss : league.points_for_draw;
-                const awayPoints = result === '0-1' ? league.points_for_win : result === '1-0' ? league.points_for_loss : league.points_for_draw;
-
-                if (homeParticipant) {
-                    const newWins = homeParticipant.wins + (result === '1-0' ? 1 : 0);
-                    const newDraws = homeParticipant.draws + (result === '1/2-1/2' ? 1 : 0);
-                    const newLosses = homeParticipant.losses + (result === '0-1' ? 1 : 0);
-                    const newForm = (homeParticipant.form + (result === '1-0' ? 'W' : result === '0-1' ? 'L' : 'D')).slice(-5);
-
-                    await dbOperations.updateLeagueParticipantStats(
-                        leagueMatch.league_id,
-                        room.whiteUserId,
-                        homeParticipant.points + homePoints,
-                        newWins,
-                        newDraws,
-                        newLosses,
-                        homeParticipant.games_played + 1,
-                        homeParticipant.goals_for + (result === '1-0' ? 1 : 0),
-                        homeParticipant.goals_against + (result === '0-1' ? 1 : 0),
-                        newForm
-                    );
-                }
-
-                if (awayParticipant) {
-                    const newWins = awayParticipant.wins + (result === '0-1' ? 1 : 0);
-                    const newDraws = awayParticipant.draws + (result === '1/2-1/2' ? 1 : 0);
-                    const newLosses = awayParticipant.losses + (result === '1-0' ? 1 : 0);
-                    const newForm = (awayParticipant.form + (result === '0-1' ? 'W' : result === '1-0' ? 'L' : 'D')).slice(-5);
-
-                    await dbOperations.updateLeagueParticipantStats(
-                        leagueMatch.league_id,
-                        room.blackUserId,
-                        awayParticipant.points + awayPoints,
-                        newWins,
-                        newDraws,
-                        newLosses,
-                        awayParticipant.games_played + 1,
-                        awayParticipant.goals_for + (result === '0-1' ? 1 : 0),
-                        awayParticipant.goals_against + (result === '1-0' ? 1 : 0),
-                        newForm
-                    );
-                }
-
-                // Notify league participants of match result
-                io.emit('league_match_completed', {
-                    leagueId: leagueMatch.league_id,
-                    matchId: room.leagueMatchId,
-                    result,
-                    homeScore,
-                    awayScore
-                });
-            }
-        }
+        await recordLeagueMatchResult(room.leagueMatchId, room.whiteUserId, room.blackUserId, result, room.game.pgn());
     }
 
     // Notify clients
@@ -1526,151 +1849,2179 @@ async function endGameAndUpdateRatings(
         reason,
         winner,
         result,
-        ratingChanges: (room.whiteUserId && room.blackUserId) ? {
+        ratingChanges: rated ? {
             white: whiteChange,
             black: blackChange
         } : null
     });
+
+    endPartnerBoard(room, result);
 }
 
-io.on('connection', (socket) => {
-    console.log('User connected:', socket.id);
+// Points for White and Black; a double forfeit ('0-0') scores nothing for either side
+function resultScores(result: string): [number, number] {
+    if (result === '1-0') return [1, 0];
+    if (result === '0-1') return [0, 1];
+    if (result === '1/2-1/2') return [0.5, 0.5];
+    return [0, 0];
+}
 
-    // ==================== SOCKET AUTHENTICATION ====================
+// Record a tournament game result (or forfeit) and pair the next round when the round is done
+async function recordTournamentGameResult(
+    tournamentGameId: string,
+    whiteUserId: string,
+    blackUserId: string,
+    result: string,
+    pgn: string | null
+) {
+    const [whiteScore, blackScore] = resultScores(result);
 
-    // Authenticate socket with JWT token
-    socket.on('authenticate', async ({ token }: { token: string }) => {
-        const user = await auth.getUserFromToken(token);
-        if (user) {
-            authenticatedSockets.set(socket.id, {
-                userId: user.id,
-                username: user.username,
-                rating: user.rating
-            });
-            socket.emit('authenticated', {
-                success: true,
-                user: {
-                    id: user.id,
-                    username: user.username,
-                    rating: user.rating
-                }
-            });
-            console.log(`Socket ${socket.id} authenticated as ${user.username}`);
-        } else {
-            socket.emit('authenticated', { success: false, message: 'Invalid token' });
-        }
-    });
+    // Update tournament game
+    if (pgn === null) {
+        await dbOperations.forfeitTournamentGame(tournamentGameId, result, whiteScore, blackScore);
+    } else {
+        await dbOperations.updateTournamentGameResult(tournamentGameId, result, whiteScore, blackScore, pgn);
+    }
 
-    // Logout (clear socket authentication)
-    socket.on('logout', async () => {
-        authenticatedSockets.delete(socket.id);
-        // Also remove from matchmaking queue
-        await dbOperations.removeFromQueueBySocket(socket.id);
-        socket.emit('logged_out', { success: true });
-    });
+    // Update participant scores
+    const tournamentGame = await dbOperations.getTournamentGame(tournamentGameId);
+    if (!tournamentGame) return;
 
-    // ==================== MATCHMAKING ====================
+    const whiteParticipant = await dbOperations.getTournamentParticipant(tournamentGame.tournament_id, whiteUserId);
+    const blackParticipant = await dbOperations.getTournamentParticipant(tournamentGame.tournament_id, blackUserId);
 
-    // Join matchmaking queue
-    socket.on('join_matchmaking', async ({ timeControl }: { timeControl: TimeControlType }) => {
-        const authInfo = authenticatedSockets.get(socket.id);
-        if (!authInfo) {
-            socket.emit('error', { message: 'Must be logged in to use matchmaking' });
+    if (whiteParticipant) {
+        await dbOperations.updateParticipantScore(
+            tournamentGame.tournament_id,
+            whiteUserId,
+            whiteParticipant.score + whiteScore,
+            whiteParticipant.buchholz,
+            whiteParticipant.wins + (whiteScore === 1 ? 1 : 0),
+            whiteParticipant.draws + (whiteScore === 0.5 ? 1 : 0),
+            whiteParticipant.losses + (whiteScore === 0 ? 1 : 0),
+            whiteParticipant.performance_rating
+        );
+    }
+    if (blackParticipant) {
+        await dbOperations.updateParticipantScore(
+            tournamentGame.tournament_id,
+            blackUserId,
+            blackParticipant.score + blackScore,
+            blackParticipant.buchholz,
+            blackParticipant.wins + (blackScore === 1 ? 1 : 0),
+            blackParticipant.draws + (blackScore === 0.5 ? 1 : 0),
+            blackParticipant.losses + (blackScore === 0 ? 1 : 0),
+            blackParticipant.performance_rating
+        );
+    }
+
+    // Notify tournament participants of game result
+    io.emit('tournament_game_completed', {
+        tournamentId: tournamentGame.tournament_id,
+        gameId: tournamentGameId,
+        result,
+        whiteScore,
+        blackScore,
+        forfeit: pgn === null,
+        // Armageddon draws go to Black in the bracket
+        isArmageddon: tournamentGame.is_armageddon
+    });
+
+    // Pair the next round once every game of this round has a result
+    await advanceTournamentIfRoundComplete(tournamentGame.tournament_id);
+}
+
+// Record a league match result (or forfeit) and move the league on when the round is done
+async function recordLeagueMatchResult(
+    leagueMatchId: string,
+    homeUserId: string,  // White = Home
+    awayUserId: string,  // Black = Away
+    result: string,
+    pgn: string | null
+) {
+    const [homeScore, awayScore] = resultScores(result);
+
+    // Update league match
+    if (pgn === null) {
+        await dbOperations.forfeitLeagueMatch(leagueMatchId, result, homeScore, awayScore);
+    } else {
+        await dbOperations.updateLeagueMatchResult(leagueMatchId, result, homeScore, awayScore, pgn);
+    }
+
+    // Update participant stats
+    const leagueMatch = await dbOperations.getLeagueMatch(leagueMatchId);
+    if (!leagueMatch) return;
+    const league = await dbOperations.getLeagueById(leagueMatch.league_id);
+    if (!league) return;
+
+    const homeParticipant = await dbOperations.getLeagueParticipant(leagueMatch.league_id, homeUserId);
+    const awayParticipant = await dbOperations.getLeagueParticipant(leagueMatch.league_id, awayUserId);
+
+    // Calculate points based on league settings
+    const pointsFor = (score: number, opponentScore: number) =>
+        score > opponentScore ? league.points_for_win : score < opponentScore || score === 0 ? league.points_for_loss : league.points_for_draw;
+    const outcomeLetter = (score: number, opponentScore: number) =>
+        score > opponentScore ? 'W' : score < opponentScore || score === 0 ? 'L' : 'D';
+
+    if (homeParticipant) {
+        const outcome = outcomeLetter(homeScore, awayScore);
+        await dbOperations.updateLeagueParticipantStats(
+            leagueMatch.league_id,
+            homeUserId,
+            homeParticipant.points + pointsFor(homeScore, awayScore),
+            homeParticipant.wins + (outcome === 'W' ? 1 : 0),
+            homeParticipant.draws + (outcome === 'D' ? 1 : 0),
+            homeParticipant.losses + (outcome === 'L' ? 1 : 0),
+            homeParticipant.games_played + 1,
+            homeParticipant.goals_for + (outcome === 'W' ? 1 : 0),
+            homeParticipant.goals_against + (outcomeLetter(awayScore, homeScore) === 'W' ? 1 : 0),
+            (homeParticipant.form + outcome).slice(-5)
+        );
+    }
+
+    if (awayParticipant) {
+        const outcome = outcomeLetter(awayScore, homeScore);
+        await dbOperations.updateLeagueParticipantStats(
+            leagueMatch.league_id,
+            awayUserId,
+            awayParticipant.points + pointsFor(awayScore, homeScore),
+            awayParticipant.wins + (outcome === 'W' ? 1 : 0),
+            awayParticipant.draws + (outcome === 'D' ? 1 : 0),
+            awayParticipant.losses + (outcome === 'L' ? 1 : 0),
+            awayParticipant.games_played + 1,
+            awayParticipant.goals_for + (outcome === 'W' ? 1 : 0),
+            awayParticipant.goals_against + (outcomeLetter(homeScore, awayScore) === 'W' ? 1 : 0),
+            (awayParticipant.form + outcome).slice(-5)
+        );
+    }
+
+    // Team boards count towards their fixture (the players have no individual standings)
+    if (leagueMatch.fixture_id) {
+        await updateTeamFixture(league, leagueMatch.fixture_id);
+    }
+
+    // Notify league participants of match result
+    io.emit('league_match_completed', {
+        leagueId: leagueMatch.league_id,
+        matchId: leagueMatchId,
+        result,
+        homeScore,
+        awayScore,
+        forfeit: pgn === null
+    });
+
+    await advanceLeagueIfRoundComplete(leagueMatch.league_id);
+}
+
+// An aborted tournament game is closed without scoring either player, so the round can still complete
+async function recordTournamentGameAbort(tournamentGameId: string) {
+    await dbOperations.abortTournamentGame(tournamentGameId);
+    const tournamentGame = await dbOperations.getTournamentGame(tournamentGameId);
+    if (!tournamentGame) return;
+
+    io.emit('tournament_game_completed', {
+        tournamentId: tournamentGame.tournament_id,
+        gameId: tournamentGameId,
+        result: tournamentGame.result,
+        whiteScore: 0,
+        blackScore: 0,
+        forfeit: false,
+        aborted: true,
+        isArmageddon: tournamentGame.is_armageddon
+    });
+
+    await advanceTournamentIfRoundComplete(tournamentGame.tournament_id);
+}
+
+// An aborted league match is closed without points or stats for either player
+async function recordLeagueMatchAbort(leagueMatchId: string) {
+    await dbOperations.abortLeagueMatch(leagueMatchId);
+    const leagueMatch = await dbOperations.getLeagueMatch(leagueMatchId);
+    if (!leagueMatch) return;
+    const league = await dbOperations.getLeagueById(leagueMatch.league_id);
+    if (!league) return;
+
+    if (leagueMatch.fixture_id) {
+        await updateTeamFixture(league, leagueMatch.fixture_id);
+    }
+
+    io.emit('league_match_completed', {
+        leagueId: leagueMatch.league_id,
+        matchId: leagueMatchId,
+        result: leagueMatch.result,
+        homeScore: 0,
+        awayScore: 0,
+        forfeit: false,
+        aborted: true
+    });
+
+    await advanceLeagueIfRoundComplete(leagueMatch.league_id);
+}
+
+// Roll board results up into the team fixture, and into the team standings once every board is done
+async function updateTeamFixture(league: League, fixtureId: string) {
+    const boards = await dbOperations.getFixtureBoards(fixtureId);
+    const score = scoreTeamFixture(boards.map(b => ({
+        fixtureId,
+        board: b.board || 1,
+        whiteId: b.home_id,
+        blackId: b.away_id,
+        result: b.result
+    })));
+
+    if (!score.complete) {
+        await dbOperations.updateLeagueFixtureScore(fixtureId, score.homePoints, score.awayPoints, 'active');
+        io.emit('league_fixture_updated', {
+            leagueId: league.id,
+            fixtureId,
+            homePoints: score.homePoints,
+            awayPoints: score.awayPoints
+        });
+        return;
+    }
+
+    const forfeited = boards.every(b => b.status === 'forfeit');
+    const result = `${score.homePoints}-${score.awayPoints}`;
+    const completed = await dbOperations.completeLeagueFixture(fixtureId, score.homePoints, score.awayPoints, result, forfeited ? 'forfeit' : 'completed');
+    if (!completed) return;
+
+    const fixture = await dbOperations.getLeagueFixture(fixtureId);
+    if (!fixture) return;
+
+    const sides: [string, number, number][] = [
+        [fixture.home_team_id, score.homePoints, score.awayPoints],
+        [fixture.away_team_id, score.awayPoints, score.homePoints]
+    ];
+    for (const [teamId, pointsFor, pointsAgainst] of sides) {
+        const team = await dbOperations.getLeagueTeam(teamId);
+        if (!team) continue;
+
+        // Match points are awarded on board points; a fixture nobody turned up for is lost by both
+        const outcome = pointsFor > pointsAgainst ? 'W' : pointsFor < pointsAgainst || forfeited ? 'L' : 'D';
+        const matchPoints = outcome === 'W' ? league.points_for_win : outcome === 'L' ? league.points_for_loss : league.points_for_draw;
+
+        await dbOperations.updateLeagueTeamStats(
+            teamId,
+            team.points + matchPoints,
+            team.wins + (outcome === 'W' ? 1 : 0),
+            team.draws + (outcome === 'D' ? 1 : 0),
+            team.losses + (outcome === 'L' ? 1 : 0),
+            team.games_played + 1,
+            Number(team.board_points_for) + pointsFor,
+            Number(team.board_points_against) + pointsAgainst,
+            (team.form + outcome).slice(-5)
+        );
+    }
+
+    io.emit('league_fixture_completed', {
+        leagueId: league.id,
+        fixtureId,
+        result,
+        homeTeam: fixture.home_team_name,
+        awayTeam: fixture.away_team_name
+    });
+}
+
+// ==================== ROOM PERSISTENCE ====================
+
+// Everything needed to rebuild a room after a restart (sockets are not kept;
+// players get their seats back by user ID when they rejoin)
+interface RoomSnapshot {
+    fen: string;
+    pgn: string;
+    timeControl: TimeControl;
+    clock: ClockState;
+    variant: VariantType;
+    variantState: VariantState;
+    computerSeat?: 'white' | 'black';
+    whiteUserId?: string;
+    blackUserId?: string;
+    drawOffer?: 'white' | 'black';
+    takebackRequest?: 'white' | 'black';
+    rematchRequest?: 'white' | 'black';
+    undoStack?: UndoPoint[];
+    dbGameId?: string;
+    movesGameId?: string;
+    seatsTaken?: { white?: boolean; black?: boolean };
+    isComputerGame?: boolean;
+    computerColor?: 'white' | 'black';
+    computerDifficulty?: Difficulty;
+    ratedBot?: boolean;
+    odds?: GameOdds;
+    tournamentGameId?: string;
+    arenaTournamentId?: string;
+    berserk?: { white?: boolean; black?: boolean };
+    leagueMatchId?: string;
+}
+
+const roomStore = createRoomStore<RoomSnapshot>();
+
+// Rooms nobody has moved in for this long are not brought back
+const ROOM_SNAPSHOT_MAX_AGE_HOURS = 24;
+
+function snapshotRoom(room: Room): RoomSnapshot {
+    const times = getCurrentClockTimes(room);
+    return {
+        fen: room.game.fen(),
+        pgn: room.game.pgn(),
+        timeControl: room.timeControl,
+        clock: { ...room.clock, white: times.white, black: times.black, lastUpdate: Date.now() },
+        variant: room.variant,
+        variantState: room.variantState,
+        computerSeat: room.players.white === 'computer' ? 'white' : room.players.black === 'computer' ? 'black' : undefined,
+        whiteUserId: room.whiteUserId,
+        blackUserId: room.blackUserId,
+        drawOffer: room.drawOffer,
+        takebackRequest: room.takebackRequest,
+        rematchRequest: room.rematchRequest,
+        undoStack: room.undoStack,
+        dbGameId: room.dbGameId,
+        movesGameId: room.movesGameId,
+        seatsTaken: room.seatsTaken,
+        isComputerGame: room.isComputerGame,
+        computerColor: room.computerColor,
+        computerDifficulty: room.computerDifficulty,
+        ratedBot: room.ratedBot,
+        odds: room.odds,
+        tournamentGameId: room.tournamentGameId,
+        arenaTournamentId: room.arenaTournamentId,
+        berserk: room.berserk,
+        leagueMatchId: room.leagueMatchId
+    };
+}
+
+// Save the room's current state (fire-and-forget, like move persistence)
+function saveRoom(room: Room) {
+    roomStore.save({
+        code: room.code,
+        whiteUserId: room.whiteUserId || null,
+        blackUserId: room.blackUserId || null,
+        snapshot: snapshotRoom(room)
+    }).catch(err => console.error(`Error saving room ${room.code}:`, err));
+}
+
+// Forget a room's snapshot once its game is over or the room is gone
+function discardRoom(roomCode: string) {
+    roomStore.remove(roomCode).catch(err => console.error(`Error discarding room ${roomCode}:`, err));
+}
+
+// Rebuild the rooms saved before the last shutdown and restart their clocks
+async function restoreRooms() {
+    const stored = await roomStore.loadAll(ROOM_SNAPSHOT_MAX_AGE_HOURS);
+    let restored = 0;
+
+    for (const { code, snapshot } of stored) {
+        if (rooms.has(code)) continue;
+
+        let game: Chess;
+        try {
+            game = restoreVariantGame(snapshot);
+        } catch (error) {
+            console.error(`Room ${code}: snapshot could not be restored, discarding`, error);
+            discardRoom(code);
+            continue;
+        }
+
+        const room: Room = {
+            game,
+            players: {
+                white: snapshot.computerSeat === 'white' ? 'computer' : undefined,
+                black: snapshot.computerSeat === 'black' ? 'computer' : undefined,
+                spectators: []
+            },
+            code,
+            timeControl: snapshot.timeControl,
+            // Time spent while the server was down is not charged to anyone
+            clock: { ...snapshot.clock, lastUpdate: Date.now() },
+            variant: snapshot.variant,
+            variantState: snapshot.variantState,
+            whiteUserId: snapshot.whiteUserId,
+            blackUserId: snapshot.blackUserId,
+            drawOffer: snapshot.drawOffer,
+            takebackRequest: snapshot.takebackRequest,
+            rematchRequest: snapshot.rematchRequest,
+            undoStack: snapshot.undoStack,
+            dbGameId: snapshot.dbGameId,
+            movesGameId: snapshot.movesGameId,
+            seatsTaken: snapshot.seatsTaken,
+            isComputerGame: snapshot.isComputerGame,
+            computerColor: snapshot.computerColor,
+            computerDifficulty: snapshot.computerDifficulty,
+            ratedBot: snapshot.ratedBot,
+            odds: snapshot.odds,
+            tournamentGameId: snapshot.tournamentGameId,
+            arenaTournamentId: snapshot.arenaTournamentId,
+            berserk: snapshot.berserk,
+            leagueMatchId: snapshot.leagueMatchId
+        };
+        rooms.set(code, room);
+
+        // Everyone was disconnected by the restart; give them the usual time to come back
+        for (const color of ['white', 'black'] as const) {
+            if (shouldHoldSeat(room, color)) holdSeat(room, code, color);
+        }
+
+        if (room.clock.gameStarted && room.clock.activeColor) {
+            startClockInterval(room, code);
+        }
+        if (room.isComputerGame) {
+            makeComputerMove(room, code);
+        }
+        restored++;
+    }
+
+    console.log(`Restored ${restored} live room(s) from the ${roomStore.kind} room store`);
+}
+
+// Whether a socket may take an empty seat. Once moves have been played the seat
+// stays with the user bound to it, e.g. in a room restored after a restart.
+function canTakeSeat(room: Room, color: 'white' | 'black', userId?: string): boolean {
+    if (room.players[color]) return false;
+    const boundUserId = color === 'white' ? room.whiteUserId : room.blackUserId;
+    if (room.absent?.[color]) return boundUserId === userId;
+    if (!boundUserId || room.game.history().length === 0) return true;
+    return boundUserId === userId;
+}
+
+// ==================== LAG COMPENSATION ====================
+
+// How often every client is pinged to estimate its lag
+const LAG_PING_INTERVAL_MS = 5000;
+// Weight of the newest round trip in the running estimate
+const LAG_SMOOTHING = 0.3;
+
+// Smoothed round-trip time per socket, in ms
+const socketLag = new Map<string, number>();
+// Timestamp of the latest ping; only answers to it count
+let lagPingSentAt = 0;
+
+// How long a move takes to reach the server, if we have measured the socket
+function estimatedLag(socketId: string | undefined): number {
+    const rtt = socketId ? socketLag.get(socketId) : undefined;
+    return rtt === undefined ? 0 : rtt / 2;
+}
+
+interface MoveTiming {
+    thinkTime: number;  // ms charged to the mover
+    lag: number;        // estimated one-way lag, ms
+    lagCredit: number;  // ms of the think time given back for lag
+}
+
+// Time to charge for a move arriving now from the player seated at `color`
+function moveTiming(room: Room, color: 'white' | 'black'): MoveTiming {
+    const lag = estimatedLag(room.players[color]);
+    const { credit } = lagCompensation(lag, room.lagQuota?.[color] ?? LAG_QUOTA_INITIAL_MS);
+    const elapsed = Date.now() - room.clock.lastUpdate;
+    return { thinkTime: Math.max(0, elapsed - credit), lag, lagCredit: Math.min(credit, elapsed) };
+}
+
+// Use up the lag allowance a move was credited (the first move is off the clock)
+function spendLagCredit(room: Room, color: 'white' | 'black', lag: number) {
+    if (!room.clock.gameStarted || room.timeControl.type === 'unlimited') return;
+    const { quota } = lagCompensation(lag, room.lagQuota?.[color] ?? LAG_QUOTA_INITIAL_MS);
+    room.lagQuota = { ...room.lagQuota, [color]: quota };
+}
+
+// Round-trip times of both seated players, shown next to their clocks
+function roomLag(room: Room): { white: number | null; black: number | null } {
+    const rtt = (socketId: string | undefined) => {
+        const value = socketId ? socketLag.get(socketId) : undefined;
+        return value === undefined ? null : Math.round(value);
+    };
+    return { white: rtt(room.players.white), black: rtt(room.players.black) };
+}
+
+// Fold in a measured round trip and tell the socket's room
+function recordPing(socketId: string, rtt: number) {
+    const previous = socketLag.get(socketId);
+    socketLag.set(socketId, previous === undefined ? rtt : previous + LAG_SMOOTHING * (rtt - previous));
+
+    const roomCode = socketToRoom.get(socketId);
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (roomCode && room && (room.players.white === socketId || room.players.black === socketId)) {
+        io.to(roomCode).emit('lag_update', roomLag(room));
+    }
+}
+
+function startLagPings() {
+    setInterval(() => {
+        lagPingSentAt = Date.now();
+        io.emit('lag_ping', { sentAt: lagPingSentAt });
+    }, LAG_PING_INTERVAL_MS);
+}
+
+// ==================== TAKEBACKS ====================
+
+// Rated games (both players signed in and no odds, or a rated bot game), tournament and league games are played
+// as they stand, and so are bughouse boards, whose captures have already gone to the other board
+function canTakeBack(room: Room): boolean {
+    return !room.tournamentGameId && !room.leagueMatchId && !room.ratedBot
+        && !(room.whiteUserId && room.blackUserId && !room.odds)
+        && !room.variantState.bughouse;
+}
+
+// A takeback returns the board to the requester's last move: one ply if the
+// opponent has not replied yet, two if they have
+function takebackPlies(room: Room, requester: 'white' | 'black'): number {
+    const toMove = room.game.turn() === 'w' ? 'white' : 'black';
+    const plies = toMove === requester ? 2 : 1;
+    const undoable = Math.min(room.game.history().length, room.undoStack?.length ?? 0);
+    return plies <= undoable ? plies : 0;
+}
+
+// Undo plies on the board, put the clocks and variant state back as they were
+// before the first of them, and drop their persisted moves
+function applyTakeback(room: Room, roomCode: string, plies: number) {
+    const history = room.game.history({ verbose: true });
+    const firstUndone = history.length - plies;
+    const firstMove = history[firstUndone];
+
+    // The computer's search is of a position that is going away
+    cancelEngineJob(computerMoveKey(roomCode));
+
+    let restorePoint: UndoPoint | undefined;
+    for (let i = 0; i < plies; i++) {
+        room.game.undo();
+        restorePoint = room.undoStack!.pop();
+    }
+
+    room.variantState = restorePoint!.variantState;
+    room.drawOffer = undefined;
+    room.takebackRequest = undefined;
+    room.premoves = undefined;
+
+    if (room.timeControl.type !== 'unlimited') {
+        room.clock.white = restorePoint!.white;
+        room.clock.black = restorePoint!.black;
+        room.clock.lastUpdate = Date.now();
+        if (firstUndone === 0) {
+            // Back to the start: the clock waits for the first move again
+            if (room.clockInterval) {
+                clearInterval(room.clockInterval);
+                room.clockInterval = undefined;
+            }
+            room.clock.gameStarted = false;
+            room.clock.activeColor = null;
+        } else {
+            room.clock.activeColor = room.game.turn() === 'w' ? 'white' : 'black';
+        }
+    }
+
+    // Moves are numbered as they were stored (see the move handler)
+    const gameIdForTracking = movesGameId(room, roomCode);
+    dbOperations.deleteMovesFrom(
+        gameIdForTracking,
+        Math.ceil((firstUndone + 1) / 2),
+        firstMove.color === 'w' ? 'white' : 'black'
+    ).catch(err => console.error(`Error deleting taken back moves in room ${roomCode}:`, err));
+
+    room.firstMoveDeadline = undefined;
+    saveRoom(room);
+
+    const remaining = room.game.history({ verbose: true });
+    const lastMove = remaining[remaining.length - 1];
+    io.to(roomCode).emit('takeback_accepted', { plies });
+    io.to(roomCode).emit('game_state', {
+        pgn: room.game.pgn(),
+        fen: room.game.fen(),
+        lastMove: lastMove ? {
+            san: lastMove.san,
+            from: lastMove.from,
+            to: lastMove.to,
+            captured: lastMove.captured,
+            flags: lastMove.flags,
+            promotion: lastMove.promotion
+        } : null,
+        variant: room.variant,
+        variantState: room.variantState
+    });
+    const times = getCurrentClockTimes(room);
+    io.to(roomCode).emit('clock_update', {
+        white: times.white,
+        black: times.black,
+        activeColor: room.clock.activeColor
+    });
+}
+
+// ==================== PREMOVES ====================
+
+// Play the premove of the side now to move if it is legal in the new position,
+// or drop it. Either way the player hears what became of it.
+function playPremove(room: Room, roomCode: string) {
+    const color = room.game.turn() === 'w' ? 'white' : 'black';
+    const premove = room.premoves?.[color];
+    if (!premove || room.ended) return;
+    room.premoves![color] = undefined;
+
+    const userId = color === 'white' ? room.whiteUserId : room.blackUserId;
+    const illegal = playMove(room, roomCode, premove, userId, { thinkTime: 0, lag: 0, lagCredit: 0 });
+
+    const socketId = room.players[color];
+    if (socketId && socketId !== 'computer') {
+        io.to(socketId).emit('premove_cleared', { played: !illegal, reason: illegal?.reason });
+    }
+}
+
+// ==================== ABORTS ====================
+
+// Seconds each side has to make their first move before the game is aborted
+const FIRST_MOVE_ABORT_SECONDS = 30;
+const ABORT_CHECK_INTERVAL_MS = 1000;
+
+// A game can be called off until both sides have moved
+function inAbortWindow(room: Room): boolean {
+    return !room.ended && room.game.history().length < 2;
+}
+
+// Players may abort casual games; tournament and league games are only aborted by the first-move rule
+function canAbort(room: Room): boolean {
+    return inAbortWindow(room) && !room.tournamentGameId && !room.leagueMatchId;
+}
+
+// Call the game off: no result, no rating change, no tournament or league score
+// and nothing left in the moves dataset
+async function abortGame(room: Room, roomCode: string) {
+    stopClock(room);
+    discardRoom(roomCode);
+    room.ended = true;
+    room.drawOffer = undefined;
+    room.takebackRequest = undefined;
+    room.premoves = undefined;
+    room.firstMoveDeadline = undefined;
+    clearSeatHolds(room, roomCode);
+
+    dbOperations.deleteMovesFrom(movesGameId(room, roomCode), 1, 'white')
+        .catch(err => console.error(`Error deleting moves of aborted room ${roomCode}:`, err));
+
+    // Kept in the game history as unfinished, with no rating change
+    if (room.dbGameId) {
+        await dbOperations.endGame(room.dbGameId, room.game.pgn(), '*', 0, 0);
+    }
+    if (room.tournamentGameId) {
+        await recordTournamentGameAbort(room.tournamentGameId);
+    }
+    if (room.leagueMatchId) {
+        await recordLeagueMatchAbort(room.leagueMatchId);
+    }
+
+    io.to(roomCode).emit('game_over', {
+        reason: 'aborted',
+        winner: 'none',
+        result: '*',
+        ratingChanges: null
+    });
+
+    // The other bughouse board cannot go on without this one
+    const partner = partnerBoard(room);
+    if (partner && !partner.ended) {
+        await abortGame(partner, partner.code);
+    }
+}
+
+// Start the first-move countdown for whoever is due to move once both seats are
+// taken, and abort games where it ran out
+function checkFirstMoveDeadlines() {
+    const now = Date.now();
+    for (const [roomCode, room] of rooms) {
+        if (!inAbortWindow(room)) continue;
+
+        if (room.firstMoveDeadline === undefined) {
+            const seated = (color: 'white' | 'black') => !!room.players[color] || !!room.absent?.[color];
+            const color = room.game.turn() === 'w' ? 'white' : 'black';
+            if (!seated('white') || !seated('black') || room.players[color] === 'computer') continue;
+
+            room.firstMoveDeadline = now + FIRST_MOVE_ABORT_SECONDS * 1000;
+            io.to(roomCode).emit('first_move_deadline', { color, deadline: room.firstMoveDeadline, canAbort: canAbort(room) });
+        } else if (now >= room.firstMoveDeadline) {
+            console.log(`Room ${roomCode}: no first move in ${FIRST_MOVE_ABORT_SECONDS}s, aborting`);
+            abortGame(room, roomCode).catch(err => console.error(`Error aborting room ${roomCode}:`, err));
+        }
+    }
+}
+
+function startAbortChecks() {
+    setInterval(checkFirstMoveDeadlines, ABORT_CHECK_INTERVAL_MS);
+}
+
+// ==================== CRAZYHOUSE AND BUGHOUSE ====================
+
+// How many of a piece the side has in hand (0 for anything that is not a drop piece)
+function pocketCount(room: Room, color: 'white' | 'black', piece: string): number {
+    const letter = String(piece).toLowerCase();
+    return isDropPiece(letter) ? room.variantState.pockets?.[color][letter] ?? 0 : 0;
+}
+
+// Drop a piece from the mover's pocket; throws if it is not in hand or cannot go there
+function dropFromPocket(room: Room, request: DropRequest): Move {
+    const piece = String(request.drop).toLowerCase();
+    const color = room.game.turn() === 'w' ? 'white' : 'black';
+    if (!(room.game instanceof DropChess) || !isDropPiece(piece) || pocketCount(room, color, piece) === 0) {
+        throw new Error(`No ${piece} in hand`);
+    }
+    return room.game.drop(piece, request.to as Square);
+}
+
+// The room playing the other board of a bughouse game
+function partnerBoard(room: Room): Room | undefined {
+    const link = room.variantState.bughouse;
+    return link ? rooms.get(link.partnerRoom) : undefined;
+}
+
+// A capture on one bughouse board goes to the capturer's partner, who plays the
+// captured piece's colour on the other board (A's White partners B's Black)
+function passToPartner(room: Room, move: Move, promoted: Square[] | undefined) {
+    const partner = partnerBoard(room);
+    const piece = capturedPocketPiece(move, promoted);
+    if (!partner || partner.ended || !piece) return;
+
+    const color = move.color === 'w' ? 'black' : 'white';
+    partner.variantState = addToPocket(partner.variantState, color, piece);
+    saveRoom(partner);
+    io.to(partner.code).emit('variant_state', {
+        variant: partner.variant,
+        variantState: partner.variantState
+    });
+}
+
+// Bughouse is won and lost by teams: once one board is decided the other ends
+// with the same result for each team
+function endPartnerBoard(room: Room, result: '1-0' | '0-1' | '1/2-1/2') {
+    const partner = partnerBoard(room);
+    if (!partner || partner.ended) return;
+    const partnerResult = result === '1-0' ? '0-1' : result === '0-1' ? '1-0' : '1/2-1/2';
+    endGameAndUpdateRatings(partner, partner.code, partnerResult, 'partner_board')
+        .catch(err => console.error(`Error ending bughouse partner board ${partner.code}:`, err));
+}
+
+// Open board B of a bughouse game next to board A, linked both ways, for the other pair to join
+function createBughousePartner(room: Room): Room {
+    const code = generateRoomCode();
+    const { game, state: variantState } = createVariantGame('bughouse');
+    variantState.bughouse = { board: 'b', partnerRoom: room.code };
+    room.variantState = { ...room.variantState, bughouse: { board: 'a', partnerRoom: code } };
+
+    const partner: Room = {
+        game,
+        players: { spectators: [] },
+        code,
+        timeControl: room.timeControl,
+        clock: initializeClock(room.timeControl),
+        variant: 'bughouse',
+        variantState
+    };
+    rooms.set(code, partner);
+    saveRoom(partner);
+    return partner;
+}
+
+// ==================== RECONNECTION ====================
+
+// How long a disconnected player's seat is held before the opponent may claim the game
+const RECONNECT_GRACE_SECONDS = 60;
+
+// Hold a seat for an authenticated player who dropped out of a game in progress
+function shouldHoldSeat(room: Room, color: 'white' | 'black'): boolean {
+    const boundUserId = color === 'white' ? room.whiteUserId : room.blackUserId;
+    return !room.ended && !!boundUserId;
+}
+
+// Casual games can be called off; rated competition games must be decided
+function canAbortAbandonedGame(room: Room): boolean {
+    return !room.tournamentGameId && !room.leagueMatchId;
+}
+
+// Keep a disconnected player's seat and start their countdown
+function holdSeat(room: Room, roomCode: string, color: 'white' | 'black') {
+    room.absent = room.absent || {};
+    const previous = room.absent[color];
+    if (previous) clearTimeout(previous.timer);
+
+    const deadline = Date.now() + RECONNECT_GRACE_SECONDS * 1000;
+    const timer = setTimeout(() => {
+        if (rooms.get(roomCode) !== room || !room.absent?.[color] || room.ended) return;
+        console.log(`Room ${roomCode}: ${color} did not reconnect in time`);
+        // Nobody left to claim the game
+        if (isRoomEmpty(room)) {
+            closeEmptyRoom(room, roomCode);
+            return;
+        }
+        io.to(roomCode).emit('opponent_abandoned', { color, canAbort: canAbortAbandonedGame(room) });
+    }, RECONNECT_GRACE_SECONDS * 1000);
+
+    room.absent[color] = { deadline, timer };
+    io.to(roomCode).emit('opponent_disconnected', { color, deadline, graceSeconds: RECONNECT_GRACE_SECONDS });
+}
+
+function isRoomEmpty(room: Room): boolean {
+    return !room.players.white && !room.players.black && room.players.spectators.length === 0;
+}
+
+function closeEmptyRoom(room: Room, roomCode: string) {
+    stopClock(room);  // Clean up clock interval
+    clearSeatHolds(room, roomCode);
+    cancelEngineJob(computerMoveKey(roomCode));
+    rooms.delete(roomCode);
+    discardRoom(roomCode);
+    console.log(`Room ${roomCode} deleted (empty)`);
+}
+
+// Drop a held seat (the player is back, or the game is over)
+function releaseSeat(room: Room, roomCode: string, color: 'white' | 'black', announce: boolean) {
+    const hold = room.absent?.[color];
+    if (!hold) return;
+    clearTimeout(hold.timer);
+    delete room.absent![color];
+    if (announce) {
+        io.to(roomCode).emit('opponent_reconnected', { color });
+    }
+}
+
+function clearSeatHolds(room: Room, roomCode: string) {
+    releaseSeat(room, roomCode, 'white', false);
+    releaseSeat(room, roomCode, 'black', false);
+}
+
+// Put a returning player back in their seat and bring their board up to date
+function reclaimSeat(socket: Socket, room: Room, roomCode: string, color: 'white' | 'black') {
+    room.players[color] = socket.id;
+    recordSeatTaken(room, color);
+    socketToRoom.set(socket.id, roomCode);
+    socket.join(roomCode);
+    releaseSeat(room, roomCode, color, true);
+
+    socket.emit('room_joined', { code: roomCode, timeControl: room.timeControl, variant: room.variant, variantState: room.variantState });
+    socket.emit('player_assigned', { color });
+    socket.emit('game_state', {
+        pgn: room.game.pgn(),
+        fen: room.game.fen(),
+        lastMove: null,
+        variant: room.variant,
+        variantState: room.variantState
+    });
+    const times = getCurrentClockTimes(room);
+    socket.emit('clock_update', {
+        white: times.white,
+        black: times.black,
+        activeColor: room.clock.activeColor
+    });
+
+    // The opponent may be the one missing now
+    const opponent = color === 'white' ? 'black' : 'white';
+    const opponentHold = room.absent?.[opponent];
+    if (opponentHold) {
+        socket.emit('opponent_disconnected', { color: opponent, deadline: opponentHold.deadline, graceSeconds: RECONNECT_GRACE_SECONDS });
+        if (Date.now() >= opponentHold.deadline) {
+            socket.emit('opponent_abandoned', { color: opponent, canAbort: canAbortAbandonedGame(room) });
+        }
+    }
+}
+
+// The color whose opponent has been gone past the grace period, or an error for the caller
+function abandonedOpponent(room: Room | undefined, socketId: string): { color: 'white' | 'black' } | { error: string } {
+    if (!room) return { error: 'Room not found' };
+    const playerColor = getPlayerColor(room, socketId);
+    if (playerColor === 'spectator') return { error: 'Only players can claim an abandoned game' };
+    if (room.ended || room.game.isGameOver()) return { error: 'Game is already over' };
+
+    const hold = room.absent?.[playerColor === 'white' ? 'black' : 'white'];
+    if (!hold) return { error: 'Your opponent is connected' };
+    if (Date.now() < hold.deadline) return { error: 'Your opponent still has time to reconnect' };
+    return { color: playerColor };
+}
+
+// Seat a freshly authenticated socket back in any game it dropped out of
+function rejoinHeldSeats(socket: Socket, userId: string) {
+    for (const [roomCode, room] of rooms) {
+        for (const color of ['white', 'black'] as const) {
+            const boundUserId = color === 'white' ? room.whiteUserId : room.blackUserId;
+            if (room.absent?.[color] && !room.players[color] && boundUserId === userId) {
+                reclaimSeat(socket, room, roomCode, color);
+                console.log(`User ${userId} reconnected to room ${roomCode} as ${color}`);
+                return;
+            }
+        }
+    }
+}
+
+// ==================== TOURNAMENT PAIRING ====================
+
+// Tournaments currently being paired (guards against two games finishing at once)
+const tournamentsBeingPaired = new Set<string>();
+// Tournaments whose games finished while they were being paired (re-checked afterwards)
+const tournamentsPendingAdvance = new Set<string>();
+
+// Pair a Swiss round, create its games and award the bye (if any)
+async function pairSwissTournamentRound(tournament: Tournament, round: number): Promise<TournamentGame[]> {
+    const participants = (await dbOperations.getTournamentParticipants(tournament.id))
+        .filter(p => p.status === 'active');
+    const previousGames = await dbOperations.getTournamentGames(tournament.id);
+    const { pairings, byeId } = pairSwissRound(buildSwissPlayers(participants, previousGames));
+
+    const games: TournamentGame[] = [];
+    for (const pairing of pairings) {
+        const game = await dbOperations.createTournamentGame(
+            tournament.id,
+            round,
+            pairing.board,
+            pairing.whiteId,
+            pairing.blackId,
+            generateRoomCode()
+        );
+        games.push(game);
+    }
+
+    // A bye scores a full point but counts as neither a win nor a game played
+    if (byeId) {
+        const byePlayer = participants.find(p => p.user_id === byeId);
+        if (byePlayer) {
+            await dbOperations.setParticipantBye(tournament.id, byeId, round);
+            await dbOperations.updateParticipantScore(
+                tournament.id,
+                byeId,
+                Number(byePlayer.score) + 1,
+                byePlayer.buchholz,
+                byePlayer.wins,
+                byePlayer.draws,
+                byePlayer.losses,
+                byePlayer.performance_rating
+            );
+        }
+    }
+
+    await dbOperations.updateTournamentStatus(tournament.id, 'active', round, tournament.total_rounds, null);
+
+    io.emit('tournament_round_started', {
+        tournamentId: tournament.id,
+        round,
+        pairings: games,
+        byeUserId: byeId
+    });
+    console.log(`Tournament ${tournament.id}: round ${round} paired (${games.length} games${byeId ? ', 1 bye' : ''})`);
+
+    return games;
+}
+
+// Create every round of a round-robin tournament up front from the Berger table
+async function scheduleRoundRobinTournament(tournament: Tournament): Promise<TournamentGame[]> {
+    const participants = (await dbOperations.getTournamentParticipants(tournament.id))
+        .filter(p => p.status === 'active')
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0));
+    const schedule = generateRoundRobinSchedule(participants.map(p => p.user_id));
+
+    const games: TournamentGame[] = [];
+    for (const round of schedule) {
+        for (const pairing of round.pairings) {
+            const game = await dbOperations.createTournamentGame(
+                tournament.id,
+                round.round,
+                pairing.board,
+                pairing.whiteId,
+                pairing.blackId,
+                generateRoomCode()
+            );
+            games.push(game);
+        }
+    }
+
+    await dbOperations.updateTournamentStatus(tournament.id, 'active', 1, schedule.length, null);
+
+    const firstRound = games.filter(g => g.round === 1);
+    io.emit('tournament_round_started', {
+        tournamentId: tournament.id,
+        round: 1,
+        pairings: firstRound,
+        byeUserId: schedule[0]?.byeId || null
+    });
+    console.log(`Tournament ${tournament.id}: round-robin scheduled (${schedule.length} rounds, ${games.length} games)`);
+
+    return firstRound;
+}
+
+// Seed a knockout by rating and create the first games of every round-1 mini-match
+async function seedKnockoutTournament(tournament: Tournament): Promise<TournamentGame[]> {
+    const participants = (await dbOperations.getTournamentParticipants(tournament.id))
+        .filter(p => p.status === 'active')
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0));
+
+    for (let i = 0; i < participants.length; i++) {
+        await dbOperations.setParticipantSeed(tournament.id, participants[i].user_id, i + 1);
+    }
+
+    tournament.current_round = 1;
+    tournament.total_rounds = knockoutRoundCount(participants.length);
+    await dbOperations.updateTournamentStatus(tournament.id, 'active', 1, tournament.total_rounds, null);
+
+    return syncKnockoutBracket(tournament);
+}
+
+// Bring a knockout up to date: create the next mini-match or armageddon games,
+// eliminate losers and finish the tournament once the final is decided
+async function syncKnockoutBracket(tournament: Tournament): Promise<TournamentGame[]> {
+    const participants = await dbOperations.getTournamentParticipants(tournament.id);
+    const games = await dbOperations.getTournamentGames(tournament.id);
+    const bracket = buildTournamentBracket(participants, games, tournament.games_per_match || 2);
+
+    for (const userId of getEliminatedPlayers(bracket)) {
+        const participant = participants.find(p => p.user_id === userId);
+        if (participant && participant.status === 'active') {
+            await dbOperations.updateParticipantStatus(tournament.id, userId, 'eliminated');
+        }
+    }
+
+    if (bracket.championId) {
+        await dbOperations.updateTournamentStatus(
+            tournament.id,
+            'completed',
+            bracket.totalRounds,
+            bracket.totalRounds,
+            new Date().toISOString()
+        );
+        const standings = await dbOperations.getTournamentParticipants(tournament.id);
+        io.emit('tournament_completed', { tournamentId: tournament.id, standings, bracket, championId: bracket.championId });
+        io.emit('tournaments_updated');
+        console.log(`Tournament ${tournament.id}: knockout won by ${bracket.championId}`);
+        return [];
+    }
+
+    const created: TournamentGame[] = [];
+    let round = tournament.current_round;
+    for (const matches of bracket.rounds) {
+        for (const match of matches) {
+            if (!match.nextGame) continue;
+            const game = await dbOperations.createTournamentGame(
+                tournament.id,
+                match.round,
+                match.match,
+                match.nextGame.whiteId,
+                match.nextGame.blackId,
+                generateRoomCode(),
+                match.nextGame.matchGame,
+                match.nextGame.isArmageddon
+            );
+            created.push(game);
+            round = Math.max(round, match.round);
+        }
+    }
+
+    if (created.length === 0) return created;
+
+    const newRound = round > tournament.current_round || games.length === 0;
+    if (newRound) {
+        await dbOperations.updateTournamentStatus(tournament.id, 'active', round, tournament.total_rounds, null);
+        io.emit('tournament_round_started', { tournamentId: tournament.id, round, pairings: created });
+    }
+    io.emit('tournament_bracket_updated', {
+        tournamentId: tournament.id,
+        games: created,
+        bracket: buildTournamentBracket(participants, [...games, ...created], tournament.games_per_match || 2)
+    });
+    console.log(`Tournament ${tournament.id}: ${created.length} knockout game(s) created (round ${round})`);
+
+    return created;
+}
+
+// Pair the first round of a tournament that was just started
+async function beginTournament(tournamentId: string): Promise<TournamentGame[]> {
+    const tournament = await dbOperations.getTournamentById(tournamentId);
+    if (!tournament) return [];
+
+    switch (tournament.type) {
+        case 'swiss': {
+            const participants = await dbOperations.getTournamentParticipants(tournamentId);
+            tournament.total_rounds = swissRoundCount(participants.length);
+            return pairSwissTournamentRound(tournament, 1);
+        }
+        case 'round_robin':
+            return scheduleRoundRobinTournament(tournament);
+        case 'knockout':
+            return seedKnockoutTournament(tournament);
+        case 'arena':
+            return startArena(tournament);
+        default:
+            return [];
+    }
+}
+
+// Pair the next round, or finish the tournament, once the current round is done
+async function advanceTournamentIfRoundComplete(tournamentId: string): Promise<void> {
+    if (tournamentsBeingPaired.has(tournamentId)) {
+        tournamentsPendingAdvance.add(tournamentId);
+        return;
+    }
+    tournamentsBeingPaired.add(tournamentId);
+
+    try {
+        const tournament = await dbOperations.getTournamentById(tournamentId);
+        if (!tournament || tournament.status !== 'active') return;
+        if (tournament.type === 'arena') {
+            await refreshArena(tournament);
+            return;
+        }
+        if (tournament.type === 'knockout') {
+            await syncKnockoutBracket(tournament);
+            return;
+        }
+        if (tournament.type !== 'swiss' && tournament.type !== 'round_robin') return;
+
+        // Round-robin games can be played ahead of schedule, so skip past any finished rounds
+        let round = tournament.current_round;
+        let roundGames = await dbOperations.getTournamentRoundGames(tournamentId, round);
+        if (roundGames.some(g => g.result === null)) return;
+        while (tournament.type === 'round_robin' && round < tournament.total_rounds) {
+            roundGames = await dbOperations.getTournamentRoundGames(tournamentId, round + 1);
+            round++;
+            if (roundGames.some(g => g.result === null)) break;
+        }
+        const allFinished = !roundGames.some(g => g.result === null);
+
+        if (round >= tournament.total_rounds && allFinished) {
+            await dbOperations.updateTournamentStatus(
+                tournamentId,
+                'completed',
+                round,
+                tournament.total_rounds,
+                new Date().toISOString()
+            );
+            const standings = await dbOperations.getTournamentParticipants(tournamentId);
+            io.emit('tournament_completed', { tournamentId, standings });
+            io.emit('tournaments_updated');
+            console.log(`Tournament ${tournamentId} completed after ${round} rounds`);
+            return;
+        }
+
+        if (tournament.type === 'swiss') {
+            await pairSwissTournamentRound(tournament, round + 1);
             return;
         }
 
-        // Add to queue
-        await dbOperations.addToQueue(authInfo.userId, socket.id, authInfo.rating, timeControl);
-        socket.emit('matchmaking_joined', { timeControl, rating: authInfo.rating });
+        await dbOperations.updateTournamentStatus(tournamentId, 'active', round, tournament.total_rounds, null);
+        io.emit('tournament_round_started', { tournamentId, round, pairings: roundGames });
+    } catch (error) {
+        console.error('Error advancing tournament:', error);
+    } finally {
+        tournamentsBeingPaired.delete(tournamentId);
+    }
 
-        // Try to find a match (rating range starts at 100, expands over time)
-        const match = await dbOperations.findMatch(timeControl, authInfo.userId, authInfo.rating, 200);
-        if (match) {
-            // Found a match! Create a room
-            await dbOperations.removeFromQueue(authInfo.userId);
-            await dbOperations.removeFromQueue(match.user_id);
+    if (tournamentsPendingAdvance.delete(tournamentId)) {
+        await advanceTournamentIfRoundComplete(tournamentId);
+    }
+}
+
+// ==================== ARENA TOURNAMENTS ====================
+
+const DEFAULT_ARENA_MINUTES = 60;
+
+interface ArenaState {
+    tournamentId: string;
+    endsAt: number;
+    pool: Set<string>;  // Users taking part right now (paused players are removed)
+    closed: boolean;    // Arena clock expired, no more pairings
+}
+
+// Running arenas by tournament ID
+const arenas = new Map<string, ArenaState>();
+
+// Get the in-memory state of an active arena, recreating it after a server restart
+function getArenaState(tournament: Tournament): ArenaState | null {
+    const existing = arenas.get(tournament.id);
+    if (existing) return existing;
+    if (tournament.type !== 'arena' || tournament.status !== 'active' || !tournament.ends_at) return null;
+
+    const endsAt = new Date(tournament.ends_at).getTime();
+    const state: ArenaState = {
+        tournamentId: tournament.id,
+        endsAt,
+        pool: new Set(),
+        closed: endsAt <= Date.now()
+    };
+    arenas.set(tournament.id, state);
+    return state;
+}
+
+// Start the arena clock and pair everyone who is online
+async function startArena(tournament: Tournament): Promise<TournamentGame[]> {
+    const durationMs = (tournament.duration_minutes || DEFAULT_ARENA_MINUTES) * 60000;
+    tournament.ends_at = new Date(Date.now() + durationMs).toISOString();
+    await dbOperations.setTournamentEndsAt(tournament.id, tournament.ends_at);
+    await dbOperations.updateTournamentStatus(tournament.id, 'active', 1, 0, null);
+    await scheduleJob('arena_end', new Date(tournament.ends_at), { tournamentId: tournament.id }, { key: `arena_end:${tournament.id}` });
+
+    const state = getArenaState(tournament);
+    if (!state) return [];
+
+    const participants = await dbOperations.getTournamentParticipants(tournament.id);
+    const online = new Set(Array.from(authenticatedSockets.values()).map(info => info.userId));
+    for (const p of participants) {
+        if (online.has(p.user_id)) state.pool.add(p.user_id);
+    }
+    console.log(`Tournament ${tournament.id}: arena started (${durationMs / 60000} min, ${state.pool.size} players online)`);
+
+    return refreshArena(tournament);
+}
+
+// Stop pairing once the arena clock expires; games in progress still count
+async function closeArena(tournamentId: string): Promise<void> {
+    const tournament = await dbOperations.getTournamentById(tournamentId);
+    const state = tournament ? getArenaState(tournament) : null;
+    if (!state) return;
+    state.closed = true;
+    io.emit('arena_closed', { tournamentId });
+    await advanceTournamentIfRoundComplete(tournamentId);
+}
+
+// Sync scores, pair waiting players and push the leaderboard
+async function refreshArena(tournament: Tournament): Promise<TournamentGame[]> {
+    const state = getArenaState(tournament);
+    if (!state) return [];
+
+    const participants = await dbOperations.getTournamentParticipants(tournament.id);
+    const games = await dbOperations.getTournamentGames(tournament.id);
+    const standings = calculateArenaStandings(participants, games);
+
+    // Game results are first recorded with standard scoring, overwrite with arena points
+    for (const standing of standings) {
+        const participant = participants.find(p => p.user_id === standing.userId);
+        if (!participant) continue;
+        if (Number(participant.score) !== standing.score || participant.wins !== standing.wins ||
+            participant.draws !== standing.draws || participant.losses !== standing.losses) {
+            await dbOperations.updateParticipantScore(
+                tournament.id,
+                standing.userId,
+                standing.score,
+                participant.buchholz,
+                standing.wins,
+                standing.draws,
+                standing.losses,
+                participant.performance_rating
+            );
+        }
+    }
+
+    // Games nobody sat down for don't hold up the end of the arena
+    const inProgress = games.filter(g => g.result === null && g.status === 'active');
+
+    if (state.closed) {
+        if (inProgress.length === 0) {
+            await finishArena(tournament, state);
+        } else {
+            io.emit('arena_leaderboard', { tournamentId: tournament.id, standings, endsAt: state.endsAt, closed: true });
+        }
+        return [];
+    }
+
+    const busy = new Set(games.filter(g => g.result === null).flatMap(g => [g.white_id, g.black_id]));
+    const available = [...state.pool].filter(userId => !busy.has(userId));
+    const pairings = pairArenaPool(buildArenaPool(available, standings, games));
+
+    let board = games.reduce((max, g) => Math.max(max, g.board), 0);
+    const created: TournamentGame[] = [];
+    for (const pairing of pairings) {
+        const game = await dbOperations.createTournamentGame(
+            tournament.id,
+            1,
+            ++board,
+            pairing.whiteId,
+            pairing.blackId,
+            generateRoomCode()
+        );
+        created.push(game);
+
+        // Send both players straight to the board
+        for (const [userId, color] of [[pairing.whiteId, 'white'], [pairing.blackId, 'black']] as const) {
+            const opponent = color === 'white' ? game.black_username : game.white_username;
+            for (const [socketId, info] of authenticatedSockets.entries()) {
+                if (info.userId !== userId) continue;
+                io.to(socketId).emit('arena_game_ready', {
+                    tournamentId: tournament.id,
+                    roomCode: game.room_code,
+                    color,
+                    opponent
+                });
+            }
+        }
+    }
+
+    io.emit('arena_leaderboard', { tournamentId: tournament.id, standings, endsAt: state.endsAt, closed: false });
+    return created;
+}
+
+// Final standings once the clock has expired and the last game is over
+async function finishArena(tournament: Tournament, state: ArenaState): Promise<void> {
+    arenas.delete(state.tournamentId);
+
+    await dbOperations.updateTournamentStatus(tournament.id, 'completed', 1, 0, new Date().toISOString());
+    const standings = await dbOperations.getTournamentParticipants(tournament.id);
+    io.emit('tournament_completed', { tournamentId: tournament.id, standings });
+    io.emit('tournaments_updated');
+    console.log(`Tournament ${tournament.id}: arena finished`);
+}
+
+// ==================== LEAGUE FIXTURES ====================
+
+// Leagues currently advancing a round
+const leaguesBeingAdvanced = new Set<string>();
+
+// Generate the full fixture list for every division of a league
+async function generateLeagueFixtures(leagueId: string): Promise<LeagueMatch[]> {
+    const league = await dbOperations.getLeagueById(leagueId);
+    if (!league || (league.format !== 'round_robin' && league.format !== 'double_round_robin')) return [];
+    if (league.type === 'team') return generateTeamLeagueFixtures(league);
+
+    const participants = (await dbOperations.getLeagueParticipants(leagueId))
+        .filter(p => p.status === 'active');
+    const divisions = [...new Set(participants.map(p => p.division))].sort((a, b) => a - b);
+
+    const matches: LeagueMatch[] = [];
+    let totalRounds = 0;
+    for (const division of divisions) {
+        const seeded = participants
+            .filter(p => p.division === division)
+            .sort((a, b) => (b.rating || 0) - (a.rating || 0));
+        const schedule = generateRoundRobinSchedule(
+            seeded.map(p => p.user_id),
+            league.format === 'double_round_robin'
+        );
+        totalRounds = Math.max(totalRounds, schedule.length);
+
+        for (const round of schedule) {
+            for (const pairing of round.pairings) {
+                // Home plays white
+                const match = await dbOperations.createLeagueMatch(
+                    leagueId,
+                    round.round,
+                    pairing.whiteId,
+                    pairing.blackId,
+                    generateRoomCode(),
+                    null
+                );
+                matches.push(match);
+            }
+        }
+    }
+
+    await dbOperations.updateLeagueStatus(leagueId, 'active', 1, totalRounds);
+    console.log(`League ${leagueId}: ${matches.length} fixtures over ${totalRounds} rounds`);
+
+    return matches;
+}
+
+// Generate team fixtures, each played as one league match per board
+async function generateTeamLeagueFixtures(league: League): Promise<LeagueMatch[]> {
+    // A team that can't fill every board doesn't take part
+    const teams = (await dbOperations.getLeagueTeams(league.id))
+        .filter(t => t.status === 'active' && (t.players?.length || 0) >= league.board_count);
+    const divisions = [...new Set(teams.map(t => t.division))].sort((a, b) => a - b);
+
+    // Seed on the average rating of the boards each team will field
+    const strength = (players: { rating?: number }[]) => {
+        const fielded = players.slice(0, league.board_count);
+        return fielded.reduce((sum, p) => sum + (p.rating || 0), 0) / Math.max(fielded.length, 1);
+    };
+
+    const matches: LeagueMatch[] = [];
+    let fixtureCount = 0;
+    let totalRounds = 0;
+    for (const division of divisions) {
+        const seeded = teams
+            .filter(t => t.division === division)
+            .sort((a, b) => strength(b.players || []) - strength(a.players || []));
+        const rosters = new Map(seeded.map(t => [t.id, (t.players || []).map(p => p.user_id)]));
+        const schedule = generateRoundRobinSchedule(
+            seeded.map(t => t.id),
+            league.format === 'double_round_robin'
+        );
+        totalRounds = Math.max(totalRounds, schedule.length);
+
+        for (const round of schedule) {
+            for (const pairing of round.pairings) {
+                // The "white" side of the schedule is the home team
+                const fixture = await dbOperations.createLeagueFixture(league.id, round.round, pairing.whiteId, pairing.blackId, null);
+                fixtureCount++;
+
+                const boards = pairTeamBoards(rosters.get(pairing.whiteId) || [], rosters.get(pairing.blackId) || [], league.board_count);
+                for (const board of boards) {
+                    const match = await dbOperations.createLeagueMatch(
+                        league.id,
+                        round.round,
+                        board.whiteId,
+                        board.blackId,
+                        generateRoomCode(),
+                        null,
+                        fixture.id,
+                        board.board
+                    );
+                    matches.push(match);
+                }
+            }
+        }
+    }
+
+    await dbOperations.updateLeagueStatus(league.id, 'active', 1, totalRounds);
+    console.log(`League ${league.id}: ${fixtureCount} team fixtures (${matches.length} boards) over ${totalRounds} rounds`);
+
+    return matches;
+}
+
+// Move the league to the next round (or complete it) once the current round is done
+async function advanceLeagueIfRoundComplete(leagueId: string): Promise<void> {
+    if (leaguesBeingAdvanced.has(leagueId)) return;
+    leaguesBeingAdvanced.add(leagueId);
+
+    try {
+        const league = await dbOperations.getLeagueById(leagueId);
+        if (!league || league.status !== 'active' || league.total_rounds === 0) return;
+
+        // Matches can be played ahead of schedule, so skip past any finished rounds
+        let round = league.current_round;
+        let roundMatches = await dbOperations.getLeagueRoundMatches(leagueId, round);
+        if (roundMatches.some(m => m.result === null)) return;
+        while (round < league.total_rounds) {
+            roundMatches = await dbOperations.getLeagueRoundMatches(leagueId, round + 1);
+            round++;
+            if (roundMatches.some(m => m.result === null)) break;
+        }
+
+        if (round >= league.total_rounds && !roundMatches.some(m => m.result === null)) {
+            await dbOperations.completeLeague(leagueId);
+            io.emit('league_completed', { leagueId });
+            io.emit('leagues_updated');
+            console.log(`League ${leagueId} completed`);
+            return;
+        }
+
+        await dbOperations.updateLeagueStatus(leagueId, 'active', round, league.total_rounds);
+        io.emit('league_round_started', { leagueId, round, matches: roundMatches });
+    } catch (error) {
+        console.error('Error advancing league:', error);
+    } finally {
+        leaguesBeingAdvanced.delete(leagueId);
+    }
+}
+
+// ==================== LEAGUE SEASONS ====================
+
+// Group ranked entrants by division, keeping their order
+function divisionStandings<T extends { division: number }>(ranked: T[], idOf: (entrant: T) => string): DivisionStandings[] {
+    const divisions = [...new Set(ranked.map(e => e.division))].sort((a, b) => a - b);
+    return divisions.map(division => ({
+        division,
+        ranked: ranked.filter(e => e.division === division).map(idOf)
+    }));
+}
+
+// Close a finished season: record every finish, mark who moves up or down and
+// open next season's league with everyone placed in their new division
+async function rolloverLeagueSeason(league: League, season: string | null, startDate: string | null): Promise<League | null> {
+    const name = league.season && season && league.name.includes(league.season)
+        ? league.name.replace(league.season, season)
+        : league.name;
+
+    // previous_league_id is unique, so a second rollover of the same season fails here
+    const next = await dbOperations.createLeague(
+        name,
+        league.description,
+        league.creator_id,
+        league.club_id,
+        league.type,
+        league.format,
+        league.time_control,
+        season,
+        league.max_divisions,
+        league.points_for_win,
+        league.points_for_draw,
+        league.points_for_loss,
+        startDate,
+        null,
+        league.tiebreaks,
+        league.board_count,
+        league.promotion_count,
+        league.relegation_count,
+        league.id
+    );
+    if (!next) return null;
+
+    if (league.type === 'team') {
+        const teams = (await dbOperations.getLeagueTeamStandings(league.id))
+            .filter(t => t.status !== 'withdrawn');
+        const byId = new Map(teams.map(t => [t.id, t]));
+        const placements = planSeasonRollover(
+            divisionStandings(teams, t => t.id),
+            league.max_divisions,
+            league.promotion_count,
+            league.relegation_count
+        );
+
+        for (const placement of placements) {
+            const team = byId.get(placement.id)!;
+            const roster = (team.players || []).map(p => p.user_id);
+            if (placement.movement !== 'stayed') {
+                await dbOperations.updateLeagueTeamStatus(team.id, placement.movement);
+            }
+            for (const userId of roster) {
+                await dbOperations.addLeagueSeasonHistory(
+                    league, userId, team.name, placement.division, placement.position,
+                    team.points, team.wins, team.draws, team.losses, team.games_played,
+                    placement.movement, placement.nextDivision
+                );
+            }
+
+            // Same club, captain and board order; the captain can change it before the start
+            const nextTeam = await dbOperations.createLeagueTeam(next.id, team.club_id, team.name, team.captain_id, placement.nextDivision);
+            await dbOperations.setLeagueTeamRoster(nextTeam.id, roster);
+        }
+    } else {
+        const participants = (await dbOperations.getLeagueParticipants(league.id))
+            .filter(p => p.status !== 'withdrawn');
+        const byId = new Map(participants.map(p => [p.user_id, p]));
+        const placements = planSeasonRollover(
+            divisionStandings(participants, p => p.user_id),
+            league.max_divisions,
+            league.promotion_count,
+            league.relegation_count
+        );
+
+        for (const placement of placements) {
+            const participant = byId.get(placement.id)!;
+            if (placement.movement !== 'stayed') {
+                await dbOperations.updateLeagueParticipantStatus(league.id, participant.user_id, placement.movement);
+            }
+            await dbOperations.addLeagueSeasonHistory(
+                league, participant.user_id, null, placement.division, placement.position,
+                participant.points, participant.wins, participant.draws, participant.losses, participant.games_played,
+                placement.movement, placement.nextDivision
+            );
+            await dbOperations.addLeagueParticipant(next.id, participant.user_id, placement.nextDivision);
+        }
+    }
+
+    console.log(`League ${league.id} rolled over into ${next.id} (${season || 'no season label'})`);
+    return next;
+}
+
+// ==================== DAILY PUZZLE ====================
+
+// Helper function to get today's date in UTC
+function getTodayUTC(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+// Helper function to calculate puzzle number (days since epoch)
+function calculatePuzzleNumber(dateStr: string): number {
+    const date = new Date(dateStr);
+    const epoch = new Date('2024-01-01');
+    return Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+// Helper function to get or assign today's puzzle
+async function getOrAssignDailyPuzzle(date: string): Promise<Puzzle | null> {
+    // Check if already assigned
+    let dailyPuzzle = await dbOperations.getDailyPuzzle(date);
+
+    if (!dailyPuzzle) {
+        // Generate deterministic puzzle selection based on date
+        // Use a simple hash of the date string
+        let hash = 0;
+        for (let i = 0; i < date.length; i++) {
+            const char = date.charCodeAt(i);
+            hash = ((hash << 5) - hash) + char;
+            hash = hash & hash; // Convert to 32bit integer
+        }
+        const puzzleIndex = Math.abs(hash) % puzzles.length;
+        const selectedPuzzle = puzzles[puzzleIndex];
+
+        // Save to database
+        await dbOperations.setDailyPuzzle(selectedPuzzle.id, date);
+        dailyPuzzle = await dbOperations.getDailyPuzzle(date);
+    }
+
+    if (!dailyPuzzle) return null;
+
+    // Return the actual puzzle data
+    return puzzles.find(p => p.id === dailyPuzzle!.puzzle_id) || null;
+}
+
+// ==================== CORRESPONDENCE GAMES ====================
+
+// Vacation days each player may take per calendar year
+const VACATION_DAYS_PER_YEAR = 14;
+// Limits on the conditional moves one player may queue in a game
+const MAX_CONDITIONAL_LINES = 20;
+const MAX_CONDITIONAL_PLIES = 10;
+
+// Send an event to every socket a user is signed in on
+function emitToUser(userId: string, event: string, payload: unknown) {
+    for (const [socketId, info] of authenticatedSockets) {
+        if (info.userId === userId) io.to(socketId).emit(event, payload);
+    }
+}
+
+// Vacation days left this year and the end of any vacation in progress
+async function getVacation(userId: string): Promise<{ daysLeft: number; until: Date | null }> {
+    const status = await dbOperations.getVacationStatus(userId);
+    const year = new Date().getUTCFullYear();
+    const daysLeft = status?.vacation_year === year && status.vacation_days_left !== null
+        ? status.vacation_days_left
+        : VACATION_DAYS_PER_YEAR;
+    const until = status?.vacation_until ? new Date(status.vacation_until) : null;
+    return { daysLeft, until: until && until > new Date() ? until : null };
+}
+
+// A game as one player may see it: their own conditional moves only
+function correspondenceGameFor(game: CorrespondenceGame, userId: string) {
+    const color = game.white_id === userId ? 'white' : 'black';
+    return { ...game, conditional_moves: game.conditional_moves?.[color] || [] };
+}
+
+// Tell both players the game changed (move, draw offer, start or finish)
+async function broadcastCorrespondenceGame(gameId: string) {
+    const game = await dbOperations.getCorrespondenceGame(gameId);
+    if (!game) return;
+    emitToUser(game.white_id, 'correspondence_game_updated', { game: correspondenceGameFor(game, game.white_id) });
+    emitToUser(game.black_id, 'correspondence_game_updated', { game: correspondenceGameFor(game, game.black_id) });
+}
+
+// Save a move already played on `board` and hand the turn over. If the opponent
+// prepared a reply to this move it is played straight away, the same as a premove.
+// Returns false if a concurrent submission took the turn first.
+async function commitCorrespondenceMove(game: CorrespondenceGame, board: Chess, color: 'white' | 'black'): Promise<boolean> {
+    const variantState = updateVariantState(board, game.variant_state as VariantState, color);
+    const opponentColor = color === 'white' ? 'black' : 'white';
+    const opponentId = color === 'white' ? game.black_id : game.white_id;
+    const opponentVacation = await getVacation(opponentId);
+    const deadline = correspondenceDeadline(game.days_per_move, new Date(), opponentVacation.until);
+
+    if (!await dbOperations.updateCorrespondenceGameMove(game.id, game.move_count, board.fen(), board.pgn(), variantState, deadline)) {
+        return false;
+    }
+
+    const variantResult = getVariantResult(board, variantState);
+    if (variantResult.gameOver) {
+        const gameResult = variantResult.winner === 'white' ? '1-0' : variantResult.winner === 'black' ? '0-1' : '1/2-1/2';
+        await finishCorrespondenceGame(game, gameResult, gameOverReason(variantResult.reason), board.pgn());
+        return true;
+    }
+
+    // Follow the opponent's conditional lines that start with this move
+    const history = board.history();
+    const san = history[history.length - 1];
+    const lines = (game.conditional_moves?.[opponentColor] || []).filter(line => line[0] === san);
+    const reply = lines.length > 0 ? lines[0][1] : null;
+    let replied = false;
+    if (reply) {
+        try {
+            replied = !!board.move(reply);
+        } catch {
+            replied = false;
+        }
+    }
+
+    if (lines.length > 0 || game.conditional_moves?.[opponentColor]) {
+        const remaining = lines.map(line => line.slice(2)).filter(line => line.length >= 2);
+        await dbOperations.setCorrespondenceConditionalMoves(game.id, opponentColor, replied && remaining.length > 0 ? remaining : null);
+    }
+
+    if (replied) {
+        const updated = await dbOperations.getCorrespondenceGame(game.id);
+        if (updated && await commitCorrespondenceMove(updated, board, opponentColor)) return true;
+    }
+
+    await broadcastCorrespondenceGame(game.id);
+    return true;
+}
+
+// Record the result of a correspondence game, with rating changes if it was rated
+async function finishCorrespondenceGame(game: CorrespondenceGame, result: '1-0' | '0-1' | '1/2-1/2', reason: string, pgn: string) {
+    if (!await dbOperations.finishCorrespondenceGame(game.id, result, reason)) return;
+
+    const { whiteChange, blackChange } = game.rated
+        ? await applyRatingChanges(game.white_id, game.black_id, result, game.game_id, ratingPool('correspondence', game.variant))
+        : { whiteChange: 0, blackChange: 0 };
+    if (game.game_id) {
+        await dbOperations.endGame(game.game_id, pgn, result, whiteChange, blackChange);
+    }
+
+    await broadcastCorrespondenceGame(game.id);
+    console.log(`Correspondence game ${game.id} finished ${result} (${reason})`);
+}
+
+// Flag the players who let their move deadline pass
+async function enforceCorrespondenceDeadlines() {
+    for (const game of await dbOperations.getOverdueCorrespondenceGames()) {
+        const whiteToMove = game.move_count % 2 === 0;
+        await finishCorrespondenceGame(game, whiteToMove ? '0-1' : '1-0', 'timeout', game.pgn);
+    }
+}
+
+// ==================== MATCHMAKING ====================
+
+// How often the queue is paired again as waiting players' rating windows widen
+const MATCHMAKING_INTERVAL_MS = 3000;
+// Seconds in the queue before a player is offered a rated game against the engine (0 turns this off)
+const MATCHMAKING_BOT_FALLBACK_SECONDS = parseInt(process.env.MATCHMAKING_BOT_FALLBACK_SECONDS || '60', 10) || 0;
+// Weight of the latest wait in each queue's average, for the estimated wait
+const MATCHMAKING_WAIT_SMOOTHING = 0.3;
+
+type QueuedEntry = QueueEntry & QueuedPlayer;
+
+// Average wait (ms) until a pairing, per queue
+const queueWaitAverage = new Map<string, number>();
+// Players already offered a bot game during their current wait
+const botOffered = new Set<string>();
+let matchmakingRunning = false;
+let matchmakingPending = false;
+
+// Pair everyone who can be paired, then tell those still waiting where they stand
+async function runMatchmaking() {
+    if (matchmakingRunning) {
+        matchmakingPending = true;
+        return;
+    }
+    matchmakingRunning = true;
+    try {
+        do {
+            matchmakingPending = false;
+            await pairMatchmakingQueues();
+        } while (matchmakingPending);
+    } catch (error) {
+        console.error('Matchmaking error:', error);
+    } finally {
+        matchmakingRunning = false;
+    }
+}
+
+async function pairMatchmakingQueues() {
+    const now = new Date();
+    const queues = new Map<string, QueuedEntry[]>();
+    for (const entry of await dbOperations.getQueueEntries()) {
+        // Entries whose socket is gone are left for the purge job
+        if (!io.sockets.sockets.has(entry.socket_id)) continue;
+        const key = queueKey(entry.time_control, entry.variant);
+        const queue = queues.get(key) || [];
+        queue.push({ ...entry, userId: entry.user_id, joinedAt: new Date(entry.joined_at) });
+        queues.set(key, queue);
+    }
+
+    for (const [key, queue] of queues) {
+        const pairs = pairQueue(queue, now);
+        for (const [first, second] of pairs) {
+            if (!await dbOperations.removeQueuePair(first.user_id, second.user_id)) continue;
+            for (const player of [first, second]) {
+                recordQueueWait(key, now.getTime() - player.joinedAt.getTime());
+                botOffered.delete(player.user_id);
+            }
+            await startMatch(first, second);
+        }
+
+        const paired = new Set(pairs.flat());
+        queue.filter(entry => !paired.has(entry)).forEach((entry, i) => notifyQueueStatus(key, entry, i + 1, now));
+    }
+}
+
+function recordQueueWait(key: string, waited: number) {
+    const previous = queueWaitAverage.get(key);
+    queueWaitAverage.set(key, previous === undefined ? waited : previous + MATCHMAKING_WAIT_SMOOTHING * (waited - previous));
+}
+
+// Queue position, current rating window and estimated wait; plus the bot offer once it is due
+function notifyQueueStatus(key: string, entry: QueuedEntry, position: number, now: Date) {
+    const waited = now.getTime() - entry.joinedAt.getTime();
+    const average = queueWaitAverage.get(key);
+    io.to(entry.socket_id).emit('matchmaking_waiting', {
+        position,
+        timeControl: entry.time_control,
+        variant: entry.variant,
+        ratingWindow: ratingWindow(waited),
+        // Seconds, or null until this queue has paired anyone
+        estimatedWait: average === undefined ? null : Math.ceil(Math.max(0, average - waited) / 1000)
+    });
+
+    if (MATCHMAKING_BOT_FALLBACK_SECONDS > 0 && waited >= MATCHMAKING_BOT_FALLBACK_SECONDS * 1000 && !botOffered.has(entry.user_id) &&
+        engineCanPlay(entry.variant as VariantType)) {
+        botOffered.add(entry.user_id);
+        const difficulty = botForRating(entry.rating);
+        io.to(entry.socket_id).emit('matchmaking_bot_offer', { difficulty, rating: BOT_RATINGS[difficulty] });
+    }
+}
+
+// Start a rated game between two players taken off the queue
+async function startMatch(first: QueuedEntry, second: QueuedEntry) {
+    const timeControl = resolveTimeControl(first.time_control);
+    if (!timeControl) return;
+    const variant = first.variant as VariantType;
+
+    // Whoever has had Black more often lately gets White
+    const firstWhite = firstPlaysWhite(
+        await dbOperations.getRecentColors(first.user_id, COLOR_HISTORY_GAMES),
+        await dbOperations.getRecentColors(second.user_id, COLOR_HISTORY_GAMES)
+    );
+    const white = firstWhite ? first : second;
+    const black = firstWhite ? second : first;
+    const whiteUser = await dbOperations.getUserById(white.user_id);
+    const blackUser = await dbOperations.getUserById(black.user_id);
+
+    const code = generateRoomCode();
+    const { game, state: variantState } = createVariantGame(variant);
+    const room: Room = {
+        game,
+        players: {
+            white: white.socket_id,
+            black: black.socket_id,
+            spectators: []
+        },
+        code,
+        timeControl,
+        clock: initializeClock(timeControl),
+        whiteUserId: white.user_id,
+        blackUserId: black.user_id,
+        variant,
+        variantState
+    };
+
+    const dbGame = await dbOperations.createGame(code, white.user_id, black.user_id, timeControl.type, white.rating, black.rating, variant);
+    room.dbGameId = dbGame.id;
+
+    rooms.set(code, room);
+    saveRoom(room);
+    socketToRoom.set(white.socket_id, code);
+    socketToRoom.set(black.socket_id, code);
+    io.sockets.sockets.get(white.socket_id)?.join(code);
+    io.sockets.sockets.get(black.socket_id)?.join(code);
+
+    io.to(white.socket_id).emit('match_found', {
+        roomCode: code,
+        color: 'white',
+        opponent: { username: blackUser?.username, rating: black.rating },
+        timeControl: first.time_control,
+        variant
+    });
+    io.to(black.socket_id).emit('match_found', {
+        roomCode: code,
+        color: 'black',
+        opponent: { username: whiteUser?.username, rating: white.rating },
+        timeControl: first.time_control,
+        variant
+    });
+    sendInitialState(room, code);
+
+    console.log(`Match found: ${whiteUser?.username} vs ${blackUser?.username} in room ${code} - ${first.time_control} - ${variant}`);
+}
+
+// Start a rated game against the engine for a player who waited out the fallback
+async function startBotMatch(entry: QueueEntry) {
+    const timeControl = resolveTimeControl(entry.time_control);
+    if (!timeControl) return;
+    const variant = entry.variant as VariantType;
+    const difficulty = botForRating(entry.rating);
+    const botRating = BOT_RATINGS[difficulty];
+
+    const humanColor = firstPlaysWhite(await dbOperations.getRecentColors(entry.user_id, COLOR_HISTORY_GAMES), []) ? 'white' : 'black';
+    const computerColor = humanColor === 'white' ? 'black' : 'white';
+
+    const code = generateRoomCode();
+    const { game, state: variantState } = createVariantGame(variant);
+    const room: Room = {
+        game,
+        players: humanColor === 'white'
+            ? { white: entry.socket_id, black: 'computer', spectators: [] }
+            : { white: 'computer', black: entry.socket_id, spectators: [] },
+        code,
+        timeControl,
+        clock: initializeClock(timeControl),
+        whiteUserId: humanColor === 'white' ? entry.user_id : undefined,
+        blackUserId: humanColor === 'black' ? entry.user_id : undefined,
+        variant,
+        variantState,
+        isComputerGame: true,
+        computerColor,
+        computerDifficulty: difficulty,
+        ratedBot: true
+    };
+
+    const dbGame = await dbOperations.createGame(
+        code,
+        room.whiteUserId || null,
+        room.blackUserId || null,
+        timeControl.type,
+        humanColor === 'white' ? entry.rating : botRating,
+        humanColor === 'black' ? entry.rating : botRating,
+        variant
+    );
+    room.dbGameId = dbGame.id;
+
+    rooms.set(code, room);
+    saveRoom(room);
+    socketToRoom.set(entry.socket_id, code);
+    io.sockets.sockets.get(entry.socket_id)?.join(code);
+
+    io.to(entry.socket_id).emit('match_found', {
+        roomCode: code,
+        color: humanColor,
+        opponent: { username: `Computer (${difficulty})`, rating: botRating },
+        timeControl: entry.time_control,
+        variant,
+        isComputerGame: true
+    });
+    sendInitialState(room, code);
+
+    console.log(`Rated bot game ${code}: ${entry.user_id} (${humanColor}) vs Computer (${difficulty}) - ${entry.time_control} - ${variant}`);
+
+    if (computerColor === 'white') {
+        makeComputerMove(room, code);
+    }
+}
+
+// Starting position and clocks for a freshly paired room
+function sendInitialState(room: Room, code: string) {
+    io.to(code).emit('game_state', {
+        pgn: room.game.pgn(),
+        fen: room.game.fen(),
+        lastMove: null,
+        variant: room.variant,
+        variantState: room.variantState
+    });
+    io.to(code).emit('clock_update', {
+        white: room.clock.white,
+        black: room.clock.black,
+        activeColor: null
+    });
+}
+
+function startMatchmaking() {
+    setInterval(() => runMatchmaking(), MATCHMAKING_INTERVAL_MS);
+}
+
+// ==================== SCHEDULED JOBS ====================
+
+// How long a paired game may sit unplayed before it is forfeited
+const TOURNAMENT_GAME_DEADLINE_MINUTES = 15;
+const ARENA_GAME_DEADLINE_MINUTES = 3;
+const LEAGUE_MATCH_DEADLINE_DAYS = 7;
+// Matchmaking entries waiting longer than this are dropped
+const MATCHMAKING_QUEUE_MAX_MINUTES = 30;
+
+// Check whether a player has sat down at the board of a game room: still
+// connected, or away with their seat held (as everyone is after a restart)
+function isSeated(roomCode: string | null, color: 'white' | 'black'): boolean {
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!room) return false;
+    const socketId = room.players[color];
+    if (socketId && io.sockets.sockets.has(socketId)) return true;
+    return !!room.seatsTaken?.[color] && !!room.absent?.[color];
+}
+
+// Remember that a player sat down, so a restart cannot make a no-show of them
+function recordSeatTaken(room: Room, color: 'white' | 'black') {
+    if (room.seatsTaken?.[color]) return;
+    room.seatsTaken = { ...room.seatsTaken, [color]: true };
+    saveRoom(room);
+}
+
+// Result of an unplayed game: whoever turned up wins, a double no-show scores 0-0
+function forfeitResult(roomCode: string | null): string | null {
+    const white = isSeated(roomCode, 'white');
+    const black = isSeated(roomCode, 'black');
+    if (white && black) return null;  // Both here, the game is about to start
+    if (white) return '1-0';
+    if (black) return '0-1';
+    return '0-0';
+}
+
+// Tell a player still waiting in a forfeited room, then close it
+function closeForfeitedRoom(roomCode: string | null, result: string) {
+    const room = roomCode ? rooms.get(roomCode) : undefined;
+    if (!roomCode || !room) return;
+    stopClock(room);
+    cancelEngineJob(computerMoveKey(roomCode));
+    io.to(roomCode).emit('game_over', {
+        reason: 'forfeit',
+        winner: result === '1-0' ? 'white' : result === '0-1' ? 'black' : 'draw',
+        result,
+        ratingChanges: null
+    });
+    rooms.delete(roomCode);
+    discardRoom(roomCode);
+}
+
+// Start a tournament at its scheduled time, or cancel it if too few players signed up
+async function startScheduledTournament(tournamentId: string) {
+    const tournament = await dbOperations.getTournamentById(tournamentId);
+    if (!tournament || tournament.status !== 'upcoming') return;
+
+    const participants = await dbOperations.getTournamentParticipants(tournamentId);
+    if (participants.length < 2) {
+        await dbOperations.updateTournamentStatus(tournamentId, 'cancelled', 0, 0, new Date().toISOString());
+        io.emit('tournaments_updated');
+        console.log(`Tournament ${tournamentId}: cancelled at start time (${participants.length} participants)`);
+        return;
+    }
+
+    await dbOperations.updateTournamentStatus(tournamentId, 'active', 1, 0, null);
+    const pairings = await beginTournament(tournamentId);
+    io.emit('tournament_started', { success: true, tournamentId, pairings });
+    io.emit('tournaments_updated');
+    console.log(`Tournament ${tournamentId}: started on schedule`);
+}
+
+// Start the deadline clock on newly playable games and forfeit the ones that ran out
+async function enforceGameDeadlines() {
+    await dbOperations.assignTournamentGameDeadlines(TOURNAMENT_GAME_DEADLINE_MINUTES, ARENA_GAME_DEADLINE_MINUTES);
+    await dbOperations.assignLeagueMatchDeadlines(LEAGUE_MATCH_DEADLINE_DAYS);
+
+    for (const game of await dbOperations.getOverdueTournamentGames()) {
+        const result = forfeitResult(game.room_code);
+        if (!result) continue;
+        closeForfeitedRoom(game.room_code, result);
+        await recordTournamentGameResult(game.id, game.white_id, game.black_id, result, null);
+        console.log(`Tournament ${game.tournament_id}: game ${game.id} forfeited (${result})`);
+    }
+
+    for (const match of await dbOperations.getOverdueLeagueMatches()) {
+        const result = forfeitResult(match.room_code);
+        if (!result) continue;
+        closeForfeitedRoom(match.room_code, result);
+        await recordLeagueMatchResult(match.id, match.home_id, match.away_id, result, null);
+        console.log(`League ${match.league_id}: match ${match.id} forfeited (${result})`);
+    }
+
+    // Catch up on rounds that finished while the server was down
+    for (const tournament of await dbOperations.getActiveTournaments(100, 0)) {
+        await advanceTournamentIfRoundComplete(tournament.id);
+    }
+    for (const league of await dbOperations.getActiveLeagues(100, 0)) {
+        await advanceLeagueIfRoundComplete(league.id);
+    }
+}
+
+// Pick the new daily puzzle and let open clients know
+async function rotateDailyPuzzle() {
+    const today = getTodayUTC();
+    const puzzle = await getOrAssignDailyPuzzle(today);
+    if (!puzzle) throw new Error(`No daily puzzle available for ${today}`);
+    io.emit('daily_puzzle_rotated', { date: today, puzzleNumber: calculatePuzzleNumber(today) });
+}
+
+// Drop queue entries whose socket is gone or that have waited too long
+async function purgeMatchmakingQueue() {
+    const liveSocketIds = Array.from(io.sockets.sockets.keys());
+    const purged = await dbOperations.purgeStaleQueueEntries(MATCHMAKING_QUEUE_MAX_MINUTES, liveSocketIds);
+    if (purged > 0) console.log(`Matchmaking: purged ${purged} stale queue entries`);
+}
+
+registerJobHandler('tournament_start', job => startScheduledTournament(job.payload.tournamentId as string));
+registerJobHandler('arena_end', job => closeArena(job.payload.tournamentId as string));
+registerJobHandler('enforce_game_deadlines', () => enforceGameDeadlines());
+registerJobHandler('rotate_daily_puzzle', () => rotateDailyPuzzle());
+registerJobHandler('purge_matchmaking_queue', () => purgeMatchmakingQueue());
+registerJobHandler('enforce_correspondence_deadlines', () => enforceCorrespondenceDeadlines());
+
+// Register the recurring jobs (kept as they are if they already exist) and start polling
+async function startJobScheduler() {
+    const now = new Date();
+    const nextMidnight = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+    await ensureRecurringJob('enforce_game_deadlines', 'enforce_game_deadlines', now, 60);
+    await ensureRecurringJob('rotate_daily_puzzle', 'rotate_daily_puzzle', nextMidnight, 24 * 60 * 60);
+    await ensureRecurringJob('purge_matchmaking_queue', 'purge_matchmaking_queue', now, 5 * 60);
+    await ensureRecurringJob('enforce_correspondence_deadlines', 'enforce_correspondence_deadlines', now, 60);
+    startScheduler();
+}
+
+io.on('connection', (socket) => {
+    console.log('User connected:', socket.id);
+
+    // Answer to our latest lag_ping; the round trip is measured on the server's clock only
+    socket.on('lag_pong', ({ sentAt }: { sentAt: number }) => {
+        if (sentAt !== lagPingSentAt) return;
+        recordPing(socket.id, Date.now() - sentAt);
+    });
 
-            const code = generateRoomCode();
-            const tc = TIME_CONTROLS[timeControl];
+    // ==================== SOCKET AUTHENTICATION ====================
+
+    // Authenticate socket with JWT token
+    socket.on('authenticate', async ({ token }: { token: string }) => {
+        const user = await auth.getUserFromToken(token);
+        if (user) {
+            authenticatedSockets.set(socket.id, {
+                userId: user.id,
+                username: user.username,
+                rating: user.rating
+            });
+            socket.emit('authenticated', {
+                success: true,
+                user: {
+                    id: user.id,
+                    username: user.username,
+                    rating: user.rating
+                }
+            });
+            console.log(`Socket ${socket.id} authenticated as ${user.username}`);
+            rejoinHeldSeats(socket, user.id);
+        } else {
+            socket.emit('authenticated', { success: false, message: 'Invalid token' });
+        }
+    });
 
-            // Get both users
-            const user1 = await dbOperations.getUserById(authInfo.userId);
-            const user2 = await dbOperations.getUserById(match.user_id);
+    // Logout (clear socket authentication)
+    socket.on('logout', async () => {
+        authenticatedSockets.delete(socket.id);
+        // Also remove from matchmaking queue
+        await dbOperations.removeFromQueueBySocket(socket.id);
+        socket.emit('logged_out', { success: true });
+    });
 
-            // Randomly assign colors
-            const user1White = Math.random() < 0.5;
-            const whiteUser = user1White ? user1 : user2;
-            const blackUser = user1White ? user2 : user1;
-            const whiteSocketId = user1White ? socket.id : match.socket_id;
-            const blackSocketId = user1White ? match.socket_id : socket.id;
+    // ==================== MATCHMAKING ====================
 
-            // Create the room (matchmaking always uses standard variant for now)
-            const room: Room = {
-                game: new Chess(),
-                players: {
-                    white: whiteSocketId,
-                    black: blackSocketId,
-                    spectators: []
-                },
-                code,
-                timeControl: tc,
-                clock: initializeClock(tc),
-                whiteUserId: whiteUser?.id,
-                blackUserId: blackUser?.id,
-                variant: 'standard',
-                variantState: { variant: 'standard' }
-            };
+    // Join matchmaking queue
+    socket.on('join_matchmaking', async ({ timeControl: requestedTimeControl, variant: requestedVariant }: { timeControl: string; variant?: VariantType }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to use matchmaking' });
+            return;
+        }
 
-            // Create database game record
-            const dbGame = await dbOperations.createGame(
-                code,
-                whiteUser?.id || null,
-                blackUser?.id || null,
-                timeControl,
-                whiteUser?.rating || null,
-                blackUser?.rating || null
-            );
-            room.dbGameId = dbGame.id;
+        // Presets keep their names in the queue; custom controls queue under their canonical string
+        const tc = resolveTimeControl(requestedTimeControl);
+        if (!tc || tc.type === 'unlimited') {
+            socket.emit('error', { message: 'Invalid time control' });
+            return;
+        }
+        const formatted = formatTimeControl(tc);
+        const timeControl = Object.values(TIME_CONTROLS).find(preset => formatTimeControl(preset) === formatted)?.type || formatted;
 
-            rooms.set(code, room);
-            socketToRoom.set(whiteSocketId, code);
-            socketToRoom.set(blackSocketId, code);
+        const variant = requestedVariant || 'standard';
+        if (!VARIANT_TYPES.includes(variant) || variant === 'bughouse') {
+            socket.emit('error', { message: 'Invalid variant' });
+            return;
+        }
 
-            // Join both sockets to the room
-            const whiteSocket = io.sockets.sockets.get(whiteSocketId);
-            const blackSocket = io.sockets.sockets.get(blackSocketId);
+        // Players are paired on their rating in this time control and variant's pool
+        const poolRating = await dbOperations.getPoolRating(authInfo.userId, ratingPool(tc.type, variant));
+        const rating = Math.round(poolRating?.rating ?? authInfo.rating);
 
-            if (whiteSocket) whiteSocket.join(code);
-            if (blackSocket) blackSocket.join(code);
+        await dbOperations.addToQueue(authInfo.userId, socket.id, rating, timeControl, variant);
+        botOffered.delete(authInfo.userId);
+        socket.emit('matchmaking_joined', { timeControl, variant, rating, ratingWindow: ratingWindow(0) });
 
-            // Notify both players
-            io.to(whiteSocketId).emit('match_found', {
-                roomCode: code,
-                color: 'white',
-                opponent: { username: blackUser?.username, rating: blackUser?.rating },
-                timeControl
-            });
-            io.to(blackSocketId).emit('match_found', {
-                roomCode: code,
-                color: 'black',
-                opponent: { username: whiteUser?.username, rating: whiteUser?.rating },
-                timeControl
-            });
+        await runMatchmaking();
+    });
 
-            // Send initial game state
-            io.to(code).emit('game_state', { pgn: room.game.pgn(), fen: room.game.fen(), lastMove: null });
-            io.to(code).emit('clock_update', {
-                white: room.clock.white,
-                black: room.clock.black,
-                activeColor: null
-            });
+    // Take up the rated bot game offered after a long wait
+    socket.on('accept_bot_match', async () => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to use matchmaking' });
+            return;
+        }
 
-            console.log(`Match found: ${whiteUser?.username} vs ${blackUser?.username} in room ${code}`);
-        } else {
-            // No match yet, notify position in queue
-            const position = await dbOperations.getQueuePosition(authInfo.userId, timeControl);
-            socket.emit('matchmaking_waiting', { position, timeControl });
+        const entry = await dbOperations.getQueueEntry(authInfo.userId);
+        if (!entry || !botOffered.has(authInfo.userId)) {
+            socket.emit('error', { message: 'No bot game on offer' });
+            return;
         }
+
+        await dbOperations.removeFromQueue(authInfo.userId);
+        botOffered.delete(authInfo.userId);
+        await startBotMatch({ ...entry, socket_id: socket.id });
     });
 
     // Leave matchmaking queue
@@ -1678,19 +4029,29 @@ io.on('connection', (socket) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (authInfo) {
             await dbOperations.removeFromQueue(authInfo.userId);
+            botOffered.delete(authInfo.userId);
             socket.emit('matchmaking_left', { success: true });
         }
     });
 
     // Create a new room
-    socket.on('create_room', ({ timeControl: timeControlType, variant: variantType }: { timeControl?: TimeControlType; variant?: VariantType } = {}) => {
+    socket.on('create_room', ({ timeControl: timeControlType, variant: variantType, odds: oddsRequest }: { timeControl?: string; variant?: VariantType; odds?: GameOdds } = {}) => {
+        const baseTimeControl = resolveTimeControl(timeControlType);
+        if (!baseTimeControl) {
+            socket.emit('error', { message: 'Invalid time control' });
+            return;
+        }
         const code = generateRoomCode();
-        const timeControl = TIME_CONTROLS[timeControlType || 'rapid'];
         const authInfo = authenticatedSockets.get(socket.id);
         const variant = variantType || 'standard';
+        const { odds, timeControl, error: oddsError } = resolveOdds(oddsRequest, variant, baseTimeControl);
+        if (oddsError) {
+            socket.emit('error', { message: oddsError });
+            return;
+        }
 
         // Create variant-specific game
-        const { game, state: variantState } = createVariantGame(variant);
+        const { game, state: variantState } = createRoomGame(variant, odds);
 
         const room: Room = {
             game,
@@ -1700,20 +4061,24 @@ io.on('connection', (socket) => {
             clock: initializeClock(timeControl),
             whiteUserId: authInfo?.userId,
             variant,
-            variantState
+            variantState,
+            odds
         };
         rooms.set(code, room);
+        // Bughouse: the second board opens alongside, for the other pair to join by its code
+        const partner = variant === 'bughouse' ? createBughousePartner(room) : undefined;
+        saveRoom(room);
         socketToRoom.set(socket.id, code);
 
         socket.join(code);
-        socket.emit('room_created', { code, timeControl, variant, variantState });
+        socket.emit('room_created', { code, timeControl, variant, variantState: room.variantState, partnerCode: partner?.code, odds });
         socket.emit('player_assigned', { color: 'white' });
         socket.emit('game_state', {
             pgn: room.game.pgn(),
             fen: room.game.fen(),
             lastMove: null,
             variant,
-            variantState
+            variantState: room.variantState
         });
         socket.emit('clock_update', {
             white: room.clock.white,
@@ -1721,7 +4086,7 @@ io.on('connection', (socket) => {
             activeColor: null
         });
 
-        console.log(`Room ${code} created by ${socket.id} (${authInfo?.username || 'anonymous'}) (white) - ${timeControl.type} - ${variant}`);
+        console.log(`Room ${code} created by ${socket.id} (${authInfo?.username || 'anonymous'}) (white) - ${timeControl.type} - ${variant}${odds ? ' - odds' : ''}`);
     });
 
     // Create a game against the computer
@@ -1729,22 +4094,41 @@ io.on('connection', (socket) => {
         timeControl: timeControlType,
         variant: variantType,
         playerColor,
-        difficulty
+        difficulty,
+        odds: oddsRequest
     }: {
-        timeControl?: TimeControlType;
+        timeControl?: string;
         variant?: VariantType;
         playerColor?: 'white' | 'black';
         difficulty?: Difficulty;
+        odds?: GameOdds;
     } = {}) => {
+        const baseTimeControl = resolveTimeControl(timeControlType);
+        if (!baseTimeControl) {
+            socket.emit('error', { message: 'Invalid time control' });
+            return;
+        }
+        const variant = variantType || 'standard';
+        if (variant === 'bughouse') {
+            socket.emit('error', { message: 'Bughouse needs four players' });
+            return;
+        }
+        if (!engineCanPlay(variant)) {
+            socket.emit('error', { message: 'The computer does not play Crazyhouse' });
+            return;
+        }
+        const { odds, timeControl, error: oddsError } = resolveOdds(oddsRequest, variant, baseTimeControl);
+        if (oddsError) {
+            socket.emit('error', { message: oddsError });
+            return;
+        }
         const code = generateRoomCode();
-        const timeControl = TIME_CONTROLS[timeControlType || 'rapid'];
         const authInfo = authenticatedSockets.get(socket.id);
-        const variant = variantType || 'standard';
         const humanColor = playerColor || 'white';
         const computerColor = humanColor === 'white' ? 'black' : 'white';
 
         // Create variant-specific game
-        const { game, state: variantState } = createVariantGame(variant);
+        const { game, state: variantState } = createRoomGame(variant, odds);
 
         const room: Room = {
             game,
@@ -1760,9 +4144,11 @@ io.on('connection', (socket) => {
             variantState,
             isComputerGame: true,
             computerColor,
-            computerDifficulty: difficulty || 'intermediate'
+            computerDifficulty: difficulty || 'intermediate',
+            odds
         };
         rooms.set(code, room);
+        saveRoom(room);
         socketToRoom.set(socket.id, code);
 
         socket.join(code);
@@ -1772,7 +4158,8 @@ io.on('connection', (socket) => {
             variant,
             variantState,
             isComputerGame: true,
-            computerDifficulty: difficulty || 'intermediate'
+            computerDifficulty: difficulty || 'intermediate',
+            odds
         });
         socket.emit('player_assigned', { color: humanColor });
         socket.emit('game_state', {
@@ -1819,7 +4206,8 @@ io.on('connection', (socket) => {
                 color: existingColor,
                 timeControl: room.timeControl,
                 variant: room.variant,
-                variantState: room.variantState
+                variantState: room.variantState,
+                odds: room.odds
             });
             socket.emit('player_assigned', { color: existingColor });
             socket.emit('game_state', {
@@ -1855,22 +4243,39 @@ io.on('connection', (socket) => {
             }
         }
 
+        // A player coming back to the seat held for them since they disconnected
+        const heldSeat = authInfo
+            ? (['white', 'black'] as const).find(c =>
+                room.absent?.[c] && !room.players[c] && (c === 'white' ? room.whiteUserId : room.blackUserId) === authInfo.userId)
+            : undefined;
+        if (heldSeat) {
+            reclaimSeat(socket, room, roomCode, heldSeat);
+            socket.to(roomCode).emit('player_joined', { color: heldSeat });
+            broadcastSpectatorUpdate(roomCode, room);
+            console.log(`User ${socket.id} (${authInfo?.username}) reconnected to room ${roomCode} as ${heldSeat}`);
+            return;
+        }
+
         socket.join(roomCode);
         socketToRoom.set(socket.id, roomCode);
 
-        // Assign color: first empty slot, or spectator
+        // Assign color: the player's own seat, else the first free slot, else spectator
+        const ownSeat = authInfo && room.game.history().length > 0
+            ? (['white', 'black'] as const).find(c =>
+                !room.players[c] && (c === 'white' ? room.whiteUserId : room.blackUserId) === authInfo.userId)
+            : undefined;
         let assignedColor: 'white' | 'black' | 'spectator';
-        if (!room.players.white) {
+        if (ownSeat !== 'black' && canTakeSeat(room, 'white', authInfo?.userId)) {
             room.players.white = socket.id;
             room.whiteUserId = authInfo?.userId;
             assignedColor = 'white';
-        } else if (!room.players.black) {
+        } else if (canTakeSeat(room, 'black', authInfo?.userId)) {
             room.players.black = socket.id;
             room.blackUserId = authInfo?.userId;
             assignedColor = 'black';
 
             // Both players joined - create database game record if both authenticated
-            if (room.whiteUserId || room.blackUserId) {
+            if (!room.dbGameId && (room.whiteUserId || room.blackUserId)) {
                 const whiteUser = room.whiteUserId ? await dbOperations.getUserById(room.whiteUserId) : null;
                 const blackUser = room.blackUserId ? await dbOperations.getUserById(room.blackUserId) : null;
                 const dbGame = await dbOperations.createGame(
@@ -1879,7 +4284,9 @@ io.on('connection', (socket) => {
                     room.blackUserId || null,
                     room.timeControl.type,
                     whiteUser?.rating || null,
-                    blackUser?.rating || null
+                    blackUser?.rating || null,
+                    room.variant,
+                    room.odds || null
                 );
                 room.dbGameId = dbGame.id;
             }
@@ -1887,8 +4294,11 @@ io.on('connection', (socket) => {
             room.players.spectators.push(socket.id);
             assignedColor = 'spectator';
         }
+        if (assignedColor !== 'spectator') {
+            saveRoom(room);
+        }
 
-        socket.emit('room_joined', { code: roomCode, timeControl: room.timeControl, variant: room.variant, variantState: room.variantState });
+        socket.emit('room_joined', { code: roomCode, timeControl: room.timeControl, variant: room.variant, variantState: room.variantState, odds: room.odds });
         socket.emit('player_assigned', { color: assignedColor });
         socket.emit('game_state', {
             pgn: room.game.pgn(),
@@ -1932,6 +4342,12 @@ io.on('connection', (socket) => {
             return;
         }
 
+        // Aborted, resigned, claimed or otherwise decided
+        if (room.ended) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+
         // Can only move on your turn
         if (playerColor !== currentTurn) {
             socket.emit('error', { message: 'Not your turn' });
@@ -1943,180 +4359,59 @@ io.on('connection', (socket) => {
             return;
         }
 
-        // Generate KROG explanation before attempting the move
-        const from = move.from as Square;
-        const to = move.to as Square;
-        const krogExplanation = explainMove(room.game, from, to, move.promotion);
-
-        // Try to make the move
-        let result = null;
-        try {
-            result = room.game.move(move);
-        } catch (e) {
-            // chess.js threw an error - move is definitely illegal
-            result = null;
-        }
-
-        if (result) {
-            // Legal move
-            // Handle clock on first move
-            if (!room.clock.gameStarted && room.timeControl.type !== 'unlimited') {
-                room.clock.gameStarted = true;
-                room.clock.activeColor = 'black';  // White just moved, black's clock starts
-                room.clock.lastUpdate = Date.now();
-                startClockInterval(room, roomId);
-            } else {
-                // Switch clock (adds increment to player who moved)
-                switchClock(room, currentTurn);
-            }
-
-            // Update variant state (e.g., check count for Three-Check)
-            room.variantState = updateVariantState(room.game, room.variantState, currentTurn);
-
-            // Broadcast game state with KROG explanation (send PGN for history + last move for sounds)
-            const history = room.game.history({ verbose: true });
-            const lastMove = history[history.length - 1];
-            io.to(roomId).emit('game_state', {
-                pgn: room.game.pgn(),
-                fen: room.game.fen(),
-                lastMove: lastMove ? {
-                    san: lastMove.san,
-                    from: lastMove.from,
-                    to: lastMove.to,
-                    captured: lastMove.captured,
-                    flags: lastMove.flags,
-                    promotion: lastMove.promotion
-                } : null,
-                variant: room.variant,
-                variantState: room.variantState
-            });
-
-            // Send move explanation to all clients
-            const legalExplanation = krogExplanation as MoveExplanation;
-            // Classify R-type using KROG framework
-            const rType = classifyMoveRType(result);
-            const rTypeDescription = getRTypeDescription(rType);
-
-            // Send sanitized explanation to clients (no proprietary data)
-            io.to(roomId).emit('move_explanation', {
-                move: result.san,
-                from: result.from,
-                to: result.to,
-                krog: {
-                    operator: legalExplanation.krog.operator
-                },
-                fide: legalExplanation.fide,
-                explanation: legalExplanation.explanation,
-                conditions: legalExplanation.conditions
+        const illegal = playMove(room, roomId, move, authenticatedSockets.get(socket.id)?.userId, moveTiming(room, playerColor));
+        if (illegal) {
+            // Illegal move - send explanation for why
+            socket.emit('illegal_move', {
+                from: illegal.from,
+                to: illegal.to,
+                reason: illegal.reason,
+                fide: illegal.fide,
+                explanation: illegal.explanation
             });
+        }
+    });
 
-            // Store full KROG data server-side for neurosymbolic reasoning
-            // Track move with full formula data (not exposed to client)
-            const playerAuthInfo = authenticatedSockets.get(socket.id);
-            if (playerAuthInfo) {
-                // Fire-and-forget: don't await to avoid blocking the game
-                dbOperations.recordKrogActivity(
-                    playerAuthInfo.userId,
-                    'move',
-                    result.san,
-                    rType,
-                    legalExplanation.krog.operator
-                ).catch(err => console.error('Error recording KROG move data:', err));
-                // Full formula data available: legalExplanation.krog.formula, legalExplanation.krog.tType
-            }
+    // Queue a move to play the moment the opponent's move lands, or cancel it (move: null)
+    socket.on('set_premove', ({ roomId, move }: { roomId: string; move: Premove | null }) => {
+        const room = rooms.get(roomId);
+        if (!room) {
+            socket.emit('error', { message: 'Room not found' });
+            return;
+        }
 
-            // Persist move with R-type annotation to database (ALL games, including anonymous)
-            const gameIdForTracking = room.dbGameId || `anon_${roomId}`;
-            const moveHistory = room.game.history({ verbose: true });
-            const moveNumber = Math.ceil(moveHistory.length / 2);
-
-            // Generate KROG JSON-LD for neurosymbolic AI research
-            const krogLD = generateKROGLD({
-                san: result.san,
-                from: result.from,
-                to: result.to,
-                piece: result.piece,
-                captured: result.captured,
-                fide_ref: legalExplanation.fide ? legalExplanation.fide.article : undefined,
-                color: currentTurn,
-                game_id: gameIdForTracking
-            }, rType);
-
-            const moveRecord: MoveRecord = {
-                game_id: gameIdForTracking,
-                move_number: moveNumber,
-                color: currentTurn as 'white' | 'black',
-                san: result.san,
-                from_square: result.from,
-                to_square: result.to,
-                piece: result.piece,
-                captured: result.captured || null,
-                promotion: result.promotion || null,
-                flags: result.flags,
-                r_type: rType,
-                r_type_description: rTypeDescription.en,
-                conditions: JSON.stringify(legalExplanation.conditions || []),
-                fide_ref: legalExplanation.fide ? legalExplanation.fide.article : '',
-                move_type: legalExplanation.moveType || 'normal',
-                fen_after: room.game.fen(),
-                is_check: room.game.inCheck(),
-                is_checkmate: room.game.isCheckmate(),
-                krog_ld: JSON.stringify(krogLD)
-            };
+        const playerColor = getPlayerColor(room, socket.id);
+        if (playerColor === 'spectator') {
+            socket.emit('error', { message: 'Spectators cannot premove' });
+            return;
+        }
 
-            // Fire-and-forget persistence (don't block game flow)
-            dbOperations.insertMove(moveRecord).catch(() => {});
+        if (!move) {
+            if (room.premoves) room.premoves[playerColor] = undefined;
+            socket.emit('premove_set', { move: null });
+            return;
+        }
 
-            // Send updated clock times
-            const times = getCurrentClockTimes(room);
-            io.to(roomId).emit('clock_update', {
-                white: times.white,
-                black: times.black,
-                activeColor: room.clock.activeColor
-            });
+        if (room.ended || room.game.isGameOver()) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
 
-            // Check for variant-specific game over conditions
-            const variantResult = getVariantResult(room.game, room.variantState);
-            if (variantResult.gameOver) {
-                let gameResult: '1-0' | '0-1' | '1/2-1/2';
-                if (variantResult.winner === 'white') {
-                    gameResult = '1-0';
-                } else if (variantResult.winner === 'black') {
-                    gameResult = '0-1';
-                } else {
-                    gameResult = '1/2-1/2';
-                }
+        // On your own turn just move
+        const currentTurn = room.game.turn() === 'w' ? 'white' : 'black';
+        if (playerColor === currentTurn) {
+            socket.emit('error', { message: 'It is your turn' });
+            return;
+        }
 
-                // Map variant-specific reasons to display strings
-                const reasonMap: Record<string, string> = {
-                    'Checkmate': 'checkmate',
-                    'Stalemate': 'stalemate',
-                    'Threefold repetition': 'repetition',
-                    'Insufficient material': 'insufficient',
-                    'Fifty-move rule': 'fifty_moves',
-                    'Three checks delivered': 'three_check',
-                    'King reached the hill': 'king_of_the_hill'
-                };
-                const reason = reasonMap[variantResult.reason || ''] || variantResult.reason || 'unknown';
-
-                endGameAndUpdateRatings(room, roomId, gameResult, reason);
-            } else {
-                // Game not over - trigger computer move if applicable
-                if (room.isComputerGame) {
-                    makeComputerMove(room, roomId);
-                }
-            }
-        } else {
-            // Illegal move - send explanation for why
-            const illegalExplanation = krogExplanation as IllegalMoveExplanation;
-            socket.emit('illegal_move', {
-                from: illegalExplanation.from,
-                to: illegalExplanation.to,
-                reason: illegalExplanation.reason,
-                fide: illegalExplanation.fide,
-                explanation: illegalExplanation.explanation
-            });
+        if (typeof move.from !== 'string' || typeof move.to !== 'string') {
+            socket.emit('error', { message: 'Invalid premove' });
+            return;
         }
+
+        const premove: Premove = { from: move.from, to: move.to, promotion: move.promotion };
+        room.premoves = { ...room.premoves, [playerColor]: premove };
+        socket.emit('premove_set', { move: premove });
     });
 
     // Get KROG explanation for a potential move (Learn Mode)
@@ -2130,7 +4425,7 @@ io.on('connection', (socket) => {
             return;
         }
 
-        const explanation = explainMove(room.game, from as Square, to as Square);
+        const explanation = explainMove(room.game, from as Square, to as Square, undefined, room.variantState);
         console.log('Learn Mode: Sending explanation', explanation);
 
         // Check if it's a legal move explanation
@@ -2142,7 +4437,7 @@ io.on('connection', (socket) => {
             let rTypeDescription = getRTypeDescription(rType);
 
             if (moveInfo) {
-                rType = classifyMoveRType(moveInfo);
+                rType = classifyVariantMoveRType(moveInfo, room.variantState);
                 rTypeDescription = getRTypeDescription(rType);
             }
 
@@ -2301,14 +4596,27 @@ io.on('connection', (socket) => {
             return;
         }
 
+        // One bughouse board cannot start over without the other
+        if (room.variantState.bughouse) {
+            socket.emit('error', { message: 'Bughouse boards cannot be reset' });
+            return;
+        }
+
         // Stop and reset clock
         stopClock(room);
         room.clock = initializeClock(room.timeControl);
+        cancelEngineJob(computerMoveKey(roomId));
 
         // Reset game and variant state
-        const { game, state: variantState } = createVariantGame(room.variant, room.variantState.positionId);
+        const { game, state: variantState } = createRoomGame(room.variant, room.odds, room.variantState.positionId);
         room.game = game;
         room.variantState = variantState;
+        startMovesGame(room, roomId);
+        room.undoStack = undefined;
+        room.takebackRequest = undefined;
+        room.premoves = undefined;
+        room.ended = false;
+        room.firstMoveDeadline = undefined;
 
         io.to(roomId).emit('game_state', {
             pgn: room.game.pgn(),
@@ -2341,28 +4649,171 @@ io.on('connection', (socket) => {
             return;
         }
 
-        // Can't offer draw if game is over
-        if (room.game.isGameOver()) {
-            socket.emit('error', { message: 'Game is already over' });
+        // Can't offer draw if game is over
+        if (room.game.isGameOver()) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+
+        // Can't offer draw if there's already a pending offer from you
+        if (room.drawOffer === playerColor) {
+            socket.emit('error', { message: 'You already have a pending draw offer' });
+            return;
+        }
+
+        // Set the draw offer
+        room.drawOffer = playerColor;
+
+        // Notify both players
+        io.to(roomId).emit('draw_offered', { by: playerColor });
+        console.log(`Draw offered by ${playerColor} in room ${roomId}`);
+    });
+
+    // Accept a draw offer
+    socket.on('accept_draw', ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (!room) {
+            socket.emit('error', { message: 'Room not found' });
+            return;
+        }
+
+        const playerColor = getPlayerColor(room, socket.id);
+        if (playerColor === 'spectator') {
+            socket.emit('error', { message: 'Spectators cannot accept draws' });
+            return;
+        }
+
+        // Can only accept if opponent offered
+        if (!room.drawOffer || room.drawOffer === playerColor) {
+            socket.emit('error', { message: 'No draw offer to accept' });
+            return;
+        }
+        if (room.ended) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+
+        // Clear the draw offer
+        room.drawOffer = undefined;
+
+        // End the game as a draw with rating updates
+        io.to(roomId).emit('draw_accepted', {});
+        endGameAndUpdateRatings(room, roomId, '1/2-1/2', 'agreement');
+        console.log(`Draw accepted in room ${roomId}`);
+    });
+
+    // Decline a draw offer
+    socket.on('decline_draw', ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (!room) {
+            socket.emit('error', { message: 'Room not found' });
+            return;
+        }
+
+        const playerColor = getPlayerColor(room, socket.id);
+        if (playerColor === 'spectator') {
+            socket.emit('error', { message: 'Spectators cannot decline draws' });
+            return;
+        }
+
+        // Can only decline if opponent offered
+        if (!room.drawOffer || room.drawOffer === playerColor) {
+            socket.emit('error', { message: 'No draw offer to decline' });
+            return;
+        }
+
+        // Clear the draw offer
+        room.drawOffer = undefined;
+
+        // Notify both players
+        io.to(roomId).emit('draw_declined', { by: playerColor });
+        console.log(`Draw declined by ${playerColor} in room ${roomId}`);
+    });
+
+    // Resign the game
+    socket.on('resign', ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (!room) {
+            socket.emit('error', { message: 'Room not found' });
+            return;
+        }
+
+        const playerColor = getPlayerColor(room, socket.id);
+        if (playerColor === 'spectator') {
+            socket.emit('error', { message: 'Spectators cannot resign' });
+            return;
+        }
+
+        // Can't resign if game is over
+        if (room.ended || room.game.isGameOver()) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+
+        // Clear any pending draw offer
+        room.drawOffer = undefined;
+
+        // Determine result
+        const result = playerColor === 'white' ? '0-1' : '1-0';
+        const winner = playerColor === 'white' ? 'black' : 'white';
+
+        // End the game with rating updates
+        io.to(roomId).emit('player_resigned', { player: playerColor, winner });
+        endGameAndUpdateRatings(room, roomId, result, 'resignation');
+        console.log(`${playerColor} resigned in room ${roomId}, ${winner} wins`);
+    });
+
+    // ==================== TAKEBACKS ====================
+
+    // Ask the opponent to take back the last move
+    socket.on('request_takeback', ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (!room) {
+            socket.emit('error', { message: 'Room not found' });
+            return;
+        }
+
+        const playerColor = getPlayerColor(room, socket.id);
+        if (playerColor === 'spectator') {
+            socket.emit('error', { message: 'Spectators cannot request takebacks' });
+            return;
+        }
+
+        if (room.ended || room.game.isGameOver()) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+
+        if (!canTakeBack(room)) {
+            socket.emit('error', { message: 'Takebacks are not allowed in rated games' });
+            return;
+        }
+
+        const plies = takebackPlies(room, playerColor);
+        if (plies === 0) {
+            socket.emit('error', { message: 'No move to take back' });
+            return;
+        }
+
+        // The computer always agrees
+        if (room.isComputerGame) {
+            applyTakeback(room, roomId, plies);
+            console.log(`${playerColor} took back ${plies} ply(s) against the computer in room ${roomId}`);
             return;
         }
 
-        // Can't offer draw if there's already a pending offer from you
-        if (room.drawOffer === playerColor) {
-            socket.emit('error', { message: 'You already have a pending draw offer' });
+        if (room.takebackRequest === playerColor) {
+            socket.emit('error', { message: 'You already have a pending takeback request' });
             return;
         }
 
-        // Set the draw offer
-        room.drawOffer = playerColor;
-
-        // Notify both players
-        io.to(roomId).emit('draw_offered', { by: playerColor });
-        console.log(`Draw offered by ${playerColor} in room ${roomId}`);
+        room.takebackRequest = playerColor;
+        io.to(roomId).emit('takeback_requested', { by: playerColor });
+        console.log(`Takeback requested by ${playerColor} in room ${roomId}`);
     });
 
-    // Accept a draw offer
-    socket.on('accept_draw', ({ roomId }: { roomId: string }) => {
+    // Accept the opponent's takeback request
+    socket.on('accept_takeback', ({ roomId }: { roomId: string }) => {
         const room = rooms.get(roomId);
         if (!room) {
             socket.emit('error', { message: 'Room not found' });
@@ -2371,27 +4822,30 @@ io.on('connection', (socket) => {
 
         const playerColor = getPlayerColor(room, socket.id);
         if (playerColor === 'spectator') {
-            socket.emit('error', { message: 'Spectators cannot accept draws' });
+            socket.emit('error', { message: 'Spectators cannot accept takebacks' });
             return;
         }
 
-        // Can only accept if opponent offered
-        if (!room.drawOffer || room.drawOffer === playerColor) {
-            socket.emit('error', { message: 'No draw offer to accept' });
+        // Can only accept if opponent requested
+        const requester = room.takebackRequest;
+        if (!requester || requester === playerColor) {
+            socket.emit('error', { message: 'No takeback request to accept' });
             return;
         }
 
-        // Clear the draw offer
-        room.drawOffer = undefined;
+        const plies = room.ended || !canTakeBack(room) ? 0 : takebackPlies(room, requester);
+        if (plies === 0) {
+            room.takebackRequest = undefined;
+            socket.emit('error', { message: 'The move can no longer be taken back' });
+            return;
+        }
 
-        // End the game as a draw with rating updates
-        io.to(roomId).emit('draw_accepted', {});
-        endGameAndUpdateRatings(room, roomId, '1/2-1/2', 'agreement');
-        console.log(`Draw accepted in room ${roomId}`);
+        applyTakeback(room, roomId, plies);
+        console.log(`Takeback of ${plies} ply(s) accepted in room ${roomId}`);
     });
 
-    // Decline a draw offer
-    socket.on('decline_draw', ({ roomId }: { roomId: string }) => {
+    // Decline the opponent's takeback request
+    socket.on('decline_takeback', ({ roomId }: { roomId: string }) => {
         const room = rooms.get(roomId);
         if (!room) {
             socket.emit('error', { message: 'Room not found' });
@@ -2400,55 +4854,60 @@ io.on('connection', (socket) => {
 
         const playerColor = getPlayerColor(room, socket.id);
         if (playerColor === 'spectator') {
-            socket.emit('error', { message: 'Spectators cannot decline draws' });
+            socket.emit('error', { message: 'Spectators cannot decline takebacks' });
             return;
         }
 
-        // Can only decline if opponent offered
-        if (!room.drawOffer || room.drawOffer === playerColor) {
-            socket.emit('error', { message: 'No draw offer to decline' });
+        // Can only decline if opponent requested
+        if (!room.takebackRequest || room.takebackRequest === playerColor) {
+            socket.emit('error', { message: 'No takeback request to decline' });
             return;
         }
 
-        // Clear the draw offer
-        room.drawOffer = undefined;
-
-        // Notify both players
-        io.to(roomId).emit('draw_declined', { by: playerColor });
-        console.log(`Draw declined by ${playerColor} in room ${roomId}`);
+        room.takebackRequest = undefined;
+        io.to(roomId).emit('takeback_declined', { by: playerColor });
+        console.log(`Takeback declined by ${playerColor} in room ${roomId}`);
     });
 
-    // Resign the game
-    socket.on('resign', ({ roomId }: { roomId: string }) => {
+    // ==================== ABANDONMENT ====================
+
+    // Claim the win after the opponent failed to reconnect
+    socket.on('claim_win', ({ roomId }: { roomId: string }) => {
         const room = rooms.get(roomId);
-        if (!room) {
-            socket.emit('error', { message: 'Room not found' });
+        const check = abandonedOpponent(room, socket.id);
+        if ('error' in check) {
+            socket.emit('error', { message: check.error });
             return;
         }
 
-        const playerColor = getPlayerColor(room, socket.id);
-        if (playerColor === 'spectator') {
-            socket.emit('error', { message: 'Spectators cannot resign' });
+        room!.drawOffer = undefined;
+        const result = check.color === 'white' ? '1-0' : '0-1';
+        endGameAndUpdateRatings(room!, roomId, result, 'abandonment');
+        console.log(`${check.color} claimed the win in room ${roomId} after the opponent left`);
+    });
+
+    // Abort the game: anyone may before both sides have moved, or in a casual
+    // game after the opponent failed to reconnect
+    socket.on('abort_game', async ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (room && getPlayerColor(room, socket.id) !== 'spectator' && canAbort(room)) {
+            await abortGame(room, roomId);
+            console.log(`${getPlayerColor(room, socket.id)} aborted room ${roomId} before both sides had moved`);
             return;
         }
 
-        // Can't resign if game is over
-        if (room.game.isGameOver()) {
-            socket.emit('error', { message: 'Game is already over' });
+        const check = abandonedOpponent(room, socket.id);
+        if ('error' in check) {
+            socket.emit('error', { message: room && inAbortWindow(room) ? 'Tournament and league games cannot be aborted' : check.error });
+            return;
+        }
+        if (!canAbortAbandonedGame(room!)) {
+            socket.emit('error', { message: 'Tournament and league games cannot be aborted' });
             return;
         }
 
-        // Clear any pending draw offer
-        room.drawOffer = undefined;
-
-        // Determine result
-        const result = playerColor === 'white' ? '0-1' : '1-0';
-        const winner = playerColor === 'white' ? 'black' : 'white';
-
-        // End the game with rating updates
-        io.to(roomId).emit('player_resigned', { player: playerColor, winner });
-        endGameAndUpdateRatings(room, roomId, result, 'resignation');
-        console.log(`${playerColor} resigned in room ${roomId}, ${winner} wins`);
+        await abortGame(room!, roomId);
+        console.log(`${check.color} aborted room ${roomId} after the opponent left`);
     });
 
     // ==================== REMATCH ====================
@@ -2467,6 +4926,11 @@ io.on('connection', (socket) => {
             return;
         }
 
+        if (room.variantState.bughouse) {
+            socket.emit('error', { message: 'Start a new bughouse room for a rematch' });
+            return;
+        }
+
         // Can only request rematch if game is over
         if (!room.game.isGameOver() && !room.clock.gameStarted) {
             // Game hasn't started or isn't over - check if it was ended by resignation/draw
@@ -2510,22 +4974,32 @@ io.on('connection', (socket) => {
         // Clear the rematch request
         room.rematchRequest = undefined;
         room.drawOffer = undefined;
+        room.takebackRequest = undefined;
+        room.undoStack = undefined;
+        room.premoves = undefined;
+        room.ended = false;
+        room.firstMoveDeadline = undefined;
 
-        // Swap player colors
-        const whiteSocketId = room.players.white;
-        const blackSocketId = room.players.black;
-        room.players.white = blackSocketId;
-        room.players.black = whiteSocketId;
+        // Swap player colors, unless the odds belong to the seats
+        if (!room.odds) {
+            const whiteSocketId = room.players.white;
+            const blackSocketId = room.players.black;
+            room.players.white = blackSocketId;
+            room.players.black = whiteSocketId;
+            [room.whiteUserId, room.blackUserId] = [room.blackUserId, room.whiteUserId];
+        }
 
         // Reset the game and variant state (for Chess960, generate new position)
         const newPositionId = room.variant === 'chess960' ? undefined : room.variantState.positionId;
-        const { game, state: variantState } = createVariantGame(room.variant, newPositionId);
+        const { game, state: variantState } = createRoomGame(room.variant, room.odds, newPositionId);
         room.game = game;
         room.variantState = variantState;
+        startMovesGame(room, roomId);
 
         // Reset the clock
         stopClock(room);
         room.clock = initializeClock(room.timeControl);
+        saveRoom(room);
 
         // Notify players of their new colors
         if (room.players.white) {
@@ -2550,7 +5024,7 @@ io.on('connection', (socket) => {
             activeColor: null
         });
 
-        console.log(`Rematch accepted in room ${roomId}, colors swapped`);
+        console.log(`Rematch accepted in room ${roomId}${room.odds ? ', same colors for the odds' : ', colors swapped'}`);
     });
 
     // Decline a rematch request
@@ -2582,7 +5056,7 @@ io.on('connection', (socket) => {
     });
 
     // Get move suggestions for current position
-    socket.on('suggest_moves', ({ roomId, context, limit }: { roomId: string; context?: ScoringContext; limit?: number }) => {
+    socket.on('suggest_moves', async ({ roomId, context, limit }: { roomId: string; context?: ScoringContext; limit?: number }) => {
         const room = rooms.get(roomId);
         if (!room) {
             socket.emit('error', { message: 'Room not found' });
@@ -2590,11 +5064,11 @@ io.on('connection', (socket) => {
         }
 
         try {
-            const suggestions = suggestMoves(
-                room.game,
-                context || 'learning',
-                limit || 5
-            );
+            const suggestions = await runEngineJob('suggestMoves', {
+                ...enginePosition(room),
+                context: context || 'learning',
+                limit: limit || 5
+            }, { key: `suggest:${socket.id}` }).result;
 
             socket.emit('move_suggestions', {
                 suggestions: suggestions.suggestions,
@@ -2603,13 +5077,12 @@ io.on('connection', (socket) => {
                 context: suggestions.context
             });
         } catch (error) {
-            console.error('Error generating suggestions:', error);
-            socket.emit('error', { message: 'Failed to generate suggestions' });
+            emitEngineError(socket, error, 'Failed to generate suggestions');
         }
     });
 
     // Evaluate current position
-    socket.on('evaluate_position', ({ roomId }: { roomId: string }) => {
+    socket.on('evaluate_position', async ({ roomId }: { roomId: string }) => {
         const room = rooms.get(roomId);
         if (!room) {
             socket.emit('error', { message: 'Room not found' });
@@ -2617,117 +5090,25 @@ io.on('connection', (socket) => {
         }
 
         try {
-            const evaluation = evaluatePosition(room.game);
-
-            socket.emit('position_evaluation', {
-                phase: evaluation.phase,
-                sideToMove: evaluation.sideToMove,
-                material: evaluation.material,
-                principles: evaluation.principles,
-                tactics: evaluation.tactics.map(t => ({
-                    pattern: t.pattern,
-                    score: t.score,
-                    targets: t.targets,
-                    explanation: t.explanation
-                })),
-                krogScore: evaluation.krogScore,
-                explanation: evaluation.explanation
-            });
+            const evaluation = await runEngineJob('evaluatePosition', enginePosition(room), { key: `evaluate:${socket.id}` }).result;
+            socket.emit('position_evaluation', evaluation);
         } catch (error) {
-            console.error('Error evaluating position:', error);
-            socket.emit('error', { message: 'Failed to evaluate position' });
+            emitEngineError(socket, error, 'Failed to evaluate position');
         }
     });
 
     // Analyze position with engine moves (for Analysis Mode)
-    socket.on('analyze_position', ({ fen, engineMoves }: {
-        fen: string;
-        engineMoves: Array<{
-            move: string;  // UCI format
-            san: string;   // SAN format
-            from: string;
-            to: string;
-            score: number;
-            mate?: number;
-        }>;
-    }) => {
+    socket.on('analyze_position', async ({ fen, engineMoves }: { fen: string; engineMoves: EngineLine[] }) => {
         try {
-            const tempGame = new Chess(fen);
-            const moves = engineMoves.map((engineMove) => {
-                try {
-                    // Make the move temporarily to analyze it
-                    const moveResult = tempGame.move({
-                        from: engineMove.from,
-                        to: engineMove.to
-                    });
-
-                    let explanation = { en: '', no: '' };
-                    let rType: string | undefined;
-                    const principles: string[] = [];
-
-                    if (moveResult) {
-                        // Get R-type classification using the move result
-                        rType = classifyMoveRType({
-                            piece: moveResult.piece,
-                            flags: moveResult.flags,
-                            san: moveResult.san
-                        });
-
-                        // Get KROG explanation - need to undo first since explainMove tests the move
-                        tempGame.undo();
-                        const krogExplanation = explainMove(
-                            tempGame,
-                            moveResult.from as Square,
-                            moveResult.to as Square,
-                            moveResult.promotion
-                        );
-                        // Re-make the move for proper undo at end
-                        tempGame.move({
-                            from: moveResult.from,
-                            to: moveResult.to,
-                            promotion: moveResult.promotion
-                        });
-
-                        if (krogExplanation && 'explanation' in krogExplanation) {
-                            explanation = krogExplanation.explanation;
-                        }
-
-                        // Extract principle names from explanation if available
-                        if (krogExplanation && 'conditions' in krogExplanation) {
-                            const conditions = (krogExplanation as MoveExplanation).conditions;
-                            conditions
-                                .filter(c => c.met)
-                                .slice(0, 3)
-                                .forEach(c => principles.push(c.name));
-                        }
-
-                        // Undo the move to analyze next one
-                        tempGame.undo();
-                    }
-
-                    return {
-                        uci: engineMove.move,
-                        san: engineMove.san,
-                        rType,
-                        explanation,
-                        principles
-                    };
-                } catch (err) {
-                    console.error('Error analyzing move:', engineMove.move, err);
-                    return {
-                        uci: engineMove.move,
-                        san: engineMove.san,
-                        rType: undefined,
-                        explanation: { en: '', no: '' },
-                        principles: []
-                    };
-                }
-            });
+            const analysed = await runEngineJob('analyzePosition', { fen, engineMoves }, { key: `analyze:${socket.id}` }).result;
+            const moves = analysed.map(({ played, ...move }) => ({
+                ...move,
+                rType: played ? classifyMoveRType(played) : undefined
+            }));
 
             socket.emit('analysis_result', { moves });
         } catch (error) {
-            console.error('Error in analyze_position:', error);
-            socket.emit('error', { message: 'Failed to analyze position' });
+            emitEngineError(socket, error, 'Failed to analyze position');
         }
     });
 
@@ -2874,46 +5255,6 @@ io.on('connection', (socket) => {
 
     // ==================== DAILY PUZZLE ====================
 
-    // Helper function to get today's date in UTC
-    function getTodayUTC(): string {
-        return new Date().toISOString().split('T')[0];
-    }
-
-    // Helper function to calculate puzzle number (days since epoch)
-    function calculatePuzzleNumber(dateStr: string): number {
-        const date = new Date(dateStr);
-        const epoch = new Date('2024-01-01');
-        return Math.floor((date.getTime() - epoch.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    }
-
-    // Helper function to get or assign today's puzzle
-    async function getOrAssignDailyPuzzle(date: string): Promise<Puzzle | null> {
-        // Check if already assigned
-        let dailyPuzzle = await dbOperations.getDailyPuzzle(date);
-
-        if (!dailyPuzzle) {
-            // Generate deterministic puzzle selection based on date
-            // Use a simple hash of the date string
-            let hash = 0;
-            for (let i = 0; i < date.length; i++) {
-                const char = date.charCodeAt(i);
-                hash = ((hash << 5) - hash) + char;
-                hash = hash & hash; // Convert to 32bit integer
-            }
-            const puzzleIndex = Math.abs(hash) % puzzles.length;
-            const selectedPuzzle = puzzles[puzzleIndex];
-
-            // Save to database
-            await dbOperations.setDailyPuzzle(selectedPuzzle.id, date);
-            dailyPuzzle = await dbOperations.getDailyPuzzle(date);
-        }
-
-        if (!dailyPuzzle) return null;
-
-        // Return the actual puzzle data
-        return puzzles.find(p => p.id === dailyPuzzle!.puzzle_id) || null;
-    }
-
     // Get today's daily puzzle
     socket.on('get_daily_puzzle', async () => {
         const today = getTodayUTC();
@@ -3722,67 +6063,374 @@ io.on('connection', (socket) => {
         socket.emit('club_chat_left', { clubId });
     });
 
-    // Send message to club chat
-    socket.on('send_club_message', async ({ clubId, message }: { clubId: string; message: string }) => {
+    // Send message to club chat
+    socket.on('send_club_message', async ({ clubId, message }: { clubId: string; message: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to send messages' });
+            return;
+        }
+
+        if (!message || message.trim().length === 0) {
+            return;
+        }
+
+        const sanitizedMessage = message.trim().slice(0, 500);
+        const clubMessage = await dbOperations.addClubMessage(clubId, authInfo.userId, sanitizedMessage);
+
+        if (clubMessage) {
+            // Broadcast to all club members
+            io.to(`club:${clubId}`).emit('club_message', clubMessage);
+        } else {
+            socket.emit('error', { message: 'Failed to send message' });
+        }
+    });
+
+    // Get more club messages (pagination)
+    socket.on('get_club_messages', async ({ clubId, limit, offset }: { clubId: string; limit?: number; offset?: number }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to view messages' });
+            return;
+        }
+
+        const member = await dbOperations.getClubMember(clubId, authInfo.userId);
+        if (!member) {
+            socket.emit('error', { message: 'Not a member of this club' });
+            return;
+        }
+
+        const messages = await dbOperations.getClubMessages(clubId, limit || 50, offset || 0);
+        socket.emit('club_messages', { clubId, messages: messages.reverse(), offset: offset || 0 });
+    });
+
+    // Delete club message (admin/owner only)
+    socket.on('delete_club_message', async ({ clubId, messageId }: { clubId: string; messageId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to delete messages' });
+            return;
+        }
+
+        const result = await dbOperations.deleteClubMessageWithAuth(messageId, authInfo.userId, clubId);
+        if (result.success) {
+            io.to(`club:${clubId}`).emit('club_message_deleted', { clubId, messageId });
+        } else {
+            socket.emit('error', { message: result.message || 'Failed to delete message' });
+        }
+    });
+
+    // ==================== CORRESPONDENCE GAMES ====================
+
+    // Challenge another player to a correspondence game
+    socket.on('create_correspondence_game', async ({ opponentId, daysPerMove, variant: variantType, color, rated }: {
+        opponentId: string;
+        daysPerMove: number;
+        variant?: VariantType;
+        color?: 'white' | 'black' | 'random';
+        rated?: boolean;
+    }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to play correspondence games' });
+            return;
+        }
+
+        const days = Math.floor(daysPerMove);
+        if (!(days >= MIN_DAYS_PER_MOVE && days <= MAX_DAYS_PER_MOVE)) {
+            socket.emit('error', { message: `Days per move must be between ${MIN_DAYS_PER_MOVE} and ${MAX_DAYS_PER_MOVE}` });
+            return;
+        }
+
+        const opponent = opponentId ? await dbOperations.getUserById(opponentId) : null;
+        if (!opponent || opponent.id === authInfo.userId) {
+            socket.emit('error', { message: 'Opponent not found' });
+            return;
+        }
+
+        const variant = variantType || 'standard';
+        if (isDropVariant(variant)) {
+            socket.emit('error', { message: 'Crazyhouse and Bughouse are not available by correspondence' });
+            return;
+        }
+
+        const challengerIsWhite = color === 'white' || (color !== 'black' && Math.random() < 0.5);
+        const { game: board, state: variantState } = createVariantGame(variant);
+
+        const game = await dbOperations.createCorrespondenceGame(
+            challengerIsWhite ? authInfo.userId : opponent.id,
+            challengerIsWhite ? opponent.id : authInfo.userId,
+            authInfo.userId,
+            variant,
+            variantState,
+            days,
+            rated !== false,
+            board.fen(),
+            board.pgn()
+        );
+
+        socket.emit('correspondence_game_created', { success: true, gameId: game.id });
+        await broadcastCorrespondenceGame(game.id);
+        console.log(`Correspondence challenge ${game.id}: ${authInfo.username} vs ${opponent.username} (${days} days per move)`);
+    });
+
+    // Accept or decline a correspondence challenge
+    socket.on('respond_correspondence_game', async ({ gameId, accept }: { gameId: string; accept: boolean }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to play correspondence games' });
+            return;
+        }
+
+        const game = await dbOperations.getCorrespondenceGame(gameId);
+        const isInvitee = game && game.created_by !== authInfo.userId
+            && (game.white_id === authInfo.userId || game.black_id === authInfo.userId);
+        if (!game || !isInvitee || game.status !== 'pending') {
+            socket.emit('error', { message: 'Challenge not found' });
+            return;
+        }
+
+        if (!accept) {
+            await dbOperations.declineCorrespondenceGame(game.id);
+            await broadcastCorrespondenceGame(game.id);
+            return;
+        }
+
+        const whiteUser = await dbOperations.getUserById(game.white_id);
+        const blackUser = await dbOperations.getUserById(game.black_id);
+        const dbGame = await dbOperations.createGame(
+            game.id,
+            game.white_id,
+            game.black_id,
+            'correspondence',
+            whiteUser?.rating || null,
+            blackUser?.rating || null,
+            game.variant
+        );
+
+        const whiteVacation = await getVacation(game.white_id);
+        const deadline = correspondenceDeadline(game.days_per_move, new Date(), whiteVacation.until);
+        if (!await dbOperations.startCorrespondenceGame(game.id, dbGame.id, deadline)) {
+            socket.emit('error', { message: 'Challenge not found' });
+            return;
+        }
+
+        await broadcastCorrespondenceGame(game.id);
+        console.log(`Correspondence game ${game.id} started`);
+    });
+
+    // List the player's correspondence games and vacation allowance
+    socket.on('get_my_correspondence_games', async () => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to play correspondence games' });
+            return;
+        }
+
+        const games = await dbOperations.getUserCorrespondenceGames(authInfo.userId);
+        const vacation = await getVacation(authInfo.userId);
+        socket.emit('my_correspondence_games', {
+            games: games.map(game => correspondenceGameFor(game, authInfo.userId)),
+            vacation
+        });
+    });
+
+    // Make a move in a correspondence game
+    socket.on('correspondence_move', async ({ gameId, move }: { gameId: string; move: string | { from: string; to: string; promotion?: string } }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to play correspondence games' });
+            return;
+        }
+
+        const game = await dbOperations.getCorrespondenceGame(gameId);
+        if (!game || (game.white_id !== authInfo.userId && game.black_id !== authInfo.userId)) {
+            socket.emit('error', { message: 'Game not found' });
+            return;
+        }
+        if (game.status !== 'active') {
+            socket.emit('error', { message: 'Game is not in progress' });
+            return;
+        }
+
+        const color = game.white_id === authInfo.userId ? 'white' : 'black';
+        if ((game.move_count % 2 === 0 ? 'white' : 'black') !== color) {
+            socket.emit('error', { message: 'Not your turn' });
+            return;
+        }
+
+        const board = restoreVariantGame(game);
+        let result = null;
+        try {
+            result = board.move(move);
+        } catch {
+            result = null;
+        }
+        if (!result) {
+            socket.emit('error', { message: 'Illegal move' });
+            return;
+        }
+
+        if (!await commitCorrespondenceMove(game, board, color)) {
+            socket.emit('error', { message: 'The game has moved on, please reload it' });
+        }
+    });
+
+    // Prepare replies to the opponent's possible moves while it is their turn,
+    // as lines of SAN starting with their move ("Nf6 e5 Nc6 Nf3"); an empty list clears them
+    socket.on('set_conditional_moves', async ({ gameId, lines }: { gameId: string; lines: string[][] }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        const game = authInfo ? await dbOperations.getCorrespondenceGame(gameId) : null;
+        if (!authInfo || !game || (game.white_id !== authInfo.userId && game.black_id !== authInfo.userId) || game.status !== 'active') {
+            socket.emit('error', { message: 'Game not found' });
+            return;
+        }
+
+        const color = game.white_id === authInfo.userId ? 'white' : 'black';
+        if ((game.move_count % 2 === 0 ? 'white' : 'black') === color) {
+            socket.emit('error', { message: 'It is your turn' });
+            return;
+        }
+
+        if (!Array.isArray(lines) || lines.length > MAX_CONDITIONAL_LINES) {
+            socket.emit('error', { message: `At most ${MAX_CONDITIONAL_LINES} conditional lines are allowed` });
+            return;
+        }
+
+        // Check every line from the current position and store it in canonical SAN
+        const normalized: string[][] = [];
+        const replies = new Map<string, string>();
+        for (const line of lines) {
+            if (!Array.isArray(line) || line.length < 2 || line.length % 2 !== 0 || line.length > MAX_CONDITIONAL_PLIES) {
+                socket.emit('error', { message: 'Each line must pair the opponent\'s moves with your replies' });
+                return;
+            }
+
+            const board = restoreVariantGame(game);
+            const sans: string[] = [];
+            for (const move of line) {
+                let result = null;
+                try {
+                    result = typeof move === 'string' ? board.move(move) : null;
+                } catch {
+                    result = null;
+                }
+                if (!result) {
+                    socket.emit('error', { message: `Illegal move in conditional line: ${move}` });
+                    return;
+                }
+                sans.push(result.san);
+            }
+
+            // The same sequence of opponent moves must always get the same reply
+            for (let i = 1; i < sans.length; i += 2) {
+                const prefix = sans.slice(0, i).join(' ');
+                const existing = replies.get(prefix);
+                if (existing && existing !== sans[i]) {
+                    socket.emit('error', { message: `Conflicting replies after ${prefix}` });
+                    return;
+                }
+                replies.set(prefix, sans[i]);
+            }
+            normalized.push(sans);
+        }
+
+        await dbOperations.setCorrespondenceConditionalMoves(game.id, color, normalized.length > 0 ? normalized : null);
+        emitToUser(authInfo.userId, 'conditional_moves_set', { gameId: game.id, lines: normalized });
+    });
+
+    // Resign a correspondence game
+    socket.on('correspondence_resign', async ({ gameId }: { gameId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        const game = await dbOperations.getCorrespondenceGame(gameId);
+        if (!authInfo || !game || (game.white_id !== authInfo.userId && game.black_id !== authInfo.userId) || game.status !== 'active') {
+            socket.emit('error', { message: 'Game not found' });
+            return;
+        }
+
+        await finishCorrespondenceGame(game, game.white_id === authInfo.userId ? '0-1' : '1-0', 'resignation', game.pgn);
+    });
+
+    // Offer a draw, or accept the opponent's pending offer
+    socket.on('correspondence_offer_draw', async ({ gameId }: { gameId: string }) => {
         const authInfo = authenticatedSockets.get(socket.id);
-        if (!authInfo) {
-            socket.emit('error', { message: 'Must be logged in to send messages' });
+        const game = await dbOperations.getCorrespondenceGame(gameId);
+        if (!authInfo || !game || (game.white_id !== authInfo.userId && game.black_id !== authInfo.userId) || game.status !== 'active') {
+            socket.emit('error', { message: 'Game not found' });
             return;
         }
 
-        if (!message || message.trim().length === 0) {
+        const color = game.white_id === authInfo.userId ? 'white' : 'black';
+        if (game.draw_offer && game.draw_offer !== color) {
+            await finishCorrespondenceGame(game, '1/2-1/2', 'agreement', game.pgn);
             return;
         }
 
-        const sanitizedMessage = message.trim().slice(0, 500);
-        const clubMessage = await dbOperations.addClubMessage(clubId, authInfo.userId, sanitizedMessage);
-
-        if (clubMessage) {
-            // Broadcast to all club members
-            io.to(`club:${clubId}`).emit('club_message', clubMessage);
-        } else {
-            socket.emit('error', { message: 'Failed to send message' });
-        }
+        await dbOperations.setCorrespondenceDrawOffer(game.id, color);
+        await broadcastCorrespondenceGame(game.id);
     });
 
-    // Get more club messages (pagination)
-    socket.on('get_club_messages', async ({ clubId, limit, offset }: { clubId: string; limit?: number; offset?: number }) => {
+    // Decline the opponent's draw offer
+    socket.on('correspondence_decline_draw', async ({ gameId }: { gameId: string }) => {
         const authInfo = authenticatedSockets.get(socket.id);
-        if (!authInfo) {
-            socket.emit('error', { message: 'Must be logged in to view messages' });
+        const game = await dbOperations.getCorrespondenceGame(gameId);
+        if (!authInfo || !game || (game.white_id !== authInfo.userId && game.black_id !== authInfo.userId) || game.status !== 'active') {
+            socket.emit('error', { message: 'Game not found' });
             return;
         }
 
-        const member = await dbOperations.getClubMember(clubId, authInfo.userId);
-        if (!member) {
-            socket.emit('error', { message: 'Not a member of this club' });
-            return;
+        const color = game.white_id === authInfo.userId ? 'white' : 'black';
+        if (game.draw_offer && game.draw_offer !== color) {
+            await dbOperations.setCorrespondenceDrawOffer(game.id, null);
+            await broadcastCorrespondenceGame(game.id);
         }
-
-        const messages = await dbOperations.getClubMessages(clubId, limit || 50, offset || 0);
-        socket.emit('club_messages', { clubId, messages: messages.reverse(), offset: offset || 0 });
     });
 
-    // Delete club message (admin/owner only)
-    socket.on('delete_club_message', async ({ clubId, messageId }: { clubId: string; messageId: string }) => {
+    // Take vacation days: deadlines of games waiting on the player move past the vacation
+    socket.on('start_vacation', async ({ days }: { days: number }) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (!authInfo) {
-            socket.emit('error', { message: 'Must be logged in to delete messages' });
+            socket.emit('error', { message: 'Must be logged in to take vacation' });
             return;
         }
 
-        const result = await dbOperations.deleteClubMessageWithAuth(messageId, authInfo.userId, clubId);
-        if (result.success) {
-            io.to(`club:${clubId}`).emit('club_message_deleted', { clubId, messageId });
-        } else {
-            socket.emit('error', { message: result.message || 'Failed to delete message' });
+        const vacation = await getVacation(authInfo.userId);
+        const requested = Math.floor(days);
+        if (!(requested >= 1 && requested <= vacation.daysLeft)) {
+            socket.emit('error', { message: `You have ${vacation.daysLeft} vacation days left this year` });
+            return;
         }
+
+        // Added on to a vacation already in progress
+        const start = vacation.until || new Date();
+        const until = new Date(start.getTime() + requested * 24 * 60 * 60 * 1000);
+        await dbOperations.updateVacation(authInfo.userId, vacation.daysLeft - requested, new Date().getUTCFullYear(), until);
+
+        const extended = await dbOperations.extendCorrespondenceDeadlines(authInfo.userId, until);
+        for (const game of extended) {
+            await broadcastCorrespondenceGame(game.id);
+        }
+
+        socket.emit('vacation_updated', { vacation: { daysLeft: vacation.daysLeft - requested, until } });
+        console.log(`${authInfo.username} is on vacation until ${until.toISOString()} (${extended.length} games extended)`);
     });
 
     // ==================== DIRECT CHALLENGES ====================
 
     // Challenge a friend
-    socket.on('challenge_friend', ({ friendId, timeControl: timeControlType, variant: variantType }: { friendId: string; timeControl?: TimeControlType; variant?: VariantType }) => {
+    socket.on('challenge_friend', ({
+        friendId,
+        timeControl: timeControlType,
+        variant: variantType,
+        color,
+        odds: oddsRequest
+    }: {
+        friendId: string;
+        timeControl?: string;
+        variant?: VariantType;
+        color?: 'white' | 'black';  // The challenger's colour, random if not given
+        odds?: GameOdds;
+    }) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (!authInfo) {
             socket.emit('error', { message: 'Must be logged in to challenge friends' });
@@ -3798,8 +6446,21 @@ io.on('connection', (socket) => {
             return;
         }
 
-        const timeControl = TIME_CONTROLS[timeControlType || 'rapid'];
+        const timeControl = resolveTimeControl(timeControlType);
+        if (!timeControl) {
+            socket.emit('challenge_sent', { success: false, error: 'Invalid time control' });
+            return;
+        }
         const variant = variantType || 'standard';
+        if (variant === 'bughouse') {
+            socket.emit('challenge_sent', { success: false, error: 'Bughouse needs four players' });
+            return;
+        }
+        const { odds, error: oddsError } = resolveOdds(oddsRequest, variant, timeControl);
+        if (oddsError) {
+            socket.emit('challenge_sent', { success: false, error: oddsError });
+            return;
+        }
 
         const challengeId = `${socket.id}-${Date.now()}`;
 
@@ -3812,8 +6473,10 @@ io.on('connection', (socket) => {
                 rating: authInfo.rating,
                 socketId: socket.id  // Include socket ID for direct communication
             },
-            timeControl: timeControl.type,
-            variant
+            timeControl: formatTimeControl(timeControl),
+            variant,
+            color,
+            odds
         });
 
         socket.emit('challenge_sent', {
@@ -3824,13 +6487,31 @@ io.on('connection', (socket) => {
                 username: friendSocket[1].username,
                 rating: friendSocket[1].rating
             },
-            timeControl: timeControl.type,
-            variant
+            timeControl: formatTimeControl(timeControl),
+            variant,
+            color,
+            odds
         });
     });
 
     // Accept a challenge
-    socket.on('accept_challenge', async ({ challengeId, challengerId, challengerSocketId: providedSocketId, timeControl: timeControlType, variant: variantType }: { challengeId: string; challengerId: string; challengerSocketId?: string; timeControl: TimeControlType; variant?: VariantType }) => {
+    socket.on('accept_challenge', async ({
+        challengeId,
+        challengerId,
+        challengerSocketId: providedSocketId,
+        timeControl: timeControlType,
+        variant: variantType,
+        color: challengerColor,
+        odds: oddsRequest
+    }: {
+        challengeId: string;
+        challengerId: string;
+        challengerSocketId?: string;
+        timeControl: string;
+        variant?: VariantType;
+        color?: 'white' | 'black';  // The challenger's colour, as sent with the challenge
+        odds?: GameOdds;
+    }) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (!authInfo) {
             socket.emit('error', { message: 'Must be logged in to accept challenges' });
@@ -3855,20 +6536,30 @@ io.on('connection', (socket) => {
             return;
         }
 
+        const baseTimeControl = resolveTimeControl(timeControlType);
+        if (!baseTimeControl) {
+            socket.emit('challenge_accepted', { success: false, error: 'Invalid time control' });
+            return;
+        }
+        const variant = variantType || 'standard';
+        const { odds, timeControl, error: oddsError } = resolveOdds(oddsRequest, variant, baseTimeControl);
+        if (oddsError) {
+            socket.emit('challenge_accepted', { success: false, error: oddsError });
+            return;
+        }
+
         // Create a room for the game
         const code = generateRoomCode();
-        const timeControl = TIME_CONTROLS[timeControlType || 'rapid'];
-        const variant = variantType || 'standard';
 
-        // Randomly assign colors
-        const challengerIsWhite = Math.random() < 0.5;
+        // The colour the challenger asked for, else random
+        const challengerIsWhite = challengerColor ? challengerColor === 'white' : Math.random() < 0.5;
         const whiteSocketId = challengerIsWhite ? challengerSocketId : socket.id;
         const blackSocketId = challengerIsWhite ? socket.id : challengerSocketId;
         const whiteUserId = challengerIsWhite ? challengerInfo.userId : authInfo.userId;
         const blackUserId = challengerIsWhite ? authInfo.userId : challengerInfo.userId;
 
         // Create variant-specific game
-        const { game, state: variantState } = createVariantGame(variant);
+        const { game, state: variantState } = createRoomGame(variant, odds);
 
         const room: Room = {
             game,
@@ -3883,7 +6574,8 @@ io.on('connection', (socket) => {
             whiteUserId,
             blackUserId,
             variant,
-            variantState
+            variantState,
+            odds
         };
 
         // Create database game record if both players are authenticated
@@ -3895,11 +6587,14 @@ io.on('connection', (socket) => {
             blackUserId,
             timeControl.type,
             whiteUser?.rating || null,
-            blackUser?.rating || null
+            blackUser?.rating || null,
+            variant,
+            odds || null
         );
         room.dbGameId = dbGame.id;
 
         rooms.set(code, room);
+        saveRoom(room);
         socketToRoom.set(whiteSocketId, code);
         socketToRoom.set(blackSocketId, code);
 
@@ -3920,8 +6615,9 @@ io.on('connection', (socket) => {
                 roomCode: code,
                 color: challengerIsWhite ? 'white' : 'black',
                 opponent: { username: authInfo.username, rating: authInfo.rating },
-                timeControl: timeControl.type,
-                variant
+                timeControl: formatTimeControl(baseTimeControl),
+                variant,
+                odds
             });
             challengerSocket.emit('player_assigned', { color: challengerIsWhite ? 'white' : 'black' });
         }
@@ -3932,8 +6628,9 @@ io.on('connection', (socket) => {
             roomCode: code,
             color: challengerIsWhite ? 'black' : 'white',
             opponent: { username: challengerInfo.username, rating: challengerInfo.rating },
-            timeControl: timeControl.type,
-            variant
+            timeControl: formatTimeControl(baseTimeControl),
+            variant,
+            odds
         });
         socket.emit('player_assigned', { color: challengerIsWhite ? 'black' : 'white' });
 
@@ -4001,7 +6698,7 @@ io.on('connection', (socket) => {
     // ============ Tournament Events ============
 
     // Create a tournament
-    socket.on('create_tournament', async ({ name, description, clubId, type, timeControl, maxParticipants, startTime }: {
+    socket.on('create_tournament', async ({ name, description, clubId, type, timeControl, maxParticipants, startTime, gamesPerMatch, durationMinutes, tiebreaks }: {
         name: string;
         description?: string;
         clubId?: string;
@@ -4009,6 +6706,9 @@ io.on('connection', (socket) => {
         timeControl: string;
         maxParticipants: number;
         startTime?: string;
+        gamesPerMatch?: number;  // Knockout mini-match length
+        durationMinutes?: number;  // Arena length
+        tiebreaks?: string[];  // Applied in order after score
     }) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (!authInfo) {
@@ -4016,6 +6716,12 @@ io.on('connection', (socket) => {
             return;
         }
 
+        const parsedTimeControl = parseTimeControl(timeControl || '5+0');
+        if (!parsedTimeControl || parsedTimeControl.type === 'unlimited') {
+            socket.emit('error', { message: 'Invalid time control' });
+            return;
+        }
+
         // If club tournament, verify user is admin/owner
         if (clubId) {
             const member = await dbOperations.getClubMember(clubId, authInfo.userId);
@@ -4031,12 +6737,19 @@ io.on('connection', (socket) => {
             authInfo.userId,
             clubId || null,
             type,
-            timeControl,
+            formatTimeControl(parsedTimeControl),
             maxParticipants,
-            startTime || null
+            startTime || null,
+            Math.min(Math.max(Math.floor(gamesPerMatch || 2), 1), 8),
+            type === 'arena' ? Math.min(Math.max(Math.floor(durationMinutes || DEFAULT_ARENA_MINUTES), 10), 360) : null,
+            tiebreaks ? parseTiebreaks(tiebreaks, DEFAULT_TOURNAMENT_TIEBREAKS).join(',') : null
         );
 
         if (tournament) {
+            // Start automatically at the advertised time
+            if (startTime && !isNaN(Date.parse(startTime))) {
+                await scheduleJob('tournament_start', new Date(startTime), { tournamentId: tournament.id }, { key: `tournament_start:${tournament.id}` });
+            }
             socket.emit('tournament_created', { success: true, tournament });
             // Broadcast to all users so they can see the new tournament
             io.emit('tournaments_updated');
@@ -4092,6 +6805,19 @@ io.on('connection', (socket) => {
         const currentRoundGames = tournament.current_round > 0
             ? await dbOperations.getTournamentRoundGames(tournamentId, tournament.current_round)
             : [];
+        const schedule = await dbOperations.getTournamentGames(tournamentId);
+        const bracket = tournament.type === 'knockout' && tournament.status !== 'upcoming'
+            ? buildTournamentBracket(participants, schedule, tournament.games_per_match || 2)
+            : null;
+        const arenaState = tournament.type === 'arena' ? arenas.get(tournamentId) : undefined;
+        const arena = tournament.type === 'arena' && tournament.status !== 'upcoming'
+            ? {
+                standings: calculateArenaStandings(participants, schedule),
+                endsAt: tournament.ends_at ? new Date(tournament.ends_at).getTime() : null,
+                closed: tournament.status === 'completed' || !!arenaState?.closed,
+                inPool: !!authInfo && !!arenaState?.pool.has(authInfo.userId)
+            }
+            : null;
         const myGames = authInfo
             ? await dbOperations.getUserTournamentGames(tournamentId, authInfo.userId)
             : [];
@@ -4103,6 +6829,9 @@ io.on('connection', (socket) => {
             tournament,
             participants,
             currentRoundGames,
+            schedule,
+            bracket,
+            arena,
             myGames,
             isRegistered
         });
@@ -4153,12 +6882,10 @@ io.on('connection', (socket) => {
 
         const result = await dbOperations.startTournament(tournamentId, authInfo.userId);
         if (result.success) {
-            socket.emit('tournament_started', { success: true, tournamentId });
-            // Notify all participants
-            io.emit('tournament_round_started', {
-                tournamentId,
-                round: 1
-            });
+            // Pair round 1 (broadcasts tournament_round_started to all participants)
+            const pairings = await beginTournament(tournamentId);
+            socket.emit('tournament_started', { success: true, tournamentId, pairings });
+            io.emit('tournaments_updated');
         } else {
             socket.emit('error', { message: result.message || 'Failed to start tournament' });
         }
@@ -4174,6 +6901,8 @@ io.on('connection', (socket) => {
 
         const result = await dbOperations.deleteTournamentWithAuth(tournamentId, authInfo.userId);
         if (result.success) {
+            await cancelJob(`tournament_start:${tournamentId}`);
+            await cancelJob(`arena_end:${tournamentId}`);
             socket.emit('tournament_deleted', { success: true, tournamentId });
             io.emit('tournaments_updated');
         } else {
@@ -4205,7 +6934,20 @@ io.on('connection', (socket) => {
         let room = rooms.get(roomCode);
         if (!room) {
             const tournament = await dbOperations.getTournamentById(tournamentGame.tournament_id);
-            const timeControl = parseTimeControlString(tournament?.time_control || '5+0');
+            if (tournament?.status === 'completed' && tournamentGame.result === null) {
+                socket.emit('error', { message: 'Tournament has finished' });
+                return;
+            }
+            if (tournamentGame.status === 'forfeit') {
+                socket.emit('error', { message: 'This game was forfeited' });
+                return;
+            }
+            if (tournamentGame.status === 'aborted') {
+                socket.emit('error', { message: 'This game was aborted' });
+                return;
+            }
+            const baseTimeControl = parseTimeControlString(tournament?.time_control || '5+0');
+            const timeControl = tournamentGame.is_armageddon ? armageddonTimeControl(baseTimeControl) : baseTimeControl;
 
             const newRoom: Room = {
                 game: new Chess(),
@@ -4216,20 +6958,17 @@ io.on('connection', (socket) => {
                 },
                 code: roomCode,
                 timeControl,
-                clock: {
-                    white: timeControl.initialTime,
-                    black: timeControl.initialTime,
-                    lastUpdate: Date.now(),
-                    activeColor: null,
-                    gameStarted: false
-                },
+                clock: initializeClock(timeControl),
                 variant: 'standard',
                 variantState: { variant: 'standard' },
                 whiteUserId: tournamentGame.white_id,
                 blackUserId: tournamentGame.black_id,
-                tournamentGameId: tournamentGame.id
+                tournamentGameId: tournamentGame.id,
+                arenaTournamentId: tournament?.type === 'arena' ? tournament.id : undefined,
+                berserk: { white: tournamentGame.white_berserk, black: tournamentGame.black_berserk }
             };
             rooms.set(roomCode, newRoom);
+            saveRoom(newRoom);
             room = newRoom;
         }
 
@@ -4240,6 +6979,7 @@ io.on('connection', (socket) => {
         } else {
             room.players.black = socket.id;
         }
+        recordSeatTaken(room, color);
 
         socket.join(roomCode);
         socketToRoom.set(socket.id, roomCode);
@@ -4256,16 +6996,107 @@ io.on('connection', (socket) => {
             activeColor: room.clock.activeColor
         });
 
+        if (room.arenaTournamentId) {
+            socket.emit('arena_game_info', { tournamentId: room.arenaTournamentId, berserk: room.berserk || {} });
+        }
+
         // Update game status if both players have joined
         if (room.players.white && room.players.black && tournamentGame.status === 'pending') {
             await dbOperations.updateTournamentGameStatus(tournamentGame.id, 'active');
         }
     });
 
+    // Join the arena's waiting pool (registers late entrants)
+    socket.on('join_arena', async ({ tournamentId }: { tournamentId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to play arenas' });
+            return;
+        }
+
+        const tournament = await dbOperations.getTournamentById(tournamentId);
+        if (!tournament || tournament.type !== 'arena' || tournament.status !== 'active') {
+            socket.emit('error', { message: 'Arena is not running' });
+            return;
+        }
+
+        const state = getArenaState(tournament);
+        if (!state || state.closed) {
+            socket.emit('error', { message: 'Arena has finished' });
+            return;
+        }
+
+        const participant = await dbOperations.getTournamentParticipant(tournamentId, authInfo.userId);
+        if (!participant) {
+            const result = await dbOperations.joinTournament(tournamentId, authInfo.userId);
+            if (!result.success) {
+                socket.emit('error', { message: result.message || 'Failed to join arena' });
+                return;
+            }
+            io.emit('tournament_participant_update', { tournamentId });
+        }
+
+        state.pool.add(authInfo.userId);
+        socket.emit('arena_joined', { tournamentId, endsAt: state.endsAt });
+        await advanceTournamentIfRoundComplete(tournamentId);
+    });
+
+    // Leave the waiting pool without withdrawing (score is kept)
+    socket.on('pause_arena', ({ tournamentId }: { tournamentId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) return;
+
+        arenas.get(tournamentId)?.pool.delete(authInfo.userId);
+        socket.emit('arena_paused', { tournamentId });
+    });
+
+    // Berserk: halve your own clock before your first move for an extra point on a win
+    socket.on('arena_berserk', async ({ roomId }: { roomId: string }) => {
+        const room = rooms.get(roomId);
+        if (!room || !room.arenaTournamentId || !room.tournamentGameId) {
+            socket.emit('error', { message: 'Berserk is only available in arena games' });
+            return;
+        }
+
+        const color = getPlayerColor(room, socket.id);
+        if (color === 'spectator') {
+            socket.emit('error', { message: 'Only players can berserk' });
+            return;
+        }
+        if (room.ended || room.game.isGameOver()) {
+            socket.emit('error', { message: 'Game is already over' });
+            return;
+        }
+        if (room.berserk?.[color]) return;
+
+        const movesPlayed = room.game.history().length;
+        if ((color === 'white' && movesPlayed > 0) || (color === 'black' && movesPlayed > 1)) {
+            socket.emit('error', { message: 'Berserk is only allowed before your first move' });
+            return;
+        }
+
+        const times = getCurrentClockTimes(room);
+        room.clock.white = times.white;
+        room.clock.black = times.black;
+        room.clock.lastUpdate = Date.now();
+        room.clock[color] = Math.min(times[color], Math.floor(room.timeControl.initialTime / 2));
+        room.berserk = { ...room.berserk, [color]: true };
+        saveRoom(room);
+
+        await dbOperations.setTournamentGameBerserk(room.tournamentGameId, color);
+
+        io.to(roomId).emit('player_berserked', { color });
+        io.to(roomId).emit('clock_update', {
+            white: room.clock.white,
+            black: room.clock.black,
+            activeColor: room.clock.activeColor
+        });
+    });
+
     // ============ League Events ============
 
     // Create a league
-    socket.on('create_league', async ({ name, description, clubId, type, format, timeControl, season, maxDivisions, pointsForWin, pointsForDraw, pointsForLoss, startDate, endDate }: {
+    socket.on('create_league', async ({ name, description, clubId, type, format, timeControl, season, maxDivisions, pointsForWin, pointsForDraw, pointsForLoss, startDate, endDate, tiebreaks, boardCount, promotionSpots, relegationSpots }: {
         name: string;
         description?: string;
         clubId?: string;
@@ -4279,6 +7110,10 @@ io.on('connection', (socket) => {
         pointsForLoss?: number;
         startDate?: string;
         endDate?: string;
+        tiebreaks?: string[];  // Applied in order after points
+        boardCount?: number;   // Boards per fixture in team leagues
+        promotionSpots?: number;   // Moving up from each division at season end
+        relegationSpots?: number;  // Moving down from each division at season end
     }) => {
         const authInfo = authenticatedSockets.get(socket.id);
         if (!authInfo) {
@@ -4286,6 +7121,12 @@ io.on('connection', (socket) => {
             return;
         }
 
+        const parsedTimeControl = parseTimeControl(timeControl || '10+0');
+        if (!parsedTimeControl || parsedTimeControl.type === 'unlimited') {
+            socket.emit('error', { message: 'Invalid time control' });
+            return;
+        }
+
         // If club league, verify user is admin/owner
         if (clubId) {
             const member = await dbOperations.getClubMember(clubId, authInfo.userId);
@@ -4302,14 +7143,18 @@ io.on('connection', (socket) => {
             clubId || null,
             type,
             format,
-            timeControl,
+            formatTimeControl(parsedTimeControl),
             season || null,
             maxDivisions || 1,
             pointsForWin ?? 3,
             pointsForDraw ?? 1,
             pointsForLoss ?? 0,
             startDate || null,
-            endDate || null
+            endDate || null,
+            tiebreaks ? parseTiebreaks(tiebreaks, DEFAULT_LEAGUE_TIEBREAKS).join(',') : null,
+            Math.min(Math.max(Math.floor(boardCount || 4), 1), 10),
+            Math.min(Math.max(Math.floor(promotionSpots ?? 2), 0), 10),
+            Math.min(Math.max(Math.floor(relegationSpots ?? 2), 0), 10)
         );
 
         if (league) {
@@ -4370,14 +7215,28 @@ io.on('connection', (socket) => {
             : [];
 
         const participant = authInfo ? await dbOperations.getLeagueParticipant(leagueId, authInfo.userId) : null;
-        const isRegistered = participant != null;
+        let isRegistered = participant != null;
+
+        // Team leagues: standings are per team, fixtures carry their board games
+        let teams: LeagueTeam[] = [];
+        let fixtures: LeagueFixture[] = [];
+        if (league.type === 'team') {
+            teams = await dbOperations.getLeagueTeamStandings(leagueId);
+            fixtures = (await dbOperations.getLeagueFixtures(leagueId)).map(fixture => ({
+                ...fixture,
+                boards: matches.filter(m => m.fixture_id === fixture.id)
+            }));
+            isRegistered = !!authInfo && teams.some(t => t.players?.some(p => p.user_id === authInfo.userId));
+        }
 
         socket.emit('league_details', {
             league,
             participants,
             matches,
             myMatches,
-            isRegistered
+            isRegistered,
+            teams,
+            fixtures
         });
     });
 
@@ -4395,6 +7254,12 @@ io.on('connection', (socket) => {
             return;
         }
 
+        const league = await dbOperations.getLeagueById(leagueId);
+        if (league?.type === 'team') {
+            socket.emit('error', { message: 'Team leagues are entered by clubs' });
+            return;
+        }
+
         const result = await dbOperations.joinLeague(leagueId, authInfo.userId, division || 1);
         if (result.success) {
             socket.emit('league_joined', { success: true, leagueId });
@@ -4421,6 +7286,139 @@ io.on('connection', (socket) => {
         }
     });
 
+    // Clubs the user can enter a team for, with their members (team leagues)
+    socket.on('get_league_team_options', async ({ leagueId }: { leagueId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        const league = await dbOperations.getLeagueById(leagueId);
+        if (!authInfo || !league || league.type !== 'team') {
+            socket.emit('league_team_options', { leagueId, clubs: [] });
+            return;
+        }
+
+        const clubs = [];
+        for (const club of await dbOperations.getUserClubs(authInfo.userId)) {
+            // Club leagues are internal to the club
+            if (league.club_id && club.id !== league.club_id) continue;
+            const member = await dbOperations.getClubMember(club.id, authInfo.userId);
+            if (!member || (member.role !== 'owner' && member.role !== 'admin')) continue;
+
+            const members = await dbOperations.getClubMembers(club.id);
+            clubs.push({
+                id: club.id,
+                name: club.name,
+                logoEmoji: club.logo_emoji,
+                members: members.map(m => ({ userId: m.user_id, username: m.username, rating: m.rating }))
+            });
+        }
+
+        socket.emit('league_team_options', { leagueId, clubs });
+    });
+
+    // Enter a club team, or update its name and roster (board order = roster order)
+    socket.on('register_league_team', async ({ leagueId, clubId, teamId, name, roster, division }: {
+        leagueId: string;
+        clubId: string;
+        teamId?: string;
+        name?: string;
+        roster: string[];
+        division?: number;
+    }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to enter teams' });
+            return;
+        }
+
+        const league = await dbOperations.getLeagueById(leagueId);
+        if (!league || league.type !== 'team') {
+            socket.emit('error', { message: 'Not a team league' });
+            return;
+        }
+        if (league.status !== 'registration') {
+            socket.emit('error', { message: 'Registration is closed' });
+            return;
+        }
+        if (league.club_id && league.club_id !== clubId) {
+            socket.emit('error', { message: 'Only teams from the organising club can enter' });
+            return;
+        }
+
+        const captain = await dbOperations.getClubMember(clubId, authInfo.userId);
+        if (!captain || (captain.role !== 'owner' && captain.role !== 'admin')) {
+            socket.emit('error', { message: 'Must be club admin or owner to enter a team' });
+            return;
+        }
+
+        // Up to as many reserves as there are boards
+        const players = [...new Set(roster || [])];
+        if (players.length < league.board_count || players.length > league.board_count * 2) {
+            socket.emit('error', { message: `Roster must have between ${league.board_count} and ${league.board_count * 2} players` });
+            return;
+        }
+
+        for (const userId of players) {
+            const member = await dbOperations.getClubMember(clubId, userId);
+            if (!member) {
+                socket.emit('error', { message: 'Every player must be a member of the club' });
+                return;
+            }
+            const otherTeam = await dbOperations.getLeaguePlayerTeam(leagueId, userId);
+            if (otherTeam && otherTeam.id !== teamId) {
+                socket.emit('error', { message: `${member.username} already plays for ${otherTeam.name}` });
+                return;
+            }
+        }
+
+        const club = await dbOperations.getClubById(clubId);
+        const teamName = (name || '').trim() || club?.name || 'Team';
+
+        let team;
+        if (teamId) {
+            team = await dbOperations.getLeagueTeam(teamId);
+            if (!team || team.league_id !== leagueId || team.club_id !== clubId) {
+                socket.emit('error', { message: 'Team not found' });
+                return;
+            }
+            await dbOperations.updateLeagueTeamName(teamId, teamName);
+        } else {
+            team = await dbOperations.createLeagueTeam(leagueId, clubId, teamName, authInfo.userId, division || 1);
+        }
+        await dbOperations.setLeagueTeamRoster(team.id, players);
+
+        socket.emit('league_team_registered', { success: true, leagueId, team: await dbOperations.getLeagueTeam(team.id) });
+        io.emit('league_participant_update', { leagueId });
+    });
+
+    // Withdraw a team before the league starts
+    socket.on('withdraw_league_team', async ({ teamId }: { teamId: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to withdraw teams' });
+            return;
+        }
+
+        const team = await dbOperations.getLeagueTeam(teamId);
+        const league = team ? await dbOperations.getLeagueById(team.league_id) : null;
+        if (!team || !league) {
+            socket.emit('error', { message: 'Team not found' });
+            return;
+        }
+        if (league.status !== 'registration') {
+            socket.emit('error', { message: 'Teams can only withdraw before the league starts' });
+            return;
+        }
+
+        const member = await dbOperations.getClubMember(team.club_id, authInfo.userId);
+        if (!member || (member.role !== 'owner' && member.role !== 'admin')) {
+            socket.emit('error', { message: 'Must be club admin or owner to withdraw a team' });
+            return;
+        }
+
+        await dbOperations.removeLeagueTeam(teamId);
+        socket.emit('league_team_withdrawn', { success: true, leagueId: league.id, teamId });
+        io.emit('league_participant_update', { leagueId: league.id });
+    });
+
     // Start a league (creator only)
     socket.on('start_league', async ({ leagueId }: { leagueId: string }) => {
         const authInfo = authenticatedSockets.get(socket.id);
@@ -4431,15 +7429,67 @@ io.on('connection', (socket) => {
 
         const result = await dbOperations.startLeague(leagueId, authInfo.userId);
         if (result.success) {
+            const fixtures = await generateLeagueFixtures(leagueId);
             socket.emit('league_started', { success: true, leagueId });
             io.emit('league_fixtures_generated', {
-                leagueId
+                leagueId,
+                fixtureCount: fixtures.length
             });
         } else {
             socket.emit('error', { message: result.message || 'Failed to start league' });
         }
     });
 
+    // Roll a completed league over into next season (creator only)
+    socket.on('rollover_league_season', async ({ leagueId, season, startDate }: { leagueId: string; season?: string; startDate?: string }) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        if (!authInfo) {
+            socket.emit('error', { message: 'Must be logged in to start a new season' });
+            return;
+        }
+
+        const league = await dbOperations.getLeagueById(leagueId);
+        if (!league) {
+            socket.emit('error', { message: 'League not found' });
+            return;
+        }
+        if (league.creator_id !== authInfo.userId) {
+            socket.emit('error', { message: 'Only the league creator can start a new season' });
+            return;
+        }
+        if (league.status !== 'completed') {
+            socket.emit('error', { message: 'The season is still in progress' });
+            return;
+        }
+        if (league.next_league_id) {
+            socket.emit('error', { message: 'This season has already rolled over' });
+            return;
+        }
+
+        const next = await rolloverLeagueSeason(league, season?.trim() || nextSeasonLabel(league.season), startDate || null);
+        if (!next) {
+            socket.emit('error', { message: 'Failed to start the next season' });
+            return;
+        }
+
+        socket.emit('league_season_rolled_over', { success: true, leagueId, league: next });
+        io.emit('league_participant_update', { leagueId });
+        io.emit('leagues_updated');
+    });
+
+    // A player's finishes in past league seasons
+    socket.on('get_season_history', async ({ userId }: { userId?: string } = {}) => {
+        const authInfo = authenticatedSockets.get(socket.id);
+        const targetId = userId || authInfo?.userId;
+        if (!targetId) {
+            socket.emit('error', { message: 'Must be logged in to view season history' });
+            return;
+        }
+
+        const seasons = await dbOperations.getUserSeasonHistory(targetId);
+        socket.emit('season_history', { userId: targetId, seasons });
+    });
+
     // Delete a league (creator only, if not active)
     socket.on('delete_league', async ({ leagueId }: { leagueId: string }) => {
         const authInfo = authenticatedSockets.get(socket.id);
@@ -4480,6 +7530,14 @@ io.on('connection', (socket) => {
         // Create room if it doesn't exist
         let room = rooms.get(roomCode);
         if (!room) {
+            if (leagueMatch.status === 'forfeit') {
+                socket.emit('error', { message: 'This match was forfeited' });
+                return;
+            }
+            if (leagueMatch.status === 'aborted') {
+                socket.emit('error', { message: 'This match was aborted' });
+                return;
+            }
             const league = await dbOperations.getLeagueById(leagueMatch.league_id);
             const timeControl = parseTimeControlString(league?.time_control || '10+0');
 
@@ -4506,6 +7564,7 @@ io.on('connection', (socket) => {
                 leagueMatchId: leagueMatch.id
             };
             rooms.set(roomCode, newRoom);
+            saveRoom(newRoom);
             room = newRoom;
         }
 
@@ -4516,6 +7575,7 @@ io.on('connection', (socket) => {
         } else {
             room.players.black = socket.id;
         }
+        recordSeatTaken(room, color);
 
         socket.join(roomCode);
         socketToRoom.set(socket.id, roomCode);
@@ -4540,11 +7600,26 @@ io.on('connection', (socket) => {
 
     // Handle disconnection
     socket.on('disconnect', async () => {
+        socketLag.delete(socket.id);
+
+        // Nobody is left to read this socket's analysis
+        for (const kind of ['suggest', 'evaluate', 'analyze']) {
+            cancelEngineJob(`${kind}:${socket.id}`);
+        }
+
         // Clean up authenticated socket and matchmaking queue
         const authInfo = authenticatedSockets.get(socket.id);
         if (authInfo) {
             await dbOperations.removeFromQueue(authInfo.userId);
             authenticatedSockets.delete(socket.id);
+
+            // Take the player out of arena pools once their last tab is gone
+            const stillOnline = Array.from(authenticatedSockets.values()).some(info => info.userId === authInfo.userId);
+            if (!stillOnline) {
+                for (const state of arenas.values()) {
+                    state.pool.delete(authInfo.userId);
+                }
+            }
         }
         await dbOperations.removeFromQueueBySocket(socket.id);
 
@@ -4552,24 +7627,26 @@ io.on('connection', (socket) => {
         if (roomCode) {
             const room = rooms.get(roomCode);
             if (room) {
-                // Remove from players
-                if (room.players.white === socket.id) {
-                    room.players.white = undefined;
-                    io.to(roomCode).emit('player_left', { color: 'white' });
-                } else if (room.players.black === socket.id) {
-                    room.players.black = undefined;
-                    io.to(roomCode).emit('player_left', { color: 'black' });
+                // Remove from players, holding the seat if they can come back to it
+                const seat = room.players.white === socket.id ? 'white'
+                    : room.players.black === socket.id ? 'black'
+                    : null;
+                if (seat) {
+                    room.players[seat] = undefined;
+                    if (shouldHoldSeat(room, seat)) {
+                        holdSeat(room, roomCode, seat);
+                    } else {
+                        io.to(roomCode).emit('player_left', { color: seat });
+                    }
                 } else {
                     room.players.spectators = room.players.spectators.filter(id => id !== socket.id);
                     // Broadcast spectator update when spectator leaves
                     broadcastSpectatorUpdate(roomCode, room);
                 }
 
-                // Clean up empty rooms
-                if (!room.players.white && !room.players.black && room.players.spectators.length === 0) {
-                    stopClock(room);  // Clean up clock interval
-                    rooms.delete(roomCode);
-                    console.log(`Room ${roomCode} deleted (empty)`);
+                // Clean up empty rooms (unless a seat is still held)
+                if (isRoomEmpty(room) && !room.absent?.white && !room.absent?.black) {
+                    closeEmptyRoom(room, roomCode);
                 }
             }
             socketToRoom.delete(socket.id);
@@ -4593,4 +7670,16 @@ httpServer.listen(Number(PORT), '0.0.0.0', () => {
     console.log(`Server running on port ${PORT}`);
     console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
     console.log(`Database URL configured: ${process.env.DATABASE_URL ? 'Yes' : 'No'}`);
+
+    restoreRooms().catch(err => {
+        console.error('Failed to restore live rooms:', err);
+    });
+
+    startLagPings();
+    startMatchmaking();
+    startAbortChecks();
+
+    startJobScheduler().catch(err => {
+        console.error('Failed to start job scheduler:', err);
+    });
 });
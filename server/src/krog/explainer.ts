@@ -36,6 +36,8 @@ import {
   getPromotionFormula,
   detectSpecialMove
 } from './special';
+import { VARIANT_RULES, explainVariantMove, variantIllegalReason } from './variants';
+import { VariantState, castledKingSquare } from '../variants';
 
 /**
  * Explain why a move is legal
@@ -130,7 +132,8 @@ export function explainIllegalMove(
   game: Chess,
   from: Square,
   to: Square,
-  promotion?: string
+  promotion?: string,
+  variantState?: VariantState
 ): IllegalMoveExplanation {
   const piece = game.get(from as ChessSquare);
 
@@ -152,14 +155,31 @@ export function explainIllegalMove(
   const pieceType = piece.type as PieceType;
   fide = FIDE_ARTICLES[pieceType];
 
+  // Moves standard chess would allow but the variant does not
+  const variantReason = variantState && variantIllegalReason(game, from, to, promotion, variantState);
+  if (variantReason) {
+    return createIllegalExplanation(from, to, variantReason, VARIANT_RULES[variantState.variant]!.fide);
+  }
+
   // Check if move would leave king in check
-  const testGame = new Chess(game.fen());
+  const testGame = new Chess(game.fen(), { skipValidation: true });
   try {
     testGame.move({ from, to, promotion: promotion as any });
   } catch {
     // Move failed - determine why
     const targetPiece = game.get(to as ChessSquare);
 
+    // A castling attempt: the king two squares along its rank, or onto its
+    // own rook as Chess960 castling is played
+    const ontoOwnRook = targetPiece?.type === 'r' && targetPiece.color === piece.color && from[1] === to[1];
+    if (pieceType === 'k' && (isCastlingPattern(from, to) || ontoOwnRook)) {
+      const side = squareToCoords(to).file > squareToCoords(from).file ? 'kingside' : 'queenside';
+      const failed = checkCastlingConditions(game, piece.color, side).conditions.find(c => !c.met);
+      if (failed && CASTLING_REASONS[failed.name]) {
+        return createIllegalExplanation(from, to, CASTLING_REASONS[failed.name], FIDE_SPECIAL.castling);
+      }
+    }
+
     // Own piece on target
     if (targetPiece && targetPiece.color === piece.color) {
       reason = 'own_piece_on_target';
@@ -224,6 +244,15 @@ function isValidPattern(pieceType: PieceType, from: Square, to: Square): boolean
   }
 }
 
+// Illegal move reason for each castling condition of checkCastlingConditions
+const CASTLING_REASONS: Record<string, IllegalMoveReason> = {
+  'King has not moved': 'castling_king_moved',
+  'Rook has not moved': 'castling_rook_moved',
+  'Not in check': 'king_in_check',
+  'Path is clear': 'castling_pieces_between',
+  'Safe passage': 'castling_through_check'
+};
+
 function isCastlingPattern(from: Square, to: Square): boolean {
   const fromCoords = squareToCoords(from);
   const toCoords = squareToCoords(to);
@@ -248,7 +277,8 @@ function createIllegalExplanation(
   from: Square,
   to: Square,
   reason: IllegalMoveReason,
-  fide: { article: string; en: string; no: string }
+  fide: { article: string; en: string; no: string },
+  attemptedMove: string = `${from}-${to}`
 ): IllegalMoveExplanation {
   const explanations: Record<IllegalMoveReason, { en: string; no: string; violation: string }> = {
     no_piece: {
@@ -315,18 +345,48 @@ function createIllegalExplanation(
       en: 'Pawn is blocked',
       no: 'Bonden er blokkert',
       violation: '¬empty(target) ∧ ¬capture'
+    },
+    drop_not_in_pocket: {
+      en: 'You have no such piece in your pocket',
+      no: 'Du har ingen slik brikke i lommen',
+      violation: '¬in_pocket(piece)'
+    },
+    drop_square_occupied: {
+      en: 'Pieces can only be dropped on empty squares',
+      no: 'Brikker kan bare settes inn på tomme felt',
+      violation: '¬empty(target)'
+    },
+    drop_pawn_back_rank: {
+      en: 'Pawns cannot be dropped on the first or last rank',
+      no: 'Bønder kan ikke settes inn på første eller siste rad',
+      violation: 'pawn ∧ back_rank(target)'
+    },
+    explodes_own_king: {
+      en: 'The capture would explode your own king',
+      no: 'Slaget ville sprengt din egen konge',
+      violation: 'move → exploded(own_king)'
+    },
+    capture_compulsory: {
+      en: 'A capture is available, so you must capture',
+      no: 'Et slag er mulig, så du må slå',
+      violation: '∃capture ∧ ¬capture(move)'
+    },
+    gives_check_forbidden: {
+      en: 'Giving check is not allowed',
+      no: 'Det er ikke lov å gi sjakk',
+      violation: 'move → check(opponent_king)'
     }
   };
 
   const exp = explanations[reason];
 
   return {
-    attemptedMove: `${from}-${to}`,
+    attemptedMove,
     from,
     to,
     reason,
     krog: {
-      formula: `F(${from}-${to}) ↔ ${exp.violation}`,
+      formula: `F(${attemptedMove}) ↔ ${exp.violation}`,
       violation: exp.violation
     },
     fide,
@@ -352,13 +412,13 @@ function generateExplanationText(
   switch (moveType) {
     case 'castle_kingside':
       return {
-        en: 'Kingside castling: King moves two squares towards the rook, rook moves to the other side of the king.',
-        no: 'Kort rokade: Kongen flytter to felt mot tårnet, tårnet flytter til andre siden av kongen.'
+        en: 'Kingside castling: King goes to the g-file and the rook to the f-file beside it, wherever they started.',
+        no: 'Kort rokade: Kongen går til g-linjen og tårnet til f-linjen ved siden av, uansett hvor de startet.'
       };
     case 'castle_queenside':
       return {
-        en: 'Queenside castling: King moves two squares towards the rook, rook moves to the other side of the king.',
-        no: 'Lang rokade: Kongen flytter to felt mot tårnet, tårnet flytter til andre siden av kongen.'
+        en: 'Queenside castling: King goes to the c-file and the rook to the d-file beside it, wherever they started.',
+        no: 'Lang rokade: Kongen går til c-linjen og tårnet til d-linjen ved siden av, uansett hvor de startet.'
       };
     case 'en_passant':
       return {
@@ -384,25 +444,93 @@ function generateExplanationText(
 }
 
 /**
- * Main entry point - explain a move (legal or illegal)
+ * Main entry point - explain a move (legal or illegal). With the room's
+ * `variantState` (from before the move) the variant's own rules are
+ * explained too.
  */
 export function explainMove(
   game: Chess,
   from: Square,
   to: Square,
-  promotion?: string
+  promotion?: string,
+  variantState?: VariantState
+): MoveExplanation | IllegalMoveExplanation {
+  // Look the move up among the game's own legal moves, so variant boards
+  // judge it by their rules. A Chess960 king may also be taken straight to
+  // its castled square.
+  const moves = game.moves({ square: from as ChessSquare, verbose: true });
+  const move = moves.find(candidate => candidate.to === to && (!candidate.promotion || candidate.promotion === promotion)) ??
+    moves.find(candidate => /[kq]/.test(candidate.flags) && castledKingSquare(candidate) === to);
+  if (move) {
+    const explanation = explainLegalMove(game, move);
+    return variantState ? explainVariantMove(move, explanation, variantState) : explanation;
+  }
+
+  return explainIllegalMove(game, from, to, promotion, variantState);
+}
+
+/**
+ * Explain a Crazyhouse/Bughouse drop of `piece` on `to` by the side to move.
+ * A drop has no origin square, so `from` repeats the target.
+ */
+export function explainDrop(
+  game: Chess,
+  piece: PieceType,
+  to: Square,
+  inPocket: number
 ): MoveExplanation | IllegalMoveExplanation {
-  // Try to make the move to see if it's legal
+  const notation = `${piece.toUpperCase()}@${to}`;
+  const fide = FIDE_SPECIAL.drop;
+
+  if (inPocket <= 0 || piece === 'k') {
+    return createIllegalExplanation(to, to, 'drop_not_in_pocket', fide, notation);
+  }
+  if (game.get(to as ChessSquare)) {
+    return createIllegalExplanation(to, to, 'drop_square_occupied', fide, notation);
+  }
+  const backRank = to[1] === '1' || to[1] === '8';
+  if (piece === 'p' && backRank) {
+    return createIllegalExplanation(to, to, 'drop_pawn_back_rank', fide, notation);
+  }
+
+  // A drop can block a check but never give one away
   const testGame = new Chess(game.fen());
+  testGame.put({ type: piece, color: game.turn() }, to as ChessSquare);
+  if (testGame.inCheck()) {
+    return createIllegalExplanation(to, to, 'king_in_check', fide, notation);
+  }
 
-  try {
-    const move = testGame.move({ from, to, promotion: promotion as any });
-    if (move) {
-      return explainLegalMove(game, move);
-    }
-  } catch {
-    // Move is illegal
+  const conditions = [
+    { name: 'in_pocket', met: true, description: `A ${getPieceName(piece, 'en').toLowerCase()} is in hand` },
+    { name: 'empty', met: true, description: `${to} is empty` },
+    { name: 'king_safe', met: true, description: 'Own king is not left in check' }
+  ];
+  if (piece === 'p') {
+    conditions.splice(2, 0, { name: '¬back_rank', met: true, description: `${to} is not on the first or last rank` });
   }
 
-  return explainIllegalMove(game, from, to, promotion);
+  const pieceName = {
+    en: getPieceName(piece, 'en'),
+    no: getPieceName(piece, 'no')
+  };
+
+  return {
+    move: notation,
+    from: to,
+    to,
+    pieceType: piece,
+    moveType: 'drop',
+    isLegal: true,
+    krog: {
+      formula: `P(${notation}) ↔ ${conditions.map(c => c.name).join(' ∧ ')}`,
+      operator: 'P',
+      tType: 'T1'
+    },
+    fide,
+    explanation: {
+      en: `${pieceName.en} dropped from the pocket onto ${to}.`,
+      no: `${pieceName.no} satt inn fra lommen på ${to}.`
+    },
+    conditions
+  };
 }
@@ -243,6 +243,8 @@ export function generateKROGLD(move: {
   fide_ref?: string;
   color?: string;
   game_id?: string;
+  variant?: string;
+  formula?: string;
 }, rTypeLabel: string): object {
   // Map chess R-type label to KROG R-type
   const rTypeKey = CHESS_R_TYPE_MAPPING[rTypeLabel] || 'R11';
@@ -320,7 +322,9 @@ export function generateKROGLD(move: {
       "krog:piece": PIECE_NAMES[move.piece] || move.piece,
       "krog:captured": move.captured ? (PIECE_NAMES[move.captured] || move.captured) : null,
       "krog:isCapture": !!move.captured,
-      "fide:article": move.fide_ref ? `fide:article/${move.fide_ref}` : null
+      "krog:variant": move.variant || 'standard',
+      "krog:formula": move.formula || null,
+      "fide:article": move.fide_ref ? `fide:article/${encodeURIComponent(move.fide_ref)}` : null
     },
 
     "krog:metadata": {
@@ -161,9 +161,20 @@ export {
 export {
   explainLegalMove,
   explainIllegalMove,
-  explainMove
+  explainMove,
+  explainDrop
 } from './explainer';
 
+// Variant rule exports
+export {
+  VariantRule,
+  VARIANT_RULES,
+  variantOutcome,
+  explainVariantMove,
+  variantRType,
+  variantIllegalReason
+} from './variants';
+
 // Principle detection exports
 export {
   KROGPrinciple,
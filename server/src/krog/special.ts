@@ -6,9 +6,11 @@
 
 import { Chess, Square as ChessSquare } from 'chess.js';
 import { Square, MoveType, KROGFormula, FIDE_SPECIAL } from './types';
-import { squareToCoords, coordsToSquare, isSquareAttacked } from './pieces';
+import { squareToCoords, coordsToSquare } from './pieces';
+import { castlingRooks, castlingChecks } from '../variants/chess960';
 
-// Castling conditions checker
+// Castling conditions checker. The rook is the one the castling rights name,
+// so Chess960 starts (king and rooks anywhere on the back rank) work the same.
 export function checkCastlingConditions(
   game: Chess,
   color: 'w' | 'b',
@@ -20,16 +22,20 @@ export function checkCastlingConditions(
   const conditions: { name: string; met: boolean; description: string }[] = [];
 
   const rank = color === 'w' ? '1' : '8';
-  const kingSquare = `e${rank}` as Square;
-  const rookSquare = side === 'kingside' ? `h${rank}` as Square : `a${rank}` as Square;
-  const kingTarget = side === 'kingside' ? `g${rank}` as Square : `c${rank}` as Square;
-
-  // Check king hasn't moved (via castling rights)
+  const king = game.findPiece({ type: 'k', color })[0];
+  const rookSquare = castlingRooks(game.fen()).find(square =>
+    square[1] === rank && !!king && (side === 'kingside' ? square > king : square < king)
+  ) ?? (side === 'kingside' ? `h${rank}` : `a${rank}`) as ChessSquare;
+  const checks = castlingChecks(game, color, rookSquare);
+  const kingTarget = checks.kingTarget;
+
+  // Check king hasn't moved (it would have lost both castling rights)
   const castlingRights = game.getCastlingRights(color);
-  const canCastle = side === 'kingside' ? castlingRights.k : castlingRights.q;
+  const kingUnmoved = castlingRights.k || castlingRights.q;
+  const canCastle = (side === 'kingside' ? castlingRights.k : castlingRights.q) && checks.hasRight;
   conditions.push({
     name: 'King has not moved',
-    met: canCastle,
+    met: kingUnmoved,
     description: 'King has not moved'
   });
 
@@ -37,7 +43,7 @@ export function checkCastlingConditions(
   conditions.push({
     name: 'Rook has not moved',
     met: canCastle,
-    description: 'Rook has not moved'
+    description: `Rook on ${rookSquare} has not moved`
   });
 
   // Check king is not in check
@@ -48,31 +54,20 @@ export function checkCastlingConditions(
     description: 'King is not currently in check'
   });
 
-  // Check squares between are empty
-  const betweenSquares = side === 'kingside'
-    ? [`f${rank}`, `g${rank}`]
-    : [`b${rank}`, `c${rank}`, `d${rank}`];
-
-  const squaresEmpty = betweenSquares.every(sq => !game.get(sq as ChessSquare));
+  // Check the squares king and rook cross are empty
+  const squaresEmpty = canCastle && checks.pathClear;
   conditions.push({
     name: 'Path is clear',
     met: squaresEmpty,
-    description: 'No pieces between king and rook'
+    description: `No other pieces between king, rook and their squares ${kingTarget} and ${checks.rookTarget}`
   });
 
   // Check king doesn't pass through or end on attacked square
-  const kingPath = side === 'kingside'
-    ? [`e${rank}`, `f${rank}`, `g${rank}`]
-    : [`e${rank}`, `d${rank}`, `c${rank}`];
-
-  const opponentColor = color === 'w' ? 'b' : 'w';
-  const pathNotAttacked = kingPath.every(sq =>
-    !isSquareAttacked(game, sq as Square, opponentColor)
-  );
+  const pathNotAttacked = canCastle && checks.pathSafe;
   conditions.push({
     name: 'Safe passage',
     met: pathNotAttacked,
-    description: 'King does not pass through or end on attacked square'
+    description: `King does not pass through or end on attacked square (${kingTarget})`
   });
 
   const valid = canCastle && notInCheck && squaresEmpty && pathNotAttacked;
@@ -38,7 +38,8 @@ export type MoveType =
   | 'castle_queenside'
   | 'en_passant'
   | 'promotion'
-  | 'double_pawn_push';
+  | 'double_pawn_push'
+  | 'drop';
 
 // FIDE article references
 export interface FIDEReference {
@@ -128,7 +129,13 @@ export type IllegalMoveReason =
   | 'castling_rook_moved'
   | 'castling_pieces_between'
   | 'en_passant_expired'
-  | 'pawn_blocked';
+  | 'pawn_blocked'
+  | 'drop_not_in_pocket'
+  | 'drop_square_occupied'
+  | 'drop_pawn_back_rank'
+  | 'explodes_own_king'
+  | 'capture_compulsory'
+  | 'gives_check_forbidden';
 
 // FIDE Articles for piece movements
 export const FIDE_ARTICLES: Record<PieceType, FIDEReference> = {
@@ -180,5 +187,11 @@ export const FIDE_SPECIAL: Record<string, FIDEReference> = {
     article: '3.7.e',
     en: 'When a pawn reaches the rank furthest from its starting position it must be exchanged',
     no: 'Når en bonde når raden lengst fra utgangsstillingen må den byttes ut'
+  },
+  // Not a FIDE rule: Crazyhouse and Bughouse
+  drop: {
+    article: 'Crazyhouse',
+    en: 'A captured piece goes into the captor\'s pocket and may be dropped on any empty square instead of moving; pawns may not be dropped on the first or last rank',
+    no: 'En slått brikke havner i lommen til den som slo, og kan settes inn på et tomt felt i stedet for et trekk; bønder kan ikke settes på første eller siste rad'
   }
 };
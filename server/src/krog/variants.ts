@@ -0,0 +1,317 @@
+/**
+ * KROG Variant Rules
+ *
+ * Rule references and formulas for the rules the variants add to FIDE chess:
+ * how Three-Check, King of the Hill, Atomic, Antichess, Horde and Racing
+ * Kings games are won, compulsory captures, explosions and Chess960 castling.
+ * A move explained by the FIDE rules is completed with whichever of these it
+ * meets, and classified by them for the research data.
+ */
+
+import { Chess, Move, Square as ChessSquare } from 'chess.js';
+import { FIDEReference, IllegalMoveReason, MoveExplanation } from './types';
+import {
+  VariantState,
+  VariantType,
+  HILL_SQUARES,
+  createVariantBoard,
+  adjacentSquares,
+  scratchBoard,
+  castledKingSquare
+} from '../variants';
+
+// A variant's own rule, and the KROG formula for how its games are won
+// (i is the side moving, j the opponent)
+export interface VariantRule {
+  fide: FIDEReference;
+  goal?: string;
+}
+
+// Not FIDE rules, apart from Chess960 (Guidelines II of the Laws of Chess).
+// Crazyhouse and Bughouse drops are FIDE_SPECIAL.drop.
+export const VARIANT_RULES: Partial<Record<VariantType, VariantRule>> = {
+  chess960: {
+    fide: {
+      article: 'Guidelines II.3',
+      en: 'Chess960 castling: wherever they start, king and rook end on the squares they would after castling in standard chess',
+      no: 'Chess960-rokade: uansett hvor de starter, ender konge og tårn på feltene de ville fått etter rokade i vanlig sjakk'
+    }
+  },
+  threeCheck: {
+    fide: {
+      article: 'Three-Check',
+      en: 'A player who gives check for the third time wins the game',
+      no: 'Den som gir sjakk for tredje gang vinner partiet'
+    },
+    goal: 'W(i) ↔ checks(i) = 3'
+  },
+  kingOfTheHill: {
+    fide: {
+      article: 'King of the Hill',
+      en: 'A player whose king safely reaches d4, d5, e4 or e5 wins the game',
+      no: 'Den som får kongen sin trygt til d4, d5, e4 eller e5 vinner partiet'
+    },
+    goal: 'W(i) ↔ king(i) ∈ {d4,d5,e4,e5}'
+  },
+  atomic: {
+    fide: {
+      article: 'Atomic',
+      en: 'A capture explodes, removing the capturing piece and every piece but pawns next to the square; exploding the opponent\'s king wins, and one\'s own king may not be exploded',
+      no: 'Et slag eksploderer og fjerner den slående brikken og alle brikker unntatt bønder rundt feltet; den som sprenger motstanderens konge vinner, og egen konge kan ikke sprenges'
+    },
+    goal: 'W(i) ↔ exploded(king(j))'
+  },
+  antichess: {
+    fide: {
+      article: 'Antichess',
+      en: 'Capturing is compulsory and the king is an ordinary piece; a player who loses every piece, or has no legal move, wins',
+      no: 'Slag er obligatorisk og kongen er en vanlig brikke; den som mister alle brikkene, eller ikke har noe lovlig trekk, vinner'
+    },
+    goal: 'W(j) ↔ pieces(j) = ∅ ∨ ¬∃move(j)'
+  },
+  horde: {
+    fide: {
+      article: 'Horde',
+      en: 'Black wins by capturing every white piece and White by checkmate; white pawns on the first rank may advance two squares',
+      no: 'Svart vinner ved å slå alle hvite brikker og hvit ved sjakkmatt; hvite bønder på første rad kan flytte to felt'
+    },
+    goal: 'W(black) ↔ pieces(white) = ∅'
+  },
+  racingKings: {
+    fide: {
+      article: 'Racing Kings',
+      en: 'No move may give check; the first king to reach the eighth rank wins, unless Black reaches it on the very next move for a draw',
+      no: 'Ingen trekk kan gi sjakk; første konge på åttende rad vinner, med mindre svart når den i trekket etter og det blir remis'
+    },
+    goal: 'W(i) ↔ king(i) ∈ rank₈'
+  }
+};
+
+// A variant rule a move meets: its condition, formula term and explanation
+interface VariantEffect {
+  condition: { name: string; met: boolean; description: string };
+  formula: string;
+  explanation: { en: string; no: string };
+}
+
+const COLOR_NAMES = {
+  w: { en: 'White', no: 'Hvit' },
+  b: { en: 'Black', no: 'Svart' }
+};
+
+function givesCheck(move: Move): boolean {
+  return /[+#]$/.test(move.san);
+}
+
+/**
+ * Who wins by the variant's own rules once `move` is played ('draw' for a
+ * Racing Kings tie), or null. `state` is the variant state before the move.
+ */
+export function variantOutcome(move: Move, state: VariantState): 'w' | 'b' | 'draw' | null {
+  const mover = move.color === 'w' ? 'white' : 'black';
+  switch (state.variant) {
+    case 'threeCheck':
+      return givesCheck(move) && (state.checkCount?.[mover] ?? 0) + 1 >= 3 ? move.color : null;
+    case 'kingOfTheHill':
+      return move.piece === 'k' && HILL_SQUARES.includes(move.to) ? move.color : null;
+    case 'antichess': {
+      // The side left without pieces or moves wins
+      const board = createVariantBoard('antichess', move.after)!;
+      return board.decided() ?? (board.moves().length === 0 ? board.turn() : null);
+    }
+    default:
+      return createVariantBoard(state.variant, move.after)?.decided() ?? null;
+  }
+}
+
+/**
+ * The variant rules `move` meets, besides the FIDE ones
+ */
+function variantEffects(move: Move, state: VariantState): VariantEffect[] {
+  const effects: VariantEffect[] = [];
+  const mover = move.color === 'w' ? 'white' : 'black';
+  const name = COLOR_NAMES[move.color];
+
+  switch (state.variant) {
+    case 'chess960':
+      if (/[kq]/.test(move.flags)) {
+        const king = castledKingSquare(move);
+        const rook = `${move.flags.includes('k') ? 'f' : 'd'}${king[1]}`;
+        effects.push({
+          condition: { name: 'chess960_castling', met: true, description: `King ends on ${king} and rook on ${rook}` },
+          formula: `castle(${move.from}→${king}, ${move.to}→${rook})`,
+          explanation: {
+            en: `The king ends on ${king} and the rook from ${move.to} on ${rook}.`,
+            no: `Kongen ender på ${king} og tårnet fra ${move.to} på ${rook}.`
+          }
+        });
+      }
+      break;
+    case 'threeCheck':
+      if (givesCheck(move)) {
+        const checks = (state.checkCount?.[mover] ?? 0) + 1;
+        effects.push({
+          condition: { name: 'check_count', met: true, description: `Check ${checks} of 3 for ${name.en}` },
+          formula: `checks(i) = ${checks}`,
+          explanation: {
+            en: `This is ${name.en}'s check number ${checks} of 3.`,
+            no: `Dette er ${name.no} sin sjakk nummer ${checks} av 3.`
+          }
+        });
+      }
+      break;
+    case 'atomic':
+      if (move.captured) {
+        const board = scratchBoard(move.before);
+        const blast = adjacentSquares(move.to).filter(square => {
+          const piece = square !== move.from && board.get(square);
+          return piece && piece.type !== 'p';
+        });
+        effects.push({
+          condition: {
+            name: 'explosion',
+            met: true,
+            description: `Explosion on ${move.to} removes the capturing piece${blast.length ? ` and ${blast.join(', ')}` : ''}`
+          },
+          formula: `explode(${move.to})`,
+          explanation: {
+            en: `The capture explodes on ${move.to}, taking the capturing piece${blast.length ? ` and the pieces on ${blast.join(', ')}` : ''} with it.`,
+            no: `Slaget eksploderer på ${move.to} og tar med seg den slående brikken${blast.length ? ` og brikkene på ${blast.join(', ')}` : ''}.`
+          }
+        });
+      }
+      break;
+    case 'antichess':
+      if (move.captured) {
+        effects.push({
+          condition: { name: 'compulsory_capture', met: true, description: 'Captures are compulsory' },
+          formula: 'O(capture) ↔ ∃capture',
+          explanation: {
+            en: 'Capturing is compulsory whenever possible.',
+            no: 'Slag er obligatorisk når det er mulig.'
+          }
+        });
+      }
+      break;
+    case 'horde':
+      if (move.piece === 'p' && move.from[1] === '1' && move.to[1] === '3') {
+        effects.push({
+          condition: { name: 'horde_double_step', met: true, description: 'Horde pawns may advance two squares from the first rank' },
+          formula: `P(${move.from}→${move.to}) ↔ rank(${move.from}) = 1`,
+          explanation: {
+            en: 'A horde pawn on the first rank may advance two squares.',
+            no: 'En hordebonde på første rad kan flytte to felt.'
+          }
+        });
+      }
+      break;
+  }
+
+  const rule = VARIANT_RULES[state.variant];
+  const outcome = rule?.goal ? variantOutcome(move, state) : null;
+  if (rule?.goal && outcome) {
+    const result = outcome === 'draw'
+      ? { en: 'The game is drawn.', no: 'Partiet er remis.' }
+      : { en: `${COLOR_NAMES[outcome].en} wins the game.`, no: `${COLOR_NAMES[outcome].no} vinner partiet.` };
+    effects.push({
+      condition: { name: 'variant_goal', met: true, description: rule.fide.en },
+      formula: rule.goal,
+      explanation: result
+    });
+  }
+
+  return effects;
+}
+
+/**
+ * Complete the FIDE explanation of a legal move with the variant's own rules.
+ * `state` is the variant state before the move.
+ */
+export function explainVariantMove(move: Move, explanation: MoveExplanation, state: VariantState): MoveExplanation {
+  const rule = VARIANT_RULES[state.variant];
+  const effects = variantEffects(move, state);
+  if (!rule || effects.length === 0) return explanation;
+
+  return {
+    ...explanation,
+    krog: {
+      ...explanation.krog,
+      formula: [explanation.krog.formula, ...effects.map(effect => effect.formula.includes('↔') ? `(${effect.formula})` : effect.formula)]
+        .join(' ∧ ')
+    },
+    fide: rule.fide,
+    explanation: {
+      en: [explanation.explanation.en, ...effects.map(effect => effect.explanation.en)].join(' '),
+      no: [explanation.explanation.no, ...effects.map(effect => effect.explanation.no)].join(' ')
+    },
+    conditions: [...explanation.conditions, ...effects.map(effect => effect.condition)]
+  };
+}
+
+/**
+ * The R-type the variant's rules give a move, or null where the FIDE
+ * classification stands. `state` is the variant state before the move.
+ */
+export function variantRType(move: Move, state: VariantState): string | null {
+  if (VARIANT_RULES[state.variant]?.goal && variantOutcome(move, state)) {
+    return 'R13_terminal_state';
+  }
+  switch (state.variant) {
+    case 'threeCheck':
+      return givesCheck(move) ? 'R15_counter_based' : null;
+    case 'atomic':
+      return move.captured ? 'R9_compound_move' : null;
+    case 'antichess':
+      return move.captured ? 'R10_conditional' : null;
+    case 'horde':
+      return move.piece === 'p' && move.from[1] === '1' && move.to[1] === '3' ? 'R6_first_move_special' : null;
+    default:
+      return null;
+  }
+}
+
+// The move as chess.js would play it by the standard rules, if it could
+function plainMove(game: Chess, from: ChessSquare, to: ChessSquare, promotion?: string): Move | undefined {
+  return scratchBoard(game.fen()).moves({ square: from, verbose: true })
+    .find(move => move.to === to && (!move.promotion || move.promotion === promotion));
+}
+
+/**
+ * Why a move the variant's board refused would have been fine in standard
+ * chess, or null if the FIDE rules explain it
+ */
+export function variantIllegalReason(
+  game: Chess,
+  from: ChessSquare,
+  to: ChessSquare,
+  promotion: string | undefined,
+  state: VariantState
+): IllegalMoveReason | null {
+  const piece = game.get(from);
+  const target = game.get(to);
+  const color = game.turn();
+  if (!piece || piece.color !== color) return null;
+
+  switch (state.variant) {
+    case 'atomic': {
+      // A capture by the king, or next to it, blows it up
+      if (!target || target.color === color) return null;
+      if (piece.type === 'k') return adjacentSquares(from).includes(to) ? 'explodes_own_king' : null;
+      const king = game.findPiece({ type: 'k', color })[0];
+      return king && adjacentSquares(to).includes(king) && plainMove(game, from, to, promotion)
+        ? 'explodes_own_king'
+        : null;
+    }
+    case 'antichess': {
+      const plain = plainMove(game, from, to, promotion);
+      const mustCapture = game.moves({ verbose: true }).some(move => move.captured);
+      return plain && !plain.captured && mustCapture ? 'capture_compulsory' : null;
+    }
+    case 'racingKings': {
+      const plain = plainMove(game, from, to, promotion);
+      return plain && givesCheck(plain) ? 'gives_check_forbidden' : null;
+    }
+    default:
+      return null;
+  }
+}
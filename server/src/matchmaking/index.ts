@@ -0,0 +1,131 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                               MATCHMAKING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pairing rules for the matchmaking queue.
+ *
+ * Players queue for a time control and a variant and are only ever paired
+ * within that queue. Each starts out accepting opponents close to their own
+ * rating; the window widens the longer they wait, and two players are paired
+ * once the gap between them fits inside both of their windows, so a newcomer
+ * cannot drag a long waiter into a lopsided game.
+ *
+ * Colours go to whoever is owed them: the player who has had Black more often
+ * lately gets White, and a streak of the same colour counts for more than a
+ * single game. Players that nobody has turned up for are offered a rated game
+ * against the engine instead, at the level nearest their rating.
+ */
+
+import type { Difficulty } from '../ai';
+
+export type PieceColor = 'white' | 'black';
+
+export interface QueuedPlayer {
+  userId: string;
+  rating: number;
+  joinedAt: Date;
+}
+
+// Rating gap accepted on joining, widened by the step every interval waited
+const INITIAL_RATING_WINDOW = 100;
+const RATING_WINDOW_STEP = 50;
+const RATING_WINDOW_STEP_MS = 10 * 1000;
+const MAX_RATING_WINDOW = 600;
+
+// How many recent games count towards colour balance
+export const COLOR_HISTORY_GAMES = 10;
+
+// Fixed ratings of the engine levels, used when a queued player falls back to a bot
+export const BOT_RATINGS: Record<Difficulty, number> = {
+  beginner: 1000,
+  intermediate: 1500,
+  advanced: 1900
+};
+// Bot ratings are pinned rather than earned, so they are treated as well established
+export const BOT_DEVIATION = 60;
+
+/**
+ * Queue key: players only meet others on the same time control and variant
+ */
+export function queueKey(timeControl: string, variant: string): string {
+  return `${timeControl}|${variant}`;
+}
+
+/**
+ * Rating gap a player accepts after waiting `waitedMs`
+ */
+export function ratingWindow(waitedMs: number): number {
+  const steps = Math.floor(Math.max(0, waitedMs) / RATING_WINDOW_STEP_MS);
+  return Math.min(MAX_RATING_WINDOW, INITIAL_RATING_WINDOW + steps * RATING_WINDOW_STEP);
+}
+
+/**
+ * Whether two queued players are close enough in rating for both to accept
+ */
+export function canPair(a: QueuedPlayer, b: QueuedPlayer, now: Date = new Date()): boolean {
+  const gap = Math.abs(a.rating - b.rating);
+  return gap <= ratingWindow(now.getTime() - a.joinedAt.getTime())
+    && gap <= ratingWindow(now.getTime() - b.joinedAt.getTime());
+}
+
+/**
+ * Pair a queue greedily: longest waiters first, each with the closest-rated
+ * player they can accept. Players left over keep waiting.
+ */
+export function pairQueue<T extends QueuedPlayer>(queue: T[], now: Date = new Date()): [T, T][] {
+  const waiting = [...queue].sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+  const paired = new Set<T>();
+  const pairs: [T, T][] = [];
+
+  for (const player of waiting) {
+    if (paired.has(player)) continue;
+    let best: T | null = null;
+    for (const other of waiting) {
+      if (other === player || paired.has(other) || other.userId === player.userId) continue;
+      if (!canPair(player, other, now)) continue;
+      if (!best || Math.abs(other.rating - player.rating) < Math.abs(best.rating - player.rating)) {
+        best = other;
+      }
+    }
+    if (best) {
+      paired.add(player);
+      paired.add(best);
+      pairs.push([player, best]);
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * How much a player is owed White, from their recent colours (most recent
+ * first). Positive means they have had Black more; the latest games weigh
+ * most, so a streak tips the balance sooner than an old imbalance.
+ */
+export function whiteDebt(history: PieceColor[]): number {
+  return history.slice(0, COLOR_HISTORY_GAMES).reduce((debt, color, i) => {
+    const weight = COLOR_HISTORY_GAMES - i;
+    return debt + (color === 'black' ? weight : -weight);
+  }, 0);
+}
+
+/**
+ * Whether the first player should take White, given both players' recent
+ * colours (most recent first). Ties are broken at random.
+ */
+export function firstPlaysWhite(historyA: PieceColor[], historyB: PieceColor[], random: () => number = Math.random): boolean {
+  const debtA = whiteDebt(historyA);
+  const debtB = whiteDebt(historyB);
+  if (debtA !== debtB) return debtA > debtB;
+  return random() < 0.5;
+}
+
+/**
+ * The engine level whose rating is nearest a player's
+ */
+export function botForRating(rating: number): Difficulty {
+  return (Object.keys(BOT_RATINGS) as Difficulty[]).reduce((best, level) =>
+    Math.abs(BOT_RATINGS[level] - rating) < Math.abs(BOT_RATINGS[best] - rating) ? level : best
+  );
+}
@@ -0,0 +1,116 @@
+import { DEFAULT_POSITION, Square } from 'chess.js';
+import { TimeControl } from '../clock';
+import { VariantType, editFen } from '../variants';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              ODDS GAMES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Handicap games, as a stronger player gives a weaker one odds. Each kind of
+ * odds is tied to a colour, so players pick their seats before the game:
+ *   piece odds  the giver starts without their queen's knight, queen's rook or
+ *               queen; "pawn and move" is the f-pawn given by Black, leaving
+ *               White the first move as usual
+ *   clock odds  each colour's own base time, in minutes (the increment and any
+ *               delay stay as the time control has them)
+ *   draw odds   a drawn game counts as a win for that side, as in armageddon
+ *
+ * Odds games are never rated.
+ */
+
+export type PieceOdds = 'pawnAndMove' | 'knight' | 'rook' | 'queen';
+
+export type OddsColor = 'white' | 'black';
+
+export interface GameOdds {
+  piece?: { type: PieceOdds; giver: OddsColor };
+  clock?: { white: number; black: number };  // minutes
+  drawOdds?: OddsColor;  // the side a draw counts as a win for
+}
+
+// The square of the piece given, as White would give it
+const PIECE_ODDS_SQUARES: Record<PieceOdds, string> = {
+  pawnAndMove: 'f2',
+  knight: 'b1',
+  rook: 'a1',
+  queen: 'd1'
+};
+
+const MAX_ODDS_MINUTES = 180;
+
+const COLORS: OddsColor[] = ['white', 'black'];
+
+function validMinutes(minutes: unknown): minutes is number {
+  return typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0 && minutes <= MAX_ODDS_MINUTES;
+}
+
+/**
+ * Odds as sent by a client, checked and stripped to the known fields.
+ * Returns null for anything malformed, and for odds that give nothing.
+ */
+export function parseOdds(request: GameOdds): GameOdds | null {
+  if (!request || typeof request !== 'object') return null;
+  const odds: GameOdds = {};
+
+  if (request.piece) {
+    const { type, giver } = request.piece;
+    if (!Object.prototype.hasOwnProperty.call(PIECE_ODDS_SQUARES, type) || !COLORS.includes(giver)) return null;
+    // Pawn and move: the giver is the side that moves second
+    if (type === 'pawnAndMove' && giver !== 'black') return null;
+    odds.piece = { type, giver };
+  }
+
+  if (request.clock) {
+    const { white, black } = request.clock;
+    if (!validMinutes(white) || !validMinutes(black)) return null;
+    odds.clock = { white, black };
+  }
+
+  if (request.drawOdds) {
+    if (!COLORS.includes(request.drawOdds)) return null;
+    odds.drawOdds = request.drawOdds;
+  }
+
+  return odds.piece || odds.clock || odds.drawOdds ? odds : null;
+}
+
+/**
+ * Why the odds cannot be given in a game of this variant and time control,
+ * or null if they can
+ */
+export function oddsConflict(odds: GameOdds, variant: VariantType, timeControl: TimeControl): string | null {
+  if (variant === 'bughouse') return 'Bughouse is not played at odds';
+  if (odds.piece && variant !== 'standard') return 'Piece odds are only given in standard chess';
+  if (odds.clock && timeControl.type === 'unlimited') return 'Clock odds need a timed game';
+  return null;
+}
+
+/**
+ * The starting position with the giver's piece taken off
+ */
+export function oddsStartFen(piece: NonNullable<GameOdds['piece']>): string {
+  const square = PIECE_ODDS_SQUARES[piece.type];
+  // Black gives the same piece from the mirrored square
+  const rank = piece.giver === 'white' ? Number(square[1]) : 9 - Number(square[1]);
+  return editFen(DEFAULT_POSITION, { [`${square[0]}${rank}` as Square]: null });
+}
+
+/**
+ * The time control with each colour's base time from the clock odds
+ */
+export function oddsTimeControl(base: TimeControl, clock: NonNullable<GameOdds['clock']>): TimeControl {
+  return {
+    ...base,
+    initialTime: Math.round(clock.white * 60000),
+    blackInitialTime: Math.round(clock.black * 60000)
+  };
+}
+
+/**
+ * The result as scored under the odds: a draw goes to the side with draw odds
+ */
+export function oddsResult(result: '1-0' | '0-1' | '1/2-1/2', odds: GameOdds | undefined): '1-0' | '0-1' | '1/2-1/2' {
+  if (result !== '1/2-1/2' || !odds?.drawOdds) return result;
+  return odds.drawOdds === 'white' ? '1-0' : '0-1';
+}
@@ -0,0 +1,134 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                              GLICKO-2 RATINGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Glicko-2 rating updates (Glickman, "Example of the Glicko-2 system").
+ *
+ * Each player has a rating, a deviation (how sure we are of the rating) and a
+ * volatility (how erratic their results are), kept separately per pool: one
+ * pool per time control and variant, so bullet results leave rapid ratings
+ * alone and Chess960 games do not touch standard ones.
+ *
+ * Every rated game is its own rating period, as on the big servers; time away
+ * from a pool widens the deviation again before the next game is scored.
+ */
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+
+// A rating is provisional until its deviation drops below this
+export const PROVISIONAL_DEVIATION = 110;
+
+const MIN_DEVIATION = 45;
+const MAX_DEVIATION = DEFAULT_DEVIATION;
+// Constrains the change in volatility over time (0.3 to 1.2 is reasonable)
+const TAU = 0.5;
+const CONVERGENCE = 0.000001;
+// Glicko-2 scale factor between the displayed and internal scales
+const SCALE = 173.7178;
+// Length of a rating period for deviation decay while inactive
+const RATING_PERIOD_DAYS = 7;
+
+/**
+ * Pool key for a time control and variant, e.g. "blitz:standard"
+ */
+export function ratingPool(timeControl: string, variant: string): string {
+  return `${timeControl}:${variant}`;
+}
+
+/**
+ * The time control and variant of a pool key
+ */
+export function parseRatingPool(pool: string): { timeControl: string; variant: string } | null {
+  const match = pool.match(/^([a-z]+):([a-zA-Z0-9]+)$/);
+  return match ? { timeControl: match[1], variant: match[2] } : null;
+}
+
+export function isProvisional(rating: Pick<Glicko2Rating, 'deviation'>): boolean {
+  return rating.deviation >= PROVISIONAL_DEVIATION;
+}
+
+/**
+ * Widen the deviation for rating periods spent away from the pool
+ */
+export function decayDeviation(rating: Glicko2Rating, lastPlayedAt: Date | null, now: Date = new Date()): Glicko2Rating {
+  if (!lastPlayedAt) return rating;
+  const periods = Math.max(0, now.getTime() - lastPlayedAt.getTime()) / (RATING_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  const phi = rating.deviation / SCALE;
+  const decayed = Math.sqrt(phi * phi + periods * rating.volatility * rating.volatility) * SCALE;
+  return { ...rating, deviation: Math.min(MAX_DEVIATION, decayed) };
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+/**
+ * A player's new rating after one game against `opponent`
+ * (score 1 for a win, 0.5 for a draw, 0 for a loss)
+ */
+export function glicko2Update(player: Glicko2Rating, opponent: Glicko2Rating, score: number): Glicko2Rating {
+  const mu = (player.rating - DEFAULT_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+  const muJ = (opponent.rating - DEFAULT_RATING) / SCALE;
+  const phiJ = opponent.deviation / SCALE;
+
+  // Step 3-4: estimated variance and improvement from the game
+  const gJ = g(phiJ);
+  const expected = 1 / (1 + Math.exp(-gJ * (mu - muJ)));
+  const v = 1 / (gJ * gJ * expected * (1 - expected));
+  const delta = v * gJ * (score - expected);
+
+  // Step 5: new volatility by the Illinois algorithm
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * Math.pow(phi * phi + v + ex, 2)) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + (A - B) * fA / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const newSigma = Math.exp(A / 2);
+
+  // Step 6-7: new deviation and rating
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gJ * (score - expected);
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING,
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, newPhi * SCALE)),
+    volatility: newSigma
+  };
+}
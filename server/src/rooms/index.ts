@@ -0,0 +1,115 @@
+import { dbOperations } from '../db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              ROOM STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Snapshots of live game rooms, so games in progress survive a restart.
+ *
+ * The server keeps playing from its in-memory rooms; after every move it hands
+ * the store a snapshot and on boot it rebuilds the rooms from whatever the store
+ * still holds. The snapshot itself is opaque here - the server decides what
+ * goes in it - and only the seated user IDs are kept alongside for lookups.
+ */
+
+export interface StoredRoom<T> {
+  code: string;
+  whiteUserId: string | null;
+  blackUserId: string | null;
+  snapshot: T;
+  updatedAt: Date;
+}
+
+export interface RoomStore<T> {
+  readonly kind: 'memory' | 'postgres';
+  save(room: Omit<StoredRoom<T>, 'updatedAt'>): Promise<void>;
+  remove(code: string): Promise<void>;
+  // Rooms saved within the last maxAgeHours; older ones are dropped
+  loadAll(maxAgeHours: number): Promise<StoredRoom<T>[]>;
+}
+
+/**
+ * Keeps snapshots in process memory: nothing survives a restart, but the
+ * server runs the same code path without a database
+ */
+export function createMemoryRoomStore<T>(): RoomStore<T> {
+  const rooms = new Map<string, { entry: Omit<StoredRoom<T>, 'snapshot'>; json: string }>();
+
+  return {
+    kind: 'memory',
+
+    async save({ code, whiteUserId, blackUserId, snapshot }) {
+      // Stored as JSON so a snapshot never shares objects with the live room
+      rooms.set(code, { entry: { code, whiteUserId, blackUserId, updatedAt: new Date() }, json: JSON.stringify(snapshot) });
+    },
+
+    async remove(code) {
+      rooms.delete(code);
+    },
+
+    async loadAll(maxAgeHours) {
+      const cutoff = Date.now() - maxAgeHours * 3600 * 1000;
+      const result: StoredRoom<T>[] = [];
+      for (const [code, { entry, json }] of rooms) {
+        if (entry.updatedAt.getTime() < cutoff) {
+          rooms.delete(code);
+          continue;
+        }
+        result.push({ ...entry, snapshot: JSON.parse(json) as T });
+      }
+      return result;
+    }
+  };
+}
+
+/**
+ * Keeps snapshots in the live_rooms table. Writes are fire-and-forget from the
+ * game loop, so they are queued per room to land in the order they were made.
+ */
+export function createPostgresRoomStore<T>(): RoomStore<T> {
+  const queues = new Map<string, Promise<void>>();
+
+  const enqueue = (code: string, write: () => Promise<void>): Promise<void> => {
+    const previous = queues.get(code) || Promise.resolve();
+    const next = previous.catch(() => {}).then(write);
+    queues.set(code, next);
+    next.finally(() => {
+      if (queues.get(code) === next) queues.delete(code);
+    }).catch(() => {});
+    return next;
+  };
+
+  return {
+    kind: 'postgres',
+
+    save({ code, whiteUserId, blackUserId, snapshot }) {
+      return enqueue(code, () => dbOperations.saveLiveRoom(code, whiteUserId, blackUserId, JSON.stringify(snapshot)));
+    },
+
+    remove(code) {
+      return enqueue(code, () => dbOperations.deleteLiveRoom(code));
+    },
+
+    async loadAll(maxAgeHours) {
+      await dbOperations.deleteStaleLiveRooms(maxAgeHours);
+      const rows = await dbOperations.getLiveRooms();
+      return rows.map(row => ({
+        code: row.code,
+        whiteUserId: row.white_user_id,
+        blackUserId: row.black_user_id,
+        snapshot: row.snapshot as T,
+        updatedAt: new Date(row.updated_at)
+      }));
+    }
+  };
+}
+
+/**
+ * Pick the store from ROOM_STORE ('memory' or 'postgres'); defaults to
+ * Postgres whenever a database is configured
+ */
+export function createRoomStore<T>(): RoomStore<T> {
+  const kind = process.env.ROOM_STORE || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+  return kind === 'postgres' ? createPostgresRoomStore<T>() : createMemoryRoomStore<T>();
+}
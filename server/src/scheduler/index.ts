@@ -0,0 +1,157 @@
+import { dbOperations, ScheduledJob } from '../db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              JOB SCHEDULER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Persistent job scheduler backed by the scheduled_jobs table.
+ *
+ * Jobs are polled and claimed with FOR UPDATE SKIP LOCKED, so they survive a
+ * restart and are never run twice at once. A failed job is retried with
+ * exponential backoff; a recurring job is pushed forward by its interval after
+ * every run, whether it succeeded or not. A job scheduled again while it runs
+ * is queued again at its new time once the run is over.
+ */
+
+export type JobHandler = (job: ScheduledJob) => Promise<void>;
+
+export interface ScheduleOptions {
+  key?: string;              // One job per key; scheduling again re-arms it
+  intervalSeconds?: number;  // Run again every N seconds
+}
+
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 30;
+// A job 'running' this long belonged to a server that went away
+const STALE_LOCK_MINUTES = 10;
+
+const handlers = new Map<string, JobHandler>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let polling = false;
+
+/**
+ * Register the function that runs jobs of a given type
+ */
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Schedule a job, replacing any job with the same key (a running one is
+ * queued again at the new time once it finishes)
+ */
+export async function scheduleJob(
+  type: string,
+  runAt: Date,
+  payload: Record<string, unknown> = {},
+  options: ScheduleOptions = {}
+): Promise<void> {
+  await dbOperations.upsertScheduledJob(type, runAt, payload, options.key || null, options.intervalSeconds || null);
+}
+
+/**
+ * Schedule a recurring job unless one with this key already exists
+ * (called on every boot, so the existing schedule is kept)
+ */
+export async function ensureRecurringJob(
+  type: string,
+  key: string,
+  firstRunAt: Date,
+  intervalSeconds: number,
+  payload: Record<string, unknown> = {}
+): Promise<void> {
+  await dbOperations.insertScheduledJobIfMissing(type, firstRunAt, payload, key, intervalSeconds);
+}
+
+/**
+ * Cancel a pending job by key
+ */
+export async function cancelJob(key: string): Promise<void> {
+  await dbOperations.deleteScheduledJob(key);
+}
+
+/**
+ * Next run of a recurring job: keep its alignment (e.g. midnight), skipping
+ * any runs missed while the server was down
+ */
+function nextRecurringRun(job: ScheduledJob): Date {
+  const intervalMs = job.interval_seconds! * 1000;
+  let next = new Date(job.run_at).getTime() + intervalMs;
+  const now = Date.now();
+  if (next <= now) {
+    next += Math.ceil((now - next) / intervalMs) * intervalMs;
+  }
+  return new Date(next);
+}
+
+async function runJob(job: ScheduledJob): Promise<void> {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+    await handler(job);
+
+    if (job.interval_seconds) {
+      await dbOperations.rescheduleJob(job.id, nextRecurringRun(job), null, true);
+    } else {
+      await dbOperations.completeScheduledJob(job.id);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Scheduled job ${job.type} (${job.id}) failed:`, message);
+
+    if (job.interval_seconds) {
+      // A recurring job just tries again on its next run
+      await dbOperations.rescheduleJob(job.id, nextRecurringRun(job), message, true);
+    } else if (job.attempts < MAX_ATTEMPTS) {
+      const retryAt = new Date(Date.now() + RETRY_BASE_SECONDS * 1000 * Math.pow(2, job.attempts - 1));
+      await dbOperations.rescheduleJob(job.id, retryAt, message, false);
+    } else {
+      await dbOperations.failScheduledJob(job.id, message);
+    }
+  }
+
+  // The updates above leave a job re-armed during the run alone
+  await dbOperations.releaseRearmedJob(job.id);
+}
+
+async function pollDueJobs(): Promise<void> {
+  // Skip a tick rather than overlap with a slow batch
+  if (polling) return;
+  polling = true;
+
+  try {
+    await dbOperations.releaseStaleJobs(STALE_LOCK_MINUTES);
+    const jobs = await dbOperations.claimDueJobs(BATCH_SIZE);
+    for (const job of jobs) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Error polling scheduled jobs:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start polling for due jobs
+ */
+export function startScheduler(): void {
+  if (pollTimer) return;
+  pollTimer = setInterval(pollDueJobs, POLL_INTERVAL_MS);
+  pollDueJobs();
+  console.log(`Job scheduler started (${handlers.size} job types)`);
+}
+
+/**
+ * Stop polling; jobs already claimed finish normally
+ */
+export function stopScheduler(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
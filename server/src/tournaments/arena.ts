@@ -0,0 +1,178 @@
+import { TournamentParticipant, TournamentGame } from '../db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                             ARENA TOURNAMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Time-boxed arenas: players are re-paired from a waiting pool as soon as
+ * their game ends, until the arena clock runs out.
+ *
+ * Scoring is 2 / 1 / 0 for a win / draw / loss. Two wins in a row put a player
+ * "on fire": every further game scores double until they fail to win. A player
+ * who berserks (halves their own clock) earns one extra point for a win.
+ */
+
+export const ARENA_POINTS = { win: 2, draw: 1, loss: 0 };
+export const ARENA_BERSERK_BONUS = 1;
+
+// Consecutive wins needed before points are doubled
+const FIRE_STREAK = 2;
+
+export interface ArenaStanding {
+  userId: string;
+  username?: string;
+  rating: number;
+  score: number;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  berserks: number;
+  streak: number;       // Current run of consecutive wins
+  onFire: boolean;      // Next game scores double
+  sheet: number[];      // Points per game, in the order they were played
+}
+
+export interface ArenaPoolPlayer {
+  id: string;
+  score: number;
+  rating: number;
+  lastOpponentId: string | null;
+  colorBalance: number;  // Whites minus blacks so far
+}
+
+export interface ArenaPairing {
+  whiteId: string;
+  blackId: string;
+}
+
+/**
+ * Compute the live leaderboard from finished arena games
+ */
+export function calculateArenaStandings(participants: TournamentParticipant[], games: TournamentGame[]): ArenaStanding[] {
+  const standings = new Map<string, ArenaStanding>();
+  for (const p of participants) {
+    standings.set(p.user_id, {
+      userId: p.user_id,
+      username: p.username,
+      rating: p.rating || 0,
+      score: 0,
+      games: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      berserks: 0,
+      streak: 0,
+      onFire: false,
+      sheet: []
+    });
+  }
+
+  // Streaks depend on the order games finished in
+  const finished = games
+    .filter(g => g.result !== null && g.status !== 'aborted')
+    .sort((a, b) =>
+      new Date(a.ended_at || 0).getTime() - new Date(b.ended_at || 0).getTime() || a.board - b.board
+    );
+
+  for (const game of finished) {
+    const sides: [string, 'white' | 'black', boolean][] = [
+      [game.white_id, 'white', !!game.white_berserk],
+      [game.black_id, 'black', !!game.black_berserk]
+    ];
+
+    for (const [userId, color, berserk] of sides) {
+      const standing = standings.get(userId);
+      if (!standing) continue;
+
+      const won = (game.result === '1-0' && color === 'white') || (game.result === '0-1' && color === 'black');
+      const drawn = game.result === '1/2-1/2';
+      const multiplier = standing.onFire ? 2 : 1;
+
+      let points: number;
+      if (won) {
+        points = ARENA_POINTS.win * multiplier + (berserk ? ARENA_BERSERK_BONUS : 0);
+        standing.wins++;
+        standing.streak++;
+      } else if (drawn) {
+        points = ARENA_POINTS.draw * multiplier;
+        standing.draws++;
+        standing.streak = 0;
+      } else {
+        points = ARENA_POINTS.loss;
+        standing.losses++;
+        standing.streak = 0;
+      }
+
+      standing.score += points;
+      standing.games++;
+      standing.sheet.push(points);
+      if (berserk) standing.berserks++;
+      // Once on fire, a player stays on fire until they stop winning
+      standing.onFire = standing.streak >= FIRE_STREAK;
+    }
+  }
+
+  return [...standings.values()].sort((a, b) =>
+    b.score - a.score || b.wins - a.wins || b.rating - a.rating || a.userId.localeCompare(b.userId)
+  );
+}
+
+/**
+ * Pair waiting players: closest in the standings first, avoiding an immediate
+ * rematch unless there is nobody else to play
+ */
+export function pairArenaPool(players: ArenaPoolPlayer[]): ArenaPairing[] {
+  const waiting = [...players].sort((a, b) =>
+    b.score - a.score || b.rating - a.rating || a.id.localeCompare(b.id)
+  );
+  const pairings: ArenaPairing[] = [];
+
+  while (waiting.length >= 2) {
+    const top = waiting.shift()!;
+    let index = waiting.findIndex(p => p.id !== top.lastOpponentId && p.lastOpponentId !== top.id);
+    if (index === -1) {
+      // Only the last opponent is left: let them play again rather than wait forever
+      if (waiting.length > 1) continue;
+      index = 0;
+    }
+    const [opponent] = waiting.splice(index, 1);
+
+    // The player who has had White more often gets Black
+    pairings.push(top.colorBalance <= opponent.colorBalance
+      ? { whiteId: top.id, blackId: opponent.id }
+      : { whiteId: opponent.id, blackId: top.id });
+  }
+
+  return pairings;
+}
+
+/**
+ * Build pool entries for the players available to be paired
+ */
+export function buildArenaPool(availableIds: string[], standings: ArenaStanding[], games: TournamentGame[]): ArenaPoolPlayer[] {
+  const ordered = [...games].sort((a, b) => a.board - b.board);
+
+  return availableIds.map(id => {
+    const standing = standings.find(s => s.userId === id);
+    let lastOpponentId: string | null = null;
+    let colorBalance = 0;
+    for (const game of ordered) {
+      if (game.white_id === id) {
+        lastOpponentId = game.black_id;
+        colorBalance++;
+      } else if (game.black_id === id) {
+        lastOpponentId = game.white_id;
+        colorBalance--;
+      }
+    }
+    return {
+      id,
+      score: standing?.score || 0,
+      rating: standing?.rating || 0,
+      lastOpponentId,
+      colorBalance
+    };
+  });
+}
@@ -0,0 +1,108 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                    ROUND-ROBIN SCHEDULER (BERGER TABLES)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Full round-robin schedules following the FIDE Berger tables.
+ *
+ * Players are numbered 1..n in seeding order (a "dummy" is added for odd
+ * fields, and whoever meets it sits the round out). Round 1 pairs 1-n,
+ * 2-(n-1), 3-(n-2)...; each later round adds n/2 to every number except n
+ * (mod n-1), while player n alternates colours on board 1. A double
+ * round-robin repeats the cycle with colours reversed.
+ */
+
+export interface RoundRobinPairing {
+  board: number;
+  whiteId: string;
+  blackId: string;
+}
+
+export interface RoundRobinRound {
+  round: number;
+  pairings: RoundRobinPairing[];
+  byeId: string | null;  // Player sitting out (odd fields only)
+}
+
+/**
+ * Number of rounds a (double) round-robin needs for a field size
+ */
+export function roundRobinRoundCount(playerCount: number, double: boolean = false): number {
+  if (playerCount < 2) return 0;
+  const even = playerCount % 2 === 0 ? playerCount : playerCount + 1;
+  return (even - 1) * (double ? 2 : 1);
+}
+
+/**
+ * Berger table for n players (n even) as 1-based [white, black] numbers per round
+ */
+export function bergerTable(n: number): [number, number][][] {
+  const rounds: [number, number][][] = [];
+  const half = n / 2;
+
+  // Round 1: 1-n, 2-(n-1), ...
+  let current: [number, number][] = [[1, n]];
+  for (let i = 2; i <= half; i++) {
+    current.push([i, n + 1 - i]);
+  }
+  rounds.push(current);
+
+  const advance = (x: number) => ((x - 1 + half) % (n - 1)) + 1;
+
+  for (let r = 2; r <= n - 1; r++) {
+    const next: [number, number][] = current.map(([white, black], board) => {
+      if (board === 0) {
+        // Board 1 always involves player n, who alternates colours
+        const other = advance(white === n ? black : white);
+        return r % 2 === 0 ? [n, other] : [other, n];
+      }
+      return [advance(white), advance(black)];
+    });
+    rounds.push(next);
+    current = next;
+  }
+
+  return rounds;
+}
+
+/**
+ * Generate a full round-robin schedule
+ * @param playerIds - Player IDs in seeding order (best seed first)
+ * @param double - Play every opponent twice with colours reversed
+ */
+export function generateRoundRobinSchedule(playerIds: string[], double: boolean = false): RoundRobinRound[] {
+  if (playerIds.length < 2) return [];
+
+  // Odd fields get a dummy (null) opponent, i.e. a bye
+  const slots: (string | null)[] = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const table = bergerTable(slots.length);
+
+  const buildRound = (round: number, numbers: [number, number][], reversed: boolean): RoundRobinRound => {
+    const pairings: RoundRobinPairing[] = [];
+    let byeId: string | null = null;
+
+    for (const [whiteNumber, blackNumber] of numbers) {
+      const white = slots[whiteNumber - 1];
+      const black = slots[blackNumber - 1];
+      if (white === null || black === null) {
+        byeId = white ?? black;
+        continue;
+      }
+      pairings.push({
+        board: pairings.length + 1,
+        whiteId: reversed ? black : white,
+        blackId: reversed ? white : black
+      });
+    }
+
+    return { round, pairings, byeId };
+  };
+
+  const schedule = table.map((numbers, index) => buildRound(index + 1, numbers, false));
+  if (double) {
+    const offset = table.length;
+    table.forEach((numbers, index) => schedule.push(buildRound(offset + index + 1, numbers, true)));
+  }
+
+  return schedule;
+}
@@ -0,0 +1,75 @@
+/**
+ * Tournament Pairing, Scheduling & Standings
+ *
+ * Pure pairing and tiebreak logic for tournament formats (tiebreaks, team
+ * fixtures and season rollover are also used by leagues). Persistence and room
+ * creation stay with the socket handlers in the server entry point.
+ */
+
+export {
+  SwissPlayer,
+  SwissPairing,
+  SwissRoundPairings,
+  buildSwissPlayers,
+  pairSwissRound,
+  swissRoundCount
+} from './swiss';
+
+export {
+  RoundRobinPairing,
+  RoundRobinRound,
+  bergerTable,
+  generateRoundRobinSchedule,
+  roundRobinRoundCount
+} from './berger';
+
+export {
+  KnockoutBracket,
+  KnockoutMatch,
+  KnockoutSeed,
+  bracketSeedOrder,
+  buildKnockoutBracket,
+  buildTournamentBracket,
+  getEliminatedPlayers,
+  knockoutRoundCount
+} from './knockout';
+
+export {
+  ArenaStanding,
+  ArenaPairing,
+  ARENA_POINTS,
+  ARENA_BERSERK_BONUS,
+  buildArenaPool,
+  calculateArenaStandings,
+  pairArenaPool
+} from './arena';
+
+export {
+  TiebreakType,
+  TiebreakValues,
+  TIEBREAK_TYPES,
+  DEFAULT_TOURNAMENT_TIEBREAKS,
+  DEFAULT_LEAGUE_TIEBREAKS,
+  calculateTiebreaks,
+  parseTiebreaks,
+  sortByTiebreaks
+} from './tiebreaks';
+
+export {
+  TeamBoardPairing,
+  TeamBoardGame,
+  TeamFixtureScore,
+  BoardBreakdown,
+  homeHasWhite,
+  pairTeamBoards,
+  scoreTeamFixture,
+  teamBoardBreakdown
+} from './teams';
+
+export {
+  SeasonMovement,
+  DivisionStandings,
+  SeasonPlacement,
+  planSeasonRollover,
+  nextSeasonLabel
+} from './seasons';
@@ -0,0 +1,267 @@
+import { TournamentParticipant, TournamentGame } from '../db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                         KNOCKOUT BRACKETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Seeded single-elimination brackets with best-of-N mini-matches.
+ *
+ * The bracket is never stored as such: it is rebuilt from the participants'
+ * seeds and the tournament games played so far. A tied mini-match is decided
+ * by one armageddon game, where White has more time and Black has draw odds.
+ */
+
+export type KnockoutMatchStatus = 'waiting' | 'bye' | 'in_progress' | 'decided';
+
+export interface KnockoutSeed {
+  userId: string;
+  seed: number;
+  username?: string;
+  rating?: number;
+}
+
+export interface KnockoutGameRecord {
+  id: string;
+  round: number;
+  board: number;        // Match number within the round (1-based)
+  matchGame: number;    // Game number within the mini-match (1-based)
+  isArmageddon: boolean;
+  whiteId: string;
+  blackId: string;
+  result: string | null;
+  roomCode: string | null;
+  status: TournamentGame['status'];
+}
+
+export interface KnockoutMatch {
+  round: number;
+  match: number;
+  player1: KnockoutSeed | null;  // Higher seed (or winner of the upper feeder match)
+  player2: KnockoutSeed | null;
+  score1: number;
+  score2: number;
+  games: KnockoutGameRecord[];
+  status: KnockoutMatchStatus;
+  winnerId: string | null;
+  // The game that has to be created next for this match, if any
+  nextGame: { matchGame: number; isArmageddon: boolean; whiteId: string; blackId: string } | null;
+}
+
+export interface KnockoutBracket {
+  size: number;
+  totalRounds: number;
+  gamesPerMatch: number;
+  rounds: KnockoutMatch[][];
+  championId: string | null;
+}
+
+/**
+ * Seed order for a bracket of `size` slots, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+}
+
+/**
+ * Number of knockout rounds for a field size
+ */
+export function knockoutRoundCount(playerCount: number): number {
+  if (playerCount < 2) return 0;
+  return Math.ceil(Math.log2(playerCount));
+}
+
+/**
+ * Armageddon colours: the higher seed picks, and picks Black (draw odds)
+ */
+function armageddonColors(match: KnockoutMatch): { whiteId: string; blackId: string } {
+  return { whiteId: match.player2!.userId, blackId: match.player1!.userId };
+}
+
+function gamePoints(game: KnockoutGameRecord, playerId: string): number {
+  if (game.result === '1/2-1/2') return 0.5;
+  // Double forfeit: neither player scores
+  if (game.result === '0-0') return 0;
+  const whiteWon = game.result === '1-0';
+  return (game.whiteId === playerId) === whiteWon ? 1 : 0;
+}
+
+/**
+ * Score a mini-match and work out what (if anything) happens next
+ */
+function resolveMatch(match: KnockoutMatch, gamesPerMatch: number): void {
+  const p1 = match.player1;
+  const p2 = match.player2;
+
+  if (!p1 || !p2) {
+    // A lone player in round 1 is a bye; otherwise we're waiting on a feeder match
+    match.status = match.round === 1 && (p1 || p2) ? 'bye' : 'waiting';
+    match.winnerId = match.status === 'bye' ? (p1 || p2)!.userId : null;
+    return;
+  }
+
+  // An aborted game was never played: it scores nothing and its slot is
+  // played again. So is an armageddon neither player turned up for.
+  const played = match.games.filter(g => g.status !== 'aborted');
+  const regular = played.filter(g => !g.isArmageddon);
+  const armageddon = played.find(g => g.isArmageddon && g.result !== '0-0');
+  const finished = regular.filter(g => g.result !== null);
+  // A replayed game takes the next number after every game on record
+  const lastMatchGame = match.games.reduce((last, g) => Math.max(last, g.matchGame), 0);
+
+  match.score1 = finished.reduce((sum, g) => sum + gamePoints(g, p1.userId), 0);
+  match.score2 = finished.reduce((sum, g) => sum + gamePoints(g, p2.userId), 0);
+
+  // Wait for any game still in progress
+  if (played.some(g => g.result === null)) {
+    match.status = 'in_progress';
+    return;
+  }
+
+  // Clinched before the mini-match is over
+  const half = gamesPerMatch / 2;
+  if (match.score1 > half || match.score2 > half) {
+    match.status = 'decided';
+    match.winnerId = match.score1 > match.score2 ? p1.userId : p2.userId;
+    return;
+  }
+
+  if (finished.length < gamesPerMatch) {
+    // Higher seed has White in the odd games of the mini-match
+    const matchGame = lastMatchGame + 1;
+    match.status = 'in_progress';
+    match.nextGame = (finished.length + 1) % 2 === 1
+      ? { matchGame, isArmageddon: false, whiteId: p1.userId, blackId: p2.userId }
+      : { matchGame, isArmageddon: false, whiteId: p2.userId, blackId: p1.userId };
+    return;
+  }
+
+  if (match.score1 !== match.score2) {
+    match.status = 'decided';
+    match.winnerId = match.score1 > match.score2 ? p1.userId : p2.userId;
+    return;
+  }
+
+  // Tied after all regular games: armageddon, a draw counts as a win for Black.
+  // It ended 1-0, 0-1 or drawn here, since a double forfeit is played again.
+  if (!armageddon) {
+    match.status = 'in_progress';
+    match.nextGame = { matchGame: lastMatchGame + 1, isArmageddon: true, ...armageddonColors(match) };
+    return;
+  }
+
+  match.status = 'decided';
+  match.winnerId = armageddon.result === '1-0' ? armageddon.whiteId : armageddon.blackId;
+}
+
+/**
+ * Rebuild the bracket from seeds and games played so far
+ * @param seeds - Participants with their seed (1 = top seed)
+ * @param games - All games of the tournament
+ * @param gamesPerMatch - Regular games per mini-match before armageddon
+ */
+export function buildKnockoutBracket(
+  seeds: KnockoutSeed[],
+  games: KnockoutGameRecord[],
+  gamesPerMatch: number
+): KnockoutBracket {
+  const sorted = [...seeds].sort((a, b) => a.seed - b.seed);
+  const totalRounds = knockoutRoundCount(sorted.length);
+  const size = Math.pow(2, totalRounds);
+  const bySeed = new Map(sorted.map((s, index) => [index + 1, s]));
+  const order = bracketSeedOrder(size);
+
+  const makeMatch = (round: number, match: number, player1: KnockoutSeed | null, player2: KnockoutSeed | null): KnockoutMatch => {
+    const result: KnockoutMatch = {
+      round,
+      match,
+      player1,
+      player2,
+      score1: 0,
+      score2: 0,
+      games: games
+        .filter(g => g.round === round && g.board === match)
+        .sort((a, b) => a.matchGame - b.matchGame),
+      status: 'waiting',
+      winnerId: null,
+      nextGame: null
+    };
+    resolveMatch(result, gamesPerMatch);
+    return result;
+  };
+
+  const rounds: KnockoutMatch[][] = [];
+  const firstRound: KnockoutMatch[] = [];
+  for (let i = 0; i < size / 2; i++) {
+    firstRound.push(makeMatch(1, i + 1, bySeed.get(order[i * 2]) || null, bySeed.get(order[i * 2 + 1]) || null));
+  }
+  rounds.push(firstRound);
+
+  for (let round = 2; round <= totalRounds; round++) {
+    const previous = rounds[round - 2];
+    const winnerOf = (match: KnockoutMatch) =>
+      match.winnerId ? sorted.find(s => s.userId === match.winnerId) || null : null;
+
+    const current: KnockoutMatch[] = [];
+    for (let i = 0; i < previous.length / 2; i++) {
+      current.push(makeMatch(round, i + 1, winnerOf(previous[i * 2]), winnerOf(previous[i * 2 + 1])));
+    }
+    rounds.push(current);
+  }
+
+  const final = rounds[rounds.length - 1]?.[0];
+  return {
+    size,
+    totalRounds,
+    gamesPerMatch,
+    rounds,
+    championId: final && final.status === 'decided' ? final.winnerId : null
+  };
+}
+
+/**
+ * Rebuild the bracket of a stored tournament
+ */
+export function buildTournamentBracket(
+  participants: TournamentParticipant[],
+  games: TournamentGame[],
+  gamesPerMatch: number
+): KnockoutBracket {
+  const seeds: KnockoutSeed[] = participants
+    .filter(p => p.seed != null)
+    .map(p => ({ userId: p.user_id, seed: p.seed!, username: p.username, rating: p.rating }));
+
+  const records: KnockoutGameRecord[] = games.map(g => ({
+    id: g.id,
+    round: g.round,
+    board: g.board,
+    matchGame: g.match_game || 1,
+    isArmageddon: !!g.is_armageddon,
+    whiteId: g.white_id,
+    blackId: g.black_id,
+    result: g.result,
+    roomCode: g.room_code,
+    status: g.status
+  }));
+
+  return buildKnockoutBracket(seeds, records, gamesPerMatch);
+}
+
+/**
+ * Players knocked out so far
+ */
+export function getEliminatedPlayers(bracket: KnockoutBracket): string[] {
+  const eliminated: string[] = [];
+  for (const round of bracket.rounds) {
+    for (const match of round) {
+      if (match.status !== 'decided' || !match.player1 || !match.player2) continue;
+      eliminated.push(match.winnerId === match.player1.userId ? match.player2.userId : match.player1.userId);
+    }
+  }
+  return eliminated;
+}
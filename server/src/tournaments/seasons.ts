@@ -0,0 +1,88 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                          SEASON ROLLOVER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Promotion and relegation between league divisions.
+ *
+ * Division 1 is the top division. At the end of a season the top N of every
+ * division but the first move up one division and the bottom N of every
+ * division but the last move down one. Entrants can be players or teams; only
+ * their final order within each division matters here.
+ */
+
+export type SeasonMovement = 'promoted' | 'relegated' | 'stayed';
+
+export interface DivisionStandings {
+  division: number;
+  ranked: string[];  // Entrant IDs, best first
+}
+
+export interface SeasonPlacement {
+  id: string;
+  division: number;
+  position: number;
+  nextDivision: number;
+  movement: SeasonMovement;
+}
+
+/**
+ * Work out where every entrant plays next season
+ * @param promotionSpots - Entrants promoted from each division below the top
+ * @param relegationSpots - Entrants relegated from each division above the bottom
+ */
+export function planSeasonRollover(
+  standings: DivisionStandings[],
+  maxDivisions: number,
+  promotionSpots: number,
+  relegationSpots: number
+): SeasonPlacement[] {
+  const bottom = Math.max(maxDivisions, 1);
+  const placements: SeasonPlacement[] = [];
+
+  for (const { division, ranked } of standings) {
+    const current = Math.min(Math.max(division, 1), bottom);
+    // In a small division nobody can be both promoted and relegated
+    const promoted = current > 1 ? Math.min(promotionSpots, ranked.length) : 0;
+    const relegated = current < bottom ? Math.min(relegationSpots, ranked.length - promoted) : 0;
+
+    ranked.forEach((id, index) => {
+      let movement: SeasonMovement = 'stayed';
+      if (index < promoted) movement = 'promoted';
+      else if (index >= ranked.length - relegated) movement = 'relegated';
+
+      placements.push({
+        id,
+        division,
+        position: index + 1,
+        nextDivision: movement === 'promoted' ? current - 1 : movement === 'relegated' ? current + 1 : current,
+        movement
+      });
+    });
+  }
+
+  return placements;
+}
+
+/**
+ * Label for the following season: "2024/2025" becomes "2025/2026",
+ * "Season 3" becomes "Season 4"; anything else gets " (2)" appended
+ */
+export function nextSeasonLabel(season: string | null): string | null {
+  if (!season) return null;
+
+  const span = season.match(/^(.*?)(\d{4})([/-])(\d{4}|\d{2})(.*)$/);
+  if (span) {
+    const [, prefix, start, sep, end, suffix] = span;
+    const nextEnd = String(parseInt(end) + 1).padStart(end.length, '0').slice(-end.length);
+    return `${prefix}${parseInt(start) + 1}${sep}${nextEnd}${suffix}`;
+  }
+
+  const numbered = season.match(/^(.*?)(\d+)(\D*)$/);
+  if (numbered) {
+    const [, prefix, number, suffix] = numbered;
+    return `${prefix}${parseInt(number) + 1}${suffix}`;
+  }
+
+  return `${season} (2)`;
+}
@@ -0,0 +1,246 @@
+import { TournamentParticipant, TournamentGame } from '../db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                        SWISS PAIRING ENGINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Dutch-system style Swiss pairings.
+ *
+ * Players are ranked by score and rating, split into score groups and paired
+ * top half against bottom half. Hard constraints are "no repeat opponents" and
+ * "at most one bye per player"; colour preferences are honoured where possible
+ * and relaxed step by step when no pairing satisfies them.
+ */
+
+export type PieceColor = 'white' | 'black';
+
+export interface SwissPlayer {
+  id: string;
+  score: number;
+  rating: number;
+  colors: PieceColor[];   // Colour history in round order
+  opponents: string[];    // Opponent user IDs (byes excluded)
+  hadBye: boolean;
+}
+
+export interface SwissPairing {
+  board: number;
+  whiteId: string;
+  blackId: string;
+}
+
+export interface SwissRoundPairings {
+  pairings: SwissPairing[];
+  byeId: string | null;
+}
+
+interface ColorPreference {
+  color: PieceColor | null;
+  strength: 0 | 1 | 2 | 3;  // 0 none, 1 mild, 2 strong, 3 absolute
+}
+
+// Safety valve so a pathological field can't stall the event loop
+const MAX_SEARCH_NODES = 50000;
+
+/**
+ * Recommended number of Swiss rounds for a field size
+ */
+export function swissRoundCount(playerCount: number): number {
+  if (playerCount < 2) return 0;
+  return Math.min(playerCount - 1, Math.max(1, Math.ceil(Math.log2(playerCount))));
+}
+
+/**
+ * Build pairing input from stored participants and their tournament games
+ */
+export function buildSwissPlayers(participants: TournamentParticipant[], games: TournamentGame[]): SwissPlayer[] {
+  // An aborted game was never played: it neither blocks a rematch nor counts for colours
+  const sortedGames = games
+    .filter(g => g.status !== 'aborted')
+    .sort((a, b) => a.round - b.round || a.board - b.board);
+
+  return participants.map(p => {
+    const colors: PieceColor[] = [];
+    const opponents: string[] = [];
+    for (const game of sortedGames) {
+      if (game.white_id === p.user_id) {
+        colors.push('white');
+        opponents.push(game.black_id);
+      } else if (game.black_id === p.user_id) {
+        colors.push('black');
+        opponents.push(game.white_id);
+      }
+    }
+    return {
+      id: p.user_id,
+      score: Number(p.score) || 0,
+      rating: p.rating || 0,
+      colors,
+      opponents,
+      hadBye: p.bye_round != null
+    };
+  });
+}
+
+/**
+ * Rank players by score, then rating (ID as a deterministic final key)
+ */
+function rankPlayers(players: SwissPlayer[]): SwissPlayer[] {
+  return [...players].sort((a, b) =>
+    b.score - a.score || b.rating - a.rating || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Determine a player's colour preference from their history
+ */
+function getColorPreference(player: SwissPlayer): ColorPreference {
+  const history = player.colors;
+  if (history.length === 0) return { color: null, strength: 0 };
+
+  const whites = history.filter(c => c === 'white').length;
+  const diff = whites - (history.length - whites);
+  const last = history[history.length - 1];
+  const opposite: PieceColor = last === 'white' ? 'black' : 'white';
+
+  // Same colour twice in a row, or colour imbalance of two: absolute
+  if (history.length >= 2 && history[history.length - 2] === last) {
+    return { color: opposite, strength: 3 };
+  }
+  if (Math.abs(diff) >= 2) {
+    return { color: diff > 0 ? 'black' : 'white', strength: 3 };
+  }
+  if (diff !== 0) {
+    return { color: diff > 0 ? 'black' : 'white', strength: 2 };
+  }
+  return { color: opposite, strength: 1 };
+}
+
+/**
+ * Two players with the same absolute colour preference can't meet
+ */
+function colorsCompatible(a: SwissPlayer, b: SwissPlayer): boolean {
+  const prefA = getColorPreference(a);
+  const prefB = getColorPreference(b);
+  return !(prefA.strength === 3 && prefB.strength === 3 && prefA.color === prefB.color);
+}
+
+/**
+ * Allocate colours for a pairing. `higher` is the higher-ranked player.
+ */
+function allocateColors(higher: SwissPlayer, lower: SwissPlayer, board: number): { whiteId: string; blackId: string } {
+  const prefHigh = getColorPreference(higher);
+  const prefLow = getColorPreference(lower);
+
+  let higherColor: PieceColor;
+  if (prefHigh.color === null && prefLow.color === null) {
+    // First round: top board gets white, then alternate down the boards
+    higherColor = board % 2 === 1 ? 'white' : 'black';
+  } else if (prefHigh.color === null) {
+    higherColor = prefLow.color === 'white' ? 'black' : 'white';
+  } else if (prefLow.color === null || prefHigh.color !== prefLow.color) {
+    higherColor = prefHigh.color;
+  } else if (prefLow.strength > prefHigh.strength) {
+    higherColor = prefLow.color === 'white' ? 'black' : 'white';
+  } else {
+    // Equal preference strength: the higher-ranked player is served first
+    higherColor = prefHigh.color;
+  }
+
+  return higherColor === 'white'
+    ? { whiteId: higher.id, blackId: lower.id }
+    : { whiteId: lower.id, blackId: higher.id };
+}
+
+/**
+ * Select the bye: the lowest-ranked player who hasn't had one yet
+ */
+function selectBye(ranked: SwissPlayer[]): SwissPlayer {
+  for (let i = ranked.length - 1; i >= 0; i--) {
+    if (!ranked[i].hadBye) return ranked[i];
+  }
+  return ranked[ranked.length - 1];
+}
+
+/**
+ * Candidate opponents for the top remaining player, in Dutch order:
+ * the counterpart in the bottom half of the score group first, then the rest
+ * of the bottom half, then the top half upwards, then lower score groups.
+ */
+function candidateOrder(remaining: SwissPlayer[]): SwissPlayer[] {
+  const top = remaining[0];
+  const group = remaining.filter(p => p.score === top.score);
+  const lower = remaining.filter(p => p.score !== top.score);
+  const half = Math.floor(group.length / 2);
+
+  const ordered: SwissPlayer[] = [];
+  for (let i = Math.max(half, 1); i < group.length; i++) ordered.push(group[i]);
+  for (let i = half - 1; i >= 1; i--) ordered.push(group[i]);
+  return [...ordered, ...lower];
+}
+
+function pairRecursive(
+  remaining: SwissPlayer[],
+  allowRepeats: boolean,
+  strictColors: boolean,
+  budget: { nodes: number }
+): [SwissPlayer, SwissPlayer][] | null {
+  if (remaining.length === 0) return [];
+  if (--budget.nodes <= 0) return null;
+
+  const top = remaining[0];
+  for (const candidate of candidateOrder(remaining)) {
+    if (!allowRepeats && top.opponents.includes(candidate.id)) continue;
+    if (strictColors && !colorsCompatible(top, candidate)) continue;
+
+    const rest = remaining.filter(p => p !== top && p !== candidate);
+    const pairs = pairRecursive(rest, allowRepeats, strictColors, budget);
+    if (pairs) return [[top, candidate], ...pairs];
+  }
+  return null;
+}
+
+/**
+ * Pair a Swiss round
+ * @param players - Active players with their score, colour and opponent history
+ * @returns Board-ordered pairings and the ID of the player receiving a bye (if any)
+ */
+export function pairSwissRound(players: SwissPlayer[]): SwissRoundPairings {
+  let ranked = rankPlayers(players);
+  let byeId: string | null = null;
+
+  if (ranked.length % 2 === 1) {
+    const bye = selectBye(ranked);
+    byeId = bye.id;
+    ranked = ranked.filter(p => p !== bye);
+  }
+
+  // Relax constraints in order: colours first, repeat opponents last
+  const passes: { allowRepeats: boolean; strictColors: boolean }[] = [
+    { allowRepeats: false, strictColors: true },
+    { allowRepeats: false, strictColors: false },
+    { allowRepeats: true, strictColors: false }
+  ];
+
+  let pairs: [SwissPlayer, SwissPlayer][] | null = null;
+  for (const pass of passes) {
+    pairs = pairRecursive(ranked, pass.allowRepeats, pass.strictColors, { nodes: MAX_SEARCH_NODES });
+    if (pairs) break;
+  }
+
+  // Last resort: pair straight down the ranking
+  if (!pairs) {
+    pairs = [];
+    for (let i = 0; i + 1 < ranked.length; i += 2) {
+      pairs.push([ranked[i], ranked[i + 1]]);
+    }
+  }
+
+  const pairings = pairs.map(([higher, lower], index) => ({
+    board: index + 1,
+    ...allocateColors(higher, lower, index + 1)
+  }));
+
+  return { pairings, byeId };
+}
@@ -0,0 +1,155 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                          TEAM FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Team matches played over a fixed number of boards.
+ *
+ * Each team lines up its roster in board order; board 1 meets board 1 and so
+ * on. The home team has White on odd boards and Black on even boards. Every
+ * board is worth one board point, and the team with more board points wins
+ * the fixture (match points are then awarded like a single game).
+ */
+
+export interface TeamBoardPairing {
+  board: number;
+  whiteId: string;
+  blackId: string;
+  homeIsWhite: boolean;
+}
+
+export interface TeamBoardGame {
+  fixtureId: string;
+  board: number;
+  whiteId: string;
+  blackId: string;
+  result: string | null;
+}
+
+export interface TeamFixtureScore {
+  homePoints: number;
+  awayPoints: number;
+  boardsPlayed: number;
+  complete: boolean;
+}
+
+export interface TeamFixtureRef {
+  id: string;
+  homeTeamId: string;
+  awayTeamId: string;
+}
+
+export interface BoardBreakdown {
+  board: number;
+  played: number;
+  points: number;
+  players: { userId: string; played: number; points: number }[];
+}
+
+/**
+ * Whether the home team has White on a board
+ */
+export function homeHasWhite(board: number): boolean {
+  return board % 2 === 1;
+}
+
+/**
+ * Points White and Black scored on one board (a double forfeit scores nothing)
+ */
+function boardPoints(result: string | null): [number, number] {
+  if (result === '1-0') return [1, 0];
+  if (result === '0-1') return [0, 1];
+  if (result === '1/2-1/2') return [0.5, 0.5];
+  return [0, 0];
+}
+
+/**
+ * Line up two rosters board by board
+ * @param homeRoster - Home team user IDs in board order
+ * @param awayRoster - Away team user IDs in board order
+ */
+export function pairTeamBoards(homeRoster: string[], awayRoster: string[], boardCount: number): TeamBoardPairing[] {
+  const boards = Math.min(boardCount, homeRoster.length, awayRoster.length);
+  const pairings: TeamBoardPairing[] = [];
+
+  for (let board = 1; board <= boards; board++) {
+    const home = homeRoster[board - 1];
+    const away = awayRoster[board - 1];
+    const homeIsWhite = homeHasWhite(board);
+    pairings.push({
+      board,
+      whiteId: homeIsWhite ? home : away,
+      blackId: homeIsWhite ? away : home,
+      homeIsWhite
+    });
+  }
+
+  return pairings;
+}
+
+/**
+ * Add up the board points of a fixture
+ */
+export function scoreTeamFixture(games: TeamBoardGame[]): TeamFixtureScore {
+  let homePoints = 0;
+  let awayPoints = 0;
+  let boardsPlayed = 0;
+
+  for (const game of games) {
+    if (game.result === null) continue;
+    const [white, black] = boardPoints(game.result);
+    homePoints += homeHasWhite(game.board) ? white : black;
+    awayPoints += homeHasWhite(game.board) ? black : white;
+    boardsPlayed++;
+  }
+
+  return {
+    homePoints,
+    awayPoints,
+    boardsPlayed,
+    complete: games.length > 0 && boardsPlayed === games.length
+  };
+}
+
+/**
+ * Per-board results of one team across all its fixtures
+ */
+export function teamBoardBreakdown(
+  teamId: string,
+  fixtures: TeamFixtureRef[],
+  games: TeamBoardGame[]
+): BoardBreakdown[] {
+  const byBoard = new Map<number, BoardBreakdown>();
+
+  for (const fixture of fixtures) {
+    const isHome = fixture.homeTeamId === teamId;
+    if (!isHome && fixture.awayTeamId !== teamId) continue;
+
+    for (const game of games) {
+      if (game.fixtureId !== fixture.id || game.result === null) continue;
+
+      const teamIsWhite = homeHasWhite(game.board) === isHome;
+      const [white, black] = boardPoints(game.result);
+      const points = teamIsWhite ? white : black;
+      const userId = teamIsWhite ? game.whiteId : game.blackId;
+
+      let entry = byBoard.get(game.board);
+      if (!entry) {
+        entry = { board: game.board, played: 0, points: 0, players: [] };
+        byBoard.set(game.board, entry);
+      }
+      entry.played++;
+      entry.points += points;
+
+      let player = entry.players.find(p => p.userId === userId);
+      if (!player) {
+        player = { userId, played: 0, points: 0 };
+        entry.players.push(player);
+      }
+      player.played++;
+      player.points += points;
+    }
+  }
+
+  return [...byBoard.values()].sort((a, b) => a.board - b.board);
+}
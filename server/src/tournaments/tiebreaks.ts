@@ -0,0 +1,161 @@
+// ═══════════════════════════════════════════════════════════════════════════
+//                              TIEBREAKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Tiebreak calculator shared by tournament and league standings.
+ *
+ * Games are reduced to an outcome (1 / 0.5 / 0 for the first player) plus the
+ * board points each side scored, so the same code handles individual games and
+ * team fixtures. Players are ranked on score, then on each configured tiebreak
+ * in order; anything still tied keeps its incoming order.
+ */
+
+export type TiebreakType =
+  | 'buchholz'
+  | 'buchholz_cut1'
+  | 'sonneborn_berger'
+  | 'direct_encounter'
+  | 'wins'
+  | 'progressive'
+  | 'board_points';
+
+export type TiebreakValues = Record<TiebreakType, number>;
+
+export const TIEBREAK_TYPES: TiebreakType[] = [
+  'buchholz',
+  'buchholz_cut1',
+  'sonneborn_berger',
+  'direct_encounter',
+  'wins',
+  'progressive',
+  'board_points'
+];
+
+export const DEFAULT_TOURNAMENT_TIEBREAKS: TiebreakType[] = ['buchholz_cut1', 'buchholz', 'sonneborn_berger', 'direct_encounter', 'wins'];
+export const DEFAULT_LEAGUE_TIEBREAKS: TiebreakType[] = ['board_points', 'direct_encounter', 'wins', 'sonneborn_berger'];
+
+export interface TiebreakPlayer {
+  id: string;
+  score: number;               // Tournament score or league points
+  byeRound?: number | null;    // Round of a pairing bye (counts as a win for progressive score)
+}
+
+export interface TiebreakGame {
+  round: number;
+  whiteId: string;             // Home side for league fixtures
+  blackId: string;
+  whiteBoardPoints: number;
+  blackBoardPoints: number;
+}
+
+/**
+ * Outcome of a game for White (1 / 0.5 / 0) from the board points
+ */
+function whiteOutcome(game: TiebreakGame): number {
+  if (game.whiteBoardPoints > game.blackBoardPoints) return 1;
+  if (game.whiteBoardPoints < game.blackBoardPoints) return 0;
+  return 0.5;
+}
+
+/**
+ * Parse a stored tiebreak list ("buchholz_cut1,sonneborn_berger"), dropping unknown entries
+ */
+export function parseTiebreaks(value: string | string[] | null | undefined, fallback: TiebreakType[]): TiebreakType[] {
+  if (!value) return fallback;
+  const names = Array.isArray(value) ? value : value.split(',');
+  const parsed = names
+    .map(name => name.trim())
+    .filter((name): name is TiebreakType => (TIEBREAK_TYPES as string[]).includes(name));
+  return parsed.length > 0 ? [...new Set(parsed)] : fallback;
+}
+
+/**
+ * Compute every tiebreak for every player
+ */
+export function calculateTiebreaks(players: TiebreakPlayer[], games: TiebreakGame[]): Map<string, TiebreakValues> {
+  const scores = new Map(players.map(p => [p.id, p.score]));
+  const lastRound = games.reduce((max, g) => Math.max(max, g.round), 0);
+  const values = new Map<string, TiebreakValues>();
+
+  for (const player of players) {
+    const opponentScores: number[] = [];
+    const roundPoints = new Array<number>(lastRound + 1).fill(0);
+    let sonnebornBerger = 0;
+    let directEncounter = 0;
+    let wins = 0;
+    let boardFor = 0;
+    let boardAgainst = 0;
+
+    for (const game of games) {
+      const isWhite = game.whiteId === player.id;
+      if (!isWhite && game.blackId !== player.id) continue;
+
+      const opponentId = isWhite ? game.blackId : game.whiteId;
+      const opponentScore = scores.get(opponentId) ?? 0;
+      const outcome = isWhite ? whiteOutcome(game) : 1 - whiteOutcome(game);
+
+      opponentScores.push(opponentScore);
+      sonnebornBerger += opponentScore * outcome;
+      roundPoints[game.round] += outcome;
+      if (outcome === 1) wins++;
+      // Direct encounter only counts games between players on the same score
+      if (opponentScore === player.score) directEncounter += outcome;
+      boardFor += isWhite ? game.whiteBoardPoints : game.blackBoardPoints;
+      boardAgainst += isWhite ? game.blackBoardPoints : game.whiteBoardPoints;
+    }
+
+    if (player.byeRound != null && player.byeRound <= lastRound) {
+      roundPoints[player.byeRound] += 1;
+    }
+
+    let running = 0;
+    let progressive = 0;
+    for (let round = 1; round <= lastRound; round++) {
+      running += roundPoints[round];
+      progressive += running;
+    }
+
+    const buchholz = opponentScores.reduce((sum, s) => sum + s, 0);
+    values.set(player.id, {
+      buchholz,
+      buchholz_cut1: opponentScores.length > 1 ? buchholz - Math.min(...opponentScores) : buchholz,
+      sonneborn_berger: sonnebornBerger,
+      direct_encounter: directEncounter,
+      wins,
+      progressive,
+      board_points: boardFor - boardAgainst
+    });
+  }
+
+  return values;
+}
+
+/**
+ * Sort standings on score, then on the configured tiebreaks in order
+ * @param entries - Standings rows (already in the preferred order for full ties)
+ * @param idOf - Player ID of a row
+ * @param scoreOf - Score of a row
+ */
+export function sortByTiebreaks<T>(
+  entries: T[],
+  idOf: (entry: T) => string,
+  scoreOf: (entry: T) => number,
+  values: Map<string, TiebreakValues>,
+  order: TiebreakType[]
+): T[] {
+  return [...entries].sort((a, b) => {
+    const byScore = scoreOf(b) - scoreOf(a);
+    if (byScore !== 0) return byScore;
+
+    const valuesA = values.get(idOf(a));
+    const valuesB = values.get(idOf(b));
+    if (!valuesA || !valuesB) return 0;
+
+    for (const tiebreak of order) {
+      const diff = valuesB[tiebreak] - valuesA[tiebreak];
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,52 @@
+import { Move } from 'chess.js';
+import { VariantChess, VariantOutcome, pieceMoves, kingSteps, pieceCount } from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                              ANTICHESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Antichess: the first to lose all their pieces, or to have no move left,
+ * wins. Captures are compulsory, there is no check or castling, and the king
+ * is an ordinary piece that can be taken.
+ *
+ * Lichess also lets a pawn promote to a king. chess.js holds one king per
+ * side, so here pawns promote to the other four pieces only.
+ */
+
+export const ANTICHESS_START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+
+export class AntichessChess extends VariantChess {
+  constructor(fen: string = ANTICHESS_START) {
+    super(fen);
+  }
+
+  isCheck(): boolean {
+    return false;
+  }
+
+  // Having no move left wins, so there is neither mate nor stalemate
+  isCheckmate(): boolean {
+    return false;
+  }
+
+  isStalemate(): boolean {
+    return false;
+  }
+
+  // Losing every piece wins
+  decided(): VariantOutcome | null {
+    return pieceCount(this, this.turn()) === 0 ? this.turn() : null;
+  }
+
+  // So does having no move left
+  isGameOver(): boolean {
+    return this.legalMoves().length === 0 || super.isGameOver();
+  }
+
+  protected generateMoves(): Move[] {
+    const moves = [...pieceMoves(this), ...kingSteps(this, true)];
+    const captures = moves.filter(move => move.captured);
+    return captures.length > 0 ? captures : moves;
+  }
+}
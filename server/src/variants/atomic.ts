@@ -0,0 +1,84 @@
+import { Chess, Move, Square, Color, Piece, DEFAULT_POSITION } from 'chess.js';
+import {
+  VariantChess, VariantOutcome, scratchBoard, opponent, kingSquare, adjacentSquares, editFen, makeMove, pieceMoves, kingSteps
+} from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                               ATOMIC
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Atomic chess: every capture sets off an explosion that removes the
+ * capturing piece and every piece but a pawn next to the capture square.
+ * Exploding the enemy king wins at once, so a king never captures, a move
+ * may not blow up its own king, and kings standing side by side cannot
+ * check each other.
+ */
+
+/**
+ * Whether `color`'s king is in check: attacked, with both kings on the board
+ * and not touching (a king next to its enemy can only be taken by a capture
+ * that explodes both)
+ */
+export function isAtomicCheck(board: Chess, color: Color): boolean {
+  const king = kingSquare(board, color);
+  const enemyKing = kingSquare(board, opponent(color));
+  if (!king || !enemyKing || adjacentSquares(king).includes(enemyKing)) return false;
+  return board.isAttacked(king, opponent(color));
+}
+
+/**
+ * The position after a capture landing on `square`: the capturing piece and
+ * every piece but a pawn around it are gone
+ */
+function explode(fen: string, square: Square): string {
+  const board = scratchBoard(fen);
+  const blast: Partial<Record<Square, Piece | null>> = { [square]: null };
+  for (const neighbour of adjacentSquares(square)) {
+    const piece = board.get(neighbour);
+    if (piece && piece.type !== 'p') blast[neighbour] = null;
+  }
+  return editFen(fen, blast);
+}
+
+export class AtomicChess extends VariantChess {
+  constructor(fen: string = DEFAULT_POSITION) {
+    super(fen);
+  }
+
+  isCheck(): boolean {
+    return isAtomicCheck(this, this.turn());
+  }
+
+  // Whoever blew up the other king has won
+  decided(): VariantOutcome | null {
+    if (!kingSquare(this, 'w')) return 'b';
+    if (!kingSquare(this, 'b')) return 'w';
+    return null;
+  }
+
+  // Bare kings can never explode each other
+  isInsufficientMaterial(): boolean {
+    return this.board().flat().filter(Boolean).length === 2;
+  }
+
+  protected generateMoves(): Move[] {
+    if (this.decided()) return [];
+
+    const us = this.turn();
+    // chess.js already knows when castling is allowed; a king never captures
+    const castles = scratchBoard(this.fen()).moves({ verbose: true, piece: 'k' })
+      .filter(move => move.isKingsideCastle() || move.isQueensideCastle())
+      .map(move => makeMove({ ...move, san: move.san.replace(/[+#]$/, '') }));
+    const candidates = [...pieceMoves(this), ...kingSteps(this, false), ...castles]
+      .map(move => move.captured ? makeMove({ ...move, after: explode(move.after, move.to) }) : move);
+
+    return candidates.filter(move => {
+      const after = scratchBoard(move.after);
+      if (!kingSquare(after, us)) return false;
+      // Blowing up the enemy king wins, whatever else it leaves behind
+      if (!kingSquare(after, opponent(us))) return true;
+      return !isAtomicCheck(after, us);
+    });
+  }
+}
@@ -0,0 +1,372 @@
+import { Chess, Move, Square, Color, Piece, PieceSymbol, DEFAULT_POSITION } from 'chess.js';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                            VARIANT BOARDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Boards for variants whose rules chess.js cannot play by itself (Atomic,
+ * Antichess, Horde, Racing Kings, and Chess960 castling).
+ *
+ * A VariantChess board still leaves the position, FEN and piece movement to
+ * chess.js. Each variant generates its moves on a scratch board and adjusts
+ * them to its own rules; a move is then played by loading the position after
+ * it. The board keeps its own list of plies for history, PGN, takebacks and
+ * repetition, much like DropChess does for drops.
+ */
+
+export interface FenFields {
+  turn?: Color;
+  castling?: string;
+  ep?: string;
+  halfmoves?: number;
+  fullmoves?: number;
+}
+
+// Who won a variant game, or 'draw'
+export type VariantOutcome = Color | 'draw';
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// King and rook home squares behind each castling right
+const CASTLING_HOMES: Record<string, { color: Color; king: Square; rook: Square }> = {
+  K: { color: 'w', king: 'e1', rook: 'h1' },
+  Q: { color: 'w', king: 'e1', rook: 'a1' },
+  k: { color: 'b', king: 'e8', rook: 'h8' },
+  q: { color: 'b', king: 'e8', rook: 'a8' }
+};
+
+/**
+ * A plain chess.js board for any position, kingless or not
+ */
+export function scratchBoard(fen: string): Chess {
+  return new Chess(fen, { skipValidation: true });
+}
+
+export function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+export function kingSquare(board: Chess, color: Color): Square | undefined {
+  return board.findPiece({ type: 'k', color })[0];
+}
+
+/**
+ * The (up to eight) squares touching `square`
+ */
+export function adjacentSquares(square: Square): Square[] {
+  const file = square.charCodeAt(0) - 97;
+  const rank = Number(square[1]);
+  const squares: Square[] = [];
+  for (let df = -1; df <= 1; df++) {
+    for (let dr = -1; dr <= 1; dr++) {
+      const f = file + df;
+      const r = rank + dr;
+      if ((df || dr) && f >= 0 && f < 8 && r >= 1 && r <= 8) {
+        squares.push(`${String.fromCharCode(97 + f)}${r}` as Square);
+      }
+    }
+  }
+  return squares;
+}
+
+/**
+ * Number of pieces (king included) one side has on the board
+ */
+export function pieceCount(board: Chess, color: Color): number {
+  return board.board().flat().filter(piece => piece?.color === color).length;
+}
+
+/**
+ * `fen` with pieces set or cleared (null) and any other fields replaced.
+ * Castling rights whose king or rook has left home are dropped.
+ */
+export function editFen(fen: string, pieces: Partial<Record<Square, Piece | null>>, fields: FenFields = {}): string {
+  const board = scratchBoard(fen);
+  const changes = Object.entries(pieces) as [Square, Piece | null][];
+  // Clear every square first so a king can move without meeting itself
+  for (const [square] of changes) board.remove(square);
+  for (const [square, piece] of changes) {
+    if (piece) board.put(piece, square);
+  }
+
+  const [, turn, castling, ep, halfmoves, fullmoves] = fen.split(' ');
+  const rights = [...(fields.castling ?? castling)].filter(right => {
+    const home = CASTLING_HOMES[right];
+    if (!home) return false;
+    const king = board.get(home.king);
+    const rook = board.get(home.rook);
+    return king?.type === 'k' && king.color === home.color && rook?.type === 'r' && rook.color === home.color;
+  });
+
+  return [
+    board.fen().split(' ')[0],
+    fields.turn ?? turn,
+    rights.join('') || '-',
+    fields.ep ?? ep,
+    fields.halfmoves ?? halfmoves,
+    fields.fullmoves ?? fullmoves
+  ].join(' ');
+}
+
+/**
+ * FEN fields after a move set up by hand: the other side to move, no en
+ * passant and the clocks moved on
+ */
+export function nextFields(fen: string, resetClock: boolean): FenFields {
+  const [, turn, , , halfmoves, fullmoves] = fen.split(' ');
+  return {
+    turn: turn === 'w' ? 'b' : 'w',
+    ep: '-',
+    halfmoves: resetClock ? 0 : Number(halfmoves) + 1,
+    fullmoves: turn === 'b' ? Number(fullmoves) + 1 : Number(fullmoves)
+  };
+}
+
+/**
+ * A Move that chess.js did not generate (or one it did, with fields changed)
+ */
+export function makeMove(fields: Partial<Move> & Pick<Move, 'color' | 'from' | 'to' | 'piece' | 'flags' | 'san' | 'before' | 'after'>): Move {
+  const lan = `${fields.from}${fields.to}${fields.promotion ?? ''}`;
+  return Object.assign(Object.create(Move.prototype), { lan, ...fields });
+}
+
+function bareSan(san: string): string {
+  return san.replace(/[+#?!]+$/, '');
+}
+
+/**
+ * Moves of every piece but the king of the side to move, with no regard to
+ * check. An own pawn stands in for the king while chess.js generates them:
+ * it blocks lines like the king does, and with no king on the board chess.js
+ * returns every move instead of testing it against check. The king's own
+ * moves are up to each variant.
+ */
+export function pieceMoves(board: Chess): Move[] {
+  const before = board.fen();
+  const color = board.turn();
+  const king = kingSquare(board, color);
+  // chess.js would push a pawn off the board from its last rank, so a knight
+  // stands in there instead
+  const type: PieceSymbol = king?.[1] === (color === 'w' ? '8' : '1') ? 'n' : 'p';
+  const stand = king ? editFen(before, { [king]: { type, color } }, { castling: '-' }) : before;
+
+  return scratchBoard(stand).moves({ verbose: true })
+    .filter(move => move.from !== king)
+    .map(move => makeMove({
+      ...move,
+      san: bareSan(move.san),
+      before,
+      after: king
+        ? editFen(move.after, { [king]: { type: 'k', color } }, { castling: before.split(' ')[2] })
+        : move.after
+    }));
+}
+
+/**
+ * One-square king moves of the side to move, with no regard to check
+ */
+export function kingSteps(board: Chess, captures: boolean): Move[] {
+  const before = board.fen();
+  const color = board.turn();
+  const from = kingSquare(board, color);
+  if (!from) return [];
+
+  return adjacentSquares(from).flatMap(to => {
+    const target = board.get(to);
+    if (target && (target.color === color || !captures)) return [];
+    return [makeMove({
+      color,
+      from,
+      to,
+      piece: 'k',
+      ...(target ? { captured: target.type } : {}),
+      flags: target ? 'c' : 'n',
+      san: `K${target ? 'x' : ''}${to}`,
+      before,
+      after: editFen(before, { [from]: null, [to]: { type: 'k', color } }, nextFields(before, !!target))
+    })];
+  });
+}
+
+/**
+ * Tags and moves of a PGN, comments and move numbers dropped
+ */
+export function readPgn(pgn: string): { headers: Record<string, string>; moves: string[] } {
+  const headers: Record<string, string> = {};
+  for (const [, key, value] of pgn.matchAll(/\[(\w+) "([^"]*)"\]/g)) {
+    headers[key] = value;
+  }
+  const moves = pgn
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\d+\.(\.\.)?|\.\.\./g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !RESULT_TOKENS.includes(token));
+  return { headers, moves };
+}
+
+/**
+ * A PGN in chess.js's format for a game kept as a list of plies
+ */
+export function writePgn(headers: Record<string, string>, startFen: string, plies: Move[], newline = '\n'): string {
+  const tags = Object.entries(headers)
+    .filter(([key]) => key !== 'SetUp' && key !== 'FEN')
+    .map(([key, value]) => `[${key} "${value}"]`);
+  if (startFen !== DEFAULT_POSITION) {
+    tags.push('[SetUp "1"]', `[FEN "${startFen}"]`);
+  }
+
+  const [, turn, , , , fullmoves] = startFen.split(' ');
+  let moveNumber = Number(fullmoves) || 1;
+  const tokens: string[] = [];
+  plies.forEach((ply, i) => {
+    if (ply.color === 'w') {
+      tokens.push(`${moveNumber}.`);
+    } else {
+      if (i === 0 && turn === 'b') tokens.push(`${moveNumber}. ...`);
+      moveNumber++;
+    }
+    tokens.push(ply.san);
+  });
+
+  if (headers.Result) tokens.push(headers.Result);
+
+  const movetext = tokens.join(' ');
+  return tags.length > 0 ? `${tags.join(newline)}${newline}${newline}${movetext}` : movetext;
+}
+
+export abstract class VariantChess extends Chess {
+  protected startFen: string;
+  private plies: Move[] = [];
+  private cached?: { fen: string; moves: Move[] };
+
+  constructor(fen: string) {
+    // Variant positions (no king, kings in contact) fail chess.js's FEN checks
+    super(fen, { skipValidation: true });
+    this.startFen = fen;
+  }
+
+  /**
+   * Legal moves of the side to move under the variant's rules, SAN without
+   * check marks
+   */
+  protected abstract generateMoves(): Move[];
+
+  /**
+   * Legal moves with their SAN completed, kept until the position changes
+   */
+  protected legalMoves(): Move[] {
+    const fen = this.fen();
+    if (this.cached?.fen === fen) return this.cached.moves;
+
+    const Board = this.constructor as new (fen: string) => VariantChess;
+    const moves = this.generateMoves().map(move => {
+      const next = new Board(move.after);
+      if (!next.isCheck()) return move;
+      return makeMove({ ...move, san: `${move.san}${next.generateMoves().length === 0 ? '#' : '+'}` });
+    });
+    this.cached = { fen, moves };
+    return moves;
+  }
+
+  moves(): string[];
+  moves({ square }: { square: Square }): string[];
+  moves({ piece }: { piece: PieceSymbol }): string[];
+  moves({ square, piece }: { square: Square; piece: PieceSymbol }): string[];
+  moves({ verbose, square, piece }: { verbose: true; square?: Square; piece?: PieceSymbol }): Move[];
+  moves({ verbose, square, piece }: { verbose: false; square?: Square; piece?: PieceSymbol }): string[];
+  moves({ verbose, square, piece }: { verbose?: boolean; square?: Square; piece?: PieceSymbol }): string[] | Move[];
+  moves({ verbose = false, square, piece }: { verbose?: boolean; square?: Square; piece?: PieceSymbol } = {}): string[] | Move[] {
+    const moves = this.legalMoves().filter(move =>
+      (!square || move.from === square) && (!piece || move.piece === piece)
+    );
+    return verbose ? moves : moves.map(move => move.san);
+  }
+
+  move(move: string | { from: string; to: string; promotion?: string } | null): Move {
+    const legal = this.legalMoves();
+    const found = typeof move === 'string'
+      ? legal.find(candidate => bareSan(candidate.san) === bareSan(move))
+      : move && legal.find(candidate =>
+        candidate.from === move.from && candidate.to === move.to &&
+        (!candidate.promotion || candidate.promotion === move.promotion)
+      );
+    if (!found) {
+      throw new Error(`Invalid move: ${typeof move === 'string' ? move : JSON.stringify(move)}`);
+    }
+
+    this.load(found.after, { skipValidation: true, preserveHeaders: true });
+    this.plies.push(found);
+    return found;
+  }
+
+  undo(): Move | null {
+    const last = this.plies.pop();
+    if (!last) return null;
+    this.load(last.before, { skipValidation: true, preserveHeaders: true });
+    return last;
+  }
+
+  /**
+   * The outcome once the variant's own goal is reached (a king exploded, the
+   * horde destroyed, ...), told without generating any moves. Mate, stalemate
+   * and the draw rules are left to the usual methods.
+   */
+  decided(): VariantOutcome | null {
+    return null;
+  }
+
+  isGameOver(): boolean {
+    return this.decided() !== null || super.isGameOver();
+  }
+
+  isCheckmate(): boolean {
+    return this.isCheck() && this.legalMoves().length === 0;
+  }
+
+  isStalemate(): boolean {
+    return !this.isCheck() && this.legalMoves().length === 0;
+  }
+
+  // Each variant is won its own way, so the usual dead positions do not apply
+  isInsufficientMaterial(): boolean {
+    return false;
+  }
+
+  isThreefoldRepetition(): boolean {
+    const key = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+    const positions = [this.startFen, ...this.plies.map(ply => ply.after)].map(key);
+    const current = positions[positions.length - 1];
+    return positions.filter(position => position === current).length >= 3;
+  }
+
+  history(): string[];
+  history({ verbose }: { verbose: true }): Move[];
+  history({ verbose }: { verbose: false }): string[];
+  history({ verbose }: { verbose: boolean }): string[] | Move[];
+  history({ verbose = false }: { verbose?: boolean } = {}): string[] | Move[] {
+    return verbose ? [...this.plies] : this.plies.map(ply => ply.san);
+  }
+
+  pgn({ newline = '\n' }: { newline?: string; maxWidth?: number } = {}): string {
+    return writePgn(this.getHeaders(), this.startFen, this.plies, newline);
+  }
+
+  /**
+   * Play back a PGN written by pgn() from its FEN tag, or else from the
+   * board's starting position
+   */
+  loadPgn(pgn: string): void {
+    const { headers, moves } = readPgn(pgn);
+    if (headers.FEN) this.startFen = headers.FEN;
+    this.load(this.startFen, { skipValidation: true });
+    this.plies = [];
+    for (const [key, value] of Object.entries(headers)) {
+      if (key !== 'SetUp' && key !== 'FEN') this.setHeader(key, value);
+    }
+    for (const san of moves) {
+      this.move(san);
+    }
+  }
+}
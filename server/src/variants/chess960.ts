@@ -0,0 +1,275 @@
+import { Chess, Move, Square, Color, DEFAULT_POSITION } from 'chess.js';
+import { VariantChess, scratchBoard, kingSquare, opponent, editFen, nextFields, makeMove } from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                               CHESS960
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Chess960 castling. Wherever king and rook start, castling puts them where
+ * they would stand after castling in standard chess: king on g1 and rook on
+ * f1 towards the h-side, king on c1 and rook on d1 towards the a-side.
+ *
+ * Castling rights are kept as the squares of the rooks that may still castle.
+ * FENs may give them in X-FEN (KQkq for the outermost rook on a side, the
+ * rook's file otherwise) or in Shredder-FEN (always the file, e.g. HAha).
+ * The board writes X-FEN, which for the standard start is the usual KQkq.
+ *
+ * A castling move is given as the king capturing its own rook ("king onto
+ * rook"), so `to` is the rook's square, as in UCI_Chess960. Moving the king
+ * straight to its castled square is accepted too when that is not already
+ * an ordinary king move.
+ */
+
+// Files of the king's and rook's squares after castling
+const CASTLED_FILES = {
+  k: { king: 'g', rook: 'f' },
+  q: { king: 'c', rook: 'd' }
+};
+
+function homeRank(color: Color): string {
+  return color === 'w' ? '1' : '8';
+}
+
+function fileIndex(square: Square): number {
+  return square.charCodeAt(0) - 97;
+}
+
+/**
+ * The back rank of `color` in a FEN, one character per file ('.' if empty)
+ */
+function backRank(fen: string, color: Color): string {
+  const rows = fen.split(' ')[0].split('/');
+  return rows[color === 'w' ? 7 : 0].replace(/\d/g, count => '.'.repeat(Number(count)));
+}
+
+/**
+ * Squares of the rooks that may castle according to the castling field of
+ * `fen`, read as X-FEN or Shredder-FEN. Rights without a king and rook of
+ * their colour on the back rank are ignored.
+ */
+export function castlingRooks(fen: string): Square[] {
+  const field = fen.split(' ')[2] ?? '-';
+  const rooks: Square[] = [];
+
+  for (const right of field) {
+    if (!/[a-hkqA-HKQ]/.test(right)) continue;
+    const color: Color = right === right.toUpperCase() ? 'w' : 'b';
+    const rank = backRank(fen, color);
+    const king = rank.indexOf(color === 'w' ? 'K' : 'k');
+    const rook = color === 'w' ? 'R' : 'r';
+    if (king < 0) continue;
+
+    let file: number;
+    switch (right.toLowerCase()) {
+      case 'k':
+        file = rank.lastIndexOf(rook);
+        if (file < king) continue;
+        break;
+      case 'q':
+        file = rank.indexOf(rook);
+        if (file < 0 || file > king) continue;
+        break;
+      default:
+        file = right.toLowerCase().charCodeAt(0) - 97;
+        if (rank[file] !== rook) continue;
+    }
+
+    const square = `${String.fromCharCode(97 + file)}${homeRank(color)}` as Square;
+    if (!rooks.includes(square)) rooks.push(square);
+  }
+  return rooks;
+}
+
+/**
+ * The castling field for the rooks that may castle in a position, in X-FEN
+ * or Shredder-FEN
+ */
+export function castlingField(fen: string, rooks: Square[], shredder = false): string {
+  let field = '';
+  for (const color of ['w', 'b'] as Color[]) {
+    const rank = backRank(fen, color);
+    const king = rank.indexOf(color === 'w' ? 'K' : 'k');
+    const rook = color === 'w' ? 'R' : 'r';
+    const own = rooks.filter(square => square[1] === homeRank(color)).map(fileIndex);
+    const kingside = own.filter(file => file > king).sort((a, b) => b - a);
+    const queenside = own.filter(file => file < king).sort((a, b) => a - b);
+
+    for (const file of [...kingside, ...queenside]) {
+      const outermost = file > king ? rank.lastIndexOf(rook) === file : rank.indexOf(rook) === file;
+      const letter = !shredder && outermost
+        ? (file > king ? 'k' : 'q')
+        : String.fromCharCode(97 + file);
+      field += color === 'w' ? letter.toUpperCase() : letter;
+    }
+  }
+  return field || '-';
+}
+
+/**
+ * `fen` with its castling field replaced
+ */
+function withCastling(fen: string, field: string): string {
+  const fields = fen.split(' ');
+  fields[2] = field;
+  return fields.join(' ');
+}
+
+/**
+ * Squares from `from` to `to` along a rank, both ends included
+ */
+function rankSpan(from: Square, to: Square): Square[] {
+  const low = Math.min(fileIndex(from), fileIndex(to));
+  const high = Math.max(fileIndex(from), fileIndex(to));
+  const squares: Square[] = [];
+  for (let file = low; file <= high; file++) {
+    squares.push(`${String.fromCharCode(97 + file)}${from[1]}` as Square);
+  }
+  return squares;
+}
+
+/**
+ * Where the king ends up after a castling move
+ */
+export function castledKingSquare(move: Pick<Move, 'color' | 'flags'>): Square {
+  const side = move.flags.includes('k') ? 'k' : 'q';
+  return `${CASTLED_FILES[side].king}${homeRank(move.color)}` as Square;
+}
+
+/**
+ * The conditions a Chess960 castling move has to meet, each on its own so
+ * they can be explained. `rook` is the square of the rook castled with.
+ */
+export function castlingChecks(board: Chess, color: Color, rook: Square): {
+  king: Square | undefined;
+  kingTarget: Square;
+  rookTarget: Square;
+  hasRight: boolean;
+  notInCheck: boolean;
+  pathClear: boolean;
+  pathSafe: boolean;
+} {
+  const king = kingSquare(board, color);
+  const side = king && fileIndex(rook) > fileIndex(king) ? 'k' : 'q';
+  const kingTarget = `${CASTLED_FILES[side].king}${homeRank(color)}` as Square;
+  const rookTarget = `${CASTLED_FILES[side].rook}${homeRank(color)}` as Square;
+  const hasRight = !!king && king[1] === homeRank(color) && castlingRooks(board.fen()).includes(rook);
+  if (!king || !hasRight) {
+    return { king, kingTarget, rookTarget, hasRight, notInCheck: !board.isCheck(), pathClear: false, pathSafe: false };
+  }
+
+  // Every square either piece crosses or lands on must be empty but for the
+  // two of them
+  const pathClear = [...rankSpan(king, kingTarget), ...rankSpan(rook, rookTarget)]
+    .every(square => square === king || square === rook || !board.get(square));
+
+  // Nor may the king pass through or land on an attacked square. The final
+  // square is also tested with both pieces moved, since the rook may have been
+  // shielding it along the rank.
+  const them = opponent(color);
+  const after = scratchBoard(board.fen());
+  after.remove(king);
+  after.remove(rook);
+  after.put({ type: 'k', color }, kingTarget);
+  after.put({ type: 'r', color }, rookTarget);
+  const pathSafe = rankSpan(king, kingTarget)
+    .filter(square => square !== king)
+    .every(square => !board.isAttacked(square, them)) &&
+    !after.isAttacked(kingTarget, them);
+
+  return { king, kingTarget, rookTarget, hasRight, notInCheck: !board.isCheck(), pathClear, pathSafe };
+}
+
+export class Chess960Chess extends VariantChess {
+  // Squares of the rooks that may still castle. chess.js itself is always
+  // given '-', as it would castle by the standard rules. Declared rather than
+  // initialised, since chess.js loads the first position before field
+  // initialisers run.
+  private declare rooks: Square[];
+
+  constructor(fen: string = DEFAULT_POSITION) {
+    super(fen);
+  }
+
+  load(fen: string, options?: { skipValidation?: boolean; preserveHeaders?: boolean }): void {
+    this.rooks = castlingRooks(fen);
+    super.load(withCastling(fen, '-'), options);
+  }
+
+  fen({ forceEnpassantSquare = false, shredder = false }: { forceEnpassantSquare?: boolean; shredder?: boolean } = {}): string {
+    const fen = super.fen({ forceEnpassantSquare });
+    return withCastling(fen, castlingField(fen, this.rooks, shredder));
+  }
+
+  getCastlingRights(color: Color): { k: boolean; q: boolean } {
+    const king = kingSquare(this, color);
+    const own = this.rooks.filter(rook => rook[1] === homeRank(color));
+    return {
+      k: !!king && own.some(rook => fileIndex(rook) > fileIndex(king)),
+      q: !!king && own.some(rook => fileIndex(rook) < fileIndex(king))
+    };
+  }
+
+  // Chess960 is ordinary chess once castled, dead positions included
+  isInsufficientMaterial(): boolean {
+    return Chess.prototype.isInsufficientMaterial.call(this);
+  }
+
+  move(move: string | { from: string; to: string; promotion?: string } | null): Move {
+    if (move && typeof move !== 'string') {
+      const legal = this.legalMoves();
+      const castle = legal.find(candidate =>
+        /[kq]/.test(candidate.flags) && candidate.from === move.from && castledKingSquare(candidate) === move.to
+      );
+      const ordinary = legal.some(candidate => candidate.from === move.from && candidate.to === move.to);
+      if (castle && !ordinary) return super.move({ from: castle.from, to: castle.to });
+    }
+    return super.move(move);
+  }
+
+  protected generateMoves(): Move[] {
+    const before = this.fen();
+    const color = this.turn();
+
+    const moves = scratchBoard(withCastling(before, '-')).moves({ verbose: true }).map(move => {
+      // A king move gives up both rights, a rook leaving or taken its own
+      const rooks = this.rooks.filter(rook =>
+        rook !== move.from && rook !== move.to && !(move.piece === 'k' && rook[1] === homeRank(color))
+      );
+      return makeMove({
+        ...move,
+        san: move.san.replace(/[+#]$/, ''),
+        before,
+        after: withCastling(move.after, castlingField(move.after, rooks))
+      });
+    });
+
+    for (const rook of this.rooks) {
+      if (rook[1] !== homeRank(color)) continue;
+      const checks = castlingChecks(this, color, rook);
+      const { king, kingTarget, rookTarget } = checks;
+      if (!king || !checks.hasRight || !checks.notInCheck || !checks.pathClear || !checks.pathSafe) continue;
+
+      const kingside = fileIndex(rook) > fileIndex(king);
+      const after = editFen(before, {
+        [king]: null,
+        [rook]: null,
+        [kingTarget]: { type: 'k', color },
+        [rookTarget]: { type: 'r', color }
+      }, { ...nextFields(before, false), castling: '-' });
+      const rooks = this.rooks.filter(square => square[1] !== homeRank(color));
+
+      moves.push(makeMove({
+        color,
+        from: king,
+        to: rook,
+        piece: 'k',
+        flags: kingside ? 'k' : 'q',
+        san: kingside ? 'O-O' : 'O-O-O',
+        before,
+        after: withCastling(after, castlingField(after, rooks))
+      }));
+    }
+    return moves;
+  }
+}
@@ -0,0 +1,197 @@
+import { Chess, Move, Square, DEFAULT_POSITION } from 'chess.js';
+import { readPgn, writePgn } from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                          POCKETS AND DROPS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Drop moves for Crazyhouse and Bughouse.
+ *
+ * chess.js knows nothing of pockets, so DropChess plays drops by setting up
+ * the position after the drop and keeps its own list of plies for history,
+ * PGN and takebacks. Board moves still go through chess.js as usual; only
+ * undoing a drop has to replay the game from the start.
+ *
+ * The pockets themselves live in the variant state, not on the board: the
+ * board only checks that a drop is legal where it lands.
+ */
+
+export type DropPiece = 'p' | 'n' | 'b' | 'r' | 'q';
+
+export type Pocket = Record<DropPiece, number>;
+
+export const DROP_PIECES: DropPiece[] = ['p', 'n', 'b', 'r', 'q'];
+
+// Why a drop is not allowed on the board as it stands
+export type DropError = 'square_occupied' | 'pawn_on_back_rank' | 'king_in_check';
+
+export function emptyPocket(): Pocket {
+  return { p: 0, n: 0, b: 0, r: 0, q: 0 };
+}
+
+export function isDropPiece(piece: string): piece is DropPiece {
+  return (DROP_PIECES as string[]).includes(piece);
+}
+
+/**
+ * Parse drop notation such as "N@f3", "P@e6" or "@e6" (a pawn)
+ */
+export function parseDrop(san: string): { piece: DropPiece; to: Square } | null {
+  const match = san.match(/^([PNBRQ]?)@([a-h][1-8])[+#]?$/);
+  if (!match) return null;
+  return { piece: (match[1] || 'P').toLowerCase() as DropPiece, to: match[2] as Square };
+}
+
+/**
+ * Whether a ply from DropChess.history() is a drop
+ */
+export function isDropMove(move: Pick<Move, 'flags'>): boolean {
+  return move.flags === 'd';
+}
+
+export class DropChess extends Chess {
+  private readonly startFen: string;
+  private plies: Move[] = [];
+
+  constructor(fen: string = DEFAULT_POSITION) {
+    super(fen);
+    this.startFen = fen;
+  }
+
+  /**
+   * Rebuild a game from its PGN, drops included
+   */
+  static fromPgn(pgn: string): DropChess {
+    const { headers, moves } = readPgn(pgn);
+    const game = new DropChess(headers.FEN);
+    for (const san of moves) {
+      game.move(san);
+    }
+    return game;
+  }
+
+  move(
+    move: string | { from: string; to: string; promotion?: string } | null,
+    options?: { strict?: boolean }
+  ): Move {
+    const drop = typeof move === 'string' ? parseDrop(move) : null;
+    if (drop) return this.drop(drop.piece, drop.to);
+
+    const result = super.move(move, options);
+    this.plies.push(result);
+    return result;
+  }
+
+  /**
+   * Why dropping `piece` on `square` is illegal for the side to move, or null
+   * if it is allowed (whether the piece is in hand is the caller's business)
+   */
+  dropError(piece: DropPiece, square: Square): DropError | null {
+    if (this.get(square)) return 'square_occupied';
+    if (piece === 'p' && (square[1] === '1' || square[1] === '8')) return 'pawn_on_back_rank';
+
+    // A drop never exposes the king, so it is only illegal if the check stands
+    const test = new Chess(this.fen());
+    test.put({ type: piece, color: this.turn() }, square);
+    if (test.inCheck()) return 'king_in_check';
+
+    return null;
+  }
+
+  /**
+   * Whether the side to move has any legal drop from `pocket`
+   */
+  hasLegalDrop(pocket: Pocket): boolean {
+    const pieces = DROP_PIECES.filter(piece => pocket[piece] > 0);
+    if (pieces.length === 0) return false;
+    return this.board().some((row, i) => row.some((occupant, file) => {
+      if (occupant) return false;
+      const square = `${'abcdefgh'[file]}${8 - i}` as Square;
+      return pieces.some(piece => !this.dropError(piece, square));
+    }));
+  }
+
+  /**
+   * Drop a piece of the side to move; throws like move() when illegal
+   */
+  drop(piece: DropPiece, square: Square): Move {
+    const error = this.dropError(piece, square);
+    if (error) {
+      throw new Error(`Invalid drop: ${piece.toUpperCase()}@${square} (${error})`);
+    }
+
+    const color = this.turn();
+    const before = this.fen();
+    const [, , castling, , halfmoves, fullmoves] = before.split(' ');
+
+    // Set up the position after the drop: the piece on its square, the other
+    // side to move and no en passant
+    this.put({ type: piece, color }, square);
+    const placement = this.fen().split(' ')[0];
+    const after = [
+      placement,
+      color === 'w' ? 'b' : 'w',
+      castling,
+      '-',
+      String(piece === 'p' ? 0 : Number(halfmoves) + 1),
+      String(color === 'b' ? Number(fullmoves) + 1 : Number(fullmoves))
+    ].join(' ');
+    this.load(after, { preserveHeaders: true });
+
+    const san = `${piece.toUpperCase()}@${square}${this.inCheck() ? '+' : ''}`;
+    const result: Move = Object.assign(Object.create(Move.prototype), {
+      color,
+      from: square,
+      to: square,
+      piece,
+      flags: 'd',
+      san,
+      lan: `${piece.toUpperCase()}@${square}`,
+      before,
+      after
+    });
+    this.plies.push(result);
+    return result;
+  }
+
+  undo(): Move | null {
+    const last = this.plies.pop();
+    if (!last) return null;
+
+    // Board moves since the last drop are still in chess.js's own history
+    if (!isDropMove(last)) {
+      super.undo();
+      return last;
+    }
+
+    const replay = this.plies;
+    this.plies = [];
+    this.load(this.startFen, { preserveHeaders: true });
+    for (const ply of replay) {
+      if (isDropMove(ply)) {
+        this.drop(ply.piece as DropPiece, ply.to);
+      } else {
+        this.move({ from: ply.from, to: ply.to, promotion: ply.promotion });
+      }
+    }
+    return last;
+  }
+
+  // Captured material comes back from the pockets, so it never runs out
+  isInsufficientMaterial(): boolean {
+    return false;
+  }
+
+  history(): string[];
+  history({ verbose }: { verbose: true }): Move[];
+  history({ verbose }: { verbose: false }): string[];
+  history({ verbose }: { verbose: boolean }): string[] | Move[];
+  history({ verbose = false }: { verbose?: boolean } = {}): string[] | Move[] {
+    return verbose ? [...this.plies] : this.plies.map(ply => ply.san);
+  }
+
+  pgn({ newline = '\n' }: { newline?: string; maxWidth?: number } = {}): string {
+    return writePgn(this.getHeaders(), this.startFen, this.plies, newline);
+  }
+}
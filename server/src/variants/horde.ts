@@ -0,0 +1,59 @@
+import { Move, Square } from 'chess.js';
+import { VariantChess, VariantOutcome, scratchBoard, editFen, nextFields, makeMove, pieceCount } from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                                HORDE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Horde: White has 36 pawns and no king against Black's usual army. Black
+ * wins by capturing every white piece, White by checkmating Black. White
+ * pawns on the first rank may advance two squares, though not en passant.
+ *
+ * With no white king chess.js already returns every white move unchecked, so
+ * only the first-rank double steps have to be added.
+ */
+
+export const HORDE_START = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+export class HordeChess extends VariantChess {
+  constructor(fen: string = HORDE_START) {
+    super(fen);
+  }
+
+  // Black wins once the whole horde is captured
+  decided(): VariantOutcome | null {
+    return pieceCount(this, 'w') === 0 ? 'b' : null;
+  }
+
+  // With no white pieces left White has no moves either, but that is a loss
+  isStalemate(): boolean {
+    return !this.decided() && super.isStalemate();
+  }
+
+  protected generateMoves(): Move[] {
+    const before = this.fen();
+    const moves = scratchBoard(before).moves({ verbose: true })
+      .map(move => makeMove({ ...move, san: move.san.replace(/[+#]$/, '') }));
+    if (this.turn() === 'b') return moves;
+
+    for (const file of 'abcdefgh') {
+      const from = `${file}1` as Square;
+      const over = `${file}2` as Square;
+      const to = `${file}3` as Square;
+      const piece = this.get(from);
+      if (piece?.type !== 'p' || piece.color !== 'w' || this.get(over) || this.get(to)) continue;
+      moves.push(makeMove({
+        color: 'w',
+        from,
+        to,
+        piece: 'p',
+        flags: 'n',
+        san: to,
+        before,
+        after: editFen(before, { [from]: null, [to]: piece }, nextFields(before, true))
+      }));
+    }
+    return moves;
+  }
+}
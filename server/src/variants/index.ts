@@ -1,10 +1,32 @@
 import { Chess, Square, Move } from 'chess.js';
+import { DropChess, DropPiece, Pocket, emptyPocket, isDropMove } from './drops';
+import { VariantChess } from './board';
+import { AtomicChess } from './atomic';
+import { AntichessChess } from './antichess';
+import { HordeChess } from './horde';
+import { RacingKingsChess } from './racingKings';
+import { Chess960Chess } from './chess960';
+
+export * from './drops';
+export * from './board';
+export * from './atomic';
+export * from './antichess';
+export * from './horde';
+export * from './racingKings';
+export * from './chess960';
 
 // ═══════════════════════════════════════════════════════════════════════════
 //                       CHESS VARIANTS ENGINE
 // ═══════════════════════════════════════════════════════════════════════════
 
-export type VariantType = 'standard' | 'chess960' | 'threeCheck' | 'kingOfTheHill';
+export type VariantType =
+  | 'standard' | 'chess960' | 'threeCheck' | 'kingOfTheHill' | 'crazyhouse' | 'bughouse'
+  | 'atomic' | 'antichess' | 'horde' | 'racingKings';
+
+export const VARIANT_TYPES: VariantType[] = [
+  'standard', 'chess960', 'threeCheck', 'kingOfTheHill', 'crazyhouse', 'bughouse',
+  'atomic', 'antichess', 'horde', 'racingKings'
+];
 
 export interface VariantState {
   variant: VariantType;
@@ -14,6 +36,17 @@ export interface VariantState {
   checkCount?: { white: number; black: number };
   // King of the Hill
   hillReached?: boolean;
+  // Crazyhouse and Bughouse: pieces in hand, and the squares of promoted pieces
+  // (which go back into a pocket as pawns when captured)
+  pockets?: { white: Pocket; black: Pocket };
+  promoted?: Square[];
+  // Bughouse: which board this is and the room playing the other one
+  bughouse?: BughouseLink;
+}
+
+export interface BughouseLink {
+  board: 'a' | 'b';
+  partnerRoom: string;
 }
 
 export interface VariantGameResult {
@@ -91,9 +124,8 @@ export function generateChess960Position(positionId?: number): { positionId: num
   const blackRank = backRank.join('');
   const whiteRank = blackRank.toUpperCase();
 
-  // Note: chess.js doesn't support Shredder-FEN (Chess960 castling notation)
-  // Using standard KQkq notation - castling will work but follows standard rules
-  // For full Chess960 castling support, a specialized library would be needed
+  // Each side starts with one rook either side of the king, so in X-FEN the
+  // rights are KQkq for every position (Shredder-FEN would name the files)
   const castling = 'KQkq';
 
   const fen = `${blackRank}/pppppppp/8/8/8/8/PPPPPPPP/${whiteRank} w ${castling} - 0 1`;
@@ -262,22 +294,229 @@ export function getKOTHResult(game: Chess): VariantGameResult {
   return { gameOver: false };
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+//                        CRAZYHOUSE AND BUGHOUSE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Variants played with pockets and drops (on a DropChess board)
+ */
+export function isDropVariant(variant: VariantType): boolean {
+  return variant === 'crazyhouse' || variant === 'bughouse';
+}
+
+/**
+ * The piece a move puts in hand: what it captured, or a pawn if the captured
+ * piece had been promoted
+ */
+export function capturedPocketPiece(move: Move, promoted: Square[] = []): DropPiece | null {
+  if (!move.captured || isDropMove(move)) return null;
+  return promoted.includes(move.to) ? 'p' : move.captured as DropPiece;
+}
+
+/**
+ * Put a piece in one side's pocket (Bughouse captures land on the partner board)
+ */
+export function addToPocket(state: VariantState, color: 'white' | 'black', piece: DropPiece): VariantState {
+  const pockets = state.pockets ?? { white: emptyPocket(), black: emptyPocket() };
+  return {
+    ...state,
+    pockets: { ...pockets, [color]: { ...pockets[color], [piece]: pockets[color][piece] + 1 } }
+  };
+}
+
+/**
+ * Pockets and promoted squares after the last ply. In Crazyhouse a capture
+ * goes into the captor's own pocket; in Bughouse the caller hands it to the
+ * partner board instead.
+ */
+function updatePockets(game: Chess, state: VariantState, moverColor: 'white' | 'black'): VariantState {
+  const history = game.history({ verbose: true });
+  const last = history[history.length - 1];
+  if (!last) return state;
+
+  const promoted = state.promoted ?? [];
+  let newState: VariantState = { ...state, promoted: promoted.filter(square => square !== last.to) };
+
+  if (isDropMove(last)) {
+    const piece = last.piece as DropPiece;
+    const pocket = state.pockets![moverColor];
+    newState.pockets = { ...state.pockets!, [moverColor]: { ...pocket, [piece]: pocket[piece] - 1 } };
+    return newState;
+  }
+
+  if (promoted.includes(last.from)) {
+    newState.promoted = [...newState.promoted!.filter(square => square !== last.from), last.to];
+  }
+  if (last.promotion) {
+    newState.promoted = [...newState.promoted!, last.to];
+  }
+
+  const captured = capturedPocketPiece(last, promoted);
+  if (captured && state.variant === 'crazyhouse') {
+    newState = addToPocket(newState, moverColor, captured);
+  }
+  return newState;
+}
+
+/**
+ * Crazyhouse and Bughouse result: it is only mate (or stalemate) if no drop
+ * helps either. In Bughouse a player may wait for a piece from their partner,
+ * so it is only mate if no piece at all could be dropped to block.
+ */
+export function getDropVariantResult(game: Chess, state: VariantState): VariantGameResult {
+  if (game.moves().length === 0) {
+    const color = game.turn() === 'w' ? 'white' : 'black';
+    const hand = state.variant === 'bughouse'
+      ? { p: 1, n: 1, b: 1, r: 1, q: 1 }
+      : state.pockets?.[color] ?? emptyPocket();
+    const canDrop = game instanceof DropChess && game.hasLegalDrop(hand);
+
+    if (!canDrop && game.inCheck()) {
+      return {
+        gameOver: true,
+        winner: game.turn() === 'w' ? 'black' : 'white',
+        reason: 'Checkmate'
+      };
+    }
+    if (!canDrop) {
+      return { gameOver: true, winner: 'draw', reason: 'Stalemate' };
+    }
+  }
+
+  // Material never runs out while it can come back from the pockets, so only
+  // repetition draws
+  if (game.isThreefoldRepetition()) {
+    return { gameOver: true, winner: 'draw', reason: 'Threefold repetition' };
+  }
+
+  return { gameOver: false };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                 ATOMIC, ANTICHESS, HORDE AND RACING KINGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create the board for a variant with its own move rules (see board.ts), or
+ * null if chess.js (or DropChess) plays it. `fen` resumes from a position
+ * instead of the variant's start.
+ */
+export function createVariantBoard(variant: VariantType, fen?: string): VariantChess | null {
+  switch (variant) {
+    case 'atomic':
+      return new AtomicChess(fen);
+    case 'antichess':
+      return new AntichessChess(fen);
+    case 'horde':
+      return new HordeChess(fen);
+    case 'racingKings':
+      return new RacingKingsChess(fen);
+    case 'chess960':
+      return new Chess960Chess(fen);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Mate, stalemate and the draw rules, as every variant without a special
+ * ending checks them
+ */
+function getStandardResult(game: Chess): VariantGameResult {
+  if (game.isCheckmate()) {
+    return {
+      gameOver: true,
+      winner: game.turn() === 'w' ? 'black' : 'white',
+      reason: 'Checkmate'
+    };
+  }
+  if (game.isStalemate()) {
+    return { gameOver: true, winner: 'draw', reason: 'Stalemate' };
+  }
+  if (game.isThreefoldRepetition()) {
+    return { gameOver: true, winner: 'draw', reason: 'Threefold repetition' };
+  }
+  if (game.isInsufficientMaterial()) {
+    return { gameOver: true, winner: 'draw', reason: 'Insufficient material' };
+  }
+  if (game.isDraw()) {
+    return { gameOver: true, winner: 'draw', reason: 'Fifty-move rule' };
+  }
+  return { gameOver: false };
+}
+
+/**
+ * Get Atomic game result: an exploded king loses
+ */
+export function getAtomicResult(game: Chess): VariantGameResult {
+  const outcome = game instanceof AtomicChess ? game.decided() : null;
+  if (outcome) {
+    return {
+      gameOver: true,
+      winner: outcome === 'w' ? 'white' : 'black',
+      reason: 'King exploded'
+    };
+  }
+  return getStandardResult(game);
+}
+
+/**
+ * Get Antichess game result: the side to move wins with no pieces or no
+ * moves left
+ */
+export function getAntichessResult(game: Chess): VariantGameResult {
+  const outcome = game instanceof AntichessChess ? game.decided() : null;
+  if (outcome || game.moves().length === 0) {
+    return {
+      gameOver: true,
+      winner: game.turn() === 'w' ? 'white' : 'black',
+      reason: outcome ? 'All pieces lost' : 'No legal moves'
+    };
+  }
+  return getStandardResult(game);
+}
+
+/**
+ * Get Horde game result: Black wins once the horde is gone
+ */
+export function getHordeResult(game: Chess): VariantGameResult {
+  if (game instanceof HordeChess && game.decided()) {
+    return { gameOver: true, winner: 'black', reason: 'Horde destroyed' };
+  }
+  return getStandardResult(game);
+}
+
+/**
+ * Get Racing Kings game result: first king to the eighth rank wins
+ */
+export function getRacingKingsResult(game: Chess): VariantGameResult {
+  const outcome = game instanceof RacingKingsChess ? game.decided() : null;
+  if (outcome === 'draw') {
+    return { gameOver: true, winner: 'draw', reason: 'Both kings reached the goal' };
+  }
+  if (outcome) {
+    return {
+      gameOver: true,
+      winner: outcome === 'w' ? 'white' : 'black',
+      reason: 'King reached the eighth rank'
+    };
+  }
+  return getStandardResult(game);
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 //                        VARIANT FACTORY
 // ═══════════════════════════════════════════════════════════════════════════
 
 export function createVariantGame(variant: VariantType, positionId?: number): { game: Chess; state: VariantState } {
-  let fen: string | undefined;
   const state: VariantState = { variant };
 
   switch (variant) {
     case 'chess960': {
       const pos = generateChess960Position(positionId);
       state.positionId = pos.positionId;
-      // Chess960 FEN needs special handling - for now use standard for move validation
-      // The actual position would need a Chess960-aware library
-      fen = pos.fen;
-      break;
+      return { game: new Chess960Chess(pos.fen), state };
     }
     case 'threeCheck':
       state.checkCount = { white: 0, black: 0 };
@@ -285,14 +524,62 @@ export function createVariantGame(variant: VariantType, positionId?: number): {
     case 'kingOfTheHill':
       // Standard starting position
       break;
+    case 'crazyhouse':
+    case 'bughouse':
+      state.pockets = { white: emptyPocket(), black: emptyPocket() };
+      state.promoted = [];
+      return { game: new DropChess(), state };
+    case 'atomic':
+    case 'antichess':
+    case 'horde':
+    case 'racingKings':
+      return { game: createVariantBoard(variant)!, state };
     case 'standard':
     default:
       // Standard chess
       break;
   }
 
-  const game = fen ? new Chess(fen) : new Chess();
-  return { game, state };
+  return { game: new Chess(), state };
+}
+
+/**
+ * Rebuild a game on its variant's board. The PGN is replayed so move history
+ * (and repetition) survives; if it does not lead to `fen`, the bare position
+ * is loaded instead.
+ */
+export function restoreVariantGame(saved: { pgn: string; fen: string; variant?: string }): Chess {
+  if (saved.variant && isDropVariant(saved.variant as VariantType)) {
+    let dropGame: DropChess | null = null;
+    try {
+      dropGame = DropChess.fromPgn(saved.pgn);
+    } catch {
+      // Handled below
+    }
+    return dropGame && dropGame.fen() === saved.fen ? dropGame : new DropChess(saved.fen);
+  }
+
+  // Chess960, Atomic, Antichess, Horde and Racing Kings replay on their own boards
+  const board = saved.variant ? createVariantBoard(saved.variant as VariantType) : null;
+  if (board) {
+    try {
+      board.loadPgn(saved.pgn);
+    } catch {
+      // Handled below
+    }
+    return board.fen() === saved.fen ? board : createVariantBoard(saved.variant as VariantType, saved.fen)!;
+  }
+
+  const game = new Chess();
+  try {
+    game.loadPgn(saved.pgn);
+  } catch {
+    // Handled below
+  }
+  if (game.fen() !== saved.fen) {
+    game.load(saved.fen);
+  }
+  return game;
 }
 
 export function getVariantResult(game: Chess, state: VariantState): VariantGameResult {
@@ -301,30 +588,21 @@ export function getVariantResult(game: Chess, state: VariantState): VariantGameR
       return getThreeCheckResult(game, state as ThreeCheckState);
     case 'kingOfTheHill':
       return getKOTHResult(game);
+    case 'crazyhouse':
+    case 'bughouse':
+      return getDropVariantResult(game, state);
+    case 'atomic':
+      return getAtomicResult(game);
+    case 'antichess':
+      return getAntichessResult(game);
+    case 'horde':
+      return getHordeResult(game);
+    case 'racingKings':
+      return getRacingKingsResult(game);
     case 'chess960':
     case 'standard':
     default:
-      // Standard game over check
-      if (game.isCheckmate()) {
-        return {
-          gameOver: true,
-          winner: game.turn() === 'w' ? 'black' : 'white',
-          reason: 'Checkmate'
-        };
-      }
-      if (game.isStalemate()) {
-        return { gameOver: true, winner: 'draw', reason: 'Stalemate' };
-      }
-      if (game.isThreefoldRepetition()) {
-        return { gameOver: true, winner: 'draw', reason: 'Threefold repetition' };
-      }
-      if (game.isInsufficientMaterial()) {
-        return { gameOver: true, winner: 'draw', reason: 'Insufficient material' };
-      }
-      if (game.isDraw()) {
-        return { gameOver: true, winner: 'draw', reason: 'Fifty-move rule' };
-      }
-      return { gameOver: false };
+      return getStandardResult(game);
   }
 }
 
@@ -340,5 +618,8 @@ export function updateVariantState(
       variant: 'threeCheck'
     };
   }
+  if (isDropVariant(state.variant) && state.pockets) {
+    return updatePockets(game, state, moverColor);
+  }
   return state;
 }
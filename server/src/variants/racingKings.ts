@@ -0,0 +1,46 @@
+import { Move, Color } from 'chess.js';
+import { VariantChess, VariantOutcome, scratchBoard, kingSquare } from './board';
+
+// ═══════════════════════════════════════════════════════════════════════════
+//                             RACING KINGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Racing Kings: both sides start on the first two ranks and race their king
+ * to the eighth. Giving check is not allowed (and so neither is mate). If
+ * White gets there first, Black has one move to arrive too and draw.
+ */
+
+export const RACING_KINGS_START = '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+
+export class RacingKingsChess extends VariantChess {
+  constructor(fen: string = RACING_KINGS_START) {
+    super(fen);
+  }
+
+  /**
+   * Whether `color`'s king stands on the eighth rank
+   */
+  reachedGoal(color: Color): boolean {
+    return kingSquare(this, color)?.[1] === '8';
+  }
+
+  // The race is over once a king is home (and Black had its chance to follow)
+  decided(): VariantOutcome | null {
+    const white = this.reachedGoal('w');
+    const black = this.reachedGoal('b');
+    if (white && black) return 'draw';
+    if (black) return 'b';
+    if (!white) return null;
+
+    // White got there first: Black may still reply by reaching the goal too
+    if (this.turn() === 'w') return 'w';
+    const catchUp = this.legalMoves().some(move => move.piece === 'k' && move.to[1] === '8');
+    return catchUp ? null : 'w';
+  }
+
+  protected generateMoves(): Move[] {
+    return scratchBoard(this.fen()).moves({ verbose: true })
+      .filter(move => !/[+#]$/.test(move.san));
+  }
+}